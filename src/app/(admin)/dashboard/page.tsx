@@ -0,0 +1,81 @@
+"use client";
+
+import React, { useCallback } from "react";
+import { useRouter } from "next/navigation";
+import InteractiveMapDashboard from "@/components/InteractiveMapDashboard";
+import SocialMediaAnalytics from "@/components/SocialMediaAnalytics";
+import NotificationCenter from "@/components/NotificationCenter";
+import SlaMetricsCard from "@/components/SlaMetricsCard";
+import { useAdminLanguage } from "@/components/AdminShell";
+import { useAlertDrafts } from "@/hooks/use-alert-drafts";
+import { useReports } from "@/hooks/use-reports";
+import { useSavedViews } from "@/hooks/use-saved-views";
+import { useHasPermission } from "@/lib/auth/session-context";
+import { DEFAULT_MAP_VIEW } from "@/lib/map/map-view";
+import { setReportSelection, type ReportSelection } from "@/lib/reports/selection";
+
+export default function DashboardPage() {
+  const language = useAdminLanguage();
+  const canExport = useHasPermission("data.export");
+  const canSendAlerts = useHasPermission("alerts.send");
+  const canDraftAlerts = useHasPermission("reports.write");
+  const { reports } = useReports();
+  const { drafts, create: createDraft, send, discard } = useAlertDrafts();
+  const canPublishViews = useHasPermission("system.configure");
+  const {
+    views,
+    defaultView,
+    create: createView,
+    remove: removeView,
+    setDefault: setDefaultView,
+  } = useSavedViews();
+  const router = useRouter();
+
+  const handleSelectReports = useCallback(
+    (selection: ReportSelection) => {
+      setReportSelection(selection);
+      router.push("/reports");
+    },
+    [router]
+  );
+
+  return (
+    <div className="grid grid-rows-[auto,auto,1fr] gap-4 p-4 sm:p-6 h-full">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="lg:col-span-3">
+          <InteractiveMapDashboard
+            reports={reports}
+            className="w-full"
+            defaultCluster
+            defaultHeatmap={false}
+            showClusterToggle
+            showHeatmapToggle
+            initialCenter={DEFAULT_MAP_VIEW.center}
+            initialZoom={DEFAULT_MAP_VIEW.zoom}
+            language={language === "hi" ? "hi" : "en"}
+            canExport={canExport}
+            onDraftAlert={canDraftAlerts ? createDraft : undefined}
+            onSelectReports={handleSelectReports}
+            savedViews={views}
+            defaultViewId={defaultView?.id ?? null}
+            startView={defaultView}
+            onSaveView={createView}
+            onDeleteView={removeView}
+            onSetDefaultView={setDefaultView}
+            canPublishViews={canPublishViews}
+          />
+        </div>
+      </div>
+      <SlaMetricsCard reports={reports} language={language === "hi" ? "hi" : "en"} />
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-4 min-h-0">
+        <SocialMediaAnalytics />
+        <NotificationCenter
+          canSendAlerts={canSendAlerts}
+          drafts={drafts}
+          onSend={send}
+          onDiscardDraft={canSendAlerts ? discard : undefined}
+        />
+      </div>
+    </div>
+  );
+}
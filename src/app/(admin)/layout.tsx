@@ -0,0 +1,30 @@
+import { redirect } from "next/navigation";
+import AdminShell from "@/components/AdminShell";
+import { getSession, sessionPermissions } from "@/lib/auth/guard";
+import { isRole } from "@/lib/auth/roles";
+import { SessionUserProvider } from "@/lib/auth/session-context";
+
+export default async function AdminLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  const session = await getSession();
+  if (!session || session.user.status === "disabled") redirect("/login");
+
+  const { user } = session;
+  return (
+    <SessionUserProvider
+      user={{
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        image: user.image ?? undefined,
+        role: isRole(user.role) ? user.role : "viewer",
+        permissions: sessionPermissions(session),
+      }}
+    >
+      <AdminShell>{children}</AdminShell>
+    </SessionUserProvider>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import InteractiveMapDashboard from "@/components/InteractiveMapDashboard";
+import { useAdminLanguage } from "@/components/AdminShell";
+import { useAssets } from "@/hooks/use-assets";
+import { useBasemaps } from "@/hooks/use-basemaps";
+import { useGeofences } from "@/hooks/use-geofences";
+import { useReports } from "@/hooks/use-reports";
+import { useSavedViews } from "@/hooks/use-saved-views";
+import { setReportSelection, type ReportSelection } from "@/lib/reports/selection";
+import { createAlertDraft } from "@/lib/alerts/client";
+import { useHasPermission } from "@/lib/auth/session-context";
+import {
+  DEFAULT_MAP_VIEW,
+  mapSearchParams,
+  parseMapSearchParams,
+  reportTimeDomain,
+  type MapFilters,
+  type MapView,
+} from "@/lib/map/map-view";
+
+export default function MapPage() {
+  const language = useAdminLanguage();
+  const canExport = useHasPermission("data.export");
+  const canEditMapData = useHasPermission("reports.write");
+  const { reports } = useReports();
+  const { geofences, create: createGeofence, remove: removeGeofence } = useGeofences();
+  const { basemaps } = useBasemaps();
+  const { assets, create: createAsset, remove: removeAsset } = useAssets();
+  const canPublishViews = useHasPermission("system.configure");
+  const {
+    views,
+    defaultView,
+    create: createView,
+    remove: removeView,
+    setDefault: setDefaultView,
+  } = useSavedViews();
+
+  // The query string seeds the map once; afterwards the map writes back to it
+  const searchParams = useSearchParams();
+  const [initial] = useState(() => parseMapSearchParams(new URLSearchParams(searchParams.toString())));
+  const view = useRef<MapView | undefined>(initial.view);
+  const filters = useRef<MapFilters | null>(null);
+  const domain = useMemo(() => reportTimeDomain(reports), [reports]);
+  const router = useRouter();
+  // Read once too: syncing the URL below drops the parameter
+  const [focusReportId] = useState(() => searchParams.get("focus"));
+  // A link that sets the view or any filter wins over the default view
+  const linked = Boolean(initial.view || focusReportId || Object.keys(initial.filters).length);
+
+  const syncUrl = useCallback(() => {
+    if (!filters.current) return;
+    const query = mapSearchParams(view.current, filters.current, domain).toString();
+    window.history.replaceState(null, "", `${window.location.pathname}${query ? `?${query}` : ""}`);
+  }, [domain]);
+
+  useEffect(syncUrl, [syncUrl]);
+
+  const handleFilterChange = useCallback(
+    (next: MapFilters) => {
+      filters.current = next;
+      syncUrl();
+    },
+    [syncUrl]
+  );
+
+  const handleViewChange = useCallback(
+    (next: MapView) => {
+      view.current = next;
+      syncUrl();
+    },
+    [syncUrl]
+  );
+
+  // A cluster or area picked on the map opens the report table filtered to it
+  const handleSelectReports = useCallback(
+    (selection: ReportSelection) => {
+      setReportSelection(selection);
+      router.push("/reports");
+    },
+    [router]
+  );
+
+  return (
+    <div className="p-4 sm:p-6 h-full">
+      <InteractiveMapDashboard
+        reports={reports}
+        className="w-full"
+        defaultCluster
+        defaultHeatmap={false}
+        showClusterToggle
+        showHeatmapToggle
+        initialCenter={initial.view?.center ?? DEFAULT_MAP_VIEW.center}
+        initialZoom={initial.view?.zoom ?? DEFAULT_MAP_VIEW.zoom}
+        initialFilters={initial.filters}
+        onFilterChange={handleFilterChange}
+        onViewChange={handleViewChange}
+        language={language === "hi" ? "hi" : "en"}
+        canExport={canExport}
+        geofences={geofences}
+        onSaveGeofence={canEditMapData ? createGeofence : undefined}
+        onDeleteGeofence={canEditMapData ? removeGeofence : undefined}
+        basemaps={basemaps}
+        assets={assets}
+        onSaveAsset={canEditMapData ? createAsset : undefined}
+        onDeleteAsset={canEditMapData ? removeAsset : undefined}
+        onDraftAlert={canEditMapData ? createAlertDraft : undefined}
+        onSelectReports={handleSelectReports}
+        focusReportId={focusReportId}
+        savedViews={views}
+        defaultViewId={defaultView?.id ?? null}
+        startView={linked ? null : defaultView}
+        onSaveView={createView}
+        onDeleteView={removeView}
+        onSetDefaultView={setDefaultView}
+        canPublishViews={canPublishViews}
+      />
+    </div>
+  );
+}
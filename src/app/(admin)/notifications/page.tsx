@@ -0,0 +1,20 @@
+"use client";
+
+import NotificationCenter from "@/components/NotificationCenter";
+import { useAlertDrafts } from "@/hooks/use-alert-drafts";
+import { useHasPermission } from "@/lib/auth/session-context";
+
+export default function NotificationsPage() {
+  const canSendAlerts = useHasPermission("alerts.send");
+  const { drafts, send, discard } = useAlertDrafts();
+  return (
+    <div className="p-4 sm:p-6">
+      <NotificationCenter
+        canSendAlerts={canSendAlerts}
+        drafts={drafts}
+        onSend={send}
+        onDiscardDraft={canSendAlerts ? discard : undefined}
+      />
+    </div>
+  );
+}
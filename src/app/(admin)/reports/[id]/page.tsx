@@ -0,0 +1,4 @@
+// The layout's table opens the details dialog for the id in the URL
+export default function ReportPage() {
+  return null;
+}
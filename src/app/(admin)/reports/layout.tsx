@@ -0,0 +1,70 @@
+"use client";
+
+import React, { useCallback, useRef, useState } from "react";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+import HazardReportManagement from "@/components/HazardReportManagement";
+import { useReportSelection } from "@/hooks/use-report-selection";
+import { useHasPermission, useSessionUser } from "@/lib/auth/session-context";
+import type { HazardReport } from "@/lib/reports/hazard-report";
+import {
+  parseReportTableState,
+  reportTableSearchParams,
+  type ReportTableState,
+} from "@/lib/reports/table-state";
+
+// The table lives in the layout so /reports and /reports/[id] share one instance;
+// the child pages only decide which report's details are open.
+export default function ReportsLayout({ children }: { children: React.ReactNode }) {
+  const router = useRouter();
+  const params = useParams<{ id?: string }>();
+  const searchParams = useSearchParams();
+  const canUpdate = useHasPermission("reports.write");
+  const canExport = useHasPermission("data.export");
+  const { id: userId } = useSessionUser();
+  const [selection, setSelection] = useReportSelection();
+
+  const [initialState] = useState(() =>
+    parseReportTableState(new URLSearchParams(searchParams.toString()))
+  );
+  const query = useRef(reportTableSearchParams(initialState).toString());
+
+  const handleStateChange = useCallback((state: ReportTableState) => {
+    query.current = reportTableSearchParams(state).toString();
+    const search = query.current ? `?${query.current}` : "";
+    window.history.replaceState(null, "", `${window.location.pathname}${search}`);
+  }, []);
+
+  const handleOpenReportChange = useCallback(
+    (id: string | null) => {
+      const search = query.current ? `?${query.current}` : "";
+      const path = id ? `/reports/${encodeURIComponent(id)}` : "/reports";
+      if (path !== window.location.pathname) router.push(`${path}${search}`, { scroll: false });
+    },
+    [router]
+  );
+
+  const handleShowOnMap = useCallback(
+    (report: HazardReport) => router.push(`/map?focus=${encodeURIComponent(report.id)}`),
+    [router]
+  );
+
+  return (
+    <>
+      <div className="p-4 sm:p-6">
+        <HazardReportManagement
+          canUpdate={canUpdate}
+          canExport={canExport}
+          initialState={initialState}
+          onStateChange={handleStateChange}
+          openReportId={params.id ? decodeURIComponent(params.id) : null}
+          onOpenReportChange={handleOpenReportChange}
+          selection={selection}
+          onClearSelection={() => setSelection(null)}
+          onShowOnMap={handleShowOnMap}
+          currentUserId={userId}
+        />
+      </div>
+      {children}
+    </>
+  );
+}
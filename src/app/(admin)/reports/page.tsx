@@ -0,0 +1,4 @@
+// The report table is rendered by the layout
+export default function ReportsPage() {
+  return null;
+}
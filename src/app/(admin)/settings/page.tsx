@@ -0,0 +1,17 @@
+"use client";
+
+import SystemSettings from "@/components/SystemSettings";
+import { useSessionUser } from "@/lib/auth/session-context";
+
+export default function SettingsPage() {
+  const user = useSessionUser();
+  return (
+    <div className="p-4 sm:p-6">
+      <SystemSettings
+        currentRole={user.role}
+        currentUserId={user.id}
+        permissions={user.permissions}
+      />
+    </div>
+  );
+}
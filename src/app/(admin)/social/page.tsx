@@ -0,0 +1,9 @@
+import SocialMediaAnalytics from "@/components/SocialMediaAnalytics";
+
+export default function SocialPage() {
+  return (
+    <div className="p-4 sm:p-6">
+      <SocialMediaAnalytics />
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { sessionActor, withPermission } from "@/lib/auth/guard";
+import { AlertDraftResolvedError, discardAlertDraft } from "@/lib/alerts/repository";
+
+type Context = { params: Promise<{ id: string }> };
+
+export const DELETE = withPermission<Context>("alerts.send", async (_request, { params }, session) => {
+  const { id } = await params;
+  try {
+    await discardAlertDraft(id, sessionActor(session));
+  } catch (e) {
+    if (!(e instanceof AlertDraftResolvedError)) throw e;
+    return NextResponse.json({ error: e.message }, { status: 409 });
+  }
+  return new NextResponse(null, { status: 204 });
+});
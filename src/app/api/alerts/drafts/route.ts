@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { sessionActor, withPermission } from "@/lib/auth/guard";
+import { createAlertDraft, listPendingAlertDrafts } from "@/lib/alerts/repository";
+import { createAlertDraftInput } from "@/lib/alerts/validation";
+
+export const GET = withPermission("reports.read", async () => {
+  const drafts = await listPendingAlertDrafts();
+  return NextResponse.json({ drafts });
+});
+
+// Drafts are queued by analysts for someone with alerts.send to review and dispatch
+export const POST = withPermission("reports.write", async (request, _context, session) => {
+  const parsed = createAlertDraftInput.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid alert draft payload", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+  const draft = await createAlertDraft(parsed.data, sessionActor(session));
+  return NextResponse.json({ draft }, { status: 201 });
+});
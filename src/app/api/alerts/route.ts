@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { sessionActor, withPermission } from "@/lib/auth/guard";
+import { AlertDraftResolvedError, createAlert } from "@/lib/alerts/repository";
+import { sendAlertInput } from "@/lib/alerts/validation";
+
+export const POST = withPermission("alerts.send", async (request, _context, session) => {
+  const parsed = sendAlertInput.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid alert payload", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+  let alert;
+  try {
+    alert = await createAlert(parsed.data, sessionActor(session));
+  } catch (e) {
+    if (!(e instanceof AlertDraftResolvedError)) throw e;
+    return NextResponse.json({ error: e.message }, { status: 409 });
+  }
+  return NextResponse.json({ alert }, { status: 201 });
+});
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { sessionActor, withPermission } from "@/lib/auth/guard";
+import { deleteAsset } from "@/lib/assets/repository";
+
+type Context = { params: Promise<{ id: string }> };
+
+export const DELETE = withPermission<Context>("reports.write", async (_request, { params }, session) => {
+  const { id } = await params;
+  const deleted = await deleteAsset(id, sessionActor(session));
+  if (!deleted) {
+    return NextResponse.json({ error: `Asset ${id} not found` }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+});
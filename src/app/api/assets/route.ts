@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { sessionActor, withPermission } from "@/lib/auth/guard";
+import { createAsset, listAssets } from "@/lib/assets/repository";
+import { createAssetInput } from "@/lib/assets/validation";
+
+export const GET = withPermission("reports.read", async () => {
+  const assets = await listAssets();
+  return NextResponse.json({ assets });
+});
+
+export const POST = withPermission("reports.write", async (request, _context, session) => {
+  const parsed = createAssetInput.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid asset payload", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+  const asset = await createAsset(parsed.data, sessionActor(session));
+  return NextResponse.json({ asset }, { status: 201 });
+});
@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+import { verifyAuditChain } from "@/lib/audit/repository";
+
+export const GET = withPermission("reports.read", async () => {
+  return NextResponse.json(await verifyAuditChain());
+});
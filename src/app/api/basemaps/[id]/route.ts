@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { sessionActor, withPermission } from "@/lib/auth/guard";
+import { deleteBasemap, updateBasemap } from "@/lib/basemaps/repository";
+import { updateBasemapInput } from "@/lib/basemaps/validation";
+
+type Context = { params: Promise<{ id: string }> };
+
+export const PATCH = withPermission<Context>("system.configure", async (request, { params }, session) => {
+  const { id } = await params;
+  const parsed = updateBasemapInput.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid basemap payload", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+  const basemap = await updateBasemap(id, parsed.data, sessionActor(session));
+  if (!basemap) {
+    return NextResponse.json({ error: `Basemap ${id} not found` }, { status: 404 });
+  }
+  return NextResponse.json({ basemap });
+});
+
+export const DELETE = withPermission<Context>("system.configure", async (_request, { params }, session) => {
+  const { id } = await params;
+  const deleted = await deleteBasemap(id, sessionActor(session));
+  if (!deleted) {
+    return NextResponse.json({ error: `Basemap ${id} not found` }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+});
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { sessionActor, withPermission } from "@/lib/auth/guard";
+import { createBasemap, listBasemaps } from "@/lib/basemaps/repository";
+import { createBasemapInput } from "@/lib/basemaps/validation";
+
+// Every signed-in role needs the list to draw the map; changing it is configuration
+export const GET = withPermission("reports.read", async () => {
+  const basemaps = await listBasemaps();
+  return NextResponse.json({ basemaps });
+});
+
+export const POST = withPermission("system.configure", async (request, _context, session) => {
+  const parsed = createBasemapInput.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid basemap payload", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+  const basemap = await createBasemap(parsed.data, sessionActor(session));
+  return NextResponse.json({ basemap }, { status: 201 });
+});
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { sessionActor, withPermission } from "@/lib/auth/guard";
+import { deleteGeofence } from "@/lib/geofences/repository";
+
+type Context = { params: Promise<{ id: string }> };
+
+export const DELETE = withPermission<Context>("reports.write", async (_request, { params }, session) => {
+  const { id } = await params;
+  const deleted = await deleteGeofence(id, sessionActor(session));
+  if (!deleted) {
+    return NextResponse.json({ error: `Geofence ${id} not found` }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+});
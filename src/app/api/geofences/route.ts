@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { sessionActor, withPermission } from "@/lib/auth/guard";
+import { GeofenceNameTakenError, createGeofence, listGeofences } from "@/lib/geofences/repository";
+import { createGeofenceInput } from "@/lib/geofences/validation";
+
+export const GET = withPermission("reports.read", async () => {
+  const geofences = await listGeofences();
+  return NextResponse.json({ geofences });
+});
+
+export const POST = withPermission("reports.write", async (request, _context, session) => {
+  const parsed = createGeofenceInput.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid geofence payload", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+  try {
+    const geofence = await createGeofence(parsed.data, sessionActor(session));
+    return NextResponse.json({ geofence }, { status: 201 });
+  } catch (e) {
+    if (!(e instanceof GeofenceNameTakenError)) throw e;
+    return NextResponse.json({ error: e.message }, { status: 409 });
+  }
+});
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { MAX_MEDIA_FILES } from "@/lib/media/limits";
+import { MediaError, saveMedia } from "@/lib/media/storage";
+import { createReport } from "@/lib/reports/repository";
+import { citizenReportInput } from "@/lib/reports/validation";
+
+// Public endpoint: no session. Everything submitted here starts unverified.
+export async function POST(request: Request) {
+  const form = await request.formData().catch(() => null);
+  if (!form) {
+    return NextResponse.json({ error: "Expected multipart form data" }, { status: 400 });
+  }
+  const parsed = citizenReportInput.safeParse(
+    Object.fromEntries([...form.entries()].filter(([, v]) => typeof v === "string"))
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid submission", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+  const files = form.getAll("media").filter((v): v is File => v instanceof File);
+  if (files.length > MAX_MEDIA_FILES) {
+    return NextResponse.json(
+      { error: `Attach at most ${MAX_MEDIA_FILES} files` },
+      { status: 400 }
+    );
+  }
+
+  let media;
+  try {
+    media = await saveMedia(files);
+  } catch (e) {
+    if (e instanceof MediaError) return NextResponse.json({ error: e.message }, { status: 400 });
+    throw e;
+  }
+
+  const { personName } = parsed.data;
+  const report = await createReport(
+    {
+      ...parsed.data,
+      title: undefined,
+      source: "citizen",
+      status: "unverified",
+      verification: "unverified",
+      tags: [parsed.data.type, "citizen"],
+      media,
+    },
+    { id: "public", name: personName || "Citizen submission" }
+  );
+  return NextResponse.json({ id: report.id }, { status: 201 });
+}
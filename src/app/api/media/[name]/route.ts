@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+import { readMedia } from "@/lib/media/storage";
+
+type Context = { params: Promise<{ name: string }> };
+
+export const GET = withPermission<Context>("reports.read", async (_request, { params }) => {
+  const { name } = await params;
+  const media = await readMedia(name);
+  if (!media) {
+    return NextResponse.json({ error: `Media ${name} not found` }, { status: 404 });
+  }
+  return new NextResponse(new Uint8Array(media.bytes), {
+    headers: {
+      "Content-Type": media.type,
+      "Cache-Control": "private, max-age=31536000, immutable",
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+});
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+import { findDuplicateCandidates } from "@/lib/reports/repository";
+
+type Context = { params: Promise<{ id: string }> };
+
+export const GET = withPermission<Context>("reports.read", async (_request, { params }) => {
+  const { id } = await params;
+  const candidates = await findDuplicateCandidates(id);
+  if (!candidates) {
+    return NextResponse.json({ error: `Report ${id} not found` }, { status: 404 });
+  }
+  return NextResponse.json({ candidates });
+});
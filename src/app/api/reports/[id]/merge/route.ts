@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { sessionActor, withPermission } from "@/lib/auth/guard";
+import { InvalidMergeError, mergeReports } from "@/lib/reports/repository";
+import { mergeReportsInput } from "@/lib/reports/validation";
+
+type Context = { params: Promise<{ id: string }> };
+
+export const POST = withPermission<Context>("reports.write", async (request, { params }, session) => {
+  const { id } = await params;
+  const parsed = mergeReportsInput.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid merge", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+  let report;
+  try {
+    report = await mergeReports(id, parsed.data.duplicateIds, sessionActor(session), parsed.data.reason);
+  } catch (e) {
+    if (!(e instanceof InvalidMergeError)) throw e;
+    return NextResponse.json({ error: e.message }, { status: 409 });
+  }
+  if (!report) {
+    return NextResponse.json({ error: `Report ${id} not found` }, { status: 404 });
+  }
+  return NextResponse.json({ report });
+});
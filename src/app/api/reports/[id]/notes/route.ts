@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { sessionActor, withPermission } from "@/lib/auth/guard";
+import { addReportNote } from "@/lib/reports/repository";
+import { addReportNoteInput } from "@/lib/reports/validation";
+
+type Context = { params: Promise<{ id: string }> };
+
+export const POST = withPermission<Context>("reports.write", async (request, { params }, session) => {
+  const { id } = await params;
+  const parsed = addReportNoteInput.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid note", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+  const report = await addReportNote(id, parsed.data.body, sessionActor(session));
+  if (!report) {
+    return NextResponse.json({ error: `Report ${id} not found` }, { status: 404 });
+  }
+  return NextResponse.json({ report }, { status: 201 });
+});
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { sessionActor, withPermission } from "@/lib/auth/guard";
+import {
+  InvalidAssignmentError,
+  InvalidTransitionError,
+  ReportConflictError,
+  deleteReport,
+  getReport,
+  updateReport,
+} from "@/lib/reports/repository";
+import { updateReportInput } from "@/lib/reports/validation";
+
+type Context = { params: Promise<{ id: string }> };
+
+export const GET = withPermission<Context>("reports.read", async (_request, { params }) => {
+  const { id } = await params;
+  const report = await getReport(id);
+  if (!report) {
+    return NextResponse.json({ error: `Report ${id} not found` }, { status: 404 });
+  }
+  return NextResponse.json({ report });
+});
+
+export const PATCH = withPermission<Context>("reports.write", async (request, { params }, session) => {
+  const { id } = await params;
+  const parsed = updateReportInput.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid report payload", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+  let report;
+  try {
+    report = await updateReport(id, parsed.data, sessionActor(session));
+  } catch (e) {
+    if (e instanceof InvalidTransitionError) {
+      return NextResponse.json({ error: e.message }, { status: 409 });
+    }
+    if (e instanceof InvalidAssignmentError) {
+      return NextResponse.json({ error: e.message }, { status: 400 });
+    }
+    if (!(e instanceof ReportConflictError)) throw e;
+    // Send the current version so the client can show what changed
+    return NextResponse.json({ error: e.message, report: await getReport(id) }, { status: 409 });
+  }
+  if (!report) {
+    return NextResponse.json({ error: `Report ${id} not found` }, { status: 404 });
+  }
+  return NextResponse.json({ report });
+});
+
+export const DELETE = withPermission<Context>("reports.delete", async (_request, { params }, session) => {
+  const { id } = await params;
+  const deleted = await deleteReport(id, sessionActor(session));
+  if (!deleted) {
+    return NextResponse.json({ error: `Report ${id} not found` }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+});
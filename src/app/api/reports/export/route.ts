@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { db } from "@/db";
+import { appendAudit } from "@/lib/audit/repository";
+import { sessionActor, withPermission } from "@/lib/auth/guard";
+import { reportsToCSV } from "@/lib/reports/csv";
+import { reportsToGeoJSON } from "@/lib/reports/geojson";
+import type { HazardReport } from "@/lib/reports/hazard-report";
+import { reportsToKML } from "@/lib/reports/kml";
+import { listReportsForExport } from "@/lib/reports/repository";
+import { EXPORT_FORMATS, exportReportsInput } from "@/lib/reports/validation";
+
+type Renderer = { contentType: string; render: (rows: HazardReport[]) => string };
+
+const RENDERERS: Record<(typeof EXPORT_FORMATS)[number], Renderer> = {
+  csv: { contentType: "text/csv; charset=utf-8", render: reportsToCSV },
+  json: { contentType: "application/json", render: (rows) => JSON.stringify(rows, null, 2) },
+  geojson: { contentType: "application/geo+json", render: (rows) => JSON.stringify(reportsToGeoJSON(rows)) },
+  kml: { contentType: "application/vnd.google-earth.kml+xml", render: reportsToKML },
+};
+
+export const POST = withPermission("data.export", async (request, _context, session) => {
+  const parsed = exportReportsInput.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid export payload", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+  const { ids, from, to, where, format } = parsed.data;
+  const rows = await listReportsForExport({ ids, from, to, where, viewerId: session.user.id });
+
+  await db.transaction((tx) =>
+    appendAudit(tx, {
+      subjectType: "export",
+      action: "data.export",
+      actor: sessionActor(session),
+      after: { format, count: rows.length, from: from ?? null, to: to ?? null, scoped: Boolean(ids || where) },
+    })
+  );
+
+  const filename = `hazard-reports-${new Date().toISOString().slice(0, 10)}.${format}`;
+  const { contentType, render } = RENDERERS[format];
+  return new NextResponse(render(rows), {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    },
+  });
+});
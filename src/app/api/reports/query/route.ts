@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+import { InvalidCursorError, escalateOverdueReports, queryReports } from "@/lib/reports/repository";
+import { reportQueryInput } from "@/lib/reports/validation";
+
+// A POST so a map selection's ids fit in the body
+export const POST = withPermission("reports.read", async (request, _context, session) => {
+  const parsed = reportQueryInput.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid report query", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+  await escalateOverdueReports();
+  try {
+    return NextResponse.json(await queryReports(parsed.data, session.user.id));
+  } catch (e) {
+    if (!(e instanceof InvalidCursorError)) throw e;
+    return NextResponse.json({ error: e.message }, { status: 400 });
+  }
+});
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { sessionActor, withPermission } from "@/lib/auth/guard";
+import {
+  InvalidAssignmentError,
+  InvalidTransitionError,
+  createReport,
+  escalateOverdueReports,
+  listReports,
+  updateReports,
+} from "@/lib/reports/repository";
+import { bulkUpdateReportsInput, createReportInput } from "@/lib/reports/validation";
+
+export const GET = withPermission("reports.read", async () => {
+  await escalateOverdueReports();
+  const reports = await listReports();
+  return NextResponse.json({ reports });
+});
+
+export const POST = withPermission("reports.write", async (request, _context, session) => {
+  const parsed = createReportInput.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid report payload", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+  let report;
+  try {
+    report = await createReport(parsed.data, sessionActor(session));
+  } catch (e) {
+    if (!(e instanceof InvalidTransitionError)) throw e;
+    return NextResponse.json({ error: e.message }, { status: 409 });
+  }
+  return NextResponse.json({ report }, { status: 201 });
+});
+
+// Bulk status / verification changes and assignments from the report table
+export const PATCH = withPermission("reports.write", async (request, _context, session) => {
+  const parsed = bulkUpdateReportsInput.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid bulk update payload", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+  const { ids, patch, reason } = parsed.data;
+  // Reports the lifecycle does not allow to change come back in `rejected`
+  try {
+    return NextResponse.json(await updateReports(ids, patch, sessionActor(session), reason));
+  } catch (e) {
+    if (!(e instanceof InvalidAssignmentError)) throw e;
+    return NextResponse.json({ error: e.message }, { status: 400 });
+  }
+});
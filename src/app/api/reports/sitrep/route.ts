@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { db } from "@/db";
+import { appendAudit } from "@/lib/audit/repository";
+import { sessionActor, withPermission } from "@/lib/auth/guard";
+import { listBasemaps } from "@/lib/basemaps/repository";
+import { listReportsForExport } from "@/lib/reports/repository";
+import { renderSitrep } from "@/lib/reports/sitrep";
+import { sitrepInput } from "@/lib/reports/validation";
+
+export const POST = withPermission("data.export", async (request, _context, session) => {
+  const parsed = sitrepInput.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid situation report payload", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+  const { ids, from, to, where, title, filters, basemapId } = parsed.data;
+  const rows = await listReportsForExport({ ids, from, to, where, viewerId: session.user.id });
+  const bases = (await listBasemaps()).filter((b) => b.enabled && !b.overlay);
+  const basemap = bases.find((b) => b.id === basemapId) ?? bases[0] ?? null;
+  const actor = sessionActor(session);
+
+  await db.transaction((tx) =>
+    appendAudit(tx, {
+      subjectType: "export",
+      action: "data.export",
+      actor,
+      after: { format: "pdf", count: rows.length, from: from ?? null, to: to ?? null, scoped: Boolean(ids || where) },
+    })
+  );
+
+  const pdf = await renderSitrep(rows, {
+    title: title ?? "Hazard situation report",
+    generatedAt: new Date(),
+    generatedBy: actor.name,
+    from: from ?? null,
+    to: to ?? null,
+    filters: filters ?? null,
+    basemap,
+  });
+  const filename = `situation-report-${new Date().toISOString().slice(0, 10)}.pdf`;
+  return new NextResponse(Buffer.from(pdf), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    },
+  });
+});
@@ -0,0 +1,60 @@
+import { withPermission } from "@/lib/auth/guard";
+import { subscribeReportEvents } from "@/lib/reports/events";
+import { escalateOverdueReports } from "@/lib/reports/repository";
+
+export const dynamic = "force-dynamic";
+
+// Proxies drop idle connections; a comment line every so often keeps the stream open.
+// Each beat also runs the (throttled) SLA escalation sweep, so deadlines are caught
+// while clients sit idle.
+const HEARTBEAT_MS = 25_000;
+
+// Server-Sent Events: one `report` event per created, updated or deleted report
+export const GET = withPermission("reports.read", async (request) => {
+  const encoder = new TextEncoder();
+  let close = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          close();
+        }
+      };
+      const unsubscribe = subscribeReportEvents((event) => {
+        send(`event: report\ndata: ${JSON.stringify(event)}\n\n`);
+      });
+      const heartbeat = setInterval(() => {
+        send(": keep-alive\n\n");
+        escalateOverdueReports().catch((e) => console.error("SLA escalation failed", e));
+      }, HEARTBEAT_MS);
+      close = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener("abort", () => {
+        close();
+        try {
+          controller.close();
+        } catch {
+          // already closed by the client
+        }
+      });
+      send("retry: 5000\n\n");
+    },
+    cancel() {
+      close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+});
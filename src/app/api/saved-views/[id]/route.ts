@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { requirePermission, sessionActor, withPermission } from "@/lib/auth/guard";
+import { deleteSavedView, getSavedView } from "@/lib/saved-views/repository";
+
+type Context = { params: Promise<{ id: string }> };
+
+// Users delete their own views; shared presets need system.configure
+export const DELETE = withPermission<Context>("reports.read", async (_request, { params }, session) => {
+  const { id } = await params;
+  const view = await getSavedView(id, session.user.id);
+  if (view?.shared) requirePermission(session, "system.configure");
+  if (!view || !(await deleteSavedView(id, sessionActor(session)))) {
+    return NextResponse.json({ error: `Saved view ${id} not found` }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+});
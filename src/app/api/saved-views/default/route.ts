@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+import { setDefaultView } from "@/lib/saved-views/repository";
+import { setDefaultViewInput } from "@/lib/saved-views/validation";
+
+export const PUT = withPermission("reports.read", async (request, _context, session) => {
+  const parsed = setDefaultViewInput.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid default view payload", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+  const { viewId } = parsed.data;
+  if (!(await setDefaultView(session.user.id, viewId))) {
+    return NextResponse.json({ error: `Saved view ${viewId} not found` }, { status: 404 });
+  }
+  return NextResponse.json({ defaultViewId: viewId });
+});
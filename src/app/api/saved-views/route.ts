@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { requirePermission, sessionActor, withPermission } from "@/lib/auth/guard";
+import {
+  SavedViewNameTakenError,
+  createSavedView,
+  getDefaultViewId,
+  listSavedViews,
+} from "@/lib/saved-views/repository";
+import { createSavedViewInput } from "@/lib/saved-views/validation";
+
+// Every role can keep its own views; publishing a shared preset is configuration
+export const GET = withPermission("reports.read", async (_request, _context, session) => {
+  const [views, defaultViewId] = await Promise.all([
+    listSavedViews(session.user.id),
+    getDefaultViewId(session.user.id),
+  ]);
+  return NextResponse.json({ views, defaultViewId });
+});
+
+export const POST = withPermission("reports.read", async (request, _context, session) => {
+  const parsed = createSavedViewInput.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid saved view payload", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+  if (parsed.data.shared) requirePermission(session, "system.configure");
+  try {
+    const view = await createSavedView(parsed.data, sessionActor(session));
+    return NextResponse.json({ view }, { status: 201 });
+  } catch (e) {
+    if (!(e instanceof SavedViewNameTakenError)) throw e;
+    return NextResponse.json({ error: e.message }, { status: 409 });
+  }
+});
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { sessionActor, withPermission } from "@/lib/auth/guard";
+import { listSlaTargets, replaceSlaTargets } from "@/lib/sla/repository";
+import { replaceSlaTargetsInput } from "@/lib/sla/validation";
+
+// Reviewers see the targets their queue is measured against; changing them is configuration
+export const GET = withPermission("reports.read", async () => {
+  const targets = await listSlaTargets();
+  return NextResponse.json({ targets });
+});
+
+export const PUT = withPermission("system.configure", async (request, _context, session) => {
+  const parsed = replaceSlaTargetsInput.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid SLA targets", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+  const targets = await replaceSlaTargets(parsed.data.targets, sessionActor(session));
+  return NextResponse.json({ targets });
+});
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { sessionActor, withPermission } from "@/lib/auth/guard";
+import { TeamNameTakenError, createTeam, listReviewers, listTeams } from "@/lib/teams/repository";
+import { createTeamInput } from "@/lib/teams/validation";
+
+// Who reports can be assigned to, for the report table's assignment menus
+export const GET = withPermission("reports.read", async () => {
+  const [teams, reviewers] = await Promise.all([listTeams(), listReviewers()]);
+  return NextResponse.json({ teams, reviewers });
+});
+
+export const POST = withPermission("users.write", async (request, _context, session) => {
+  const parsed = createTeamInput.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid team payload", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+  try {
+    const team = await createTeam(parsed.data, sessionActor(session));
+    return NextResponse.json({ team }, { status: 201 });
+  } catch (e) {
+    if (!(e instanceof TeamNameTakenError)) throw e;
+    return NextResponse.json({ error: e.message }, { status: 409 });
+  }
+});
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/auth/guard";
+import { readTile } from "@/lib/tiles/store";
+
+type Context = { params: Promise<{ source: string; z: string; x: string; y: string }> };
+
+// Tile templates may end in an extension ({y}.png); it is ignored
+function tileIndex(value: string) {
+  return /^\d+(\.\w+)?$/.test(value) ? Number.parseInt(value, 10) : NaN;
+}
+
+export const GET = withAuth<Context>(async (_request, { params }) => {
+  const { source, z, x, y } = await params;
+  const tile = await readTile(source, tileIndex(z), tileIndex(x), tileIndex(y));
+  if (!tile) {
+    return NextResponse.json({ error: "Tile not found" }, { status: 404 });
+  }
+  return new NextResponse(new Uint8Array(tile.bytes), {
+    headers: {
+      "Content-Type": tile.type,
+      "Cache-Control": "private, max-age=86400",
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+});
@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+import { listTileSources } from "@/lib/tiles/store";
+
+export const GET = withPermission("system.configure", async () => {
+  const sources = await listTileSources();
+  return NextResponse.json({ sources });
+});
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+import { UnknownTeamError, updateUser } from "@/lib/users/repository";
+import { updateUserInput } from "@/lib/users/validation";
+
+type Context = { params: Promise<{ id: string }> };
+
+export const PATCH = withPermission<Context>("users.write", async (request, { params }, session) => {
+  const { id } = await params;
+  const parsed = updateUserInput.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid user payload", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+  // Guard against administrators locking themselves out; their team is not access
+  const { teamId: _teamId, ...access } = parsed.data;
+  if (id === session.user.id && Object.keys(access).length > 0) {
+    return NextResponse.json({ error: "You cannot change your own access" }, { status: 403 });
+  }
+  let user;
+  try {
+    user = await updateUser(id, parsed.data);
+  } catch (e) {
+    if (!(e instanceof UnknownTeamError)) throw e;
+    return NextResponse.json({ error: e.message }, { status: 400 });
+  }
+  if (!user) {
+    return NextResponse.json({ error: `User ${id} not found` }, { status: 404 });
+  }
+  return NextResponse.json({ user });
+});
@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+import { listUsers } from "@/lib/users/repository";
+
+export const GET = withPermission("users.read", async () => {
+  const users = await listUsers();
+  return NextResponse.json({ users });
+});
@@ -0,0 +1,128 @@
+"use client";
+
+import React, { Suspense, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { LogIn, PanelsLeftBottom } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { signIn } from "@/lib/auth/client";
+
+const loginSchema = z.object({
+  email: z.email("Enter a valid email address"),
+  password: z.string().min(1, "Enter your password"),
+});
+
+type LoginValues = z.infer<typeof loginSchema>;
+
+// Only follow same-origin paths after sign-in. Values such as "/\evil.example" look
+// relative but resolve to another host, so the resolved origin is what is checked.
+function redirectTarget(next: string | null) {
+  if (!next || next.includes("\\")) return "/";
+  try {
+    const url = new URL(next, window.location.origin);
+    return url.origin === window.location.origin ? `${url.pathname}${url.search}${url.hash}` : "/";
+  } catch {
+    return "/";
+  }
+}
+
+function LoginForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [submitting, setSubmitting] = useState(false);
+  const form = useForm<LoginValues>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { email: "", password: "" },
+  });
+
+  const next = searchParams.get("next");
+
+  async function onSubmit(values: LoginValues) {
+    setSubmitting(true);
+    const { error } = await signIn.email({ email: values.email, password: values.password });
+    setSubmitting(false);
+    if (error) {
+      toast.error("Sign in failed", {
+        description: error.message ?? "Check your email and password.",
+      });
+      return;
+    }
+    router.replace(redirectTarget(next));
+    router.refresh();
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email</FormLabel>
+              <FormControl>
+                <Input type="email" autoComplete="email" placeholder="you@example.com" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={submitting}>
+          <LogIn className="mr-2 h-4 w-4" aria-hidden="true" />
+          {submitting ? "Signing in…" : "Sign in"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export default function LoginPage() {
+  return (
+    <div className="flex min-h-dvh w-full items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <div className="flex items-center rounded-md border bg-white p-2">
+              <PanelsLeftBottom className="h-4 w-4 text-foreground" aria-hidden="true" />
+            </div>
+            <div className="min-w-0">
+              <CardTitle>Admin Portal</CardTitle>
+              <CardDescription>Sign in to the control center</CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Suspense fallback={null}>
+            <LoginForm />
+          </Suspense>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
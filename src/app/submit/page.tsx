@@ -0,0 +1,325 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useDropzone, type FileRejection } from "react-dropzone";
+import { CircleCheck, Crosshair, ImageUp, Send, Video, X } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  ACCEPTED_MEDIA,
+  MAX_IMAGE_BYTES,
+  MAX_MEDIA_FILES,
+  MAX_VIDEO_BYTES,
+  formatBytes,
+  mediaProblem,
+} from "@/lib/media/limits";
+import { HAZARD_TYPES, hazardTypeLabel } from "@/lib/reports/hazard-report";
+import { citizenReportInput } from "@/lib/reports/validation";
+
+const dropzoneAccept = Object.fromEntries(
+  Object.entries(ACCEPTED_MEDIA).map(([mime, { ext }]) => [mime, [`.${ext}`]])
+);
+
+function MediaPicker({ files, onChange }: { files: File[]; onChange: (files: File[]) => void }) {
+  const previews = useMemo(
+    () => files.map((f) => (f.type.startsWith("image/") ? URL.createObjectURL(f) : null)),
+    [files]
+  );
+  useEffect(
+    () => () => previews.forEach((url) => url && URL.revokeObjectURL(url)),
+    [previews]
+  );
+
+  const onDrop = (accepted: File[], rejections: FileRejection[]) => {
+    for (const r of rejections) toast.error(r.errors[0]?.message ?? `${r.file.name} was rejected`);
+    const next = [...files, ...accepted];
+    if (next.length > MAX_MEDIA_FILES) {
+      toast.error(`Attach at most ${MAX_MEDIA_FILES} files`);
+    }
+    onChange(next.slice(0, MAX_MEDIA_FILES));
+  };
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: dropzoneAccept,
+    validator: (file) => {
+      const message = mediaProblem(file);
+      return message ? { code: "invalid-media", message } : null;
+    },
+  });
+
+  return (
+    <div className="space-y-3">
+      <div
+        {...getRootProps()}
+        className={cn(
+          "flex cursor-pointer flex-col items-center justify-center gap-2 rounded-md border border-dashed p-6 text-center transition-colors",
+          isDragActive ? "border-primary bg-primary/5" : "border-border hover:bg-muted"
+        )}
+      >
+        <input {...getInputProps()} />
+        <ImageUp className="h-6 w-6 text-muted-foreground" aria-hidden="true" />
+        <p className="text-sm font-medium">
+          {isDragActive ? "Drop the files here" : "Drag photos or videos here, or click to browse"}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          Up to {MAX_MEDIA_FILES} files · images {formatBytes(MAX_IMAGE_BYTES)}, videos{" "}
+          {formatBytes(MAX_VIDEO_BYTES)}
+        </p>
+      </div>
+      {files.length > 0 && (
+        <ul className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+          {files.map((f, i) => (
+            <li key={`${f.name}-${i}`} className="relative overflow-hidden rounded-md border bg-muted">
+              {previews[i] ? (
+                <img src={previews[i]!} alt={f.name} className="aspect-video w-full object-cover" />
+              ) : (
+                <div className="flex aspect-video w-full items-center justify-center">
+                  <Video className="h-6 w-6 text-muted-foreground" aria-hidden="true" />
+                </div>
+              )}
+              <div className="truncate px-2 py-1 text-xs">{f.name}</div>
+              <button
+                type="button"
+                onClick={() => onChange(files.filter((_, j) => j !== i))}
+                className="absolute right-1 top-1 rounded-full bg-card/90 p-1 shadow-sm hover:bg-card"
+                aria-label={`Remove ${f.name}`}
+              >
+                <X className="h-3 w-3" aria-hidden="true" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default function SubmitReportPage() {
+  const [files, setFiles] = useState<File[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [submittedId, setSubmittedId] = useState<string | null>(null);
+  const form = useForm({
+    resolver: zodResolver(citizenReportInput),
+    defaultValues: { lat: "", lng: "", description: "", locationName: "", personName: "" },
+  });
+
+  function fillCurrentLocation() {
+    if (!navigator.geolocation) {
+      toast.error("Location is not available in this browser");
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (pos) => {
+        form.setValue("lat", pos.coords.latitude.toFixed(5), { shouldValidate: true });
+        form.setValue("lng", pos.coords.longitude.toFixed(5), { shouldValidate: true });
+      },
+      () => toast.error("Could not read your location", { description: "Enter the coordinates manually." })
+    );
+  }
+
+  const onSubmit = form.handleSubmit(async (values) => {
+    const body = new FormData();
+    for (const [key, value] of Object.entries(values)) {
+      if (value !== undefined && value !== "") body.append(key, String(value));
+    }
+    for (const f of files) body.append("media", f);
+
+    setSubmitting(true);
+    try {
+      const res = await fetch("/api/intake", { method: "POST", body });
+      const payload = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        toast.error("Submission failed", {
+          description: payload?.error ?? `Request failed (${res.status})`,
+        });
+        return;
+      }
+      setSubmittedId(payload.id);
+      form.reset();
+      setFiles([]);
+    } catch {
+      toast.error("Submission failed", { description: "Check your connection and try again." });
+    } finally {
+      setSubmitting(false);
+    }
+  });
+
+  return (
+    <div className="flex min-h-dvh w-full items-start justify-center bg-background p-4 sm:items-center">
+      <Card className="w-full max-w-xl">
+        <CardHeader>
+          <CardTitle>Report a coastal hazard</CardTitle>
+          <CardDescription>
+            Your report goes to the monitoring team for verification. Do not put yourself at risk to take photos.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {submittedId ? (
+            <div className="flex flex-col items-center gap-3 py-6 text-center">
+              <CircleCheck className="h-10 w-10 text-green-600" aria-hidden="true" />
+              <p className="font-medium">Thank you — your report was received.</p>
+              <p className="text-sm text-muted-foreground">
+                Reference <span className="font-mono">{submittedId}</span>
+              </p>
+              <Button variant="outline" onClick={() => setSubmittedId(null)}>
+                Submit another report
+              </Button>
+            </div>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={onSubmit} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Hazard type</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger className="w-full">
+                            <SelectValue placeholder="What did you see?" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {HAZARD_TYPES.map((t) => (
+                            <SelectItem key={t} value={t}>
+                              {hazardTypeLabel(t)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-1 gap-3 sm:grid-cols-[1fr,1fr,auto] sm:items-end">
+                  <FormField
+                    control={form.control}
+                    name="lat"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Latitude</FormLabel>
+                        <FormControl>
+                          <Input
+                            inputMode="decimal"
+                            placeholder="9.9312"
+                            {...field}
+                            value={String(field.value ?? "")}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="lng"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Longitude</FormLabel>
+                        <FormControl>
+                          <Input
+                            inputMode="decimal"
+                            placeholder="76.2673"
+                            {...field}
+                            value={String(field.value ?? "")}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="button" variant="outline" onClick={fillCurrentLocation}>
+                    <Crosshair className="mr-2 h-4 w-4" aria-hidden="true" />
+                    Use my location
+                  </Button>
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="locationName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Place name (optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. Fort Kochi beach" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>What is happening?</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          rows={4}
+                          placeholder="Describe the hazard, its extent and whether anyone is affected."
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Photos and videos</p>
+                  <MediaPicker files={files} onChange={setFiles} />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="personName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Your name (optional)</FormLabel>
+                      <FormControl>
+                        <Input autoComplete="name" {...field} />
+                      </FormControl>
+                      <FormDescription>Helps the team follow up on your report.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button type="submit" className="w-full" disabled={submitting}>
+                  <Send className="mr-2 h-4 w-4" aria-hidden="true" />
+                  {submitting ? "Sending…" : "Submit report"}
+                </Button>
+              </form>
+            </Form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 "use client"
 
 import * as React from "react"
+import Link from "next/link"
 import { toast } from "sonner"
 import {
   Earth,
@@ -11,6 +12,7 @@ import {
   UserCog,
   IdCard,
   WifiHigh,
+  CloudUpload,
   EllipsisVertical,
   LayoutPanelTop,
 } from "lucide-react"
@@ -60,6 +62,10 @@ interface AdminHeaderProps {
   languages?: { code: string; label: string }[]
   currentLanguage?: string
   onLanguageChange?: (code: string) => void
+  // Offline changes waiting to sync, and how many of them the server refused
+  pendingActions?: number
+  conflictedActions?: number
+  onPendingActionsClick?: () => void
   onProfile?: () => void
   onSettings?: () => void
   onLogout?: () => void
@@ -106,6 +112,9 @@ export default function AdminHeader({
   ],
   currentLanguage = "en",
   onLanguageChange,
+  pendingActions = 0,
+  conflictedActions = 0,
+  onPendingActionsClick,
   onProfile,
   onSettings,
   onLogout,
@@ -170,8 +179,8 @@ export default function AdminHeader({
                           {isLast ? (
                             <BreadcrumbPage className="truncate text-foreground">{bc.label}</BreadcrumbPage>
                           ) : bc.href ? (
-                            <BreadcrumbLink href={bc.href} className="text-muted-foreground hover:text-foreground transition-colors truncate">
-                              {bc.label}
+                            <BreadcrumbLink asChild className="text-muted-foreground hover:text-foreground transition-colors truncate">
+                              <Link href={bc.href}>{bc.label}</Link>
                             </BreadcrumbLink>
                           ) : (
                             <span className="text-muted-foreground truncate">{bc.label}</span>
@@ -214,6 +223,19 @@ export default function AdminHeader({
               </span>
             </div>
 
+            {pendingActions > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onPendingActionsClick}
+                className={`h-8 gap-1.5 rounded-full ${conflictedActions > 0 ? "border-destructive/40 text-destructive" : "border-border/70"}`}
+                aria-label={`${pendingActions} pending offline action${pendingActions === 1 ? "" : "s"}${conflictedActions > 0 ? `, ${conflictedActions} need attention` : ""}`}
+              >
+                <CloudUpload className="h-4 w-4" aria-hidden="true" />
+                <span className="text-xs font-medium">{pendingActions} pending</span>
+              </Button>
+            )}
+
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button
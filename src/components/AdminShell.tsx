@@ -0,0 +1,114 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useMemo, useState } from "react";
+import { useParams, usePathname, useRouter } from "next/navigation";
+import AdminSidebar from "@/components/AdminSidebar";
+import AdminHeader from "@/components/AdminHeader";
+import OfflineQueueDialog from "@/components/OfflineQueueDialog";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+import { signOut } from "@/lib/auth/client";
+import { ROLE_LABEL } from "@/lib/auth/roles";
+import { useSessionUser } from "@/lib/auth/session-context";
+
+// Each sidebar entry is a top-level route of the (admin) group
+const NAV_LABEL = {
+  dashboard: "Dashboard",
+  map: "Map",
+  reports: "Reports",
+  social: "Social Media",
+  notifications: "Notifications",
+  settings: "Settings",
+} as const;
+
+type NavKey = keyof typeof NAV_LABEL;
+
+function isNavKey(value: string | undefined): value is NavKey {
+  return value !== undefined && value in NAV_LABEL;
+}
+
+const LanguageContext = createContext<string>("en");
+
+// The header's language picker, for views that localise their labels
+export function useAdminLanguage() {
+  return useContext(LanguageContext);
+}
+
+export default function AdminShell({ children }: { children: React.ReactNode }) {
+  const [collapsed, setCollapsed] = useState(false);
+  const [language, setLanguage] = useState<string>("en");
+  const [queueOpen, setQueueOpen] = useState(false);
+  const offlineQueue = useOfflineQueue();
+
+  const router = useRouter();
+  const pathname = usePathname();
+  const params = useParams<{ id?: string }>();
+  const user = useSessionUser();
+
+  const segment = pathname.split("/")[1];
+  const active: NavKey | undefined = isNavKey(segment) ? segment : undefined;
+
+  const breadcrumbs = useMemo(() => {
+    const trail: { label: string; href?: string }[] = [{ label: "Home", href: "/" }];
+    if (active) trail.push({ label: NAV_LABEL[active], href: `/${active}` });
+    if (active === "reports" && params.id) trail.push({ label: params.id });
+    return trail;
+  }, [active, params.id]);
+
+  const handleSelect = useCallback(
+    (key: string) => {
+      router.push(`/${key}`);
+    },
+    [router]
+  );
+
+  const handleLogout = useCallback(async () => {
+    await signOut();
+    router.replace("/login");
+    router.refresh();
+  }, [router]);
+
+  return (
+    <div className="flex h-dvh min-h-0 w-full bg-background text-foreground">
+      <AdminSidebar
+        collapsed={collapsed}
+        onCollapsedChange={setCollapsed}
+        activeKey={active}
+        onSelect={handleSelect}
+        userName={user.name}
+        roleLabel={ROLE_LABEL[user.role]}
+        onLogout={handleLogout}
+        className="shrink-0"
+      />
+      <div className="flex min-w-0 flex-1 flex-col">
+        <AdminHeader
+          breadcrumbs={breadcrumbs}
+          user={{
+            name: user.name,
+            email: user.email,
+            role: ROLE_LABEL[user.role],
+            avatarUrl: user.image,
+          }}
+          onLogout={handleLogout}
+          currentLanguage={language}
+          onLanguageChange={setLanguage}
+          pendingActions={offlineQueue.actions.length}
+          conflictedActions={offlineQueue.actions.filter((a) => a.conflict).length}
+          onPendingActionsClick={() => setQueueOpen(true)}
+          className="sticky top-0 z-40"
+        />
+        <LanguageContext.Provider value={language}>
+          <main className="flex-1 min-h-0">{children}</main>
+        </LanguageContext.Provider>
+      </div>
+      <OfflineQueueDialog
+        open={queueOpen}
+        onOpenChange={setQueueOpen}
+        actions={offlineQueue.actions}
+        syncing={offlineQueue.syncing}
+        onSync={offlineQueue.sync}
+        onRetry={offlineQueue.retry}
+        onDiscard={offlineQueue.discard}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Circle, CircleMarker, Polygon, Polyline, Rectangle, useMap, useMapEvents } from "react-leaflet";
+import {
+  distanceMeters,
+  rectangleFromCorners,
+  type AreaKind,
+  type AreaShape,
+  type LatLngTuple,
+} from "@/lib/map/area";
+
+type Props = {
+  mode: AreaKind | null; // null when not drawing
+  area?: AreaShape;
+  onComplete: (area: AreaShape) => void;
+  onCancel: () => void;
+};
+
+const AREA_STYLE = { color: "#0ea5e9", weight: 2, dashArray: "6 4", fillOpacity: 0.06 };
+// Clicking within this many pixels of the first vertex closes a polygon
+const CLOSE_PX = 10;
+
+function AreaShapeView({ area }: { area: AreaShape }) {
+  switch (area.kind) {
+    case "polygon":
+      return <Polygon positions={area.points} pathOptions={AREA_STYLE} interactive={false} />;
+    case "rectangle":
+      return <Rectangle bounds={area.bounds} pathOptions={AREA_STYLE} interactive={false} />;
+    case "circle":
+      return <Circle center={area.center} radius={area.radius} pathOptions={AREA_STYLE} interactive={false} />;
+  }
+}
+
+// Click-to-draw tool for the map's area filter. Polygons take one click per vertex
+// and finish on the first vertex or a double click; rectangles and radii take two
+// clicks. Escape cancels. Loaded with next/dynamic since Leaflet touches `window`.
+export default function AreaDrawLayer({ mode, area, onComplete, onCancel }: Props) {
+  const map = useMap();
+  const [points, setPointsState] = useState<LatLngTuple[]>([]);
+  const [cursor, setCursor] = useState<LatLngTuple | null>(null);
+  // Clicks and the following dblclick can arrive before a re-render
+  const pointsRef = useRef<LatLngTuple[]>([]);
+  const setPoints = (next: LatLngTuple[]) => {
+    pointsRef.current = next;
+    setPointsState(next);
+  };
+
+  useEffect(() => {
+    pointsRef.current = [];
+    setPointsState([]);
+    setCursor(null);
+    if (!mode) return;
+    const container = map.getContainer();
+    container.style.cursor = "crosshair";
+    map.doubleClickZoom.disable();
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onCancel();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => {
+      container.style.cursor = "";
+      map.doubleClickZoom.enable();
+      window.removeEventListener("keydown", onKey);
+    };
+  }, [map, mode, onCancel]);
+
+  const finish = (shape: AreaShape) => {
+    setPoints([]);
+    setCursor(null);
+    onComplete(shape);
+  };
+
+  useMapEvents({
+    mousemove: (e) => {
+      if (mode && pointsRef.current.length) setCursor([e.latlng.lat, e.latlng.lng]);
+    },
+    click: (e) => {
+      if (!mode) return;
+      const p: LatLngTuple = [e.latlng.lat, e.latlng.lng];
+      const current = pointsRef.current;
+      const near = (q: LatLngTuple | undefined) =>
+        q !== undefined && map.latLngToContainerPoint(q).distanceTo(e.containerPoint) <= CLOSE_PX;
+      if (mode === "polygon") {
+        if (current.length >= 3 && near(current[0])) finish({ kind: "polygon", points: current });
+        else if (!near(current[current.length - 1])) setPoints([...current, p]);
+        return;
+      }
+      const start = current[0];
+      if (!start) {
+        setPoints([p]);
+        return;
+      }
+      if (near(start)) return; // a second click on the start would give an empty area
+      finish(
+        mode === "rectangle"
+          ? rectangleFromCorners(start, p)
+          : { kind: "circle", center: start, radius: distanceMeters(start, p) }
+      );
+    },
+    dblclick: () => {
+      // The double click's own clicks already added its vertex
+      if (mode === "polygon" && pointsRef.current.length >= 3) {
+        finish({ kind: "polygon", points: pointsRef.current });
+      }
+    },
+  });
+
+  if (!mode) return area ? <AreaShapeView area={area} /> : null;
+
+  const start = points[0];
+  return (
+    <>
+      {mode === "polygon" && points.length > 0 && (
+        <Polyline positions={cursor ? [...points, cursor] : points} pathOptions={AREA_STYLE} interactive={false} />
+      )}
+      {mode === "rectangle" && start && cursor && (
+        <AreaShapeView area={rectangleFromCorners(start, cursor)} />
+      )}
+      {mode === "circle" && start && cursor && (
+        <AreaShapeView area={{ kind: "circle", center: start, radius: distanceMeters(start, cursor) }} />
+      )}
+      {points.map((p, i) => (
+        <CircleMarker
+          key={i}
+          center={p}
+          radius={4}
+          pathOptions={{ color: "#0ea5e9", weight: 2, fillColor: "#fff", fillOpacity: 1 }}
+          interactive={false}
+        />
+      ))}
+    </>
+  );
+}
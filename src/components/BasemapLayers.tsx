@@ -0,0 +1,97 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import type { LeafletEventHandlerFnMap } from "leaflet";
+import { LayersControl, TileLayer, useMapEvents } from "react-leaflet";
+import type { Basemap } from "@/lib/basemaps/basemap";
+
+type Props = {
+  basemaps: Basemap[]; // enabled ones, in switcher order
+  // The base layer in use could not load a single tile for the current view
+  onTileFailure: (failing: Basemap | null) => void;
+  onBaseLayerChange?: (basemap: Basemap | null) => void;
+};
+
+const STORAGE_KEY = "ocean-hazard-basemap";
+
+function storedBaseId() {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+// Leaflet's layer switcher over the configured basemaps. Loaded with next/dynamic
+// since Leaflet touches `window` on import.
+export default function BasemapLayers({ basemaps, onTileFailure, onBaseLayerChange }: Props) {
+  const bases = basemaps.filter((b) => !b.overlay);
+  const overlays = basemaps.filter((b) => b.overlay);
+  const [baseId, setBaseId] = useState(storedBaseId);
+  const active = bases.find((b) => b.id === baseId) ?? bases[0];
+
+  const onTileFailureRef = useRef(onTileFailure);
+  onTileFailureRef.current = onTileFailure;
+  const onBaseLayerChangeRef = useRef(onBaseLayerChange);
+  onBaseLayerChangeRef.current = onBaseLayerChange;
+
+  useMapEvents({
+    baselayerchange: (e) => {
+      const next = bases.find((b) => b.name === e.name);
+      if (!next) return;
+      setBaseId(next.id);
+      try {
+        window.localStorage.setItem(STORAGE_KEY, next.id);
+      } catch {
+        // Private mode; the choice just isn't remembered
+      }
+    },
+  });
+
+  // Counted per batch: "loading" starts one, "load" fires once every tile settled,
+  // failed ones included
+  const tally = useRef({ loaded: 0, failed: 0 });
+  const tileEvents = useMemo<LeafletEventHandlerFnMap>(
+    () => ({
+      loading: () => {
+        tally.current = { loaded: 0, failed: 0 };
+      },
+      tileload: () => {
+        tally.current.loaded++;
+      },
+      tileerror: () => {
+        tally.current.failed++;
+      },
+      load: () => {
+        const { loaded, failed } = tally.current;
+        onTileFailureRef.current(failed > 0 && loaded === 0 ? active ?? null : null);
+      },
+    }),
+    [active]
+  );
+
+  useEffect(() => {
+    onTileFailureRef.current(null);
+    onBaseLayerChangeRef.current?.(active ?? null);
+  }, [active]);
+
+  return (
+    <LayersControl position="topright">
+      {bases.map((b) => (
+        <LayersControl.BaseLayer key={b.id} name={b.name} checked={b.id === active?.id}>
+          <TileLayer
+            url={b.url}
+            attribution={b.attribution ?? undefined}
+            maxZoom={b.maxZoom}
+            eventHandlers={b.id === active?.id ? tileEvents : undefined}
+          />
+        </LayersControl.BaseLayer>
+      ))}
+      {overlays.map((b) => (
+        <LayersControl.Overlay key={b.id} name={b.name}>
+          <TileLayer url={b.url} attribution={b.attribution ?? undefined} maxZoom={b.maxZoom} />
+        </LayersControl.Overlay>
+      ))}
+    </LayersControl>
+  );
+}
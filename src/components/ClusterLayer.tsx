@@ -0,0 +1,120 @@
+"use client";
+
+import React, { useCallback, useMemo, useState } from "react";
+import L from "leaflet";
+import { Marker, Popup, useMap, useMapEvents } from "react-leaflet";
+import { useReportClusters, type ClusterViewport } from "@/hooks/use-report-clusters";
+import { dominantStatus, type ClusterItem } from "@/lib/map/clusters";
+import type { HazardStatus, ReportSummary } from "@/lib/reports/hazard-report";
+
+type Props = {
+  reports: ReportSummary[];
+  statusIcons: Record<HazardStatus, L.DivIcon>;
+  statusColor: (status: HazardStatus) => string;
+  renderPopup: (report: ReportSummary) => React.ReactNode;
+  markerOpacity?: (report: ReportSummary) => number; // single reports only; clusters stay opaque
+  onSelectCluster?: (ids: string[]) => void; // right-click or long-press on a cluster
+  selectHint?: string;
+};
+
+// Viewport padding, so short pans don't reveal an unclustered edge before moveend
+const BOUNDS_PAD = 0.25;
+
+function readViewport(map: L.Map): ClusterViewport {
+  const b = map.getBounds().pad(BOUNDS_PAD);
+  return { bbox: [b.getWest(), b.getSouth(), b.getEast(), b.getNorth()], zoom: map.getZoom() };
+}
+
+function clusterIcon(count: number, color: string) {
+  const size = Math.round(28 + Math.min(24, Math.log10(count) * 8));
+  return L.divIcon({
+    className: "cluster-pin",
+    html: `
+      <div style="
+        display:flex;align-items:center;justify-content:center;
+        width:${size}px;height:${size}px;
+        border-radius:9999px;
+        background:${color};
+        color:white;
+        font-weight:700;
+        font-size:12px;
+        line-height:1;
+        box-shadow:0 6px 14px rgba(0,0,0,0.18);
+        border:2px solid rgba(255,255,255,0.95);
+      ">${count >= 1000 ? `${Math.round(count / 100) / 10}k` : count}</div>
+    `,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
+}
+
+// Clustered report markers for the visible area (see lib/map/clusters.ts). Loaded with
+// next/dynamic since Leaflet touches `window` on import.
+export default function ClusterLayer({
+  reports,
+  statusIcons,
+  statusColor,
+  renderPopup,
+  markerOpacity,
+  onSelectCluster,
+  selectHint,
+}: Props) {
+  const map = useMap();
+  const [viewport, setViewport] = useState<ClusterViewport>(() => readViewport(map));
+  useMapEvents({ moveend: () => setViewport(readViewport(map)) });
+
+  const { items, leaves } = useReportClusters(reports, viewport);
+  const byId = useMemo(() => new Map(reports.map((r) => [r.id, r])), [reports]);
+
+  // Icons are keyed by what they show so unchanged clusters keep their DOM node
+  const icons = useMemo(() => new Map<string, L.DivIcon>(), []);
+  const iconFor = useCallback(
+    (item: Extract<ClusterItem, { kind: "cluster" }>) => {
+      const color = statusColor(dominantStatus(item.statusCounts));
+      const key = `${item.count}:${color}`;
+      let icon = icons.get(key);
+      if (!icon) {
+        icon = clusterIcon(item.count, color);
+        icons.set(key, icon);
+      }
+      return icon;
+    },
+    [icons, statusColor]
+  );
+
+  return (
+    <>
+      {items.map((item) => {
+        if (item.kind === "cluster") {
+          return (
+            <Marker
+              key={item.key}
+              position={[item.lat, item.lng]}
+              icon={iconFor(item)}
+              opacity={0.95}
+              title={selectHint && onSelectCluster ? `${item.count} reports · ${selectHint}` : `${item.count} reports`}
+              eventHandlers={{
+                click: () => map.flyTo([item.lat, item.lng], Math.min(item.expansionZoom, map.getMaxZoom())),
+                contextmenu: () => {
+                  if (onSelectCluster) leaves(item).then((ids) => ids.length && onSelectCluster(ids));
+                },
+              }}
+            />
+          );
+        }
+        const report = byId.get(item.id);
+        if (!report) return null;
+        return (
+          <Marker
+            key={report.id}
+            position={[report.lat, report.lng]}
+            icon={statusIcons[report.status]}
+            opacity={markerOpacity?.(report) ?? 0.95}
+          >
+            <Popup className="!min-w-[260px] !max-w-[360px]">{renderPopup(report)}</Popup>
+          </Marker>
+        );
+      })}
+    </>
+  );
+}
@@ -2,19 +2,28 @@
 
 import React from "react";
 import {
+  ArrowUp,
   ListFilter,
   ListFilterPlus,
   Columns3,
   FileCheck2,
   FunnelPlus,
+  GitMerge,
+  Inbox,
+  Layers,
+  MapPin,
   ShieldCheck,
   CircleDot,
   Table as TableIcon,
+  Timer,
+  UserPlus,
+  X,
 } from "lucide-react";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import SearchQueryInput from "@/components/SearchQueryInput";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
 import {
@@ -50,47 +59,86 @@ import {
 } from "@/components/ui/table";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AUDIT_ACTION_LABEL,
+  type AuditEntry,
+  type AuditVerification,
+} from "@/lib/audit/audit-entry";
+import { verifyAuditChain } from "@/lib/audit/client";
+import { useReportStream } from "@/hooks/use-report-stream";
+import { useTeams } from "@/hooks/use-teams";
+import {
+  exportReports,
+  exportSitrep,
+  fetchDuplicateCandidates,
+  fetchReport,
+  mergeReports,
+  queryReports,
+} from "@/lib/reports/client";
+import type { DuplicateCandidate } from "@/lib/reports/duplicates";
+import { submitReportNote, submitReportUpdate, submitReportsUpdate } from "@/lib/offline/sync";
+import {
+  HAZARD_SEVERITIES,
+  HAZARD_SEVERITY_LABEL,
+  HAZARD_SOURCES,
+  HAZARD_STATUSES,
+  STATUS_TO_TRIAGE,
+  TRIAGE_STATUS_LABEL,
+  hazardTypeLabel,
+  locationLabel,
+  type HazardReport,
+  type HazardSeverity,
+  type HazardSource,
+  type HazardStatus,
+  type HazardVerification,
+} from "@/lib/reports/hazard-report";
+import {
+  canTransition,
+  transitionNeedsReason,
+  transitionProblem,
+  type RejectedUpdate,
+} from "@/lib/reports/lifecycle";
+import { applyReportEvent, type ReportEvent } from "@/lib/reports/report-event";
+import { parseSearchQuery, searchFieldValue, setSearchField, type SearchField } from "@/lib/reports/search-query";
+import type { ReportSelection } from "@/lib/reports/selection";
+import {
+  DEFAULT_REPORT_TABLE_STATE,
+  REPORT_PAGE_SIZES,
+  type ReportPageSize,
+  type ReportSortKey,
+  type ReportTableState,
+} from "@/lib/reports/table-state";
+import type { ReportFilterInput } from "@/lib/reports/validation";
+import { formatSlaDuration, slaRemaining } from "@/lib/sla/sla";
+import type { Reviewer, Team } from "@/lib/teams/team";
 
-type HazardStatus = "new" | "in_review" | "verified" | "dismissed";
-type Verification = "unverified" | "pending" | "verified";
-
-type HazardReport = {
-  id: string;
-  hazardType: string;
-  location: string;
-  date: string; // ISO
-  status: HazardStatus;
-  verification: Verification;
-  source: "citizen" | "sensor" | "social";
-  description: string;
-  media: { type: "image" | "video"; url: string }[];
-  audit: { id: string; actor: string; action: string; at: string }[];
-};
-
-const STATUS_META: Record<
-  HazardStatus,
-  { label: string; color: string; dot: string }
-> = {
-  new: { label: "New", color: "bg-accent text-accent-foreground", dot: "bg-chart-2" },
-  in_review: {
-    label: "In Review",
+// The table speaks in triage terms ("New", "Dismissed"); values stay canonical.
+const STATUS_STYLE: Record<HazardStatus, { color: string; dot: string }> = {
+  unverified: { color: "bg-accent text-accent-foreground", dot: "bg-chart-2" },
+  under_review: {
     color: "bg-muted text-muted-foreground",
     dot: "bg-chart-4",
   },
   verified: {
-    label: "Verified",
     color: "bg-green-50 text-green-700",
     dot: "bg-green-500",
   },
-  dismissed: {
-    label: "Dismissed",
+  false_alarm: {
     color: "bg-destructive/10 text-destructive",
     dot: "bg-destructive",
   },
 };
 
+const STATUS_META = Object.fromEntries(
+  HAZARD_STATUSES.map((s) => [
+    s,
+    { label: TRIAGE_STATUS_LABEL[STATUS_TO_TRIAGE[s]], ...STATUS_STYLE[s] },
+  ])
+) as Record<HazardStatus, { label: string; color: string; dot: string }>;
+
 const VERIFICATION_META: Record<
-  Verification,
+  HazardVerification,
   { label: string; color: string }
 > = {
   unverified: { label: "Unverified", color: "bg-muted text-muted-foreground" },
@@ -98,146 +146,51 @@ const VERIFICATION_META: Record<
   verified: { label: "Verified", color: "bg-green-50 text-green-700" },
 };
 
-const HAZARD_TYPES = [
-  "Flood",
-  "Fire",
-  "Landslide",
-  "Earthquake",
-  "Storm",
-  "Pollution",
-] as const;
+const SEVERITY_COLOR: Record<HazardSeverity, string> = {
+  emergency: "bg-destructive/10 text-destructive",
+  high: "bg-orange-50 text-orange-700",
+  moderate: "bg-accent text-accent-foreground",
+  low: "bg-muted text-muted-foreground",
+};
+
+const SOURCES = HAZARD_SOURCES;
+
+type SortKey = ReportSortKey;
 
-const SOURCES = ["citizen", "sensor", "social"] as const;
+// The bulk update route takes at most this many ids
+const MAX_BULK_SELECTION = 500;
+// Search requests wait for a pause in typing
+const SEARCH_DELAY_MS = 300;
+// Rejected rows listed after a bulk status change; the rest are counted
+const MAX_LISTED_REJECTIONS = 5;
+// How often the review deadline countdowns refresh
+const SLA_TICK_MS = 30_000;
+// Countdowns turn amber this close to the deadline
+const SLA_WARNING_MS = 60 * 60 * 1000;
 
-type SortKey = "hazardType" | "location" | "date" | "status" | "source";
+type Assignment = { assigneeId: string | null; teamId: string | null };
 
 type Props = {
   className?: string;
-  initialData?: HazardReport[];
   onExportCSV?: (csv: string) => void;
   onStatusChange?: (ids: string[], status: HazardStatus) => Promise<void> | void;
+  // Mirror the signed-in user's reports.write / data.export permissions
+  canUpdate?: boolean;
+  canExport?: boolean;
+  // Filters, sort and page to start from, and a callback whenever they change
+  initialState?: Partial<ReportTableState>;
+  onStateChange?: (state: ReportTableState) => void;
+  // Controlled details dialog, e.g. from a /reports/[id] route
+  openReportId?: string | null;
+  onOpenReportChange?: (id: string | null) => void;
+  // Reports picked on the map; the table shows only these until cleared
+  selection?: ReportSelection | null;
+  onClearSelection?: () => void;
+  onShowOnMap?: (report: HazardReport) => void;
+  // The signed-in user, to tell when one of their reports is escalated
+  currentUserId?: string;
 };
 
-function generateSampleData(): HazardReport[] {
-  // simple deterministic sample items
-  return [
-    {
-      id: "HR-01021",
-      hazardType: "Flood",
-      location: "Riverside District",
-      date: "2025-09-06T09:14:00Z",
-      status: "new",
-      verification: "unverified",
-      source: "citizen",
-      description:
-        "Street flooded after heavy rainfall. Water level reaching sidewalk.",
-      media: [
-        {
-          type: "image",
-          url:
-            "https://images.unsplash.com/photo-1502126829571-83575bb514b0?q=80&w=1200&auto=format&fit=crop",
-        },
-      ],
-      audit: [
-        {
-          id: "A1",
-          actor: "system",
-          action: "Report created via mobile app",
-          at: "2025-09-06T09:14:30Z",
-        },
-      ],
-    },
-    {
-      id: "HR-01022",
-      hazardType: "Fire",
-      location: "Industrial Park",
-      date: "2025-09-05T17:42:00Z",
-      status: "in_review",
-      verification: "pending",
-      source: "social",
-      description: "Smoke visible from warehouse unit 7.",
-      media: [
-        {
-          type: "image",
-          url:
-            "https://images.unsplash.com/photo-1506629082955-511b1aa562c8?q=80&w=1200&auto=format&fit=crop",
-        },
-        {
-          type: "image",
-          url:
-            "https://images.unsplash.com/photo-1493515322954-4fa727e97985?q=80&w=1200&auto=format&fit=crop",
-        },
-      ],
-      audit: [
-        {
-          id: "A2",
-          actor: "Alex Rivera",
-          action: "Marked as In Review",
-          at: "2025-09-05T18:00:00Z",
-        },
-      ],
-    },
-    {
-      id: "HR-01023",
-      hazardType: "Landslide",
-      location: "Hillside Road",
-      date: "2025-09-03T06:25:00Z",
-      status: "verified",
-      verification: "verified",
-      source: "sensor",
-      description:
-        "Movement detected on slope, small debris on road. Crew dispatched.",
-      media: [
-        {
-          type: "image",
-          url:
-            "https://images.unsplash.com/photo-1523742810067-5f32d14f6b26?q=80&w=1200&auto=format&fit=crop",
-        },
-      ],
-      audit: [
-        {
-          id: "A3",
-          actor: "Priya K",
-          action: "Changed status to Verified",
-          at: "2025-09-03T07:00:00Z",
-        },
-        {
-          id: "A4",
-          actor: "system",
-          action: "Auto-notified response team",
-          at: "2025-09-03T07:02:00Z",
-        },
-      ],
-    },
-    {
-      id: "HR-01024",
-      hazardType: "Pollution",
-      location: "City Center",
-      date: "2025-09-02T12:10:00Z",
-      status: "dismissed",
-      verification: "unverified",
-      source: "social",
-      description:
-        "Report of unusual odor; investigation found no actionable hazard.",
-      media: [
-        {
-          type: "image",
-          url:
-            "https://images.unsplash.com/photo-1492684223066-81342ee5ff30?q=80&w=1200&auto=format&fit=crop",
-        },
-      ],
-      audit: [
-        {
-          id: "A5",
-          actor: "Dana Lee",
-          action: "Dismissed after site check",
-          at: "2025-09-02T14:45:00Z",
-        },
-      ],
-    },
-  ];
-}
-
 function formatDate(iso: string) {
   try {
     return new Date(iso).toLocaleString();
@@ -246,209 +199,454 @@ function formatDate(iso: string) {
   }
 }
 
-function toCSV(rows: HazardReport[]) {
-  const header = [
-    "ID",
-    "Hazard Type",
-    "Location",
-    "Date",
-    "Status",
-    "Verification",
-    "Source",
-    "Description",
-  ];
-  const body = rows.map((r) => [
-    r.id,
-    r.hazardType,
-    r.location,
-    formatDate(r.date),
-    r.status,
-    r.verification,
-    r.source,
-    `"${r.description.replace(/"/g, '""')}"`,
-  ]);
-  return [header.join(","), ...body.map((b) => b.join(","))].join("\n");
+// Assignment entries store ids; `names` maps reviewer and team ids to names
+function formatAuditValue(key: string, value: unknown, names: Map<string, string>) {
+  if (value === null || value === undefined || value === "") return "—";
+  if (key === "status" && typeof value === "string" && value in STATUS_META) {
+    return STATUS_META[value as HazardStatus].label;
+  }
+  if ((key === "assigneeId" || key === "teamId") && typeof value === "string") return names.get(value) ?? value;
+  if (Array.isArray(value)) return value.join(", ") || "—";
+  return String(value);
+}
+
+function auditChanges(entry: AuditEntry, names: Map<string, string>) {
+  const keys = Object.keys({ ...entry.before, ...entry.after });
+  return keys.map((key) => ({
+    key,
+    before: formatAuditValue(key, entry.before?.[key], names),
+    after: formatAuditValue(key, entry.after?.[key], names),
+  }));
+}
+
+function assignmentLabel(r: Pick<HazardReport, "assignee" | "team">) {
+  if (r.assignee && r.team) return `${r.assignee} (${r.team})`;
+  return r.assignee ?? r.team ?? "Unassigned";
 }
 
 export default function HazardReportManagement({
   className,
-  initialData,
   onExportCSV,
   onStatusChange,
+  canUpdate = true,
+  canExport = true,
+  initialState,
+  onStateChange,
+  openReportId,
+  onOpenReportChange,
+  selection,
+  onClearSelection,
+  onShowOnMap,
+  currentUserId,
 }: Props) {
-  const [data, setData] = React.useState<HazardReport[]>(
-    initialData ?? generateSampleData()
+  const initial = { ...DEFAULT_REPORT_TABLE_STATE, ...initialState };
+  // The current page; filtering, sorting and paging happen on the server
+  const [data, setData] = React.useState<HazardReport[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [total, setTotal] = React.useState(0);
+  const [cursors, setCursors] = React.useState<{ prev: string | null; next: string | null }>({
+    prev: null,
+    next: null,
+  });
+  const [hazardTypes, setHazardTypes] = React.useState<string[]>([]);
+  // Possible duplicates per listed report, for those that have any
+  const [duplicateCounts, setDuplicateCounts] = React.useState<Record<string, number>>({});
+  // Every filter is a term of the search query; the dropdowns below read and rewrite
+  // their field's term, so the two always agree
+  const [query, setQuery] = React.useState(initial.query);
+  const parsedQuery = React.useMemo(() => parseSearchQuery(query), [query]);
+  const typeFilter = searchFieldValue(parsedQuery, "type");
+  const statusFilter = searchFieldValue(parsedQuery, "status") as HazardStatus | undefined;
+  const verificationFilter = searchFieldValue(parsedQuery, "verification") as HazardVerification | undefined;
+  const sourceFilter = searchFieldValue(parsedQuery, "source") as HazardSource | undefined;
+  const startDate = searchFieldValue(parsedQuery, "after") ?? "";
+  const endDate = searchFieldValue(parsedQuery, "before") ?? "";
+  const locationFilter = searchFieldValue(parsedQuery, "near") ?? "";
+  const setFilter = (field: SearchField, value: string | undefined) =>
+    setQuery((q) => setSearchField(q, field, value));
+  const [expandedFilters, setExpandedFilters] = React.useState(() =>
+    parsedQuery.terms.some((term) => term.field !== null && term.field !== "type")
   );
-  const [query, setQuery] = React.useState("");
-  const [typeFilter, setTypeFilter] = React.useState<string | undefined>(
-    undefined
-  );
-  const [statusFilter, setStatusFilter] = React.useState<
-    HazardStatus | "all" | undefined
-  >(undefined);
-  const [verificationFilter, setVerificationFilter] = React.useState<
-    Verification | "all" | undefined
-  >(undefined);
-  const [sourceFilter, setSourceFilter] = React.useState<
-    (typeof SOURCES)[number] | "all" | undefined
-  >(undefined);
-  const [startDate, setStartDate] = React.useState<string>("");
-  const [endDate, setEndDate] = React.useState<string>("");
-  const [expandedFilters, setExpandedFilters] = React.useState(false);
-
-  const [sortKey, setSortKey] = React.useState<SortKey>("date");
-  const [sortDir, setSortDir] = React.useState<"asc" | "desc">("desc");
-
-  const [selected, setSelected] = React.useState<Record<string, boolean>>({});
+
+  const [mine, setMine] = React.useState(initial.mine);
+  const [sortKey, setSortKey] = React.useState<SortKey>(initial.sort);
+  const [sortDir, setSortDir] = React.useState<"asc" | "desc">(initial.dir);
+
+  // Checked reports by id, kept while paging so bulk actions can span pages
+  const [selected, setSelected] = React.useState<Record<string, HazardReport>>({});
   const [detailsOpen, setDetailsOpen] = React.useState(false);
-  const [activeReport, setActiveReport] = React.useState<HazardReport | null>(
-    null
+  const [activeId, setActiveId] = React.useState<string | null>(null);
+  // The open report when it is not on the current page, e.g. from a /reports/[id] link
+  const [offPageReport, setOffPageReport] = React.useState<HazardReport | null>(null);
+  const activeReport = React.useMemo(
+    () =>
+      data.find((r) => r.id === activeId) ??
+      (offPageReport?.id === activeId ? offPageReport : null),
+    [data, activeId, offPageReport]
+  );
+  const [review, setReview] = React.useState<{
+    status?: HazardStatus;
+    verification?: HazardVerification;
+    severity?: HazardSeverity;
+    assignment: Assignment;
+    reason: string;
+  }>({ assignment: { assigneeId: null, teamId: null }, reason: "" });
+  const [savingReview, setSavingReview] = React.useState(false);
+  const [noteDraft, setNoteDraft] = React.useState("");
+  const [savingNote, setSavingNote] = React.useState(false);
+  const [integrity, setIntegrity] = React.useState<AuditVerification | null>(null);
+  const [verifying, setVerifying] = React.useState(false);
+
+  const [pageSize, setPageSize] = React.useState<ReportPageSize>(initial.pageSize);
+  // The last query that parsed; while one has errors the table keeps showing the
+  // results of the one before
+  const [search, setSearch] = React.useState(() => (parsedQuery.errors.length ? "" : query.trim()));
+  React.useEffect(() => {
+    if (parsedQuery.errors.length) return;
+    const id = window.setTimeout(() => setSearch(query.trim()), SEARCH_DELAY_MS);
+    return () => window.clearTimeout(id);
+  }, [query, parsedQuery]);
+
+  const filter = React.useMemo<ReportFilterInput>(
+    () => ({ q: search || undefined, mine: mine || undefined, ids: selection?.ids }),
+    [search, mine, selection]
+  );
+
+  const { teams, reviewers } = useTeams();
+  const names = React.useMemo(
+    () => new Map([...teams, ...reviewers].map((x) => [x.id, x.name])),
+    [teams, reviewers]
   );
+  const myTeamId = reviewers.find((r) => r.id === currentUserId)?.teamId ?? null;
+
+  // Review deadline countdowns are measured against this
+  const [now, setNow] = React.useState(() => Date.now());
+  React.useEffect(() => {
+    const id = window.setInterval(() => setNow(Date.now()), SLA_TICK_MS);
+    return () => window.clearInterval(id);
+  }, []);
 
-  const [page, setPage] = React.useState(1);
-  const pageSize = 10;
+  // Pages are reached through the cursors of the page before, or by number (offset)
+  // for a linked page. Navigation made under other filters, sort or page size no
+  // longer applies, so those changes start again from page 1.
+  const queryKey = JSON.stringify([filter, sortKey, sortDir, pageSize]);
+  const [nav, setNav] = React.useState<{ key: string; page: number; cursor?: string }>(() => ({
+    key: queryKey,
+    page: initial.page,
+  }));
+  const current = nav.key === queryKey ? nav : { key: queryKey, page: 1, cursor: undefined };
+  const page = current.page;
+  const totalPages = Math.max(1, Math.ceil(total / pageSize));
+  const [reloads, setReloads] = React.useState(0);
+  const reload = React.useCallback(() => setReloads((n) => n + 1), []);
 
-  const filtered = React.useMemo(() => {
-    const q = query.trim().toLowerCase();
-    const sDate = startDate ? new Date(startDate) : null;
-    const eDate = endDate ? new Date(endDate) : null;
+  function goToPage(next: number, cursor?: string) {
+    setNav({ key: queryKey, page: next, cursor });
+  }
+
+  React.useEffect(() => {
+    onStateChange?.({ query, mine, sort: sortKey, dir: sortDir, page, pageSize });
+  }, [onStateChange, query, mine, sortKey, sortDir, page, pageSize]);
 
-    return data.filter((r) => {
-      if (q) {
-        const txt =
-          `${r.id} ${r.hazardType} ${r.location} ${r.description}`.toLowerCase();
-        if (!txt.includes(q)) return false;
+  React.useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    queryReports({
+      ...filter,
+      sort: sortKey,
+      dir: sortDir,
+      limit: pageSize,
+      cursor: current.cursor,
+      page: current.cursor ? undefined : current.page,
+    })
+      .then((result) => {
+        if (cancelled) return;
+        // A linked page past the end, or a cursor whose rows were deleted
+        if (result.reports.length === 0 && current.page > 1) {
+          const last = Math.max(1, Math.ceil(result.total / pageSize));
+          setNav({ key: current.key, page: current.cursor ? 1 : last });
+          return;
+        }
+        setData(result.reports);
+        setTotal(result.total);
+        setCursors({ prev: result.prevCursor, next: result.nextCursor });
+        setHazardTypes(result.types);
+        setDuplicateCounts(result.duplicates);
+        setLoading(false);
+      })
+      .catch((e) => {
+        if (cancelled) return;
+        toast("Failed to load reports", {
+          description: e instanceof Error ? e.message : "Please try again.",
+        });
+        setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [current.key, current.page, current.cursor, reloads]);
+
+  // Live creations wait here until the reviewer reloads, so the rows they are working
+  // through do not shift; edits and deletions of listed rows apply straight away
+  const [incoming, setIncoming] = React.useState<HazardReport[]>([]);
+
+  function onReportEvent(event: ReportEvent) {
+    const id = event.kind === "deleted" || event.kind === "merged" ? event.id : event.report.id;
+    const applyIfPresent = (list: HazardReport[]) =>
+      list.some((r) => r.id === id) ? applyReportEvent(list, event, (r) => r) : list;
+    if (event.kind === "created") {
+      if (!data.some((r) => r.id === id)) setIncoming((prev) => applyReportEvent(prev, event, (r) => r));
+      return;
+    }
+    if (event.kind === "deleted" || event.kind === "merged") {
+      if (data.some((r) => r.id === id)) setTotal((n) => Math.max(0, n - 1));
+      setSelected(({ [id]: _removed, ...rest }) => rest);
+      // Someone merged the open report away; keep showing it, now marked merged
+      if (event.kind === "merged" && id === activeId) {
+        fetchReport(id)
+          .then(setOffPageReport)
+          .catch(() => undefined);
       }
-      if (typeFilter && r.hazardType !== typeFilter) return false;
-      if (statusFilter && statusFilter !== "all" && r.status !== statusFilter)
-        return false;
-      if (
-        verificationFilter &&
-        verificationFilter !== "all" &&
-        r.verification !== verificationFilter
-      )
-        return false;
-      if (sourceFilter && sourceFilter !== "all" && r.source !== sourceFilter)
-        return false;
-      const d = new Date(r.date);
-      if (sDate && d < sDate) return false;
-      if (eDate && d > new Date(eDate.getTime() + 24 * 60 * 60 * 1000 - 1))
-        return false;
-      return true;
-    });
-  }, [
-    data,
-    query,
-    typeFilter,
-    statusFilter,
-    verificationFilter,
-    sourceFilter,
-    startDate,
-    endDate,
-  ]);
-
-  const sorted = React.useMemo(() => {
-    const rows = [...filtered];
-    rows.sort((a, b) => {
-      const dir = sortDir === "asc" ? 1 : -1;
-      let va: any;
-      let vb: any;
-      switch (sortKey) {
-        case "date":
-          va = new Date(a.date).getTime();
-          vb = new Date(b.date).getTime();
-          break;
-        case "hazardType":
-          va = a.hazardType;
-          vb = b.hazardType;
-          break;
-        case "location":
-          va = a.location;
-          vb = b.location;
-          break;
-        case "source":
-          va = a.source;
-          vb = b.source;
-          break;
-        case "status":
-          va = a.status;
-          vb = b.status;
-          break;
-        default:
-          va = 0;
-          vb = 0;
+    } else {
+      setSelected((prev) => (prev[id] ? { ...prev, [id]: event.report } : prev));
+    }
+    if (event.kind === "escalated") {
+      const { report } = event;
+      const inMyQueue =
+        report.assigneeId === currentUserId || (!report.assigneeId && myTeamId !== null && report.teamId === myTeamId);
+      if (canUpdate && inMyQueue) {
+        toast.warning("Report overdue for review", {
+          description: `${report.id} (${HAZARD_SEVERITY_LABEL[report.severity]}) missed its review deadline.`,
+        });
       }
-      if (va < vb) return -1 * dir;
-      if (va > vb) return 1 * dir;
-      return 0;
-    });
-    return rows;
-  }, [filtered, sortKey, sortDir]);
+    }
+    setData(applyIfPresent);
+    setIncoming(applyIfPresent);
+  }
 
-  const totalPages = Math.max(1, Math.ceil(sorted.length / pageSize));
-  React.useEffect(() => {
-    if (page > totalPages) setPage(totalPages);
-  }, [totalPages, page]);
+  // Events sent while disconnected are lost, so fetch the page again
+  useReportStream(onReportEvent, { onReconnect: reload });
 
-  const paged = React.useMemo(() => {
-    const start = (page - 1) * pageSize;
-    return sorted.slice(start, start + pageSize);
-  }, [sorted, page]);
+  function showIncoming() {
+    setIncoming([]);
+    if (page === 1 && !current.cursor) reload();
+    else goToPage(1);
+  }
 
   function toggleSort(key: SortKey) {
     if (sortKey === key) {
       setSortDir((d) => (d === "asc" ? "desc" : "asc"));
     } else {
       setSortKey(key);
-      setSortDir(key === "date" ? "desc" : "asc");
+      setSortDir(key === "timestamp" ? "desc" : "asc");
+    }
+  }
+
+  // A queue is worked through most urgent first
+  function toggleQueue() {
+    if (!mine) {
+      setSortKey("due");
+      setSortDir("asc");
     }
+    setMine((v) => !v);
   }
 
   function onSelectAllChange(checked: boolean) {
-    const next: Record<string, boolean> = {};
-    if (checked) {
-      for (const r of paged) next[r.id] = true;
+    setSelected((prev) => {
+      const next = { ...prev };
+      for (const r of data) {
+        if (checked) next[r.id] = r;
+        else delete next[r.id];
+      }
+      return next;
+    });
+  }
+
+  function toggleSelected(report: HazardReport, checked: boolean) {
+    setSelected(({ [report.id]: _removed, ...rest }) => (checked ? { ...rest, [report.id]: report } : rest));
+  }
+
+  // Checks every report matching the filters, page by page, up to the bulk limit
+  const [selectingAll, setSelectingAll] = React.useState(false);
+  async function selectAllMatching() {
+    setSelectingAll(true);
+    try {
+      const picked: HazardReport[] = [];
+      let cursor: string | undefined;
+      do {
+        const result = await queryReports({ ...filter, sort: sortKey, dir: sortDir, limit: 100, cursor });
+        picked.push(...result.reports);
+        cursor = result.nextCursor ?? undefined;
+      } while (cursor && picked.length < MAX_BULK_SELECTION);
+      setSelected(Object.fromEntries(picked.slice(0, MAX_BULK_SELECTION).map((r) => [r.id, r])));
+      if (picked.length > MAX_BULK_SELECTION || cursor) {
+        toast(`Selected the first ${MAX_BULK_SELECTION} reports`, {
+          description: "Bulk actions apply to at most this many reports at once.",
+        });
+      }
+    } catch (e) {
+      toast("Could not select reports", {
+        description: e instanceof Error ? e.message : "Please try again.",
+      });
+    } finally {
+      setSelectingAll(false);
     }
-    setSelected((prev) => ({ ...prev, ...next }));
   }
 
   function getSelectedIds() {
-    return Object.entries(selected)
-      .filter(([, v]) => v)
-      .map(([k]) => k);
+    return Object.keys(selected);
+  }
+
+  // Server records carry the fresh audit entries
+  function mergeSaved(records: HazardReport[]) {
+    const byId = new Map(records.map((r) => [r.id, r]));
+    setData((prev) => prev.map((r) => byId.get(r.id) ?? r));
+    setSelected((prev) => {
+      const next = { ...prev };
+      for (const r of records) if (next[r.id]) next[r.id] = r;
+      return next;
+    });
+    setOffPageReport((prev) => (prev && byId.get(prev.id)) ?? prev);
   }
 
-  async function applyBulkStatus(newStatus: HazardStatus) {
-    const ids = getSelectedIds();
-    if (ids.length === 0) {
+  // A bulk status change waiting for the reason some of its transitions need
+  const [bulkReason, setBulkReason] = React.useState<{ status: HazardStatus; reason: string } | null>(null);
+
+  function reportRejected(rejected: RejectedUpdate[]) {
+    if (rejected.length === 0) return;
+    toast(`${rejected.length} report${rejected.length > 1 ? "s" : ""} not changed`, {
+      description: (
+        <ul className="space-y-0.5">
+          {rejected.slice(0, MAX_LISTED_REJECTIONS).map((r) => (
+            <li key={r.id}>
+              <span className="font-medium">{r.id}</span>: {r.error}
+            </li>
+          ))}
+          {rejected.length > MAX_LISTED_REJECTIONS && (
+            <li>and {rejected.length - MAX_LISTED_REJECTIONS} more</li>
+          )}
+        </ul>
+      ),
+    });
+  }
+
+  async function applyBulkStatus(newStatus: HazardStatus, reason?: string) {
+    if (!canUpdate) return;
+    const targets = Object.values(selected);
+    if (targets.length === 0) {
       toast("No reports selected", {
         description: "Select at least one report to apply a bulk action.",
       });
       return;
     }
-    // optimistic update
+    if (!reason && targets.some((r) => transitionNeedsReason(r.status, newStatus))) {
+      setBulkReason({ status: newStatus, reason: "" });
+      return;
+    }
+    // Rows the lifecycle does not allow are left out and reported; the server checks
+    // the rest again against their current state
+    const rejected: RejectedUpdate[] = [];
+    const allowed = targets.filter((r) => {
+      const problem = transitionProblem(r, { status: newStatus }, reason);
+      if (problem) rejected.push({ id: r.id, error: problem });
+      return !problem && r.status !== newStatus;
+    });
+    if (allowed.length === 0) {
+      reportRejected(rejected);
+      return;
+    }
+    const ids = allowed.map((r) => r.id);
+    // The rows as they were, restored as a whole if the change fails
+    const previous = new Map(data.filter((r) => ids.includes(r.id)).map((r) => [r.id, r]));
     setData((prev) =>
-      prev.map((r) => (ids.includes(r.id) ? { ...r, status: newStatus } : r))
+      prev.map((r) => (previous.has(r.id) ? { ...r, status: newStatus } : r))
     );
-    toast("Status updated", {
-      description: `Updated ${ids.length} report${ids.length > 1 ? "s" : ""} to ${STATUS_META[newStatus].label}.`,
-    });
+    const summary = `${ids.length} report${ids.length > 1 ? "s" : ""} to ${STATUS_META[newStatus].label}`;
     try {
-      await onStatusChange?.(ids, newStatus);
-    } catch {
+      if (onStatusChange) {
+        await onStatusChange(ids, newStatus);
+        toast("Status updated", { description: `Updated ${summary}.` });
+        reportRejected(rejected);
+        return;
+      }
+      const outcome = await submitReportsUpdate(
+        allowed,
+        { status: newStatus },
+        (r) => `${r.id}: status → ${STATUS_META[newStatus].label}`,
+        reason
+      );
+      if (outcome.queued) {
+        toast("Saved offline", { description: `Will update ${summary} once you are back online.` });
+      } else {
+        // The server's records include the rows it rejected, as they are now
+        mergeSaved(outcome.result.reports);
+        rejected.push(...outcome.result.rejected);
+        const updated = ids.length - outcome.result.rejected.length;
+        if (updated > 0) {
+          toast("Status updated", {
+            description: `Updated ${updated} report${updated > 1 ? "s" : ""} to ${STATUS_META[newStatus].label}.`,
+          });
+        }
+      }
+      reportRejected(rejected);
+    } catch (e) {
       toast("Failed to persist status", {
-        description: "Reverting changes. Please try again.",
+        description: e instanceof Error ? e.message : "Reverting changes. Please try again.",
       });
-      setData((prev) =>
-        prev.map((r) =>
-          ids.includes(r.id) ? { ...r, status: "in_review" } : r
-        )
-      );
+      setData((prev) => prev.map((r) => previous.get(r.id) ?? r));
+    }
+  }
+
+  // The bulk assignment being picked, null while its dialog is closed
+  const [bulkAssign, setBulkAssign] = React.useState<Assignment | null>(null);
+
+  function openBulkAssign() {
+    if (getSelectedIds().length === 0) {
+      toast("No reports selected", {
+        description: "Select at least one report to apply a bulk action.",
+      });
+      return;
     }
+    setBulkAssign({ assigneeId: null, teamId: null });
   }
 
-  function exportCSV(rows: HazardReport[]) {
-    const csv = toCSV(rows);
+  async function applyBulkAssign(assignment: Assignment) {
+    if (!canUpdate) return;
+    const targets = Object.values(selected);
+    const label = assignmentLabel({
+      assignee: assignment.assigneeId ? names.get(assignment.assigneeId) ?? null : null,
+      team: assignment.teamId ? names.get(assignment.teamId) ?? null : null,
+    });
+    const summary = `${targets.length} report${targets.length > 1 ? "s" : ""}`;
+    try {
+      const outcome = await submitReportsUpdate(targets, assignment, (r) => `${r.id}: assign → ${label}`);
+      if (outcome.queued) {
+        toast("Saved offline", { description: `Will assign ${summary} once you are back online.` });
+        return;
+      }
+      mergeSaved(outcome.result.reports);
+      toast("Reports assigned", {
+        description:
+          assignment.assigneeId || assignment.teamId ? `Assigned ${summary} to ${label}.` : `Unassigned ${summary}.`,
+      });
+      reportRejected(outcome.result.rejected);
+    } catch (e) {
+      toast("Failed to assign reports", {
+        description: e instanceof Error ? e.message : "Please try again.",
+      });
+    }
+  }
+
+  async function exportCSV() {
+    let csv: string;
+    try {
+      csv = await exportReports({ where: filter });
+    } catch (e) {
+      toast("Export failed", {
+        description: e instanceof Error ? e.message : "Please try again.",
+      });
+      return;
+    }
     if (onExportCSV) {
       onExportCSV(csv);
       return;
@@ -467,26 +665,257 @@ export default function HazardReportManagement({
     }
   }
 
-  function exportPDF() {
-    if (typeof window !== "undefined") {
-      toast("Generating PDF", {
-        description: "Using browser print to save as PDF.",
+  const [exportingPDF, setExportingPDF] = React.useState(false);
+
+  async function exportPDF() {
+    const described = [
+      search && `Search: ${search}`,
+      typeFilter && `Type: ${hazardTypeLabel(typeFilter)}`,
+      statusFilter && `Status: ${STATUS_META[statusFilter].label}`,
+      verificationFilter && `Verification: ${VERIFICATION_META[verificationFilter].label}`,
+      sourceFilter && `Source: ${hazardTypeLabel(sourceFilter)}`,
+    ].filter(Boolean);
+    setExportingPDF(true);
+    try {
+      const pdf = await exportSitrep({
+        where: filter,
+        from: startDate ? new Date(startDate).toISOString() : undefined,
+        to: endDate ? new Date(new Date(endDate).getTime() + 24 * 60 * 60 * 1000 - 1).toISOString() : undefined,
+        title: "Hazard report situation report",
+        filters: described.length ? described.join("; ") : undefined,
       });
-      window.print();
+      const url = URL.createObjectURL(pdf);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `situation-report-${new Date().toISOString().slice(0, 10)}.pdf`;
+      a.click();
+      URL.revokeObjectURL(url);
+      toast("Exported PDF", { description: "Your situation report download has started." });
+    } catch (e) {
+      toast("Export failed", {
+        description: e instanceof Error ? e.message : "Please try again.",
+      });
+    } finally {
+      setExportingPDF(false);
     }
   }
 
-  function openDetails(r: HazardReport) {
-    setActiveReport(r);
+  // What stops the Workflow tab's change, checked as the reviewer edits it
+  const reviewProblem =
+    activeReport && review.status
+      ? transitionProblem(
+          activeReport,
+          { status: review.status, verification: review.verification },
+          review.reason
+        )
+      : null;
+  const reasonRequired =
+    activeReport != null && review.status != null && transitionNeedsReason(activeReport.status, review.status);
+
+  function reviewOf(r: HazardReport) {
+    return {
+      status: r.status,
+      verification: r.verification,
+      severity: r.severity,
+      assignment: { assigneeId: r.assigneeId, teamId: r.teamId },
+      reason: "",
+    };
+  }
+
+  function showDetails(r: HazardReport) {
+    setActiveId(r.id);
+    setReview(reviewOf(r));
+    setNoteDraft("");
+    setIntegrity(null);
     setDetailsOpen(true);
   }
 
-  function updateSingleStatus(id: string, next: HazardStatus) {
+  function openDetails(r: HazardReport) {
+    showDetails(r);
+    onOpenReportChange?.(r.id);
+  }
+
+  function onDetailsOpenChange(open: boolean) {
+    setDetailsOpen(open);
+    if (!open) onOpenReportChange?.(null);
+  }
+
+  // A report named in the details, such as a merged duplicate or the report it went into
+  async function openReportById(id: string) {
+    const listed = data.find((r) => r.id === id);
+    try {
+      const report = listed ?? (await fetchReport(id));
+      if (!listed) setOffPageReport(report);
+      openDetails(report);
+    } catch (e) {
+      toast("Report not found", {
+        description: e instanceof Error ? e.message : `${id} does not exist or was deleted.`,
+      });
+    }
+  }
+
+  // The details move to the primary; the merged reports leave the page, which is
+  // fetched again for the new totals and duplicate counts
+  function onMerged(primary: HazardReport, mergedIds: string[]) {
+    mergeSaved([primary]);
+    setSelected((prev) => Object.fromEntries(Object.entries(prev).filter(([id]) => !mergedIds.includes(id))));
+    if (activeId !== primary.id) {
+      if (!data.some((r) => r.id === primary.id)) setOffPageReport(primary);
+      openDetails(primary);
+    }
+    reload();
+  }
+
+  // Follow the controlled id once the data is in (including back/forward navigation)
+  React.useEffect(() => {
+    if (openReportId === undefined) return;
+    if (!openReportId) {
+      setDetailsOpen(false);
+      return;
+    }
+    if (loading || (detailsOpen && activeId === openReportId)) return;
+    const report = data.find((r) => r.id === openReportId);
+    if (report) {
+      showDetails(report);
+      return;
+    }
+    let cancelled = false;
+    fetchReport(openReportId)
+      .then((fetched) => {
+        if (cancelled) return;
+        setOffPageReport(fetched);
+        showDetails(fetched);
+      })
+      .catch(() => {
+        if (cancelled) return;
+        toast("Report not found", { description: `${openReportId} does not exist or was deleted.` });
+        onOpenReportChange?.(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [openReportId, loading, data]);
+
+  async function updateSingleStatus(id: string, next: HazardStatus) {
+    if (!canUpdate) return;
+    const report = data.find((r) => r.id === id);
+    if (!report) return;
+    const problem = transitionProblem(report, { status: next });
+    if (problem) {
+      // A reason or the verification is missing: finish the change in the details
+      if (canTransition(report.status, next)) {
+        showDetails(report);
+        setReview((r) => ({ ...r, status: next }));
+      }
+      toast("Status not changed", { description: problem });
+      return;
+    }
     setData((prev) => prev.map((r) => (r.id === id ? { ...r, status: next } : r)));
-    toast("Status updated", {
-      description: `${id} set to ${STATUS_META[next].label}.`,
-    });
-    onStatusChange?.([id], next);
+    try {
+      if (onStatusChange) {
+        await onStatusChange([id], next);
+      } else {
+        const outcome = await submitReportUpdate(
+          report,
+          { status: next },
+          `${id}: status → ${STATUS_META[next].label}`
+        );
+        if (outcome.queued) {
+          toast("Saved offline", { description: `${id} will be set to ${STATUS_META[next].label} once you are back online.` });
+          return;
+        }
+        mergeSaved([outcome.result]);
+      }
+      toast("Status updated", {
+        description: `${id} set to ${STATUS_META[next].label}.`,
+      });
+    } catch (e) {
+      toast("Failed to persist status", {
+        description: e instanceof Error ? e.message : "Reverting changes. Please try again.",
+      });
+      setData((prev) => prev.map((r) => (r.id === id ? report : r)));
+    }
+  }
+
+  async function saveReview() {
+    if (!canUpdate || !activeReport) return;
+    const { assigneeId, teamId } = review.assignment;
+    const patch = {
+      ...(review.status !== activeReport.status ? { status: review.status } : {}),
+      ...(review.verification !== activeReport.verification
+        ? { verification: review.verification }
+        : {}),
+      ...(review.severity !== activeReport.severity ? { severity: review.severity } : {}),
+      ...(assigneeId !== activeReport.assigneeId ? { assigneeId } : {}),
+      ...(teamId !== activeReport.teamId ? { teamId } : {}),
+    };
+    if (Object.keys(patch).length === 0) {
+      toast("No changes", { description: "Status, verification, severity and assignment are unchanged." });
+      return;
+    }
+    setSavingReview(true);
+    try {
+      const outcome = await submitReportUpdate(
+        activeReport,
+        { ...patch, reason: review.reason.trim() || undefined },
+        `${activeReport.id}: review`
+      );
+      if (outcome.queued) {
+        setData((prev) => prev.map((r) => (r.id === activeReport.id ? { ...r, ...patch } : r)));
+        setOffPageReport((prev) => (prev?.id === activeReport.id ? { ...prev, ...patch } : prev));
+        setReview((r) => ({ ...r, reason: "" }));
+        toast("Saved offline", {
+          description: "Your verification changes will sync once you are back online.",
+        });
+        return;
+      }
+      const saved = outcome.result;
+      mergeSaved([saved]);
+      setReview(reviewOf(saved));
+      toast("Report reviewed", {
+        description: "Your verification changes have been saved.",
+      });
+    } catch (e) {
+      toast("Failed to save review", {
+        description: e instanceof Error ? e.message : "Please try again.",
+      });
+    } finally {
+      setSavingReview(false);
+    }
+  }
+
+  async function addNote() {
+    const body = noteDraft.trim();
+    if (!canUpdate || !activeReport || !body) return;
+    setSavingNote(true);
+    try {
+      const outcome = await submitReportNote(activeReport.id, body);
+      if (outcome.queued) {
+        toast("Note saved offline", { description: "It will be added once you are back online." });
+      } else {
+        mergeSaved([outcome.result]);
+      }
+      setNoteDraft("");
+    } catch (e) {
+      toast("Failed to add note", {
+        description: e instanceof Error ? e.message : "Please try again.",
+      });
+    } finally {
+      setSavingNote(false);
+    }
+  }
+
+  async function checkIntegrity() {
+    setVerifying(true);
+    try {
+      setIntegrity(await verifyAuditChain());
+    } catch (e) {
+      toast("Integrity check failed", {
+        description: e instanceof Error ? e.message : "Please try again.",
+      });
+    } finally {
+      setVerifying(false);
+    }
   }
 
   return (
@@ -507,40 +936,54 @@ export default function HazardReportManagement({
             Review, verify, and manage incoming hazard reports.
           </p>
         </div>
-        <div className="flex items-center gap-2">
-          <Button
-            variant="outline"
-            className="bg-secondary text-secondary-foreground"
-            onClick={() => exportCSV(sorted)}
-            aria-label="Export CSV"
-          >
-            <TableIcon className="size-4 mr-2" />
-            Export CSV
-          </Button>
-          <Button
-            variant="outline"
-            className="bg-secondary text-secondary-foreground"
-            onClick={exportPDF}
-            aria-label="Export PDF"
-          >
-            <FileCheck2 className="size-4 mr-2" />
-            Export PDF
-          </Button>
-        </div>
+        {canExport && (
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              className="bg-secondary text-secondary-foreground"
+              onClick={() => exportCSV()}
+              aria-label="Export CSV"
+            >
+              <TableIcon className="size-4 mr-2" />
+              Export CSV
+            </Button>
+            <Button
+              variant="outline"
+              className="bg-secondary text-secondary-foreground"
+              onClick={() => exportPDF()}
+              disabled={exportingPDF}
+              aria-label="Export PDF"
+            >
+              <FileCheck2 className="size-4 mr-2" />
+              {exportingPDF ? "Generating PDF…" : "Export PDF"}
+            </Button>
+          </div>
+        )}
       </div>
 
       <div className="mt-4 sm:mt-6 space-y-3">
         <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
           <div className="relative w-full sm:max-w-xs">
-            <Input
+            <SearchQueryInput
               value={query}
-              onChange={(e) => setQuery(e.target.value)}
-              placeholder="Search by ID, type, location..."
+              onChange={setQuery}
+              types={hazardTypes}
+              placeholder="Search, or filter with type:flood status:new…"
               aria-label="Search"
-              className="bg-white"
+              inputClassName="bg-white"
             />
           </div>
           <div className="flex gap-2">
+            <Button
+              variant={mine ? "default" : "outline"}
+              className={mine ? undefined : "bg-secondary text-secondary-foreground"}
+              onClick={toggleQueue}
+              aria-pressed={mine}
+              title="Open reports assigned to you, or to your team and no one in it yet"
+            >
+              <Inbox className="size-4 mr-2" />
+              My queue
+            </Button>
             <Button
               variant="outline"
               className="bg-secondary text-secondary-foreground"
@@ -552,8 +995,12 @@ export default function HazardReportManagement({
               Filters
             </Button>
             <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <Button variant="outline" className="bg-secondary">
+              <DropdownMenuTrigger asChild disabled={!canUpdate}>
+                <Button
+                  variant="outline"
+                  className="bg-secondary"
+                  title={canUpdate ? undefined : "You do not have permission to update reports"}
+                >
                   <Columns3 className="size-4 mr-2" />
                   Bulk Actions
                 </Button>
@@ -561,13 +1008,13 @@ export default function HazardReportManagement({
               <DropdownMenuContent align="end" className="min-w-56">
                 <DropdownMenuLabel>Set status for selected</DropdownMenuLabel>
                 <DropdownMenuSeparator />
-                <DropdownMenuItem onSelect={() => applyBulkStatus("new")}>
+                <DropdownMenuItem onSelect={() => applyBulkStatus("unverified")}>
                   <span className="inline-flex items-center gap-2">
                     <CircleDot className="size-4" />
                     New
                   </span>
                 </DropdownMenuItem>
-                <DropdownMenuItem onSelect={() => applyBulkStatus("in_review")}>
+                <DropdownMenuItem onSelect={() => applyBulkStatus("under_review")}>
                   <span className="inline-flex items-center gap-2">
                     <ListFilter className="size-4" />
                     In Review
@@ -579,12 +1026,19 @@ export default function HazardReportManagement({
                     Verified
                   </span>
                 </DropdownMenuItem>
-                <DropdownMenuItem onSelect={() => applyBulkStatus("dismissed")}>
+                <DropdownMenuItem onSelect={() => applyBulkStatus("false_alarm")}>
                   <span className="inline-flex items-center gap-2">
                     <FunnelPlus className="size-4" />
                     Dismissed
                   </span>
                 </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onSelect={openBulkAssign}>
+                  <span className="inline-flex items-center gap-2">
+                    <UserPlus className="size-4" />
+                    Assign to…
+                  </span>
+                </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
@@ -599,17 +1053,20 @@ export default function HazardReportManagement({
               <div className="space-y-1">
                 <Label htmlFor="hazard-type">Hazard type</Label>
                 <Select
-                  onValueChange={(v) => setTypeFilter(v === "all" ? undefined : v)}
-                  defaultValue="all"
+                  value={typeFilter ?? "all"}
+                  onValueChange={(v) => setFilter("type", v === "all" ? undefined : v)}
                 >
                   <SelectTrigger id="hazard-type" className="bg-white">
                     <SelectValue placeholder="Select type" />
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All types</SelectItem>
-                    {HAZARD_TYPES.map((t) => (
+                    {(typeFilter && !hazardTypes.includes(typeFilter)
+                      ? [...hazardTypes, typeFilter]
+                      : hazardTypes
+                    ).map((t) => (
                       <SelectItem key={t} value={t}>
-                        {t}
+                        {hazardTypeLabel(t)}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -619,20 +1076,19 @@ export default function HazardReportManagement({
               <div className="space-y-1">
                 <Label htmlFor="status">Status</Label>
                 <Select
-                  onValueChange={(v) =>
-                    setStatusFilter(v === "all" ? undefined : (v as HazardStatus | "all"))
-                  }
-                  defaultValue="all"
+                  value={statusFilter ?? "all"}
+                  onValueChange={(v) => setFilter("status", v === "all" ? undefined : v)}
                 >
                   <SelectTrigger id="status" className="bg-white">
                     <SelectValue placeholder="Select status" />
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All</SelectItem>
-                    <SelectItem value="new">New</SelectItem>
-                    <SelectItem value="in_review">In Review</SelectItem>
-                    <SelectItem value="verified">Verified</SelectItem>
-                    <SelectItem value="dismissed">Dismissed</SelectItem>
+                    {HAZARD_STATUSES.map((st) => (
+                      <SelectItem key={st} value={st}>
+                        {STATUS_META[st].label}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -640,12 +1096,8 @@ export default function HazardReportManagement({
               <div className="space-y-1">
                 <Label htmlFor="verification">Verification</Label>
                 <Select
-                  onValueChange={(v) =>
-                    setVerificationFilter(
-                      v === "all" ? undefined : (v as Verification | "all")
-                    )
-                  }
-                  defaultValue="all"
+                  value={verificationFilter ?? "all"}
+                  onValueChange={(v) => setFilter("verification", v === "all" ? undefined : v)}
                 >
                   <SelectTrigger id="verification" className="bg-white">
                     <SelectValue placeholder="Select verification" />
@@ -662,10 +1114,8 @@ export default function HazardReportManagement({
               <div className="space-y-1">
                 <Label htmlFor="source">Source</Label>
                 <Select
-                  onValueChange={(v) =>
-                    setSourceFilter(v === "all" ? undefined : (v as any))
-                  }
-                  defaultValue="all"
+                  value={sourceFilter ?? "all"}
+                  onValueChange={(v) => setFilter("source", v === "all" ? undefined : v)}
                 >
                   <SelectTrigger id="source" className="bg-white">
                     <SelectValue placeholder="Select source" />
@@ -687,7 +1137,7 @@ export default function HazardReportManagement({
                   id="start-date"
                   type="date"
                   value={startDate}
-                  onChange={(e) => setStartDate(e.target.value)}
+                  onChange={(e) => setFilter("after", e.target.value || undefined)}
                   className="bg-white"
                 />
               </div>
@@ -697,7 +1147,7 @@ export default function HazardReportManagement({
                   id="end-date"
                   type="date"
                   value={endDate}
-                  onChange={(e) => setEndDate(e.target.value)}
+                  onChange={(e) => setFilter("before", e.target.value || undefined)}
                   className="bg-white"
                 />
               </div>
@@ -708,12 +1158,11 @@ export default function HazardReportManagement({
                   id="location"
                   placeholder="Filter by location"
                   className="bg-white"
-                  onChange={(e) =>
-                    setQuery((q) => `${q.split(" loc:")[0]} loc:${e.target.value}`)
-                  }
+                  value={locationFilter}
+                  onChange={(e) => setFilter("near", e.target.value.trim() ? e.target.value : undefined)}
                 />
                 <small className="text-muted-foreground">
-                  Tip: Use search with loc:YourLocation for precise filtering.
+                  Tip: Type near:"Your location" in search for the same filter.
                 </small>
               </div>
             </div>
@@ -723,12 +1172,6 @@ export default function HazardReportManagement({
                 className="bg-secondary"
                 onClick={() => {
                   setQuery("");
-                  setTypeFilter(undefined);
-                  setStatusFilter(undefined);
-                  setVerificationFilter(undefined);
-                  setSourceFilter(undefined);
-                  setStartDate("");
-                  setEndDate("");
                   toast("Filters cleared");
                 }}
               >
@@ -745,6 +1188,48 @@ export default function HazardReportManagement({
         )}
       </div>
 
+      {incoming.length > 0 && (
+        <button
+          type="button"
+          onClick={showIncoming}
+          className="mt-4 flex w-full items-center justify-center gap-2 rounded-lg border border-primary/30 bg-primary/5 px-3 py-2 text-sm font-medium text-primary hover:bg-primary/10"
+        >
+          <ArrowUp className="size-4" aria-hidden="true" />
+          {incoming.length} new report{incoming.length > 1 ? "s" : ""} — click to show
+        </button>
+      )}
+
+      {selection && (
+        <div className="mt-4 flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-lg border border-primary/30 bg-primary/5 px-3 py-2 text-sm">
+          <div className="inline-flex items-center gap-2 min-w-0">
+            <MapPin className="size-4 shrink-0 text-primary" aria-hidden="true" />
+            <span className="font-medium truncate">{selection.label}</span>
+            <span className="text-muted-foreground whitespace-nowrap">
+              · {total} of {selection.ids.length} shown
+            </span>
+          </div>
+          <div className="flex gap-2">
+            {canUpdate && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="bg-white"
+                onClick={selectAllMatching}
+                disabled={selectingAll || total === 0}
+              >
+                Select all {Math.min(total, MAX_BULK_SELECTION)}
+              </Button>
+            )}
+            {onClearSelection && (
+              <Button size="sm" variant="ghost" onClick={onClearSelection}>
+                <X className="size-4 mr-1" />
+                Clear map selection
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
       <div className="mt-4 rounded-lg border overflow-hidden">
         <Table>
           <TableHeader className="bg-neutral-soft">
@@ -753,16 +1238,16 @@ export default function HazardReportManagement({
                 <Checkbox
                   aria-label="Select all on page"
                   checked={
-                    paged.length > 0 &&
-                    paged.every((r) => selected[r.id])
+                    data.length > 0 &&
+                    data.every((r) => selected[r.id])
                   }
                   onCheckedChange={(c) => onSelectAllChange(Boolean(c))}
                 />
               </TableHead>
-              <TableHead className="min-w-[160px] cursor-pointer select-none" onClick={() => toggleSort("hazardType")}>
+              <TableHead className="min-w-[160px] cursor-pointer select-none" onClick={() => toggleSort("type")}>
                 <div className="flex items-center gap-2">
                   Type
-                  <SortIndicator active={sortKey === "hazardType"} dir={sortDir} />
+                  <SortIndicator active={sortKey === "type"} dir={sortDir} />
                 </div>
               </TableHead>
               <TableHead className="min-w-[160px] cursor-pointer select-none" onClick={() => toggleSort("location")}>
@@ -771,10 +1256,10 @@ export default function HazardReportManagement({
                   <SortIndicator active={sortKey === "location"} dir={sortDir} />
                 </div>
               </TableHead>
-              <TableHead className="min-w-[160px] cursor-pointer select-none" onClick={() => toggleSort("date")}>
+              <TableHead className="min-w-[160px] cursor-pointer select-none" onClick={() => toggleSort("timestamp")}>
                 <div className="flex items-center gap-2">
                   Date
-                  <SortIndicator active={sortKey === "date"} dir={sortDir} />
+                  <SortIndicator active={sortKey === "timestamp"} dir={sortDir} />
                 </div>
               </TableHead>
               <TableHead className="min-w-[140px] cursor-pointer select-none" onClick={() => toggleSort("status")}>
@@ -790,39 +1275,60 @@ export default function HazardReportManagement({
                   <SortIndicator active={sortKey === "source"} dir={sortDir} />
                 </div>
               </TableHead>
+              <TableHead className="min-w-[160px] cursor-pointer select-none" onClick={() => toggleSort("due")}>
+                <div className="flex items-center gap-2">
+                  Assigned
+                  <SortIndicator active={sortKey === "due"} dir={sortDir} />
+                </div>
+              </TableHead>
               <TableHead className="w-[120px] text-right">Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
-            {paged.length === 0 && (
+            {data.length === 0 && (
               <TableRow>
-                <TableCell colSpan={8} className="text-center py-10 text-muted-foreground">
-                  No reports found with the current filters.
+                <TableCell colSpan={9} className="text-center py-10 text-muted-foreground">
+                  {loading
+                    ? "Loading reports…"
+                    : mine
+                      ? "Nothing in your queue matches the current filters."
+                      : "No reports found with the current filters."}
                 </TableCell>
               </TableRow>
             )}
-            {paged.map((r) => (
+            {data.map((r) => (
               <TableRow key={r.id} className="hover:bg-accent/30">
                 <TableCell className="align-top">
                   <Checkbox
                     aria-label={`Select ${r.id}`}
                     checked={!!selected[r.id]}
-                    onCheckedChange={(c) =>
-                      setSelected((prev) => ({ ...prev, [r.id]: Boolean(c) }))
-                    }
+                    onCheckedChange={(c) => toggleSelected(r, Boolean(c))}
                   />
                 </TableCell>
                 <TableCell className="align-top">
                   <div className="flex flex-col min-w-0">
-                    <div className="font-medium">{r.hazardType}</div>
+                    <div className="font-medium">{hazardTypeLabel(r.type)}</div>
                     <small className="text-muted-foreground">{r.id}</small>
+                    {duplicateCounts[r.id] ? (
+                      <button
+                        type="button"
+                        className="mt-1 self-start"
+                        onClick={() => openDetails(r)}
+                        aria-label={`Review possible duplicates of ${r.id}`}
+                      >
+                        <Badge className="rounded-full gap-1 bg-amber-50 text-amber-700">
+                          <Layers className="size-3" aria-hidden="true" />
+                          {duplicateCounts[r.id]} possible duplicate{duplicateCounts[r.id] > 1 ? "s" : ""}
+                        </Badge>
+                      </button>
+                    ) : null}
                   </div>
                 </TableCell>
                 <TableCell className="align-top">
-                  <div className="min-w-0 max-w-[280px] break-words">{r.location}</div>
+                  <div className="min-w-0 max-w-[280px] break-words">{locationLabel(r)}</div>
                 </TableCell>
                 <TableCell className="align-top whitespace-nowrap">
-                  {formatDate(r.date)}
+                  {formatDate(r.timestamp)}
                 </TableCell>
                 <TableCell className="align-top">
                   <div className="inline-flex items-center gap-2">
@@ -838,6 +1344,14 @@ export default function HazardReportManagement({
                   </Badge>
                 </TableCell>
                 <TableCell className="align-top capitalize">{r.source}</TableCell>
+                <TableCell className="align-top">
+                  <div className="flex flex-col items-start gap-1 min-w-0">
+                    <span className={cn("max-w-[200px] truncate", !r.assignee && !r.team && "text-muted-foreground")}>
+                      {assignmentLabel(r)}
+                    </span>
+                    <SlaBadge report={r} now={now} />
+                  </div>
+                </TableCell>
                 <TableCell className="align-top">
                   <div className="flex items-center justify-end gap-2">
                     <Select
@@ -845,6 +1359,7 @@ export default function HazardReportManagement({
                         updateSingleStatus(r.id, v as HazardStatus)
                       }
                       value={r.status}
+                      disabled={!canUpdate}
                     >
                       <SelectTrigger
                         className="h-8 w-[130px] bg-white"
@@ -853,10 +1368,11 @@ export default function HazardReportManagement({
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="new">New</SelectItem>
-                        <SelectItem value="in_review">In Review</SelectItem>
-                        <SelectItem value="verified">Verified</SelectItem>
-                        <SelectItem value="dismissed">Dismissed</SelectItem>
+                        {HAZARD_STATUSES.map((st) => (
+                          <SelectItem key={st} value={st} disabled={!canTransition(r.status, st)}>
+                            {STATUS_META[st].label}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <Button
@@ -869,6 +1385,18 @@ export default function HazardReportManagement({
                       <ShieldCheck className="size-4 mr-2" />
                       Review
                     </Button>
+                    {onShowOnMap && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="size-8"
+                        onClick={() => onShowOnMap(r)}
+                        aria-label={`Show ${r.id} on map`}
+                        title="Show on map"
+                      >
+                        <MapPin className="size-4" />
+                      </Button>
+                    )}
                   </div>
                 </TableCell>
               </TableRow>
@@ -878,16 +1406,41 @@ export default function HazardReportManagement({
       </div>
 
       <div className="mt-3 sm:mt-4 flex flex-col sm:flex-row items-center justify-between gap-3">
-        <div className="text-sm text-muted-foreground">
-          Showing {(page - 1) * pageSize + 1} -{" "}
-          {Math.min(page * pageSize, sorted.length)} of {sorted.length}
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-muted-foreground">
+          <span>
+            Showing {total === 0 ? 0 : (page - 1) * pageSize + 1} -{" "}
+            {Math.min((page - 1) * pageSize + data.length, total)} of {total}
+          </span>
+          {getSelectedIds().length > 0 && (
+            <span className="inline-flex items-center gap-1">
+              · {getSelectedIds().length} selected
+              <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setSelected({})}>
+                Clear
+              </Button>
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-2">
+          <Select
+            value={String(pageSize)}
+            onValueChange={(v) => setPageSize(Number(v) as ReportPageSize)}
+          >
+            <SelectTrigger className="h-8 w-[110px] bg-white" aria-label="Rows per page">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {REPORT_PAGE_SIZES.map((size) => (
+                <SelectItem key={size} value={String(size)}>
+                  {size} / page
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
           <Button
             variant="outline"
             size="sm"
-            disabled={page === 1}
-            onClick={() => setPage((p) => Math.max(1, p - 1))}
+            disabled={!cursors.prev || loading}
+            onClick={() => cursors.prev && goToPage(Math.max(1, page - 1), cursors.prev)}
           >
             Prev
           </Button>
@@ -897,20 +1450,95 @@ export default function HazardReportManagement({
           <Button
             variant="outline"
             size="sm"
-            disabled={page === totalPages}
-            onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+            disabled={!cursors.next || loading}
+            onClick={() => cursors.next && goToPage(page + 1, cursors.next)}
           >
             Next
           </Button>
         </div>
       </div>
 
-      <Dialog open={detailsOpen} onOpenChange={setDetailsOpen}>
-        <DialogContent className="sm:max-w-3xl">
+      <Dialog open={bulkReason !== null} onOpenChange={(open) => !open && setBulkReason(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              Set {getSelectedIds().length} report{getSelectedIds().length > 1 ? "s" : ""} to{" "}
+              {bulkReason ? STATUS_META[bulkReason.status].label : ""}
+            </DialogTitle>
+            <DialogDescription>
+              Dismissing or reopening a report needs a reason. It is recorded in each report&apos;s audit trail.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            aria-label="Reason"
+            value={bulkReason?.reason ?? ""}
+            onChange={(e) =>
+              setBulkReason((b) => b && { ...b, reason: e.target.value.slice(0, 500) })
+            }
+            placeholder="Why are these changing?"
+            rows={3}
+            className="bg-white"
+          />
+          <DialogFooter className="gap-2">
+            <Button variant="secondary" onClick={() => setBulkReason(null)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-primary text-primary-foreground"
+              disabled={!bulkReason?.reason.trim()}
+              onClick={() => {
+                if (!bulkReason) return;
+                setBulkReason(null);
+                applyBulkStatus(bulkReason.status, bulkReason.reason.trim());
+              }}
+            >
+              Confirm
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={bulkAssign !== null} onOpenChange={(open) => !open && setBulkAssign(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              Assign {getSelectedIds().length} report{getSelectedIds().length > 1 ? "s" : ""}
+            </DialogTitle>
+            <DialogDescription>
+              Pick a team, a reviewer, or both. Leaving both empty unassigns the reports.
+            </DialogDescription>
+          </DialogHeader>
+          <AssignmentFields
+            idPrefix="bulk-assign"
+            value={bulkAssign ?? { assigneeId: null, teamId: null }}
+            onChange={(next) => setBulkAssign(next)}
+            teams={teams}
+            reviewers={reviewers}
+          />
+          <DialogFooter className="gap-2">
+            <Button variant="secondary" onClick={() => setBulkAssign(null)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-primary text-primary-foreground"
+              onClick={() => {
+                if (!bulkAssign) return;
+                setBulkAssign(null);
+                applyBulkAssign(bulkAssign);
+              }}
+            >
+              Assign
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={detailsOpen} onOpenChange={onDetailsOpenChange}>
+        <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <ShieldCheck className="size-5 text-primary" />
-              {activeReport?.hazardType} • {activeReport?.id}
+              {activeReport ? hazardTypeLabel(activeReport.type) : ""} • {activeReport?.id}
             </DialogTitle>
             <DialogDescription>
               Verify details, inspect media, and update status. All changes are logged.
@@ -929,27 +1557,69 @@ export default function HazardReportManagement({
                     <Badge className={cn("rounded-full", activeReport ? VERIFICATION_META[activeReport.verification].color : "")}>
                       {activeReport ? VERIFICATION_META[activeReport.verification].label : ""}
                     </Badge>
+                    {activeReport && (
+                      <Badge className={cn("rounded-full", SEVERITY_COLOR[activeReport.severity])}>
+                        {HAZARD_SEVERITY_LABEL[activeReport.severity]}
+                      </Badge>
+                    )}
+                    {activeReport && <SlaBadge report={activeReport} now={now} />}
+                  </div>
+                  <div className="text-muted-foreground">
+                    Assigned to {activeReport ? assignmentLabel(activeReport) : ""}
                   </div>
                   <div className="text-muted-foreground">
-                    {activeReport?.location} • {activeReport ? formatDate(activeReport.date) : ""}
+                    {activeReport ? locationLabel(activeReport) : ""} • {activeReport ? formatDate(activeReport.timestamp) : ""}
                   </div>
                   <p className="mt-2 break-words">{activeReport?.description}</p>
+                  {activeReport?.mergedIntoId && (
+                    <div className="mt-2 rounded-md border border-amber-200 bg-amber-50 p-2 text-amber-800">
+                      Merged into{" "}
+                      <Button
+                        variant="link"
+                        className="h-auto p-0 text-amber-800 underline"
+                        onClick={() => openReportById(activeReport.mergedIntoId!)}
+                      >
+                        {activeReport.mergedIntoId}
+                      </Button>
+                      {activeReport.mergedAt ? ` on ${formatDate(activeReport.mergedAt)}` : ""}. It stays on record
+                      but is hidden from the table and map.
+                    </div>
+                  )}
                 </div>
               </div>
 
+              {activeReport && activeReport.mergedReports.length > 0 && (
+                <div className="rounded-lg border bg-popover p-3">
+                  <h4 className="font-semibold text-sm mb-2">Merged duplicates</h4>
+                  <ul className="text-sm space-y-1">
+                    {activeReport.mergedReports.map((m) => (
+                      <li key={m.id} className="flex flex-wrap items-center gap-x-2">
+                        <Button variant="link" className="h-auto p-0" onClick={() => openReportById(m.id)}>
+                          {m.id}
+                        </Button>
+                        <span>{m.personName ?? "Anonymous"}</span>
+                        <span className="text-muted-foreground capitalize">
+                          {m.source} • {formatDate(m.timestamp)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               <div className="rounded-lg border bg-popover p-3">
                 <h4 className="font-semibold text-sm mb-2">Media</h4>
                 <div className="grid grid-cols-2 gap-2">
                   {activeReport?.media.map((m, i) => (
                     <div
-                      key={i}
+                      key={m.id}
                       className="relative aspect-video rounded-md overflow-hidden bg-muted"
                     >
-                      {m.type === "image" ? (
+                      {m.kind === "image" ? (
                         // eslint-disable-next-line @next/next/no-img-element
                         <img
                           src={m.url}
-                          alt={`${activeReport.hazardType} evidence ${i + 1}`}
+                          alt={`${hazardTypeLabel(activeReport.type)} evidence ${i + 1}`}
                           className="w-full h-full object-cover"
                         />
                       ) : (
@@ -974,8 +1644,9 @@ export default function HazardReportManagement({
               <div className="rounded-lg border bg-popover p-3">
                 <h4 className="font-semibold text-sm mb-2">Verification</h4>
                 <Tabs defaultValue="workflow">
-                  <TabsList className="grid grid-cols-2">
+                  <TabsList className="grid grid-cols-3">
                     <TabsTrigger value="workflow">Workflow</TabsTrigger>
+                    <TabsTrigger value="notes">Notes</TabsTrigger>
                     <TabsTrigger value="audit">Audit</TabsTrigger>
                   </TabsList>
                   <TabsContent value="workflow" className="mt-3">
@@ -983,21 +1654,25 @@ export default function HazardReportManagement({
                       <div className="space-y-1">
                         <Label>Status</Label>
                         <Select
-                          value={activeReport?.status}
-                          onValueChange={(v) => {
-                            if (!activeReport) return;
-                            updateSingleStatus(activeReport.id, v as HazardStatus);
-                            setActiveReport({ ...activeReport, status: v as HazardStatus });
-                          }}
+                          value={review.status}
+                          disabled={!canUpdate}
+                          onValueChange={(v) =>
+                            setReview((r) => ({ ...r, status: v as HazardStatus }))
+                          }
                         >
                           <SelectTrigger className="bg-white">
                             <SelectValue placeholder="Select status" />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="new">New</SelectItem>
-                            <SelectItem value="in_review">In Review</SelectItem>
-                            <SelectItem value="verified">Verified</SelectItem>
-                            <SelectItem value="dismissed">Dismissed</SelectItem>
+                            {HAZARD_STATUSES.map((st) => (
+                              <SelectItem
+                                key={st}
+                                value={st}
+                                disabled={!activeReport || !canTransition(activeReport.status, st)}
+                              >
+                                {STATUS_META[st].label}
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                       </div>
@@ -1005,24 +1680,14 @@ export default function HazardReportManagement({
                       <div className="space-y-1">
                         <Label>Verification</Label>
                         <Select
-                          value={activeReport?.verification}
-                          onValueChange={(v) => {
-                            if (!activeReport) return;
-                            setActiveReport({
-                              ...activeReport,
-                              verification: v as Verification,
-                            });
-                            setData((prev) =>
-                              prev.map((r) =>
-                                r.id === activeReport.id
-                                  ? { ...r, verification: v as Verification }
-                                  : r
-                              )
-                            );
-                            toast("Verification updated", {
-                              description: `${activeReport.id} marked ${v}.`,
-                            });
-                          }}
+                          value={review.verification}
+                          disabled={!canUpdate}
+                          onValueChange={(v) =>
+                            setReview((r) => ({
+                              ...r,
+                              verification: v as HazardVerification,
+                            }))
+                          }
                         >
                           <SelectTrigger className="bg-white">
                             <SelectValue placeholder="Select verification" />
@@ -1035,22 +1700,135 @@ export default function HazardReportManagement({
                         </Select>
                       </div>
 
+                      <div className="space-y-1">
+                        <Label>Severity</Label>
+                        <Select
+                          value={review.severity}
+                          disabled={!canUpdate}
+                          onValueChange={(v) =>
+                            setReview((r) => ({ ...r, severity: v as HazardSeverity }))
+                          }
+                        >
+                          <SelectTrigger className="bg-white">
+                            <SelectValue placeholder="Select severity" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {HAZARD_SEVERITIES.map((sev) => (
+                              <SelectItem key={sev} value={sev}>
+                                {HAZARD_SEVERITY_LABEL[sev]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      <AssignmentFields
+                        idPrefix="review"
+                        value={review.assignment}
+                        onChange={(assignment) => setReview((r) => ({ ...r, assignment }))}
+                        teams={teams}
+                        reviewers={reviewers}
+                        disabled={!canUpdate}
+                      />
+
+                      <div className="space-y-1">
+                        <Label htmlFor="review-reason">
+                          Reason
+                          {reasonRequired && <span className="text-destructive"> (required)</span>}
+                        </Label>
+                        <Textarea
+                          id="review-reason"
+                          value={review.reason}
+                          disabled={!canUpdate}
+                          onChange={(e) =>
+                            setReview((r) => ({ ...r, reason: e.target.value.slice(0, 500) }))
+                          }
+                          placeholder="Why is this changing? Recorded in the audit trail."
+                          rows={2}
+                          className="bg-white"
+                        />
+                      </div>
+
+                      {reviewProblem && (
+                        <p className="text-xs text-destructive">{reviewProblem}</p>
+                      )}
                       <Button
                         className="w-full bg-primary text-primary-foreground"
-                        onClick={() =>
-                          toast("Report reviewed", {
-                            description:
-                              "Your verification changes have been saved.",
-                          })
-                        }
+                        disabled={!canUpdate || savingReview || Boolean(reviewProblem)}
+                        onClick={saveReview}
                       >
                         <ShieldCheck className="size-4 mr-2" />
-                        Confirm Changes
+                        {savingReview ? "Saving…" : "Confirm Changes"}
+                      </Button>
+                    </div>
+                  </TabsContent>
+
+                  <TabsContent value="notes" className="mt-3">
+                    <div className="space-y-3">
+                      {activeReport?.notes.length ? (
+                        <ul className="max-h-56 space-y-2 overflow-y-auto">
+                          {activeReport.notes.map((n) => (
+                            <li key={n.id} className="rounded-md border bg-white p-2">
+                              <p className="text-sm whitespace-pre-wrap break-words">{n.body}</p>
+                              <p className="mt-1 text-xs text-muted-foreground">
+                                {n.author} · {formatDate(n.createdAt)}
+                              </p>
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <div className="text-sm text-muted-foreground">No notes yet.</div>
+                      )}
+                      <Textarea
+                        aria-label="New note"
+                        value={noteDraft}
+                        disabled={!canUpdate}
+                        onChange={(e) => setNoteDraft(e.target.value.slice(0, 2000))}
+                        placeholder="Field observations, calls made, follow-ups…"
+                        rows={3}
+                        className="bg-white"
+                      />
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        disabled={!canUpdate || savingNote || !noteDraft.trim()}
+                        onClick={addNote}
+                      >
+                        {savingNote ? "Saving…" : "Add note"}
                       </Button>
                     </div>
                   </TabsContent>
 
                   <TabsContent value="audit" className="mt-3">
+                    <div className="mb-2 flex items-center justify-between gap-2">
+                      {integrity ? (
+                        <Badge
+                          className={cn(
+                            "rounded-full",
+                            integrity.ok
+                              ? "bg-green-50 text-green-700"
+                              : "bg-destructive/10 text-destructive"
+                          )}
+                        >
+                          {integrity.ok
+                            ? `Chain intact (${integrity.checked} entries)`
+                            : `Tampering detected at entry #${integrity.brokenAt}`}
+                        </Badge>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">
+                          Entries are hash-chained.
+                        </span>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="bg-secondary"
+                        onClick={checkIntegrity}
+                        disabled={verifying}
+                      >
+                        {verifying ? "Verifying…" : "Verify integrity"}
+                      </Button>
+                    </div>
                     <div className="space-y-2 max-h-64 overflow-auto pr-1">
                       {activeReport?.audit.map((a) => (
                         <div
@@ -1064,11 +1842,25 @@ export default function HazardReportManagement({
                             <div className="text-sm">
                               <span className="font-medium">{a.actor}</span>{" "}
                               <span className="text-muted-foreground">
-                                {a.action}
+                                {AUDIT_ACTION_LABEL[a.action]}
+                                {a.subjectId !== activeReport.id && ` on ${a.subjectId}`}
                               </span>
                             </div>
+                            {a.action !== "report.create" &&
+                              auditChanges(a, names).map((c) => (
+                                <div key={c.key} className="text-xs break-words">
+                                  <span className="text-muted-foreground">{c.key}:</span>{" "}
+                                  {c.before} → {c.after}
+                                </div>
+                              ))}
+                            {a.reason && (
+                              <div className="text-xs italic break-words">“{a.reason}”</div>
+                            )}
                             <div className="text-xs text-muted-foreground">
-                              {formatDate(a.at)}
+                              {formatDate(a.at)} •{" "}
+                              <span className="font-mono" title={a.hash}>
+                                {a.hash.slice(0, 10)}
+                              </span>
                             </div>
                           </div>
                         </div>
@@ -1085,8 +1877,17 @@ export default function HazardReportManagement({
             </div>
           </div>
 
+          {activeReport && !activeReport.mergedIntoId && (
+            <DuplicatesPanel
+              report={activeReport}
+              canUpdate={canUpdate}
+              onMerged={onMerged}
+              onOpenReport={openReportById}
+            />
+          )}
+
           <DialogFooter className="gap-2">
-            <Button variant="secondary" onClick={() => setDetailsOpen(false)}>
+            <Button variant="secondary" onClick={() => onDetailsOpenChange(false)}>
               Close
             </Button>
           </DialogFooter>
@@ -1096,6 +1897,275 @@ export default function HazardReportManagement({
   );
 }
 
+// Time left to review, or how long overdue; nothing once reviewed or without a deadline
+function SlaBadge({ report, now }: { report: HazardReport; now: number }) {
+  const remaining = slaRemaining(report, now);
+  if (remaining === null) return null;
+  const overdue = remaining <= 0;
+  return (
+    <Badge
+      className={cn(
+        "rounded-full gap-1",
+        overdue
+          ? "bg-destructive/10 text-destructive"
+          : remaining < SLA_WARNING_MS
+            ? "bg-amber-50 text-amber-700"
+            : "bg-muted text-muted-foreground"
+      )}
+      title={report.dueAt ? `Review due ${formatDate(report.dueAt)}` : undefined}
+    >
+      <Timer className="size-3" aria-hidden="true" />
+      {overdue ? `Overdue ${formatSlaDuration(remaining)}` : `Due in ${formatSlaDuration(remaining)}`}
+    </Badge>
+  );
+}
+
+function formatDistance(meters: number) {
+  return meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+}
+
+// Possible duplicates of the open report. One is compared side by side with it and
+// can be merged in either direction; the report kept is the primary.
+function DuplicatesPanel({
+  report,
+  canUpdate,
+  onMerged,
+  onOpenReport,
+}: {
+  report: HazardReport;
+  canUpdate: boolean;
+  onMerged: (primary: HazardReport, mergedIds: string[]) => void;
+  onOpenReport: (id: string) => void;
+}) {
+  const [candidates, setCandidates] = React.useState<DuplicateCandidate[] | null>(null);
+  const [comparing, setComparing] = React.useState<string | null>(null);
+  const [reason, setReason] = React.useState("");
+  const [merging, setMerging] = React.useState(false);
+
+  // Looked up again once something is merged into the report
+  React.useEffect(() => {
+    let cancelled = false;
+    setCandidates(null);
+    setComparing(null);
+    fetchDuplicateCandidates(report.id)
+      .then((found) => {
+        if (!cancelled) setCandidates(found);
+      })
+      .catch((e) => {
+        if (cancelled) return;
+        setCandidates([]);
+        toast("Failed to look for duplicates", {
+          description: e instanceof Error ? e.message : "Please try again.",
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [report.id, report.mergedReports.length]);
+
+  const candidate = candidates?.find((c) => c.report.id === comparing) ?? null;
+
+  async function merge(primaryId: string, duplicateId: string) {
+    setMerging(true);
+    try {
+      const primary = await mergeReports(primaryId, [duplicateId], reason.trim() || undefined);
+      toast("Reports merged", { description: `${duplicateId} was merged into ${primaryId}.` });
+      setReason("");
+      onMerged(primary, [duplicateId]);
+    } catch (e) {
+      toast("Failed to merge reports", {
+        description: e instanceof Error ? e.message : "Please try again.",
+      });
+    } finally {
+      setMerging(false);
+    }
+  }
+
+  const rows = (r: HazardReport) => [
+    { label: "Reported", value: formatDate(r.timestamp) },
+    { label: "Location", value: locationLabel(r) },
+    { label: "Reporter", value: r.personName ?? "Anonymous" },
+    { label: "Source", value: r.source },
+    { label: "Status", value: STATUS_META[r.status].label },
+    { label: "Severity", value: HAZARD_SEVERITY_LABEL[r.severity] },
+    { label: "Description", value: r.description ?? "—" },
+    { label: "Media", value: r.media.length ? `${r.media.length} attached` : "None" },
+    { label: "Tags", value: r.tags.join(", ") || "—" },
+  ];
+
+  return (
+    <div className="rounded-lg border bg-popover p-3">
+      <h4 className="font-semibold text-sm mb-2 flex items-center gap-2">
+        <Layers className="size-4 text-primary" aria-hidden="true" />
+        Possible duplicates
+      </h4>
+      {candidates === null ? (
+        <p className="text-sm text-muted-foreground">Looking for duplicates…</p>
+      ) : candidates.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No reports of the same type nearby around the same time.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {candidates.map((c) => (
+            <li key={c.report.id} className="flex flex-wrap items-center justify-between gap-2 rounded-md border bg-white p-2">
+              <div className="min-w-0 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Button variant="link" className="h-auto p-0" onClick={() => onOpenReport(c.report.id)}>
+                    {c.report.id}
+                  </Button>
+                  <Badge className="rounded-full bg-amber-50 text-amber-700">
+                    {Math.round(c.score * 100)}% match
+                  </Badge>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {formatDistance(c.distanceM)} away • {c.minutesApart} min apart •{" "}
+                  {Math.round(c.textSimilarity * 100)}% similar text
+                </div>
+              </div>
+              <Button
+                size="sm"
+                variant={comparing === c.report.id ? "secondary" : "outline"}
+                onClick={() => setComparing((id) => (id === c.report.id ? null : c.report.id))}
+                aria-pressed={comparing === c.report.id}
+              >
+                Compare
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {candidate && (
+        <div className="mt-3 space-y-3">
+          <table className="w-full table-fixed text-sm">
+            <thead>
+              <tr className="text-left text-xs text-muted-foreground">
+                <th className="w-24 py-1 font-medium" />
+                <th className="py-1 pr-2 font-medium">This report ({report.id})</th>
+                <th className="py-1 font-medium">{candidate.report.id}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows(report).map((row, i) => {
+                const other = rows(candidate.report)[i]!;
+                return (
+                  <tr key={row.label} className={cn("border-t align-top", row.value !== other.value && "bg-amber-50/60")}>
+                    <td className="py-1 text-xs text-muted-foreground">{row.label}</td>
+                    <td className="py-1 pr-2 break-words">{row.value}</td>
+                    <td className="py-1 break-words">{other.value}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <div className="space-y-1">
+            <Label htmlFor="merge-reason">Reason</Label>
+            <Input
+              id="merge-reason"
+              value={reason}
+              disabled={!canUpdate}
+              onChange={(e) => setReason(e.target.value.slice(0, 500))}
+              placeholder="Optional; recorded in the audit trail"
+              className="bg-white"
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            The report kept gains the other&apos;s media, tags, reporter and audit history. The merged one stays on
+            record, hidden from the table and map. Merging cannot be undone.
+          </p>
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button
+              variant="outline"
+              disabled={!canUpdate || merging}
+              onClick={() => merge(candidate.report.id, report.id)}
+            >
+              Keep {candidate.report.id} instead
+            </Button>
+            <Button disabled={!canUpdate || merging} onClick={() => merge(report.id, candidate.report.id)}>
+              <GitMerge className="size-4 mr-2" />
+              {merging ? "Merging…" : `Merge ${candidate.report.id} into this report`}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Team and reviewer pickers. Picking a reviewer moves the report to their team, as
+// the API does when no team is given.
+function AssignmentFields({
+  idPrefix,
+  value,
+  onChange,
+  teams,
+  reviewers,
+  disabled,
+}: {
+  idPrefix: string;
+  value: Assignment;
+  onChange: (value: Assignment) => void;
+  teams: Team[];
+  reviewers: Reviewer[];
+  disabled?: boolean;
+}) {
+  const teamName = new Map(teams.map((t) => [t.id, t.name]));
+  return (
+    <>
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-team`}>Team</Label>
+        <Select
+          value={value.teamId ?? "none"}
+          disabled={disabled}
+          onValueChange={(v) => onChange({ ...value, teamId: v === "none" ? null : v })}
+        >
+          <SelectTrigger id={`${idPrefix}-team`} className="bg-white">
+            <SelectValue placeholder="Select team" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">No team</SelectItem>
+            {teams.map((t) => (
+              <SelectItem key={t.id} value={t.id}>
+                {t.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-assignee`}>Reviewer</Label>
+        <Select
+          value={value.assigneeId ?? "none"}
+          disabled={disabled}
+          onValueChange={(v) => {
+            const reviewer = reviewers.find((r) => r.id === v);
+            onChange({
+              assigneeId: reviewer?.id ?? null,
+              teamId: reviewer?.teamId ?? value.teamId,
+            });
+          }}
+        >
+          <SelectTrigger id={`${idPrefix}-assignee`} className="bg-white">
+            <SelectValue placeholder="Select reviewer" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Unassigned</SelectItem>
+            {reviewers.map((r) => (
+              <SelectItem key={r.id} value={r.id}>
+                {r.name}
+                {r.teamId && teamName.has(r.teamId) && (
+                  <span className="text-muted-foreground"> · {teamName.get(r.teamId)}</span>
+                )}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </>
+  );
+}
+
 function SortIndicator({
   active,
   dir,
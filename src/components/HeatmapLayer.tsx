@@ -0,0 +1,81 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import L from "leaflet";
+import { useMap } from "react-leaflet";
+import {
+  densityGrid,
+  metersPerPixel,
+  paintDensity,
+  type HeatmapOptions,
+  type HeatPoint,
+} from "@/lib/map/heatmap";
+
+type Props = {
+  points: HeatPoint[];
+  options: Pick<HeatmapOptions, "radius" | "blur">;
+  // Peak density in view after each redraw, in weighted reports per km²
+  onDensityChange?: (max: number) => void;
+};
+
+const PANE = "heatmap";
+
+// Canvas overlay redrawn for the current viewport after every pan and zoom. Loaded
+// with next/dynamic since Leaflet touches `window` on import.
+export default function HeatmapLayer({ points, options, onDensityChange }: Props) {
+  const map = useMap();
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const onDensityChangeRef = useRef(onDensityChange);
+  onDensityChangeRef.current = onDensityChange;
+
+  useEffect(() => {
+    const pane = map.getPane(PANE) ?? map.createPane(PANE);
+    pane.style.zIndex = "350"; // above tiles, below markers and popups
+    pane.style.pointerEvents = "none";
+    // Hidden during the zoom animation; redrawn at the new scale on zoomend
+    const canvas = L.DomUtil.create("canvas", "leaflet-zoom-hide", pane);
+    canvasRef.current = canvas;
+    return () => {
+      L.DomUtil.remove(canvas);
+      canvasRef.current = null;
+    };
+  }, [map]);
+
+  useEffect(() => {
+    const draw = () => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext("2d");
+      if (!canvas || !ctx) return;
+      // Points just outside the viewport still spread density into it
+      const margin = Math.ceil(options.radius + options.blur);
+      const size = map.getSize();
+      const width = size.x + margin * 2;
+      const height = size.y + margin * 2;
+      canvas.width = width;
+      canvas.height = height;
+      L.DomUtil.setPosition(canvas, map.containerPointToLayerPoint([-margin, -margin]));
+
+      const projected = [];
+      for (const p of points) {
+        const pt = map.latLngToContainerPoint([p.lat, p.lng]);
+        const x = pt.x + margin;
+        const y = pt.y + margin;
+        if (x < 0 || y < 0 || x >= width || y >= height) continue;
+        projected.push({ x, y, weight: p.weight });
+      }
+      const grid = densityGrid(projected, width, height, options);
+      paintDensity(ctx, grid);
+
+      const km = metersPerPixel(map.getCenter().lat, map.getZoom()) / 1000;
+      onDensityChangeRef.current?.(grid.max / (km * km));
+    };
+
+    draw();
+    map.on("moveend zoomend resize", draw);
+    return () => {
+      map.off("moveend zoomend resize", draw);
+    };
+  }, [map, points, options.radius, options.blur]);
+
+  return null;
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import React, { useMemo } from "react";
+import L from "leaflet";
+import { Circle, Marker, Popup } from "react-leaflet";
+import { FilePen } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatGrowth, type Hotspot } from "@/lib/map/hotspots";
+
+type Props = {
+  hotspots: Hotspot[];
+  typeLabel: (hazardType: string) => string;
+  labels: {
+    isNew: string; // growth with no baseline
+    detail: (count: number, expected: string, hours: number) => string;
+    draftAlert: string;
+  };
+  windowHours: number;
+  onDraftAlert?: (hotspot: Hotspot) => void; // reports.write
+};
+
+const HOTSPOT_COLOR = "#ea580c";
+const AREA_STYLE = { color: HOTSPOT_COLOR, weight: 2, dashArray: "6 4", fillOpacity: 0.08 };
+
+function escapeHTML(s: string) {
+  return s.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function hotspotIcon(text: string) {
+  return L.divIcon({
+    className: "hotspot-label",
+    html: `
+      <div style="
+        display:inline-block;transform:translate(-50%,-50%);
+        padding:3px 7px;
+        border-radius:9999px;
+        background:${HOTSPOT_COLOR};
+        color:white;
+        font-weight:600;
+        font-size:11px;
+        line-height:1.2;
+        white-space:nowrap;
+        box-shadow:0 4px 10px rgba(0,0,0,0.2);
+        border:2px solid rgba(255,255,255,0.95);
+      ">${escapeHTML(text)}</div>
+    `,
+    iconSize: [0, 0],
+    iconAnchor: [0, 0],
+  });
+}
+
+// Detected hotspots as dashed areas, each labelled with its hazard type, recent
+// count and growth over the baseline. Loaded with next/dynamic since Leaflet
+// touches `window`.
+export default function HotspotLayer({ hotspots, typeLabel, labels, windowHours, onDraftAlert }: Props) {
+  const icons = useMemo(
+    () =>
+      new Map(
+        hotspots.map((h) => [
+          h.id,
+          hotspotIcon(`${typeLabel(h.hazardType)} · ${h.count} · ${h.growth == null ? labels.isNew : formatGrowth(h.growth)}`),
+        ])
+      ),
+    [hotspots, typeLabel, labels.isNew]
+  );
+
+  return (
+    <>
+      {hotspots.map((h) => (
+        <React.Fragment key={h.id}>
+          <Circle center={h.center} radius={h.radius} pathOptions={AREA_STYLE} interactive={false} />
+          <Marker position={h.center} icon={icons.get(h.id)} zIndexOffset={900}>
+            <Popup>
+              <div className="space-y-1">
+                <p className="text-sm font-semibold">{typeLabel(h.hazardType)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {labels.detail(h.count, h.expected.toFixed(1), windowHours)}
+                </p>
+                {onDraftAlert && (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="secondary"
+                    className="mt-1 h-7 px-2 text-xs"
+                    onClick={() => onDraftAlert(h)}
+                  >
+                    <FilePen className="w-3.5 h-3.5 mr-1" />
+                    {labels.draftAlert}
+                  </Button>
+                )}
+              </div>
+            </Popup>
+          </Marker>
+        </React.Fragment>
+      ))}
+    </>
+  );
+}
@@ -1,9 +1,29 @@
 "use client";
 
-import React, { useEffect, useMemo, useRef, useState, useCallback, useId } from "react";
+import React, { useEffect, useMemo, useRef, useState, useCallback, useDeferredValue, useId } from "react";
 import type { CSSProperties } from "react";
-import { Map as MapIcon, ChevronsRight, ZoomIn, MapPin, MapPinCheck, MapPinX } from "lucide-react";
+import {
+  Map as MapIcon,
+  ChevronsRight,
+  SkipBack,
+  SkipForward,
+  Film,
+  Crosshair,
+  Flame,
+  ZoomIn,
+  MapPin,
+  MapPinCheck,
+  MapPinX,
+  Pentagon,
+  Square,
+  CircleDot,
+  X,
+  Trash2,
+  Upload,
+  TableProperties,
+} from "lucide-react";
 import dynamic from "next/dynamic";
+import "leaflet/dist/leaflet.css";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -20,74 +40,176 @@ import {
 } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
+import {
+  HAZARD_STATUS_COLOR,
+  HAZARD_STATUS_LABEL,
+  HAZARD_STATUSES,
+  locationLabel,
+  type HazardStatus,
+  type ReportSummary,
+} from "@/lib/reports/hazard-report";
+import { exportReports, exportSitrep } from "@/lib/reports/client";
+import { matchesSearchQuery, parseSearchQuery, setSearchField } from "@/lib/reports/search-query";
+import {
+  dropdownsFromQuery,
+  reportTimeDomain,
+  withDropdownTerms,
+  type MapFilters,
+  type MapView,
+} from "@/lib/map/map-view";
+import { areaContains, describeArea, type AreaKind, type AreaShape, type LatLngTuple } from "@/lib/map/area";
+import { countNearby, formatDistance, nearbyReports } from "@/lib/map/proximity";
+import {
+  DEFAULT_HOTSPOT_OPTIONS,
+  HOTSPOT_CELL_SIZES,
+  HOTSPOT_WINDOWS,
+  detectHotspots,
+  formatGrowth,
+  type Hotspot,
+  type HotspotOptions,
+} from "@/lib/map/hotspots";
+import type { CreateAlertDraftInput } from "@/lib/alerts/validation";
+import type { ReportSelection } from "@/lib/reports/selection";
+import type { AssetKind, CriticalAsset } from "@/lib/assets/asset";
+import type { CreateAssetInput } from "@/lib/assets/validation";
+import ProximityPanel from "@/components/ProximityPanel";
+import ReportMediaPreview from "@/components/ReportMediaPreview";
+import SavedViewsControl from "@/components/SavedViewsControl";
+import SearchQueryInput from "@/components/SearchQueryInput";
+import type { SavedView } from "@/lib/saved-views/saved-view";
+import type { CreateSavedViewInput } from "@/lib/saved-views/validation";
+import type { Geofence } from "@/lib/geofences/geofence";
+import { DEFAULT_BASEMAPS, type Basemap } from "@/lib/basemaps/basemap";
+import {
+  MAX_OVERLAY_BYTES,
+  OVERLAY_FILE_ACCEPT,
+  overlayColor,
+  parseOverlayFile,
+  type MapOverlay,
+} from "@/lib/map/overlay";
+import {
+  DEFAULT_REPLAY_OPTIONS,
+  MAX_EXPORT_FRAMES,
+  REPLAY_SPEEDS,
+  REPLAY_STEPS,
+  REPLAY_WINDOWS,
+  formatReplayDuration,
+  frameInterval,
+  inReplayWindow,
+  replayFrameTimes,
+  replayOpacity,
+  resolveStep,
+  stepFrame,
+  type ReplayOptions,
+} from "@/lib/map/replay";
+import { renderReplayGif } from "@/lib/map/replay-gif";
+import {
+  DEFAULT_HEATMAP_OPTIONS,
+  HEAT_WEIGHTINGS,
+  heatRampGradient,
+  toHeatPoints,
+  type HeatmapOptions,
+  type HeatWeighting,
+} from "@/lib/map/heatmap";
 
 type LeafletModule = typeof import("leaflet");
-
-type HazardStatus = "unverified" | "under_review" | "verified" | "false_alarm";
-type HazardSource = "citizen" | "sensor" | "social" | "official" | "other";
-
-export interface HazardReport {
-  id: string;
-  lat: number;
-  lng: number;
-  type: string;
-  status: HazardStatus;
-  source: HazardSource;
-  timestamp: string; // ISO string
-  description?: string;
-  mediaUrls?: string[]; // Must be Unsplash URLs if provided
-  title?: string;
-  tags?: string[];
-  personName?: string;
-  locationName?: string;
-}
+type LeafletMap = import("leaflet").Map;
 
 interface InteractiveMapDashboardProps {
   className?: string;
   style?: CSSProperties;
-  reports: HazardReport[];
+  reports: ReportSummary[];
   initialCenter?: [number, number];
   initialZoom?: number;
   showHeatmapToggle?: boolean;
   showClusterToggle?: boolean;
   defaultHeatmap?: boolean;
   defaultCluster?: boolean;
-  onFilterChange?: (filters: ActiveFilters) => void;
+  initialFilters?: Partial<MapFilters>;
+  onFilterChange?: (filters: MapFilters) => void;
+  onViewChange?: (view: MapView) => void; // after each pan or zoom
   onTimelineChange?: (time: number) => void; // Unix ms
   language?: "en" | "hi";
-}
-
-interface ActiveFilters {
-  hazardType: string | "all";
-  status: HazardStatus | "all";
-  source: HazardSource | "all";
-  timeStart?: number; // Unix ms
-  timeEnd?: number; // Unix ms
-  heatmap: boolean;
-  clustering: boolean;
-  tagsQuery?: string;
+  canExport?: boolean; // data.export
+  geofences?: Geofence[];
+  onSaveGeofence?: (name: string, area: AreaShape) => Promise<unknown>; // reports.write
+  onDeleteGeofence?: (id: string) => Promise<void>; // reports.write
+  basemaps?: Basemap[]; // from Settings; the built-in set when none are enabled
+  assets?: CriticalAsset[];
+  onSaveAsset?: (input: CreateAssetInput) => Promise<unknown>; // reports.write
+  onDeleteAsset?: (id: string) => Promise<void>; // reports.write
+  onDraftAlert?: (input: CreateAlertDraftInput) => Promise<unknown>; // reports.write
+  onSelectReports?: (selection: ReportSelection) => void; // open a cluster or area in the report table
+  focusReportId?: string | null; // flown to and highlighted once the report is loaded
+  savedViews?: SavedView[];
+  defaultViewId?: string | null;
+  startView?: SavedView | null; // applied once it arrives, e.g. the user's default view
+  onSaveView?: (input: CreateSavedViewInput) => Promise<SavedView>;
+  onDeleteView?: (id: string) => Promise<void>;
+  onSetDefaultView?: (id: string | null) => Promise<void>;
+  canPublishViews?: boolean; // system.configure: shared presets
 }
 
 const defaultCenter: [number, number] = [37.773972, -122.431297]; // SF
 const defaultZoom = 11;
+// Past CLUSTER_MAX_ZOOM, so a focused report gets a marker of its own
+const FOCUS_ZOOM = 17;
 
 const MapContainer = dynamic(
   async () => (await import("react-leaflet")).MapContainer,
   { ssr: false }
 );
-const TileLayer = dynamic(async () => (await import("react-leaflet")).TileLayer, {
-  ssr: false,
-});
 const Marker = dynamic(async () => (await import("react-leaflet")).Marker, {
   ssr: false,
 });
 const Popup = dynamic(async () => (await import("react-leaflet")).Popup, {
   ssr: false,
 });
+const GeoJSONLayer = dynamic(async () => (await import("react-leaflet")).GeoJSON, {
+  ssr: false,
+});
+const CircleMarker = dynamic(async () => (await import("react-leaflet")).CircleMarker, {
+  ssr: false,
+});
 const LayerGroup = dynamic(
   async () => (await import("react-leaflet")).LayerGroup,
   { ssr: false }
 );
+const BasemapLayers = dynamic(() => import("@/components/BasemapLayers"), { ssr: false });
+const AreaDrawLayer = dynamic(() => import("@/components/AreaDrawLayer"), { ssr: false });
+const ProximityLayer = dynamic(() => import("@/components/ProximityLayer"), { ssr: false });
+const HotspotLayer = dynamic(() => import("@/components/HotspotLayer"), { ssr: false });
+const ClusterLayer = dynamic(() => import("@/components/ClusterLayer"), { ssr: false });
+const HeatmapLayer = dynamic(() => import("@/components/HeatmapLayer"), { ssr: false });
+const MapInstance = dynamic(
+  async () => {
+    const { useMap } = await import("react-leaflet");
+    return function MapInstance({ onReady }: { onReady: (map: LeafletMap | null) => void }) {
+      const map = useMap();
+      useEffect(() => {
+        onReady(map);
+        return () => onReady(null);
+      }, [map, onReady]);
+      return null;
+    };
+  },
+  { ssr: false }
+);
+const MapViewWatcher = dynamic(
+  async () => {
+    const { useMapEvents } = await import("react-leaflet");
+    return function MapViewWatcher({ onChange }: { onChange: (view: MapView) => void }) {
+      const map = useMapEvents({
+        moveend: () => {
+          const c = map.getCenter();
+          onChange({ center: [c.lat, c.lng], zoom: map.getZoom() });
+        },
+      });
+      return null;
+    };
+  },
+  { ssr: false }
+);
 
 const statusStyles: Record<
   HazardStatus,
@@ -97,25 +219,25 @@ const statusStyles: Record<
     bg: "bg-amber-500",
     ring: "ring-amber-200",
     text: "text-amber-700",
-    label: "Unverified",
+    label: HAZARD_STATUS_LABEL.unverified,
   },
   under_review: {
     bg: "bg-sky-500",
     ring: "ring-sky-200",
     text: "text-sky-700",
-    label: "Under Review",
+    label: HAZARD_STATUS_LABEL.under_review,
   },
   verified: {
     bg: "bg-emerald-500",
     ring: "ring-emerald-200",
     text: "text-emerald-700",
-    label: "Verified",
+    label: HAZARD_STATUS_LABEL.verified,
   },
   false_alarm: {
     bg: "bg-rose-500",
     ring: "ring-rose-200",
     text: "text-rose-700",
-    label: "False Alarm",
+    label: HAZARD_STATUS_LABEL.false_alarm,
   },
 };
 
@@ -138,9 +260,29 @@ export default function InteractiveMapDashboard({
   showClusterToggle = true,
   defaultHeatmap = false,
   defaultCluster = true,
+  initialFilters,
   onFilterChange,
+  onViewChange,
   onTimelineChange,
   language = "en",
+  canExport = true,
+  geofences = [],
+  onSaveGeofence,
+  onDeleteGeofence,
+  basemaps,
+  assets = [],
+  onSaveAsset,
+  onDeleteAsset,
+  onDraftAlert,
+  onSelectReports,
+  focusReportId,
+  savedViews = [],
+  defaultViewId = null,
+  startView,
+  onSaveView,
+  onDeleteView,
+  onSetDefaultView,
+  canPublishViews = false,
 }: InteractiveMapDashboardProps) {
   const [mounted, setMounted] = useState(false);
   const leafletRef = useRef<LeafletModule | null>(null);
@@ -154,6 +296,7 @@ export default function InteractiveMapDashboard({
       status: "Status",
       source: "Source",
       search: "Search",
+      searchPlaceholder: "type:flood near:Kochi -dismissed…",
       tags: "Tags",
       allTypes: "All types",
       allStatuses: "All statuses",
@@ -165,13 +308,66 @@ export default function InteractiveMapDashboard({
       play: "Play",
       pause: "Pause",
       jumpLatest: "Jump to latest",
+      prevFrame: "Previous frame",
+      nextFrame: "Next frame",
+      replaySpeed: "Speed",
+      replayStep: "Step",
+      replayWindow: "Show",
+      autoStep: "Auto",
+      cumulative: "All up to now",
+      lastWindow: (d: string) => `Last ${d}`,
+      fadeOlder: "Fade older",
+      exportGif: "Export GIF",
+      exportingGif: (done: number, total: number) => `Rendering ${done}/${total}…`,
+      replayReports: (n: number) => `${n} reports`,
+      proximity: "Proximity",
+      pickPoint: "Pick a point",
+      pickHint: "Click the map. Esc cancels.",
+      nearbyReports: "Nearby reports",
+      pickedPoint: (lat: number, lng: number) => `${lat.toFixed(4)}, ${lng.toFixed(4)}`,
+      noAssets: "No critical assets registered",
+      assetCount: (n: number, r: string) => `${n} ${n === 1 ? "report" : "reports"} within ${r}`,
+      hotspots: "Hotspots",
+      hotspotWindow: (h: number) => `Last ${h} h`,
+      hotspotCell: (km: number) => `${km} km cells`,
+      hotspotNew: "new",
+      hotspotDetail: (n: number, expected: string, h: number) =>
+        `${n} reports in the last ${h} h, ${expected} expected from the week before`,
+      noHotspots: "No emerging hotspots",
+      draftAlert: "Draft alert",
+      alertDrafted: "Alert draft queued for review in the Notification Center",
       legend: "Legend",
       exportCSV: "Export CSV",
       exportPDF: "Export PDF",
+      exportingPDF: "Generating PDF…",
       viewDetails: "View details",
       location: "Location",
       person: "Person",
       tagsLabel: "Tags (comma separated)",
+      heatRadius: "Radius",
+      heatBlur: "Blur",
+      heatWeighting: "Weight by",
+      weighting: { none: "Equal", status: "Status", recency: "Recency" },
+      densityUnit: "reports / km²",
+      weightedDensityUnit: "weighted reports / km²",
+      area: "Area",
+      drawPolygon: "Draw polygon",
+      drawRectangle: "Draw rectangle",
+      drawRadius: "Draw radius",
+      clearArea: "Clear area",
+      drawHint: "Click to place points. Esc cancels.",
+      savedGeofences: "Saved geofences",
+      geofenceName: "Geofence name",
+      saveGeofence: "Save",
+      deleteGeofence: "Delete geofence",
+      layers: "Overlay layers",
+      importLayer: "Import GeoJSON / KML",
+      removeLayer: "Remove layer",
+      noLayers: "None imported",
+      tilesFailed: (name: string) => `Map tiles from ${name} could not be loaded`,
+      selectClusterHint: "right-click to open in the report table",
+      openInTable: (n: number) => `Open ${n} in table`,
+      tilesFailedHint: "Switch to another basemap with the layer control, or check the network connection.",
     } as const;
     const hi = {
       filters: "खतरा फ़िल्टर",
@@ -179,6 +375,7 @@ export default function InteractiveMapDashboard({
       status: "स्थिति",
       source: "स्रोत",
       search: "खोज",
+      searchPlaceholder: "type:flood near:Kochi -dismissed…",
       tags: "टैग",
       allTypes: "सभी प्रकार",
       allStatuses: "सभी स्थितियाँ",
@@ -190,18 +387,71 @@ export default function InteractiveMapDashboard({
       play: "चलाएँ",
       pause: "रोकें",
       jumpLatest: "नवीनतम",
+      prevFrame: "पिछला फ़्रेम",
+      nextFrame: "अगला फ़्रेम",
+      replaySpeed: "गति",
+      replayStep: "चरण",
+      replayWindow: "दिखाएँ",
+      autoStep: "स्वतः",
+      cumulative: "अब तक सभी",
+      lastWindow: (d: string) => `पिछले ${d}`,
+      fadeOlder: "पुराने धुंधले करें",
+      exportGif: "GIF निर्यात",
+      exportingGif: (done: number, total: number) => `रेंडर हो रहा है ${done}/${total}…`,
+      replayReports: (n: number) => `${n} रिपोर्ट`,
+      proximity: "निकटता",
+      pickPoint: "बिंदु चुनें",
+      pickHint: "मानचित्र पर क्लिक करें। Esc रद्द करता है।",
+      nearbyReports: "आस-पास की रिपोर्ट",
+      pickedPoint: (lat: number, lng: number) => `${lat.toFixed(4)}, ${lng.toFixed(4)}`,
+      noAssets: "कोई महत्वपूर्ण संपत्ति दर्ज नहीं",
+      assetCount: (n: number, r: string) => `${r} के भीतर ${n} रिपोर्ट`,
+      hotspots: "हॉटस्पॉट",
+      hotspotWindow: (h: number) => `पिछले ${h} घंटे`,
+      hotspotCell: (km: number) => `${km} किमी सेल`,
+      hotspotNew: "नया",
+      hotspotDetail: (n: number, expected: string, h: number) =>
+        `पिछले ${h} घंटों में ${n} रिपोर्ट, पिछले सप्ताह के अनुसार अपेक्षित ${expected}`,
+      noHotspots: "कोई उभरता हॉटस्पॉट नहीं",
+      draftAlert: "अलर्ट का मसौदा",
+      alertDrafted: "अलर्ट मसौदा सूचना केंद्र में समीक्षा के लिए भेजा गया",
       legend: "कुंजी",
       exportCSV: "CSV निर्यात",
       exportPDF: "PDF निर्यात",
+      exportingPDF: "PDF बन रहा है…",
       viewDetails: "विवरण देखें",
       location: "स्थान",
       person: "व्यक्ति",
       tagsLabel: "टैग (कॉमा से अलग)",
+      heatRadius: "त्रिज्या",
+      heatBlur: "धुंधलापन",
+      heatWeighting: "भार",
+      weighting: { none: "समान", status: "स्थिति", recency: "नवीनता" },
+      densityUnit: "रिपोर्ट / किमी²",
+      weightedDensityUnit: "भारित रिपोर्ट / किमी²",
+      area: "क्षेत्र",
+      drawPolygon: "बहुभुज बनाएँ",
+      drawRectangle: "आयत बनाएँ",
+      drawRadius: "त्रिज्या बनाएँ",
+      clearArea: "क्षेत्र हटाएँ",
+      drawHint: "बिंदु रखने के लिए क्लिक करें। Esc से रद्द करें।",
+      savedGeofences: "सहेजे गए जियोफ़ेंस",
+      geofenceName: "जियोफ़ेंस का नाम",
+      saveGeofence: "सहेजें",
+      deleteGeofence: "जियोफ़ेंस हटाएँ",
+      layers: "ओवरले परतें",
+      importLayer: "GeoJSON / KML आयात करें",
+      removeLayer: "परत हटाएँ",
+      noLayers: "कोई आयात नहीं",
+      tilesFailed: (name: string) => `${name} से मानचित्र टाइलें लोड नहीं हो सकीं`,
+      selectClusterHint: "रिपोर्ट तालिका में खोलने के लिए राइट-क्लिक करें",
+      openInTable: (n: number) => `तालिका में ${n} खोलें`,
+      tilesFailedHint: "लेयर नियंत्रण से दूसरा बेसमैप चुनें, या नेटवर्क कनेक्शन जाँचें।",
     } as const;
     return language === "hi" ? hi : en;
   }, [language]);
 
-  // Load Leaflet JS + CSS only on client
+  // Load Leaflet JS only on client; its CSS is bundled so the map works offline
   useEffect(() => {
     let cancelled = false;
     async function load() {
@@ -209,21 +459,6 @@ export default function InteractiveMapDashboard({
         const L = await import("leaflet");
         if (cancelled) return;
         leafletRef.current = L;
-        // Inject Leaflet CSS if not present
-        if (typeof window !== "undefined") {
-          const id = "leaflet-css";
-          if (!document.getElementById(id)) {
-            const link = document.createElement("link");
-            link.id = id;
-            link.rel = "stylesheet";
-            link.href = "https://unpkg.com/leaflet@1.9.4/dist/leaflet.css";
-            link.integrity =
-              "sha256-p4NxAoJBhIIN+hmNHrzRCf9tD/miZyoHS5obTRR9BMY=";
-            link.crossOrigin = "";
-            const headEl = document.head || document.body || document.documentElement;
-            headEl && headEl.appendChild(link);
-          }
-        }
         setMounted(true);
       } catch (e) {
         console.error("Failed to load Leaflet", e);
@@ -237,83 +472,185 @@ export default function InteractiveMapDashboard({
   }, []);
 
   // Determine time domain
-  const timeDomain = useMemo(() => {
-    if (!reports?.length) return null;
-    let min = Infinity;
-    let max = -Infinity;
-    for (const r of reports) {
-      const t = new Date(r.timestamp).getTime();
-      if (!Number.isFinite(t)) continue;
-      if (t < min) min = t;
-      if (t > max) max = t;
-    }
-    if (!Number.isFinite(min) || !Number.isFinite(max)) return null;
-    return { min, max };
-  }, [reports]);
-
-  const [filters, setFilters] = useState<ActiveFilters>({
-    hazardType: "all",
-    status: "all",
-    source: "all",
-    timeStart: timeDomain?.min,
-    timeEnd: timeDomain?.max,
-    heatmap: defaultHeatmap,
-    clustering: defaultCluster,
-    tagsQuery: "",
-  });
+  const timeDomain = useMemo(() => reportTimeDomain(reports), [reports]);
+
+  const [filters, setFilters] = useState<MapFilters>(() =>
+    withDropdownTerms({
+      hazardType: "all",
+      status: "all",
+      source: "all",
+      timeStart: timeDomain?.min,
+      timeEnd: timeDomain?.max,
+      heatmap: defaultHeatmap,
+      clustering: defaultCluster,
+      tagsQuery: "",
+      ...initialFilters,
+    })
+  );
+
+  // The search query narrows on top of the other filters. While it has errors the
+  // map keeps the last query that parsed.
+  const parsedQuery = useMemo(() => parseSearchQuery(filters.query ?? ""), [filters.query]);
+  const [searchQuery, setSearchQuery] = useState(parsedQuery);
+  useEffect(() => {
+    if (!parsedQuery.errors.length) setSearchQuery(parsedQuery);
+  }, [parsedQuery]);
+  const setQuery = useCallback((query: string) => {
+    setFilters((f) => ({ ...f, ...dropdownsFromQuery(query), query }));
+  }, []);
 
   // Timeline pointer (ms)
   const [timeline, setTimeline] = useState<number | undefined>(timeDomain?.max);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [replay, setReplay] = useState<ReplayOptions>(DEFAULT_REPLAY_OPTIONS);
+  const replayStep = timeDomain ? resolveStep(replay.step, timeDomain) : 1;
 
+  // When live data widens the time domain, follow it only where the user is still at
+  // the edge, so a narrowed range or a paused replay position survives new reports
+  const prevDomainRef = useRef<{ min: number; max: number } | null>(null);
   useEffect(() => {
-    // If time domain updates (e.g., new data), sync filters defaults
-    if (timeDomain) {
-      setFilters((f) => ({
-        ...f,
-        timeStart: timeDomain.min,
-        timeEnd: timeDomain.max,
-      }));
-      setTimeline(timeDomain.max);
-    }
+    if (!timeDomain) return;
+    const prev = prevDomainRef.current;
+    prevDomainRef.current = timeDomain;
+    setFilters((f) => ({
+      ...f,
+      timeStart: f.timeStart == null || (prev && f.timeStart <= prev.min) ? timeDomain.min : f.timeStart,
+      timeEnd: f.timeEnd == null || (prev && f.timeEnd >= prev.max) ? timeDomain.max : f.timeEnd,
+    }));
+    setTimeline((current) => (!prev || current == null || current >= prev.max ? timeDomain.max : current));
   }, [timeDomain?.min, timeDomain?.max]);
 
   useEffect(() => {
     onFilterChange?.(filters);
   }, [filters, onFilterChange]);
 
-  // Simple play loop for timeline
+  // Play loop: one frame step per tick, stopping at the end of the domain
   useEffect(() => {
-    if (!isPlaying || !timeDomain || timeline == null) return;
-    const step = Math.max(1, Math.floor((timeDomain.max - timeDomain.min) / 120)); // 120 steps
+    if (!isPlaying || !timeDomain) return;
     const id = window.setInterval(() => {
       setTimeline((prev) => {
         if (prev == null) return timeDomain.min;
-        const next = prev + step;
-        if (next >= timeDomain.max) {
-          setIsPlaying(false);
-          return timeDomain.max;
-        }
+        const next = stepFrame(prev, 1, replayStep, timeDomain);
+        if (next >= timeDomain.max) setIsPlaying(false);
         return next;
       });
-    }, 250);
+    }, frameInterval(replay.speed));
     return () => window.clearInterval(id);
+  }, [isPlaying, timeDomain, replayStep, replay.speed]);
+
+  const togglePlay = useCallback(() => {
+    if (!isPlaying && timeDomain && (timeline == null || timeline >= timeDomain.max)) {
+      setTimeline(timeDomain.min); // replay from the start rather than stopping at once
+    }
+    setIsPlaying((p) => !p);
   }, [isPlaying, timeDomain, timeline]);
 
+  const stepTimeline = useCallback(
+    (direction: 1 | -1) => {
+      if (!timeDomain) return;
+      setIsPlaying(false);
+      setTimeline((prev) => stepFrame(prev ?? timeDomain.max, direction, replayStep, timeDomain));
+    },
+    [timeDomain, replayStep]
+  );
+
   useEffect(() => {
     if (timeline != null) onTimelineChange?.(timeline);
   }, [timeline, onTimelineChange]);
 
-  // Derived filtered reports
-  const filteredReports = useMemo(() => {
+  // Area filter: drawn on the map, or picked from the saved geofences
+  const [drawMode, setDrawMode] = useState<AreaKind | null>(null);
+  const [fenceName, setFenceName] = useState("");
+  const [savingFence, setSavingFence] = useState(false);
+  const areaKey = filters.area ? JSON.stringify(filters.area) : null;
+  const activeFence = geofences.find((g) => JSON.stringify(g.shape) === areaKey);
+
+  const setArea = useCallback((area: AreaShape | undefined) => {
+    setDrawMode(null);
+    setFilters((f) => ({ ...f, area }));
+  }, []);
+  const cancelDraw = useCallback(() => setDrawMode(null), []);
+
+  const saveFence = useCallback(async () => {
+    if (!onSaveGeofence || !filters.area || !fenceName.trim()) return;
+    setSavingFence(true);
+    try {
+      await onSaveGeofence(fenceName.trim(), filters.area);
+      setFenceName("");
+      toast.success(`Saved geofence "${fenceName.trim()}"`);
+    } catch (e) {
+      toast.error("Could not save geofence", {
+        description: e instanceof Error ? e.message : undefined,
+      });
+    } finally {
+      setSavingFence(false);
+    }
+  }, [onSaveGeofence, filters.area, fenceName]);
+
+  const deleteFence = useCallback(
+    async (fence: Geofence) => {
+      if (!onDeleteGeofence) return;
+      try {
+        await onDeleteGeofence(fence.id);
+        toast.success(`Deleted geofence "${fence.name}"`);
+      } catch (e) {
+        toast.error("Could not delete geofence", {
+          description: e instanceof Error ? e.message : undefined,
+        });
+      }
+    },
+    [onDeleteGeofence]
+  );
+
+  const activeBasemaps = useMemo(() => {
+    const enabled = (basemaps ?? []).filter((b) => b.enabled);
+    return enabled.some((b) => !b.overlay) ? enabled : DEFAULT_BASEMAPS;
+  }, [basemaps]);
+  const [failingBasemap, setFailingBasemap] = useState<Basemap | null>(null);
+
+  // Reference layers imported from files; kept for the session only
+  const [overlays, setOverlays] = useState<MapOverlay[]>([]);
+  const overlayInputRef = useRef<HTMLInputElement>(null);
+
+  const importOverlays = useCallback(async (files: FileList) => {
+    for (const file of Array.from(files)) {
+      if (file.size > MAX_OVERLAY_BYTES) {
+        toast.error(`${file.name} is too large`, { description: "Overlay files are limited to 20 MB." });
+        continue;
+      }
+      try {
+        const { data, skipped } = parseOverlayFile(file.name, await file.text());
+        setOverlays((prev) => [
+          ...prev,
+          {
+            id: `${file.name}-${Date.now()}`,
+            name: file.name.replace(/\.(geo)?json$|\.kml$/i, ""),
+            color: overlayColor(prev.length),
+            visible: true,
+            data,
+          },
+        ]);
+        if (skipped) {
+          toast.warning(`Imported ${file.name} with ${skipped} invalid feature${skipped === 1 ? "" : "s"} skipped`);
+        } else {
+          toast.success(`Imported ${file.name}`);
+        }
+      } catch (e) {
+        toast.error(`Could not import ${file.name}`, {
+          description: e instanceof Error ? e.message : undefined,
+        });
+      }
+    }
+  }, []);
+
+  // Reports matching every filter but the time range; hotspot baselines reach before it
+  const matchingReports = useMemo(() => {
     return reports.filter((r) => {
       if (filters.hazardType !== "all" && r.type !== filters.hazardType) return false;
       if (filters.status !== "all" && r.status !== filters.status) return false;
       if (filters.source !== "all" && r.source !== filters.source) return false;
-      const t0 = new Date(r.timestamp).getTime();
-      if (filters.timeStart && t0 < filters.timeStart) return false;
-      if (filters.timeEnd && t0 > filters.timeEnd) return false;
-      if (timeline != null && t0 > timeline) return false; // historical replay up to timeline
+      if (filters.area && !areaContains(filters.area, r.lat, r.lng)) return false;
+      if (searchQuery.terms.length && !matchesSearchQuery(r, searchQuery)) return false;
       if (filters.tagsQuery && filters.tagsQuery.trim().length > 0) {
         const needles = filters.tagsQuery
           .toLowerCase()
@@ -327,36 +664,40 @@ export default function InteractiveMapDashboard({
       }
       return true;
     });
-  }, [reports, filters, timeline]);
+  }, [reports, filters.hazardType, filters.status, filters.source, filters.area, filters.tagsQuery, searchQuery]);
+
+  // Reports matching the filters at any replay position
+  const rangeReports = useMemo(() => {
+    if (!filters.timeStart && !filters.timeEnd) return matchingReports;
+    return matchingReports.filter((r) => {
+      const t0 = new Date(r.timestamp).getTime();
+      if (filters.timeStart && t0 < filters.timeStart) return false;
+      if (filters.timeEnd && t0 > filters.timeEnd) return false;
+      return true;
+    });
+  }, [matchingReports, filters.timeStart, filters.timeEnd]);
+
+  // ...and those shown at the current one: up to it, or within the sliding window before it
+  const filteredReports = useMemo(() => {
+    if (timeline == null) return rangeReports;
+    return rangeReports.filter((r) => inReplayWindow(new Date(r.timestamp).getTime(), timeline, replay.window));
+  }, [rangeReports, timeline, replay.window]);
+
+  // Fading spans the window, or everything since the start of the range
+  const markerOpacity = useMemo(() => {
+    if (!replay.fade || timeline == null) return undefined;
+    const span = replay.window ?? timeline - (filters.timeStart ?? timeDomain?.min ?? timeline);
+    return (r: ReportSummary) => 0.95 * replayOpacity(new Date(r.timestamp).getTime(), timeline, span);
+  }, [replay.fade, replay.window, timeline, filters.timeStart, timeDomain?.min]);
 
-  // Simple heat "intensity" using density buckets (green/yellow/red)
+  // Kernel density of the filtered reports; recency is measured from the replay
+  // position so older reports fade as the timeline advances
+  const [heatOptions, setHeatOptions] = useState<HeatmapOptions>(DEFAULT_HEATMAP_OPTIONS);
+  const [peakDensity, setPeakDensity] = useState(0);
   const heatPoints = useMemo(() => {
-    if (!filters.heatmap) return [] as { lat: number; lng: number; weight: number }[];
-    // bucket by grid (coarser for overview)
-    const gridSize = 0.25; // ~25km
-    const buckets = new Map<string, { lat: number; lng: number; count: number }>();
-    for (const r of filteredReports) {
-      const gx = Math.floor(r.lng / gridSize);
-      const gy = Math.floor(r.lat / gridSize);
-      const key = `${gx}:${gy}`;
-      const centerLng = (gx + 0.5) * gridSize;
-      const centerLat = (gy + 0.5) * gridSize;
-      const b = buckets.get(key);
-      if (b) b.count += 1;
-      else buckets.set(key, { lat: centerLat, lng: centerLng, count: 1 });
-    }
-    let max = 0;
-    for (const b of buckets.values()) max = Math.max(max, b.count);
-    if (max === 0) return [] as { lat: number; lng: number; weight: number }[];
-    return Array.from(buckets.values()).map((b) => ({ lat: b.lat, lng: b.lng, weight: b.count / max }));
-  }, [filteredReports, filters.heatmap]);
-
-  function densityColor(w: number) {
-    // low->green, mid->yellow, high->red
-    if (w >= 0.66) return "#ef4444"; // red
-    if (w >= 0.33) return "#f59e0b"; // yellow
-    return "#10b981"; // green
-  }
+    if (!filters.heatmap) return [];
+    return toHeatPoints(filteredReports, heatOptions.weighting, timeline ?? Date.now());
+  }, [filteredReports, filters.heatmap, heatOptions.weighting, timeline]);
 
   // Provide leaflet-based icons for each status (fixes ReferenceError: statusIcons is not defined)
   const statusIcons = useMemo<Record<HazardStatus, any> | undefined>(() => {
@@ -373,10 +714,10 @@ export default function InteractiveMapDashboard({
         iconAnchor: [7, 14],
       });
     return {
-      unverified: make("#f59e0b"),
-      under_review: make("#0ea5e9"),
-      verified: make("#10b981"),
-      false_alarm: make("#ef4444"),
+      unverified: make(HAZARD_STATUS_COLOR.unverified),
+      under_review: make(HAZARD_STATUS_COLOR.under_review),
+      verified: make(HAZARD_STATUS_COLOR.verified),
+      false_alarm: make(HAZARD_STATUS_COLOR.false_alarm),
     };
   }, [mounted]);
 
@@ -391,97 +732,393 @@ export default function InteractiveMapDashboard({
   );
 
   // export helpers
-  const exportCSV = useCallback(() => {
-    const headers = [
-      "id",
-      "title",
-      "type",
-      "status",
-      "source",
-      "timestamp",
-      "lat",
-      "lng",
-      "locationName",
-      "personName",
-      "tags",
-      "description",
-    ];
-    const rows = filteredReports.map((r) => [
-      r.id,
-      safe(r.title),
-      r.type,
-      r.status,
-      r.source,
-      new Date(r.timestamp).toISOString(),
-      r.lat,
-      r.lng,
-      safe(r.locationName),
-      safe(r.personName),
-      (r.tags ?? []).join("|"),
-      safe(r.description),
-    ]);
-    const csv = [headers.join(","), ...rows.map((row) => row.map(csvEscape).join(","))].join("\n");
-    const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = "hazard-reports.csv";
-    a.click();
-    URL.revokeObjectURL(url);
-  }, [filteredReports]);
-
-  const exportPDF = useCallback(() => {
-    const w = window.open("", "_blank", "width=900,height=700");
-    if (!w) return;
-    const rows = filteredReports
-      .map(
-        (r) => `
-        <tr>
-          <td style="padding:6px;border:1px solid #ddd">${escapeHTML(r.id)}</td>
-          <td style="padding:6px;border:1px solid #ddd">${escapeHTML(r.title || capitalize(r.type))}</td>
-          <td style="padding:6px;border:1px solid #ddd">${escapeHTML(r.status)}</td>
-          <td style="padding:6px;border:1px solid #ddd">${escapeHTML(r.source)}</td>
-          <td style="padding:6px;border:1px solid #ddd">${escapeHTML(formatDate(r.timestamp))}</td>
-          <td style="padding:6px;border:1px solid #ddd">${r.lat.toFixed(4)}, ${r.lng.toFixed(4)}</td>
-        </tr>`
-      )
-      .join("");
-    w.document.write(`
-      <html>
-        <head>
-          <title>Hazard Reports</title>
-          <meta name="viewport" content="width=device-width, initial-scale=1" />
-          <style>
-            body { font-family: Inter, Arial, sans-serif; padding: 16px; }
-            h1 { font-size: 18px; margin-bottom: 12px; }
-            table { width: 100%; border-collapse: collapse; font-size: 12px; }
-            th, td { border: 1px solid #ddd; padding: 6px; text-align: left; }
-            th { background: #f3f4f6; }
-          </style>
-        </head>
-        <body>
-          <h1>Hazard Reports (${filteredReports.length})</h1>
-          <table>
-            <thead>
-              <tr>
-                <th>ID</th>
-                <th>Title</th>
-                <th>Status</th>
-                <th>Source</th>
-                <th>Time</th>
-                <th>Lat/Lng</th>
-              </tr>
-            </thead>
-            <tbody>
-              ${rows}
-            </tbody>
-          </table>
-          <script>window.print();</script>
-        </body>
-      </html>
-    `);
-    w.document.close();
-  }, [filteredReports]);
+  const exportFile = useCallback(
+    async (format: "csv" | "geojson" | "kml") => {
+      let contents: string;
+      try {
+        contents = await exportReports({ ids: filteredReports.map((r) => r.id), format });
+      } catch (e) {
+        toast.error("Export failed", {
+          description: e instanceof Error ? e.message : undefined,
+        });
+        return;
+      }
+      const blob = new Blob([contents], { type: EXPORT_MIME[format] });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `hazard-reports.${format}`;
+      a.click();
+      URL.revokeObjectURL(url);
+    },
+    [filteredReports]
+  );
+
+  // The replay over the selected time range as an animated GIF of the current view
+  const mapRef = useRef<LeafletMap | null>(null);
+  const [mapInstanceReady, setMapInstanceReady] = useState(false);
+  const setMapInstance = useCallback((map: LeafletMap | null) => {
+    mapRef.current = map;
+    setMapInstanceReady(Boolean(map));
+  }, []);
+  const [baseLayer, setBaseLayer] = useState<Basemap | null>(null);
+
+  // Saved views replace the camera and every filter except the time range
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const applyView = useCallback((view: SavedView) => {
+    setActiveViewId(view.id);
+    setDrawMode(null);
+    setFilters((f) => withDropdownTerms({ ...f, tagsQuery: "", query: "", area: undefined, ...view.filters }));
+    mapRef.current?.setView(view.center, view.zoom);
+  }, []);
+
+  const appliedStartView = useRef(false);
+  useEffect(() => {
+    if (!startView || !mapInstanceReady || appliedStartView.current) return;
+    appliedStartView.current = true;
+    applyView(startView);
+  }, [startView, mapInstanceReady, applyView]);
+
+  const saveView = useCallback(
+    async (name: string, shared: boolean) => {
+      const map = mapRef.current;
+      if (!onSaveView || !map) return;
+      const center = map.getCenter();
+      const view = await onSaveView({
+        name,
+        shared,
+        center: [center.lat, center.lng],
+        zoom: map.getZoom(),
+        filters: {
+          hazardType: filters.hazardType,
+          status: filters.status,
+          source: filters.source,
+          heatmap: filters.heatmap,
+          clustering: filters.clustering,
+          tagsQuery: filters.tagsQuery?.trim() || undefined,
+          query: filters.query?.trim() || undefined,
+          area: filters.area,
+        },
+      });
+      setActiveViewId(view.id);
+    },
+    [onSaveView, filters]
+  );
+
+  const deleteView = useCallback(
+    async (view: SavedView) => {
+      if (!onDeleteView) return;
+      await onDeleteView(view.id);
+      setActiveViewId((id) => (id === view.id ? null : id));
+    },
+    [onDeleteView]
+  );
+  const [gifProgress, setGifProgress] = useState<{ done: number; total: number } | null>(null);
+
+  // Server-rendered situation report of what the map shows, over the current base layer
+  const [exportingPDF, setExportingPDF] = useState(false);
+  const exportPDF = useCallback(async () => {
+    const end = timeline ?? filters.timeEnd;
+    const start = timeline != null && replay.window != null ? timeline - replay.window : filters.timeStart;
+    const described = [
+      filters.hazardType !== "all" && `Type: ${capitalize(filters.hazardType)}`,
+      filters.status !== "all" && `Status: ${HAZARD_STATUS_LABEL[filters.status]}`,
+      filters.source !== "all" && `Source: ${capitalize(filters.source)}`,
+      filters.tagsQuery?.trim() && `Tags: ${filters.tagsQuery.trim()}`,
+      filters.query?.trim() && `Search: ${filters.query.trim()}`,
+      filters.area && `Area: ${describeArea(filters.area)}`,
+    ].filter(Boolean);
+    setExportingPDF(true);
+    try {
+      const pdf = await exportSitrep({
+        ids: filteredReports.map((r) => r.id),
+        from: start != null ? new Date(start).toISOString() : undefined,
+        to: end != null ? new Date(end).toISOString() : undefined,
+        title: "Hazard map situation report",
+        filters: described.length ? described.join("; ") : undefined,
+        basemapId: baseLayer?.id,
+      });
+      const url = URL.createObjectURL(pdf);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `situation-report-${new Date().toISOString().slice(0, 10)}.pdf`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      toast.error("Export failed", {
+        description: e instanceof Error ? e.message : undefined,
+      });
+    } finally {
+      setExportingPDF(false);
+    }
+  }, [timeline, replay.window, filters, filteredReports, baseLayer]);
+
+  const exportGif = useCallback(async () => {
+    const map = mapRef.current;
+    if (!map || !timeDomain) return;
+    const times = replayFrameTimes(filters.timeStart ?? timeDomain.min, filters.timeEnd ?? timeDomain.max, replayStep);
+    if (times.length > MAX_EXPORT_FRAMES) {
+      toast.error("Too many frames to export", {
+        description: `This range and step make ${times.length} frames; the limit is ${MAX_EXPORT_FRAMES}. Pick a larger step or a shorter range.`,
+      });
+      return;
+    }
+    const dated = rangeReports.map((r) => ({ r, time: new Date(r.timestamp).getTime() }));
+    const frames = times.map((pointer) => {
+      const shown = dated.filter(({ time }) => inReplayWindow(time, pointer, replay.window));
+      const span = replay.window ?? pointer - times[0]!;
+      return {
+        caption: [
+          new Date(pointer).toLocaleString(),
+          replay.window != null ? t.lastWindow(formatReplayDuration(replay.window)) : null,
+          t.replayReports(shown.length),
+        ]
+          .filter(Boolean)
+          .join(" · "),
+        markers: shown.map(({ r, time }) => ({
+          lat: r.lat,
+          lng: r.lng,
+          color: HAZARD_STATUS_COLOR[r.status],
+          opacity: replay.fade ? replayOpacity(time, pointer, span) : 1,
+        })),
+      };
+    });
+
+    const zoom = Math.round(map.getZoom());
+    const bounds = map.getPixelBounds();
+    const size = bounds.getSize();
+    setIsPlaying(false);
+    setGifProgress({ done: 0, total: frames.length });
+    try {
+      const blob = await renderReplayGif(
+        { zoom, origin: { x: bounds.min!.x, y: bounds.min!.y }, width: size.x, height: size.y },
+        baseLayer?.url ?? null,
+        frames,
+        {
+          delay: frameInterval(replay.speed),
+          onProgress: (done) => setGifProgress({ done, total: frames.length }),
+        }
+      );
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = "hazard-replay.gif";
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      toast.error("GIF export failed", {
+        description: e instanceof Error ? e.message : undefined,
+      });
+    } finally {
+      setGifProgress(null);
+    }
+  }, [timeDomain, filters.timeStart, filters.timeEnd, replayStep, rangeReports, replay, baseLayer, t]);
+
+  // Proximity tool: reports within a radius of a picked point, a report or an asset
+  const [proximity, setProximity] = useState<{
+    center: LatLngTuple;
+    label: string;
+    kind: "point" | "report" | "asset";
+    assetId?: string;
+  } | null>(null);
+  const [proximityRadius, setProximityRadius] = useState(5000);
+  const [pickingProximity, setPickingProximity] = useState(false);
+  const cancelPick = useCallback(() => setPickingProximity(false), []);
+
+  const pickProximity = useCallback(
+    ([lat, lng]: LatLngTuple) => {
+      setPickingProximity(false);
+      setProximity({ center: [lat, lng], label: t.pickedPoint(lat, lng), kind: "point" });
+    },
+    [t]
+  );
+
+  const selectAsset = useCallback((asset: CriticalAsset) => {
+    setPickingProximity(false);
+    setProximity({ center: [asset.lat, asset.lng], label: asset.name, kind: "asset", assetId: asset.id });
+    setProximityRadius(asset.radius);
+  }, []);
+
+  const nearReport = useCallback((r: ReportSummary) => {
+    mapRef.current?.closePopup();
+    setProximity({ center: [r.lat, r.lng], label: r.title ?? capitalize(r.type), kind: "report" });
+  }, []);
+
+  const focusReport = useCallback((r: ReportSummary) => {
+    const map = mapRef.current;
+    map?.flyTo([r.lat, r.lng], Math.max(map.getZoom(), 14));
+  }, []);
+
+  // Map selections open in the report table; the table's "Show on map" comes back here
+  const selectCluster = useCallback(
+    (ids: string[]) => onSelectReports?.({ ids, label: `Map cluster of ${ids.length} reports` }),
+    [onSelectReports]
+  );
+
+  const focusedReport = useMemo(
+    () => (focusReportId ? reports.find((r) => r.id === focusReportId) : undefined),
+    [reports, focusReportId]
+  );
+  const flownTo = useRef<string | null>(null);
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!focusedReport || !map || flownTo.current === focusedReport.id) return;
+    flownTo.current = focusedReport.id;
+    map.flyTo([focusedReport.lat, focusedReport.lng], Math.max(map.getZoom(), FOCUS_ZOOM));
+  }, [focusedReport, mapInstanceReady]);
+
+  const nearby = useMemo(
+    () => (proximity ? nearbyReports(filteredReports, proximity.center, proximityRadius) : []),
+    [filteredReports, proximity, proximityRadius]
+  );
+
+  // Running counts against what the map shows, so they follow filters, replay and live updates
+  const assetCounts = useMemo(
+    () => new Map(assets.map((a) => [a.id, countNearby(filteredReports, [a.lat, a.lng], a.radius)])),
+    [assets, filteredReports]
+  );
+
+  const proximityAsset = proximity?.assetId ? assets.find((a) => a.id === proximity.assetId) : undefined;
+
+  const registerAsset = useCallback(
+    async (name: string, kind: AssetKind) => {
+      if (!onSaveAsset || !proximity) return;
+      const [lat, lng] = proximity.center;
+      await onSaveAsset({ name, kind, lat, lng, radius: proximityRadius });
+      toast.success(`Registered ${name}`);
+      setProximity((p) => p && { ...p, label: name });
+    },
+    [onSaveAsset, proximity, proximityRadius]
+  );
+
+  const deleteAsset = useCallback(
+    async (asset: CriticalAsset) => {
+      if (!onDeleteAsset) return;
+      await onDeleteAsset(asset.id);
+      setProximity(null);
+    },
+    [onDeleteAsset]
+  );
+
+  // Emerging hotspots up to the replay position. Detection scans every matching report,
+  // so it trails the replay by a frame rather than holding it up.
+  const [showHotspots, setShowHotspots] = useState(true);
+  const [hotspotOptions, setHotspotOptions] = useState<HotspotOptions>(DEFAULT_HOTSPOT_OPTIONS);
+  const hotspotTime = useDeferredValue(timeline ?? timeDomain?.max);
+  const hotspots = useMemo(
+    () => (showHotspots && hotspotTime != null ? detectHotspots(matchingReports, hotspotTime, hotspotOptions) : []),
+    [showHotspots, matchingReports, hotspotTime, hotspotOptions]
+  );
+
+  const focusHotspot = useCallback((h: Hotspot) => {
+    mapRef.current?.flyToBounds(leafletRef.current!.latLng(h.center).toBounds(h.radius * 2.5));
+  }, []);
+
+  const draftAlert = useCallback(
+    async (h: Hotspot) => {
+      if (!onDraftAlert) return;
+      mapRef.current?.closePopup();
+      const type = capitalize(h.hazardType);
+      const [lat, lng] = h.center;
+      const growth = h.growth == null ? "where none were reported the week before" : `${formatGrowth(h.growth)} the usual rate`;
+      try {
+        await onDraftAlert({
+          region: null,
+          recipients: ["officials", "first_responders"],
+          title: `Emerging ${type.toLowerCase()} hotspot`,
+          message:
+            `${h.count} ${type.toLowerCase()} reports in the last ${hotspotOptions.windowHours} h within ` +
+            `${formatDistance(h.radius)} of ${lat.toFixed(4)}, ${lng.toFixed(4)}, ${growth}. ` +
+            "Verify on the ground and follow official guidance.",
+          severity: "warning",
+          hotspot: {
+            hazardType: h.hazardType,
+            lat,
+            lng,
+            radius: h.radius,
+            count: h.count,
+            expected: h.expected,
+            windowHours: hotspotOptions.windowHours,
+            reportIds: h.reportIds.slice(0, 500),
+          },
+        });
+        toast.success(t.alertDrafted);
+      } catch (e) {
+        toast.error("Could not draft alert", {
+          description: e instanceof Error ? e.message : undefined,
+        });
+      }
+    },
+    [onDraftAlert, hotspotOptions.windowHours, t]
+  );
+
+  const hotspotLabels = useMemo(
+    () => ({ isNew: t.hotspotNew, detail: t.hotspotDetail, draftAlert: t.draftAlert }),
+    [t]
+  );
+
+  const renderReportPopup = useCallback(
+    (r: ReportSummary) => (
+      <div className="w-full max-w-full">
+        <div className="flex items-center gap-2 mb-2">
+          {renderStatusIcon(r.status)}
+          <div className="min-w-0">
+            <p className="text-sm font-semibold leading-tight truncate">
+              {r.title ?? capitalize(r.type)}
+            </p>
+            <p className="text-xs text-muted-foreground leading-tight">
+              {formatDate(r.timestamp)}
+            </p>
+          </div>
+        </div>
+
+        {r.description && (
+          <p className="text-sm text-foreground/90 mb-2 break-words">
+            {r.description}
+          </p>
+        )}
+
+        <details className="mt-1">
+          <summary className="text-xs text-primary cursor-pointer select-none">{t.viewDetails}</summary>
+          <div className="mt-2 space-y-2">
+            <ReportMediaPreview reportId={r.id} />
+            <div className="flex items-center justify-between">
+              <span className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+                <MapPin className="w-3.5 h-3.5" />
+                {locationLabel(r)}
+              </span>
+              {r.personName && (
+                <span className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+                  {t.person}: {r.personName}
+                </span>
+              )}
+            </div>
+            {r.tags && r.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {r.tags.map((tag, i) => (
+                  <span key={i} className="px-1.5 py-0.5 rounded bg-secondary text-[10px]">
+                    #{tag}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        </details>
+
+        <Button
+          type="button"
+          size="sm"
+          variant="secondary"
+          className="mt-2 h-7 px-2 text-xs"
+          onClick={() => nearReport(r)}
+        >
+          <Crosshair className="w-3.5 h-3.5 mr-1" />
+          {t.nearbyReports}
+        </Button>
+      </div>
+    ),
+    [t, nearReport]
+  );
 
   // UI helpers
   const sliderRange: [number, number] = [
@@ -507,132 +1144,107 @@ export default function InteractiveMapDashboard({
             scrollWheelZoom
             className="w-full h-full"
           >
-            {/* Base layer (default Streets) */}
-            <TileLayer
-              attribution='&copy; OpenStreetMap'
-              url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+            <MapInstance onReady={setMapInstance} />
+            {onViewChange && <MapViewWatcher onChange={onViewChange} />}
+
+            {/* Base layers and tile overlays, switchable top right */}
+            <BasemapLayers
+              key={activeBasemaps.map((b) => `${b.id}:${b.url}`).join(",")}
+              basemaps={activeBasemaps}
+              onTileFailure={setFailingBasemap}
+              onBaseLayerChange={setBaseLayer}
             />
 
-            {/* Heat layer (density buckets with colored circles) */}
+            {/* Heat layer (kernel density, redrawn per viewport) */}
             {filters.heatmap && (
-              <LayerGroup>
-                {leafletRef.current &&
-                  heatPoints.map((p, idx) => {
-                    const size = 36 + Math.round(p.weight * 44);
-                    const color = densityColor(p.weight);
-                    return (
-                      <Marker
-                        key={`heat-${idx}`}
-                        position={[p.lat, p.lng]}
-                        icon={
-                          leafletRef.current!.divIcon({
-                            className: "heat-point",
-                            html: `<div style="
-                                    width:${size}px;height:${size}px;border-radius:9999px;
-                                    background:radial-gradient(${color}aa 0%, ${color}55 40%, ${color}00 70%);
-                                    transform:translate(-50%,-50%);
-                                    filter: blur(2px);
-                                  "></div>`,
-                            iconSize: [1, 1],
-                            iconAnchor: [0, 0],
-                          })
-                        }
-                        opacity={1}
-                        interactive={false}
-                      />
-                    );
-                  })}
-              </LayerGroup>
+              <HeatmapLayer points={heatPoints} options={heatOptions} onDensityChange={setPeakDensity} />
+            )}
+
+            {/* Imported overlay layers, under the report markers */}
+            {leafletRef.current &&
+              overlays
+                .filter((o) => o.visible)
+                .map((o) => (
+                  <GeoJSONLayer
+                    key={o.id}
+                    data={o.data}
+                    style={{ color: o.color, weight: 2, fillOpacity: 0.12 }}
+                    pointToLayer={(_feature, latlng) =>
+                      leafletRef.current!.circleMarker(latlng, {
+                        radius: 5,
+                        color: o.color,
+                        fillColor: o.color,
+                        fillOpacity: 0.8,
+                      })
+                    }
+                    onEachFeature={(feature, layer) => {
+                      const name = feature.properties?.name;
+                      if (name) layer.bindTooltip(String(name));
+                    }}
+                  />
+                ))}
+
+            <ProximityLayer
+              picking={pickingProximity}
+              onPick={pickProximity}
+              onCancelPick={cancelPick}
+              center={proximity?.center}
+              radius={proximityRadius}
+              assets={assets}
+              assetCounts={assetCounts}
+              onSelectAsset={selectAsset}
+              describeCount={t.assetCount}
+            />
+
+            {showHotspots && (
+              <HotspotLayer
+                hotspots={hotspots}
+                typeLabel={capitalize}
+                labels={hotspotLabels}
+                windowHours={hotspotOptions.windowHours}
+                onDraftAlert={onDraftAlert ? draftAlert : undefined}
+              />
             )}
 
+            <AreaDrawLayer mode={drawMode} area={filters.area} onComplete={setArea} onCancel={cancelDraw} />
+
             {/* Markers layer */}
             <LayerGroup>
               {filters.clustering
-                ? renderClusteredMarkers({
-                    L: leafletRef.current,
-                    reports: filteredReports,
-                    statusIcons,
-                  })
-                :
-                  leafletRef.current &&
+                ? statusIcons && (
+                    <ClusterLayer
+                      reports={filteredReports}
+                      statusIcons={statusIcons}
+                      statusColor={statusToColor}
+                      renderPopup={renderReportPopup}
+                      markerOpacity={markerOpacity}
+                      onSelectCluster={onSelectReports ? selectCluster : undefined}
+                      selectHint={t.selectClusterHint}
+                    />
+                  )
+                : leafletRef.current &&
                   filteredReports.map((r) => (
                     <Marker
                       key={r.id}
                       position={[r.lat, r.lng]}
                       icon={statusIcons?.[r.status]}
-                      opacity={0.95}
+                      opacity={markerOpacity?.(r) ?? 0.95}
                     >
-                      <Popup className="!min-w-[260px] !max-w-[360px]">
-                        <div className="w-full max-w-full">
-                          <div className="flex items-center gap-2 mb-2">
-                            {renderStatusIcon(r.status)}
-                            <div className="min-w-0">
-                              <p className="text-sm font-semibold leading-tight truncate">
-                                {r.title ?? capitalize(r.type)}
-                              </p>
-                              <p className="text-xs text-muted-foreground leading-tight">
-                                {formatDate(r.timestamp)}
-                              </p>
-                            </div>
-                          </div>
-
-                          {r.description && (
-                            <p className="text-sm text-foreground/90 mb-2 break-words">
-                              {r.description}
-                            </p>
-                          )}
-
-                          <details className="mt-1">
-                            <summary className="text-xs text-primary cursor-pointer select-none">{t.viewDetails}</summary>
-                            <div className="mt-2 space-y-2">
-                              {Array.isArray(r.mediaUrls) && r.mediaUrls.length > 0 && (
-                                <div className="grid grid-cols-3 gap-1">
-                                  {r.mediaUrls.slice(0, 6).map((url, i) => (
-                                    <a
-                                      key={`${r.id}-m-${i}`}
-                                      href={url}
-                                      target="_blank"
-                                      rel="noreferrer"
-                                      className="relative block aspect-video overflow-hidden rounded-sm bg-muted"
-                                    >
-                                      <img
-                                        src={url}
-                                        alt="Report media"
-                                        className="w-full h-full object-cover transition-opacity duration-200"
-                                        loading="lazy"
-                                      />
-                                    </a>
-                                  ))}
-                                </div>
-                              )}
-                              <div className="flex items-center justify-between">
-                                <span className="inline-flex items-center gap-1 text-xs text-muted-foreground">
-                                  <MapPin className="w-3.5 h-3.5" />
-                                  {r.locationName ?? `${r.lat.toFixed(4)}, ${r.lng.toFixed(4)}`}
-                                </span>
-                                {r.personName && (
-                                  <span className="inline-flex items-center gap-1 text-xs text-muted-foreground">
-                                    {t.person}: {r.personName}
-                                  </span>
-                                )}
-                              </div>
-                              {r.tags && r.tags.length > 0 && (
-                                <div className="flex flex-wrap gap-1">
-                                  {r.tags.map((tag, i) => (
-                                    <span key={i} className="px-1.5 py-0.5 rounded bg-secondary text-[10px]">
-                                      #{tag}
-                                    </span>
-                                  ))}
-                                </div>
-                              )}
-                            </div>
-                          </details>
-                        </div>
-                      </Popup>
+                      <Popup className="!min-w-[260px] !max-w-[360px]">{renderReportPopup(r)}</Popup>
                     </Marker>
                   ))}
             </LayerGroup>
 
+            {/* The report the table asked to show, marked whether or not the filters hide it */}
+            {focusedReport && (
+              <CircleMarker
+                center={[focusedReport.lat, focusedReport.lng]}
+                radius={18}
+                pathOptions={{ color: "#2563eb", weight: 3, fillColor: "#2563eb", fillOpacity: 0.12 }}
+                interactive={false}
+              />
+            )}
+
             {/* Built-in Leaflet zoom control is present; add our quick zoom-in as example micro-interaction */}
           </MapContainer>
         ) : (
@@ -644,6 +1256,50 @@ export default function InteractiveMapDashboard({
           </div>
         )}
 
+        {/* Tile fallback - the selected basemap returned nothing but errors */}
+        {failingBasemap && (
+          <div
+            role="alert"
+            className="absolute bottom-6 left-1/2 z-[450] w-[min(420px,calc(100%-1.5rem))] -translate-x-1/2 rounded-md border border-destructive/40 bg-popover/95 p-3 text-sm shadow-sm backdrop-blur"
+          >
+            <p className="font-medium text-destructive">{t.tilesFailed(failingBasemap.name)}</p>
+            <p className="mt-1 text-xs text-muted-foreground">{t.tilesFailedHint}</p>
+          </div>
+        )}
+
+        {/* Proximity results - right, under the layer switcher */}
+        {proximity && (
+          <div className="pointer-events-none absolute top-14 right-3 z-[400] w-[300px] max-w-[calc(100%-1.5rem)]">
+            <ProximityPanel
+              label={proximity.label}
+              radius={proximityRadius}
+              onRadiusChange={setProximityRadius}
+              nearby={nearby}
+              onFocusReport={focusReport}
+              onClose={() => setProximity(null)}
+              asset={proximityAsset}
+              onDeleteAsset={onDeleteAsset ? deleteAsset : undefined}
+              onRegisterAsset={onSaveAsset && proximity.kind === "point" ? registerAsset : undefined}
+              language={language}
+            />
+          </div>
+        )}
+
+        {/* Heatmap legend - bottom right, scaled to the densest spot in view */}
+        {filters.heatmap && (
+          <div className="pointer-events-none absolute bottom-6 right-3 z-[400] w-56 rounded-md border border-border bg-popover/95 p-2 shadow-sm backdrop-blur">
+            <p className="mb-1 text-xs font-medium">
+              {t.heatmap} · {heatOptions.weighting === "none" ? t.densityUnit : t.weightedDensityUnit}
+            </p>
+            <div className="h-2 rounded-sm" style={{ background: heatRampGradient() }} aria-hidden />
+            <div className="mt-1 flex justify-between text-[10px] tabular-nums text-muted-foreground">
+              <span>0</span>
+              <span>{formatDensity(peakDensity / 2)}</span>
+              <span>{formatDensity(peakDensity)}</span>
+            </div>
+          </div>
+        )}
+
         {/* Control Panel - left */}
         <div className="pointer-events-none absolute top-3 left-3 right-3 sm:right-auto sm:w-[360px] z-[400]">
           <Card className="pointer-events-auto bg-popover/95 backdrop-blur border-border shadow-sm">
@@ -686,6 +1342,86 @@ export default function InteractiveMapDashboard({
               </div>
 
               <div className="grid grid-cols-1 gap-3">
+                <SavedViewsControl
+                  views={savedViews}
+                  activeId={activeViewId}
+                  defaultViewId={defaultViewId}
+                  onApply={applyView}
+                  onSave={onSaveView && saveView}
+                  onDelete={onDeleteView && deleteView}
+                  onSetDefault={onSetDefaultView}
+                  canPublish={canPublishViews}
+                  language={language}
+                />
+
+                {/* Heatmap kernel settings */}
+                {filters.heatmap && (
+                  <div className="grid grid-cols-3 gap-2">
+                    <div className="min-w-0">
+                      <Label className="text-xs text-muted-foreground">
+                        {t.heatRadius} · {heatOptions.radius}px
+                      </Label>
+                      <Slider
+                        className="mt-2"
+                        value={[heatOptions.radius]}
+                        min={5}
+                        max={80}
+                        step={1}
+                        onValueChange={([radius]) => setHeatOptions((o) => ({ ...o, radius }))}
+                        aria-label={t.heatRadius}
+                      />
+                    </div>
+                    <div className="min-w-0">
+                      <Label className="text-xs text-muted-foreground">
+                        {t.heatBlur} · {heatOptions.blur}px
+                      </Label>
+                      <Slider
+                        className="mt-2"
+                        value={[heatOptions.blur]}
+                        min={0}
+                        max={60}
+                        step={1}
+                        onValueChange={([blur]) => setHeatOptions((o) => ({ ...o, blur }))}
+                        aria-label={t.heatBlur}
+                      />
+                    </div>
+                    <div className="min-w-0">
+                      <Label htmlFor="heat-weighting" className="text-xs text-muted-foreground">
+                        {t.heatWeighting}
+                      </Label>
+                      <Select
+                        value={heatOptions.weighting}
+                        onValueChange={(v) =>
+                          setHeatOptions((o) => ({ ...o, weighting: v as HeatWeighting }))
+                        }
+                      >
+                        <SelectTrigger id="heat-weighting" className="h-9">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {HEAT_WEIGHTINGS.map((w) => (
+                            <SelectItem key={w} value={w}>
+                              {t.weighting[w]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                )}
+
+                <div className="min-w-0">
+                  <Label className="text-xs text-muted-foreground">{t.search}</Label>
+                  <SearchQueryInput
+                    value={filters.query ?? ""}
+                    onChange={setQuery}
+                    types={uniqueTypes}
+                    placeholder={t.searchPlaceholder}
+                    aria-label={t.search}
+                    inputClassName="h-9"
+                  />
+                </div>
+
                 <div className="grid grid-cols-2 gap-2">
                   <div className="min-w-0">
                     <Label htmlFor="type" className="text-xs text-muted-foreground">
@@ -696,7 +1432,8 @@ export default function InteractiveMapDashboard({
                       onValueChange={(v) =>
                         setFilters((f) => ({
                           ...f,
-                          hazardType: v as ActiveFilters["hazardType"],
+                          hazardType: v as MapFilters["hazardType"],
+                          query: setSearchField(f.query ?? "", "type", v === "all" ? undefined : v),
                         }))
                       }
                     >
@@ -722,7 +1459,8 @@ export default function InteractiveMapDashboard({
                       onValueChange={(v) =>
                         setFilters((f) => ({
                           ...f,
-                          status: v as ActiveFilters["status"],
+                          status: v as MapFilters["status"],
+                          query: setSearchField(f.query ?? "", "status", v === "all" ? undefined : v),
                         }))
                       }
                     >
@@ -731,10 +1469,11 @@ export default function InteractiveMapDashboard({
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="all">{t.allStatuses}</SelectItem>
-                        <SelectItem value="unverified">Unverified</SelectItem>
-                        <SelectItem value="under_review">Under Review</SelectItem>
-                        <SelectItem value="verified">Verified</SelectItem>
-                        <SelectItem value="false_alarm">False Alarm</SelectItem>
+                        {HAZARD_STATUSES.map((s) => (
+                          <SelectItem key={s} value={s}>
+                            {statusStyles[s].label}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   </div>
@@ -748,7 +1487,11 @@ export default function InteractiveMapDashboard({
                     <Select
                       value={filters.source}
                       onValueChange={(v) =>
-                        setFilters((f) => ({ ...f, source: v as ActiveFilters["source"] }))
+                        setFilters((f) => ({
+                          ...f,
+                          source: v as MapFilters["source"],
+                          query: setSearchField(f.query ?? "", "source", v === "all" ? undefined : v),
+                        }))
                       }
                     >
                       <SelectTrigger id="source" className="h-9">
@@ -765,45 +1508,314 @@ export default function InteractiveMapDashboard({
                     </Select>
                   </div>
                   <div className="min-w-0">
-                    <Label htmlFor="search" className="text-xs text-muted-foreground">
-                      {t.search}
+                    <Label htmlFor="tags" className="text-xs text-muted-foreground">
+                      {t.tagsLabel}
                     </Label>
                     <Input
-                      id="search"
-                      placeholder="Type, description…"
+                      id="tags"
+                      placeholder="flood, cyclone"
                       className="h-9"
-                      onChange={(e) => {
-                        const q = e.target.value.toLowerCase();
-                        // Optional: local lightweight search applied to type/description
-                        // We'll filter on top of existing filters
-                        // To keep performance, only toasts when many results
-                        if (q.length > 2) {
-                          const count = filteredReports.filter(
-                            (r) =>
-                              r.type.toLowerCase().includes(q) ||
-                              (r.description ?? "").toLowerCase().includes(q)
-                          ).length;
-                          if (count === 0) {
-                            // gentle feedback
-                          }
-                        }
-                      }}
+                      value={filters.tagsQuery}
+                      onChange={(e) => setFilters((f) => ({ ...f, tagsQuery: e.target.value }))}
                     />
                   </div>
                 </div>
 
-                {/* Tags filter */}
+                {/* Area filter */}
                 <div className="min-w-0">
-                  <Label htmlFor="tags" className="text-xs text-muted-foreground">
-                    {t.tagsLabel}
-                  </Label>
-                  <Input
-                    id="tags"
-                    placeholder="flood, cyclone"
-                    className="h-9"
-                    value={filters.tagsQuery}
-                    onChange={(e) => setFilters((f) => ({ ...f, tagsQuery: e.target.value }))}
-                  />
+                  <div className="flex items-center justify-between mb-1">
+                    <Label className="text-xs text-muted-foreground">{t.area}</Label>
+                    <span className="text-xs text-muted-foreground truncate">
+                      {drawMode ? t.drawHint : filters.area ? activeFence?.name ?? describeArea(filters.area) : "—"}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {(
+                      [
+                        ["polygon", Pentagon, t.drawPolygon],
+                        ["rectangle", Square, t.drawRectangle],
+                        ["circle", CircleDot, t.drawRadius],
+                      ] as const
+                    ).map(([kind, Icon, label]) => (
+                      <Button
+                        key={kind}
+                        type="button"
+                        size="icon"
+                        variant={drawMode === kind ? "default" : "secondary"}
+                        className="size-9 shrink-0"
+                        onClick={() => {
+                          setPickingProximity(false);
+                          setDrawMode((m) => (m === kind ? null : kind));
+                        }}
+                        aria-label={label}
+                        aria-pressed={drawMode === kind}
+                        title={label}
+                      >
+                        <Icon className="w-4 h-4" />
+                      </Button>
+                    ))}
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      className="size-9 shrink-0"
+                      onClick={() => setArea(undefined)}
+                      disabled={!filters.area && !drawMode}
+                      aria-label={t.clearArea}
+                      title={t.clearArea}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                    <Select
+                      value={activeFence?.id ?? ""}
+                      onValueChange={(id) => setArea(geofences.find((g) => g.id === id)?.shape)}
+                      disabled={geofences.length === 0}
+                    >
+                      <SelectTrigger className="h-9 min-w-0 flex-1" aria-label={t.savedGeofences}>
+                        <SelectValue placeholder={t.savedGeofences} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {geofences.map((g) => (
+                          <SelectItem key={g.id} value={g.id}>
+                            {g.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {activeFence && onDeleteGeofence && (
+                      <Button
+                        type="button"
+                        size="icon"
+                        variant="ghost"
+                        className="size-9 shrink-0 text-destructive"
+                        onClick={() => deleteFence(activeFence)}
+                        aria-label={t.deleteGeofence}
+                        title={t.deleteGeofence}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                  {filters.area && onSelectReports && filteredReports.length > 0 && (
+                    <Button
+                      type="button"
+                      variant="secondary"
+                      size="sm"
+                      className="mt-2 h-7 px-2 text-xs"
+                      onClick={() =>
+                        onSelectReports({
+                          ids: filteredReports.map((r) => r.id),
+                          label: `Map area: ${activeFence?.name ?? describeArea(filters.area!)}`,
+                        })
+                      }
+                    >
+                      <TableProperties className="w-3.5 h-3.5 mr-1" />
+                      {t.openInTable(filteredReports.length)}
+                    </Button>
+                  )}
+                  {filters.area && !activeFence && onSaveGeofence && (
+                    <form
+                      className="mt-2 flex items-center gap-2"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        saveFence();
+                      }}
+                    >
+                      <Input
+                        placeholder={t.geofenceName}
+                        aria-label={t.geofenceName}
+                        className="h-9"
+                        maxLength={80}
+                        value={fenceName}
+                        onChange={(e) => setFenceName(e.target.value)}
+                      />
+                      <Button type="submit" size="sm" disabled={savingFence || !fenceName.trim()}>
+                        {t.saveGeofence}
+                      </Button>
+                    </form>
+                  )}
+                </div>
+
+                {/* Proximity tool and critical assets */}
+                <div className="min-w-0">
+                  <div className="flex items-center justify-between mb-1">
+                    <Label className="text-xs text-muted-foreground">{t.proximity}</Label>
+                    <Button
+                      type="button"
+                      variant={pickingProximity ? "default" : "ghost"}
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                      aria-pressed={pickingProximity}
+                      onClick={() => {
+                        setDrawMode(null);
+                        setPickingProximity((p) => !p);
+                      }}
+                    >
+                      <Crosshair className="w-3.5 h-3.5 mr-1" />
+                      {pickingProximity ? t.pickHint : t.pickPoint}
+                    </Button>
+                  </div>
+                  {assets.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">{t.noAssets}</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-1">
+                      {assets.map((a) => {
+                        const count = assetCounts.get(a.id) ?? 0;
+                        return (
+                          <button
+                            key={a.id}
+                            type="button"
+                            onClick={() => selectAsset(a)}
+                            title={t.assetCount(count, formatDistance(a.radius))}
+                            className={cn(
+                              "inline-flex items-center gap-1 rounded-md border px-2 py-0.5 text-xs hover:bg-accent",
+                              proximity?.assetId === a.id ? "border-primary" : "border-border"
+                            )}
+                          >
+                            <span className="truncate max-w-[120px]">{a.name}</span>
+                            <span
+                              className={cn(
+                                "rounded px-1 tabular-nums",
+                                count > 0 ? "bg-red-100 text-red-700" : "bg-muted text-muted-foreground"
+                              )}
+                            >
+                              {count}
+                            </span>
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+
+                {/* Emerging hotspots */}
+                <div className="min-w-0">
+                  <div className="flex items-center justify-between mb-1">
+                    <Label className="text-xs text-muted-foreground">{t.hotspots}</Label>
+                    <Switch checked={showHotspots} onCheckedChange={setShowHotspots} aria-label={t.hotspots} />
+                  </div>
+                  {showHotspots && (
+                    <>
+                      <div className="grid grid-cols-2 gap-2 mb-2">
+                        <Select
+                          value={String(hotspotOptions.windowHours)}
+                          onValueChange={(v) => setHotspotOptions((o) => ({ ...o, windowHours: Number(v) }))}
+                        >
+                          <SelectTrigger className="h-8 px-2 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {HOTSPOT_WINDOWS.map((h) => (
+                              <SelectItem key={h} value={String(h)}>
+                                {t.hotspotWindow(h)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Select
+                          value={String(hotspotOptions.cellKm)}
+                          onValueChange={(v) => setHotspotOptions((o) => ({ ...o, cellKm: Number(v) }))}
+                        >
+                          <SelectTrigger className="h-8 px-2 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {HOTSPOT_CELL_SIZES.map((km) => (
+                              <SelectItem key={km} value={String(km)}>
+                                {t.hotspotCell(km)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {hotspots.length === 0 ? (
+                        <p className="text-xs text-muted-foreground">{t.noHotspots}</p>
+                      ) : (
+                        <div className="flex flex-wrap gap-1">
+                          {hotspots.map((h) => (
+                            <button
+                              key={h.id}
+                              type="button"
+                              onClick={() => focusHotspot(h)}
+                              title={t.hotspotDetail(h.count, h.expected.toFixed(1), hotspotOptions.windowHours)}
+                              className="inline-flex items-center gap-1 rounded-md border border-border px-2 py-0.5 text-xs hover:bg-accent"
+                            >
+                              <Flame className="w-3 h-3 text-orange-600" />
+                              <span className="truncate max-w-[120px]">{capitalize(h.hazardType)}</span>
+                              <span className="rounded px-1 tabular-nums bg-orange-100 text-orange-700">
+                                {h.count} · {h.growth == null ? t.hotspotNew : formatGrowth(h.growth)}
+                              </span>
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </>
+                  )}
+                </div>
+
+                {/* Overlay layers */}
+                <div className="min-w-0">
+                  <div className="flex items-center justify-between mb-1">
+                    <Label className="text-xs text-muted-foreground">{t.layers}</Label>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                      onClick={() => overlayInputRef.current?.click()}
+                    >
+                      <Upload className="w-3.5 h-3.5 mr-1" />
+                      {t.importLayer}
+                    </Button>
+                    <input
+                      ref={overlayInputRef}
+                      type="file"
+                      accept={OVERLAY_FILE_ACCEPT}
+                      multiple
+                      className="hidden"
+                      onChange={(e) => {
+                        if (e.target.files) importOverlays(e.target.files);
+                        e.target.value = "";
+                      }}
+                    />
+                  </div>
+                  {overlays.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">{t.noLayers}</p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {overlays.map((o) => (
+                        <li key={o.id} className="flex items-center gap-2">
+                          <Switch
+                            id={`overlay-${o.id}`}
+                            checked={o.visible}
+                            onCheckedChange={(visible) =>
+                              setOverlays((prev) => prev.map((x) => (x.id === o.id ? { ...x, visible } : x)))
+                            }
+                          />
+                          <span
+                            className="inline-block w-2.5 h-2.5 shrink-0 rounded-sm"
+                            style={{ backgroundColor: o.color }}
+                            aria-hidden
+                          />
+                          <Label htmlFor={`overlay-${o.id}`} className="min-w-0 flex-1 truncate text-xs">
+                            {o.name}
+                            <span className="ml-1 text-muted-foreground">({o.data.features.length})</span>
+                          </Label>
+                          <Button
+                            type="button"
+                            size="icon"
+                            variant="ghost"
+                            className="size-7 shrink-0"
+                            onClick={() => setOverlays((prev) => prev.filter((x) => x.id !== o.id))}
+                            aria-label={t.removeLayer}
+                            title={t.removeLayer}
+                          >
+                            <X className="w-3.5 h-3.5" />
+                          </Button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
 
                 {/* Time range filter */}
@@ -849,33 +1861,132 @@ export default function InteractiveMapDashboard({
                     </span>
                   </div>
                   {timeDomain ? (
-                    <div className="flex items-center gap-2">
-                      <Button
-                        type="button"
-                        size="sm"
-                        variant={isPlaying ? "secondary" : "default"}
-                        onClick={() => setIsPlaying((p) => !p)}
-                      >
-                        {isPlaying ? t.pause : t.play}
-                      </Button>
-                      <div className="flex-1 min-w-0">
-                        <Slider
-                          value={[timeline ?? timeDomain.min]}
-                          min={timeDomain.min}
-                          max={timeDomain.max}
-                          step={60 * 60 * 1000}
-                          onValueChange={([t0]) => setTimeline(t0)}
-                        />
+                    <div className="space-y-2">
+                      <div className="flex items-center gap-2">
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant={isPlaying ? "secondary" : "default"}
+                          onClick={togglePlay}
+                        >
+                          {isPlaying ? t.pause : t.play}
+                        </Button>
+                        <div className="flex-1 min-w-0">
+                          <Slider
+                            value={[timeline ?? timeDomain.min]}
+                            min={timeDomain.min}
+                            max={timeDomain.max}
+                            step={replayStep}
+                            onValueChange={([t0]) => setTimeline(t0)}
+                          />
+                        </div>
+                        <Button
+                          type="button"
+                          size="icon"
+                          variant="secondary"
+                          onClick={() => setTimeline(timeDomain.max)}
+                          aria-label={t.jumpLatest}
+                        >
+                          <ChevronsRight className="w-4 h-4" />
+                        </Button>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Button
+                          type="button"
+                          size="icon"
+                          variant="outline"
+                          className="h-8 w-8"
+                          onClick={() => stepTimeline(-1)}
+                          aria-label={t.prevFrame}
+                        >
+                          <SkipBack className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          type="button"
+                          size="icon"
+                          variant="outline"
+                          className="h-8 w-8"
+                          onClick={() => stepTimeline(1)}
+                          aria-label={t.nextFrame}
+                        >
+                          <SkipForward className="w-4 h-4" />
+                        </Button>
+                        <div className="grid flex-1 min-w-0 grid-cols-3 gap-1">
+                          <Select
+                            value={String(replay.speed)}
+                            onValueChange={(v) => setReplay((o) => ({ ...o, speed: Number(v) as ReplayOptions["speed"] }))}
+                          >
+                            <SelectTrigger className="h-8 px-2 text-xs" aria-label={t.replaySpeed}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {REPLAY_SPEEDS.map((speed) => (
+                                <SelectItem key={speed} value={String(speed)}>
+                                  {speed}×
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Select
+                            value={String(replay.step)}
+                            onValueChange={(v) =>
+                              setReplay((o) => ({ ...o, step: v === "null" ? null : (Number(v) as ReplayOptions["step"]) }))
+                            }
+                          >
+                            <SelectTrigger className="h-8 px-2 text-xs" aria-label={t.replayStep}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {REPLAY_STEPS.map((step) => (
+                                <SelectItem key={String(step)} value={String(step)}>
+                                  {t.replayStep}: {step == null ? t.autoStep : formatReplayDuration(step)}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Select
+                            value={String(replay.window)}
+                            onValueChange={(v) =>
+                              setReplay((o) => ({
+                                ...o,
+                                window: v === "null" ? null : (Number(v) as ReplayOptions["window"]),
+                              }))
+                            }
+                          >
+                            <SelectTrigger className="h-8 px-2 text-xs" aria-label={t.replayWindow}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {REPLAY_WINDOWS.map((w) => (
+                                <SelectItem key={String(w)} value={String(w)}>
+                                  {w == null ? t.cumulative : t.lastWindow(formatReplayDuration(w))}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+                      <div className="flex items-center justify-between gap-2">
+                        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                          <Switch
+                            checked={replay.fade}
+                            onCheckedChange={(fade) => setReplay((o) => ({ ...o, fade }))}
+                          />
+                          {t.fadeOlder}
+                        </label>
+                        {canExport && (
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="secondary"
+                            onClick={exportGif}
+                            disabled={gifProgress !== null}
+                          >
+                            <Film className="w-4 h-4 mr-1" />
+                            {gifProgress ? t.exportingGif(gifProgress.done, gifProgress.total) : t.exportGif}
+                          </Button>
+                        )}
                       </div>
-                      <Button
-                        type="button"
-                        size="icon"
-                        variant="secondary"
-                        onClick={() => setTimeline(timeDomain.max)}
-                        aria-label="Jump to latest"
-                      >
-                        <ChevronsRight className="w-4 h-4" />
-                      </Button>
                     </div>
                   ) : (
                     <div className="h-2 rounded bg-muted" />
@@ -884,14 +1995,7 @@ export default function InteractiveMapDashboard({
 
                 {/* Legend */}
                 <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
-                  {(
-                    [
-                      "unverified",
-                      "under_review",
-                      "verified",
-                      "false_alarm",
-                    ] as HazardStatus[]
-                  ).map((s) => (
+                  {HAZARD_STATUSES.map((s) => (
                     <div
                       key={s}
                       className="flex items-center gap-2 rounded-md border border-border px-2 py-1"
@@ -910,14 +2014,22 @@ export default function InteractiveMapDashboard({
                 </div>
 
                 {/* Export actions */}
-                <div className="flex items-center gap-2">
-                  <Button type="button" variant="secondary" size="sm" onClick={exportCSV}>
-                    {t.exportCSV}
-                  </Button>
-                  <Button type="button" variant="secondary" size="sm" onClick={exportPDF}>
-                    {t.exportPDF}
-                  </Button>
-                </div>
+                {canExport && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Button type="button" variant="secondary" size="sm" onClick={() => exportFile("csv")}>
+                      {t.exportCSV}
+                    </Button>
+                    <Button type="button" variant="secondary" size="sm" onClick={() => exportFile("geojson")}>
+                      GeoJSON
+                    </Button>
+                    <Button type="button" variant="secondary" size="sm" onClick={() => exportFile("kml")}>
+                      KML
+                    </Button>
+                    <Button type="button" variant="secondary" size="sm" onClick={exportPDF} disabled={exportingPDF}>
+                      {exportingPDF ? t.exportingPDF : t.exportPDF}
+                    </Button>
+                  </div>
+                )}
               </div>
             </div>
           </Card>
@@ -927,24 +2039,11 @@ export default function InteractiveMapDashboard({
   );
 }
 
-function safe(v?: string) {
-  return v ?? "";
-}
-function csvEscape(v: unknown) {
-  const s = String(v ?? "");
-  if (s.includes(",") || s.includes("\n") || s.includes('"')) {
-    return '"' + s.replace(/"/g, '""') + '"';
-  }
-  return s;
-}
-function escapeHTML(s?: string) {
-  return (s ?? "").replace(/[&<>"]{1}/g, (c) => ({
-    "&": "&amp;",
-    "<": "&lt;",
-    ">": "&gt;",
-    '"': "&quot;",
-  }[c]!));
-}
+const EXPORT_MIME = {
+  csv: "text/csv;charset=utf-8;",
+  geojson: "application/geo+json",
+  kml: "application/vnd.google-earth.kml+xml",
+} as const;
 
 // Render colored status icon in popup header
 function renderStatusIcon(status: HazardStatus) {
@@ -961,6 +2060,11 @@ function renderStatusIcon(status: HazardStatus) {
   }
 }
 
+function formatDensity(n: number) {
+  if (n === 0) return "0";
+  return n.toLocaleString(undefined, { maximumSignificantDigits: 2 });
+}
+
 function capitalize(s: string) {
   return s.charAt(0).toUpperCase() + s.slice(1);
 }
@@ -994,168 +2098,7 @@ function MapPinMinusIcon() {
   );
 }
 
-// A lightweight, grid-based clustering: bucket points into small lat/lng cells
-function renderClusteredMarkers({
-  L,
-  reports,
-  statusIcons,
-}: {
-  L: LeafletModule | null;
-  reports: HazardReport[];
-  statusIcons: Record<HazardStatus, any>;
-}) {
-  if (!L) return null;
-
-  // Fixed grid size in degrees (~6-7km at equator); a bit larger to group nearby coastal points
-  const gridSize = 0.06;
-
-  type BucketKey = string;
-  const buckets = new Map<
-    BucketKey,
-    { lat: number; lng: number; items: HazardReport[] }
-  >();
-
-  for (const r of reports) {
-    const gx = Math.floor(r.lng / gridSize);
-    const gy = Math.floor(r.lat / gridSize);
-    const key = `${gx}:${gy}`;
-    const centerLng = (gx + 0.5) * gridSize;
-    const centerLat = (gy + 0.5) * gridSize;
-    if (!buckets.has(key)) {
-      buckets.set(key, { lat: centerLat, lng: centerLng, items: [r] });
-    } else {
-      buckets.get(key)!.items.push(r);
-    }
-  }
-
-  const items: React.ReactNode[] = [];
-  let i = 0;
-  for (const bucket of buckets.values()) {
-    const count = bucket.items.length;
-    if (count === 1) {
-      const r = bucket.items[0]!;
-      items.push(
-        <Marker
-          key={r.id}
-          position={[r.lat, r.lng]}
-          icon={statusIcons?.[r.status]}
-          opacity={0.95}
-        >
-          <Popup className="!min-w-[260px] !max-w-[360px]">
-            <div className="w-full max-w-full">
-              <div className="flex items-center gap-2 mb-2">
-                {renderStatusIcon(r.status)}
-                <div className="min-w-0">
-                  <p className="text-sm font-semibold leading-tight truncate">
-                    {capitalize(r.type)}
-                  </p>
-                  <p className="text-xs text-muted-foreground leading-tight">
-                    {formatDate(r.timestamp)}
-                  </p>
-                </div>
-              </div>
-              {r.description && (
-                <p className="text-sm text-foreground/90 mb-2 break-words">
-                  {r.description}
-                </p>
-              )}
-            </div>
-          </Popup>
-        </Marker>
-      );
-    } else {
-      // Cluster marker: size and color blend
-      const dominantStatus = dominantStatusIn(bucket.items);
-      const color = statusToColor(dominantStatus);
-      const icon = L.divIcon({
-        className: "cluster-pin",
-        html: `
-          <div style="
-            display:flex;align-items:center;justify-content:center;
-            width:${24 + Math.min(18, count)}px;
-            height:${24 + Math.min(18, count)}px;
-            border-radius:9999px;
-            background:${color};
-            color:white;
-            font-weight:700;
-            font-size:12px;
-            line-height:1;
-            box-shadow:0 6px 14px rgba(0,0,0,0.18);
-            border:2px solid rgba(255,255,255,0.95);
-          ">${count}</div>
-        `,
-        iconSize: [24, 24],
-        iconAnchor: [12, 12],
-      });
-      items.push(
-        <Marker
-          key={`c-${i++}`}
-          position={[bucket.lat, bucket.lng]}
-          icon={icon}
-          opacity={0.95}
-        >
-          <Popup className="!min-w-[260px]">
-            <div className="w-full">
-              <p className="text-sm font-semibold mb-1">
-                {count} reports in area
-              </p>
-              <ul className="space-y-1 max-h-40 overflow-auto pr-1">
-                {bucket.items.slice(0, 10).map((r) => (
-                  <li key={r.id} className="text-xs flex items-center gap-2">
-                    <span
-                      className="inline-block w-2.5 h-2.5 rounded-full ring-2"
-                      style={{
-                        backgroundColor: statusToColor(r.status),
-                        boxShadow: "0 0 0 2px rgba(255,255,255,0.9)",
-                      }}
-                    />
-                    <span className="truncate">
-                      {(r.title ?? capitalize(r.type))} • {formatDate(r.timestamp)}
-                    </span>
-                  </li>
-                ))}
-              </ul>
-            </div>
-          </Popup>
-        </Marker>
-      );
-    }
-  }
-
-  return items;
-}
-
-function dominantStatusIn(items: HazardReport[]): HazardStatus {
-  const counts: Record<HazardStatus, number> = {
-    unverified: 0,
-    under_review: 0,
-    verified: 0,
-    false_alarm: 0,
-  };
-  for (const r of items) counts[r.status]++;
-  return (Object.keys(counts) as HazardStatus[]).reduce((a, b) =>
-    counts[a] >= counts[b] ? a : b
-  );
-}
-
 // Add module-level color helper for use outside the component
 function statusToColor(s: HazardStatus): string {
-  switch (s) {
-    case "unverified":
-      return "#f59e0b";
-    case "under_review":
-      return "#0ea5e9";
-    case "verified":
-      return "#10b981";
-    case "false_alarm":
-      return "#ef4444";
-  }
+  return HAZARD_STATUS_COLOR[s];
 }
-
-// Heat color by normalized weight: low=green, mid=yellow, high=red
-function heatColor(weight: number, alpha = 1): string {
-  const w = Math.max(0, Math.min(1, weight));
-  if (w < 0.33) return `rgba(16,185,129,${alpha})`; // emerald-500
-  if (w < 0.66) return `rgba(234,179,8,${alpha})`; // amber-500
-  return `rgba(239,68,68,${alpha})`; // rose-500
-}
\ No newline at end of file
@@ -7,6 +7,7 @@ import {
   BellPlus,
   BellRing,
   CircleAlert,
+  FilePen,
   MessageSquareWarning,
   OctagonAlert,
   ShieldAlert,
@@ -57,9 +58,9 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/comp
 import { Card } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Progress } from "@/components/ui/progress";
-
-type RecipientGroup = "citizens" | "officials" | "first_responders" | "public_works" | "all";
-type AlertSeverity = "emergency" | "warning" | "info";
+import type { AlertDraft, AlertSeverity, RecipientGroup } from "@/lib/alerts/alert";
+import { sendAlert } from "@/lib/alerts/client";
+import { ApiError } from "@/lib/http";
 
 type HistoryItem = {
   id: string;
@@ -97,9 +98,13 @@ export type NotificationCenterProps = {
     title: string;
     message: string;
     severity: AlertSeverity;
+    draftId?: string; // set when the alert was reviewed from a draft
   }) => Promise<{ ok: boolean; id?: string } | void>;
+  drafts?: AlertDraft[]; // pending drafts awaiting review
+  onDiscardDraft?: (id: string) => Promise<void>;
   onCreateKeywordRule?: (rule: Omit<KeywordRule, "id">) => Promise<{ ok: boolean; id?: string } | void>;
   onToggleKeywordRule?: (id: string, enabled: boolean) => Promise<void> | void;
+  canSendAlerts?: boolean; // alerts.send
 };
 
 const defaultRegions = [
@@ -205,9 +210,12 @@ export default function NotificationCenter(props: NotificationCenterProps) {
     onSend,
     onCreateKeywordRule,
     onToggleKeywordRule,
+    drafts = [],
+    onDiscardDraft,
+    canSendAlerts = true,
   } = props;
 
-  const [activeTab, setActiveTab] = useState<"compose" | "history" | "automation">("compose");
+  const [activeTab, setActiveTab] = useState<"compose" | "drafts" | "history" | "automation">("compose");
 
   // Compose state
   const [region, setRegion] = useState<string | undefined>(initialRegion);
@@ -219,6 +227,8 @@ export default function NotificationCenter(props: NotificationCenterProps) {
     severity: null,
   });
   const totalSelectedRecipients = recipients.length;
+  // The draft loaded into the composer; sending it marks the draft as sent
+  const [reviewing, setReviewing] = useState<AlertDraft | null>(null);
 
   // Data
   const [history, setHistory] = useState<HistoryItem[]>(
@@ -234,8 +244,11 @@ export default function NotificationCenter(props: NotificationCenterProps) {
   const [creatingRule, setCreatingRule] = useState(false);
 
   const canSend = useMemo(() => {
-    return Boolean(region && title.trim().length > 0 && message.trim().length > 0 && recipients.length > 0);
-  }, [region, title, message, recipients]);
+    return (
+      canSendAlerts &&
+      Boolean(region && title.trim().length > 0 && message.trim().length > 0 && recipients.length > 0)
+    );
+  }, [canSendAlerts, region, title, message, recipients]);
 
   function toggleRecipient(group: RecipientGroup) {
     setRecipients((prev) => {
@@ -264,6 +277,28 @@ export default function NotificationCenter(props: NotificationCenterProps) {
     }
   }
 
+  function reviewDraft(draft: AlertDraft) {
+    setReviewing(draft);
+    setRegion(draft.region && availableRegions.some((r) => r.id === draft.region) ? draft.region : undefined);
+    setRecipients(draft.recipients);
+    setTitle(draft.title);
+    setMessage(draft.message.slice(0, 480));
+    setActiveTab("compose");
+  }
+
+  async function discardDraft(draft: AlertDraft) {
+    if (!onDiscardDraft) return;
+    try {
+      await onDiscardDraft(draft.id);
+      if (reviewing?.id === draft.id) setReviewing(null);
+      toast.success("Draft discarded");
+    } catch (e) {
+      toast.error("Failed to discard draft", {
+        description: e instanceof Error ? e.message : undefined,
+      });
+    }
+  }
+
   async function handleSend(severity: AlertSeverity) {
     if (!canSend) return;
     setConfirm({ open: true, severity });
@@ -279,20 +314,24 @@ export default function NotificationCenter(props: NotificationCenterProps) {
       title: title.trim(),
       message: message.trim(),
       severity,
+      ...(reviewing ? { draftId: reviewing.id } : {}),
     };
 
     toast("Dispatch initiated", {
       description: "Your alert is being queued for delivery.",
     });
 
-    if (onSend) {
-      try {
-        await onSend(payload);
-      } catch (e) {
-        toast.error("Failed to send alert");
-        return;
-      }
+    try {
+      await (onSend ?? sendAlert)(payload);
+    } catch (e) {
+      toast.error("Failed to send alert", {
+        description: e instanceof Error ? e.message : undefined,
+      });
+      // The draft was sent or discarded elsewhere; what's in the composer is now a new alert
+      if (e instanceof ApiError && e.status === 409) setReviewing(null);
+      return;
     }
+    setReviewing(null);
 
     const id = `hx-${Math.random().toString(36).slice(2, 7)}`;
     const regionName =
@@ -421,6 +460,14 @@ export default function NotificationCenter(props: NotificationCenterProps) {
               <TabsTrigger value="compose" className="min-w-[96px]">
                 Compose
               </TabsTrigger>
+              <TabsTrigger value="drafts" className="min-w-[96px] gap-2">
+                Drafts
+                {drafts.length > 0 && (
+                  <Badge variant="secondary" className="h-5 px-1.5 text-xs">
+                    {drafts.length}
+                  </Badge>
+                )}
+              </TabsTrigger>
               <TabsTrigger value="history" className="min-w-[96px]">
                 History
               </TabsTrigger>
@@ -430,6 +477,20 @@ export default function NotificationCenter(props: NotificationCenterProps) {
             </TabsList>
 
             <TabsContent value="compose" className="mt-6">
+              {reviewing && (
+                <div className="mb-4 flex flex-wrap items-center justify-between gap-3 rounded-md border border-border bg-secondary px-3 py-2">
+                  <div className="flex items-center gap-2 min-w-0 text-sm">
+                    <FilePen className="h-4 w-4 text-primary shrink-0" aria-hidden="true" />
+                    <span className="min-w-0">
+                      Reviewing draft <strong className="text-foreground">{reviewing.id}</strong>. Suggested severity:
+                    </span>
+                    {severityBadge(reviewing.severity)}
+                  </div>
+                  <Button type="button" size="sm" variant="ghost" onClick={() => setReviewing(null)}>
+                    Stop reviewing
+                  </Button>
+                </div>
+              )}
               <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
                 <section className="bg-card border border-border rounded-lg p-4 sm:p-5">
                   <div className="space-y-4">
@@ -561,7 +622,9 @@ export default function NotificationCenter(props: NotificationCenterProps) {
 
                     <div className="flex flex-wrap items-center justify-between gap-3">
                       <div className="text-sm text-muted-foreground">
-                        {totalSelectedRecipients > 0 ? (
+                        {!canSendAlerts ? (
+                          <span>You do not have permission to send alerts</span>
+                        ) : totalSelectedRecipients > 0 ? (
                           <span>
                             Ready to send to{" "}
                             <strong className="text-foreground">{recipients.includes("all") ? "all recipients" : `${totalSelectedRecipients} group(s)`}</strong>
@@ -624,6 +687,65 @@ export default function NotificationCenter(props: NotificationCenterProps) {
               </div>
             </TabsContent>
 
+            <TabsContent value="drafts" className="mt-6">
+              <div className="bg-card border border-border rounded-lg p-4 sm:p-5">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex items-center gap-2">
+                    <FilePen className="h-5 w-5 text-primary" aria-hidden="true" />
+                    <h3 className="text-sm font-semibold">Drafts awaiting review</h3>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Drafted from map hotspots and by analysts
+                  </p>
+                </div>
+
+                <div className="mt-4">
+                  {drafts.length === 0 ? (
+                    <div className="rounded-md border border-dashed border-border p-6 text-center">
+                      <p className="text-sm text-muted-foreground">No drafts are waiting for review.</p>
+                    </div>
+                  ) : (
+                    <ul className="space-y-3">
+                      {drafts.map((d) => (
+                        <li
+                          key={d.id}
+                          className="flex flex-col sm:flex-row sm:items-center gap-3 rounded-md border border-border bg-secondary p-3"
+                        >
+                          <div className="min-w-0 flex-1 space-y-1">
+                            <div className="flex flex-wrap items-center gap-2">
+                              <span className="text-sm font-medium break-words">{d.title}</span>
+                              {severityBadge(d.severity)}
+                            </div>
+                            <p className="text-sm text-muted-foreground break-words">{previewContent(d.message, 140)}</p>
+                            {d.hotspot && (
+                              <p className="text-xs text-muted-foreground">
+                                Hotspot: {d.hotspot.count} {d.hotspot.hazardType} report(s) in {d.hotspot.windowHours} h
+                                (expected {d.hotspot.expected.toFixed(1)}) near {d.hotspot.lat.toFixed(3)},{" "}
+                                {d.hotspot.lng.toFixed(3)}
+                              </p>
+                            )}
+                            <p className="text-xs text-muted-foreground">
+                              {d.id} · {humanDate(d.createdAt)}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2 shrink-0">
+                            {onDiscardDraft && (
+                              <Button type="button" size="sm" variant="ghost" onClick={() => discardDraft(d)}>
+                                Discard
+                              </Button>
+                            )}
+                            <Button type="button" size="sm" disabled={!canSendAlerts} onClick={() => reviewDraft(d)}>
+                              Review
+                            </Button>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            </TabsContent>
+
             <TabsContent value="history" className="mt-6">
               <div className="bg-card border border-border rounded-lg overflow-hidden">
                 <div className="p-4 sm:p-5 flex flex-wrap items-center justify-between gap-3">
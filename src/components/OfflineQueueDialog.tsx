@@ -0,0 +1,111 @@
+"use client";
+
+import React from "react";
+import { CircleAlert, CloudUpload, RefreshCw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { HAZARD_STATUS_LABEL } from "@/lib/reports/hazard-report";
+import type { QueuedAction } from "@/lib/offline/action-queue";
+
+type Props = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  actions: QueuedAction[];
+  syncing: boolean;
+  onSync: () => void;
+  onRetry: (action: QueuedAction) => void;
+  onDiscard: (action: QueuedAction) => void;
+};
+
+export default function OfflineQueueDialog({
+  open,
+  onOpenChange,
+  actions,
+  syncing,
+  onSync,
+  onRetry,
+  onDiscard,
+}: Props) {
+  const online = typeof navigator === "undefined" || navigator.onLine;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Pending actions</DialogTitle>
+          <DialogDescription>
+            Changes made without a connection are sent in order once you are back online.
+          </DialogDescription>
+        </DialogHeader>
+
+        {actions.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">Everything is in sync.</p>
+        ) : (
+          <ul className="max-h-[50vh] space-y-2 overflow-y-auto">
+            {actions.map((a) => (
+              <li key={a.id} className="rounded-md border p-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium">{a.label}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Queued {new Date(a.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                  {a.conflict ? (
+                    <Badge className="rounded-full bg-destructive/10 text-destructive">Conflict</Badge>
+                  ) : (
+                    <Badge className="rounded-full bg-muted text-muted-foreground">Waiting</Badge>
+                  )}
+                </div>
+                {a.conflict && (
+                  <div className="mt-2 space-y-2">
+                    <p className="flex items-start gap-1.5 text-xs text-destructive">
+                      <CircleAlert className="mt-0.5 size-3.5 shrink-0" aria-hidden="true" />
+                      <span>
+                        {a.conflict.message}
+                        {a.conflict.server &&
+                          ` — now ${HAZARD_STATUS_LABEL[a.conflict.server.status]}, verification ${a.conflict.server.verification}, updated ${new Date(a.conflict.server.updatedAt).toLocaleString()}.`}
+                      </span>
+                    </p>
+                    <div className="flex justify-end gap-2">
+                      <Button size="sm" variant="outline" onClick={() => onDiscard(a)}>
+                        Discard
+                      </Button>
+                      {!a.conflict.discardOnly && (
+                        <Button size="sm" onClick={() => onRetry(a)} disabled={!online}>
+                          {a.conflict.server ? "Apply anyway" : "Retry"}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="secondary" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={onSync} disabled={!online || syncing || actions.length === 0}>
+            {syncing ? (
+              <RefreshCw className="size-4 mr-2 animate-spin" aria-hidden="true" />
+            ) : (
+              <CloudUpload className="size-4 mr-2" aria-hidden="true" />
+            )}
+            Sync now
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
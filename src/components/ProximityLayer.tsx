@@ -0,0 +1,126 @@
+"use client";
+
+import React, { useEffect, useMemo } from "react";
+import L from "leaflet";
+import { Circle, CircleMarker, Marker, Tooltip, useMap, useMapEvents } from "react-leaflet";
+import { ASSET_KIND_LABEL, type CriticalAsset } from "@/lib/assets/asset";
+import type { LatLngTuple } from "@/lib/map/area";
+import { formatDistance } from "@/lib/map/proximity";
+
+type Props = {
+  picking: boolean; // the next map click picks the proximity centre
+  onPick: (center: LatLngTuple) => void;
+  onCancelPick: () => void;
+  center?: LatLngTuple;
+  radius: number; // metres
+  assets: CriticalAsset[];
+  assetCounts: Map<string, number>; // reports within each asset's radius
+  onSelectAsset: (asset: CriticalAsset) => void;
+  describeCount: (count: number, radius: string) => string;
+};
+
+const RADIUS_STYLE = { color: "#7c3aed", weight: 2, fillOpacity: 0.06 };
+
+function assetIcon(count: number) {
+  const color = count > 0 ? "#dc2626" : "#334155";
+  return L.divIcon({
+    className: "asset-pin",
+    html: `
+      <div style="
+        display:flex;align-items:center;justify-content:center;gap:2px;
+        min-width:26px;height:26px;padding:0 5px;
+        border-radius:6px;
+        background:${color};
+        color:white;
+        font-weight:700;
+        font-size:11px;
+        line-height:1;
+        box-shadow:0 4px 10px rgba(0,0,0,0.2);
+        border:2px solid rgba(255,255,255,0.95);
+      ">&#9650;${count}</div>
+    `,
+    iconSize: [30, 26],
+    iconAnchor: [15, 13],
+  });
+}
+
+// The proximity tool's radius and centre, plus critical asset markers labelled with
+// the hazards near them. Loaded with next/dynamic since Leaflet touches `window`.
+export default function ProximityLayer({
+  picking,
+  onPick,
+  onCancelPick,
+  center,
+  radius,
+  assets,
+  assetCounts,
+  onSelectAsset,
+  describeCount,
+}: Props) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (!picking) return;
+    const container = map.getContainer();
+    container.style.cursor = "crosshair";
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onCancelPick();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => {
+      container.style.cursor = "";
+      window.removeEventListener("keydown", onKey);
+    };
+  }, [map, picking, onCancelPick]);
+
+  useMapEvents({
+    click: (e) => {
+      if (picking) onPick([e.latlng.lat, e.latlng.lng]);
+    },
+  });
+
+  // Icons are keyed by count so unchanged assets keep their DOM node
+  const icons = useMemo(() => new Map<number, L.DivIcon>(), []);
+  const iconFor = (count: number) => {
+    let icon = icons.get(count);
+    if (!icon) {
+      icon = assetIcon(count);
+      icons.set(count, icon);
+    }
+    return icon;
+  };
+
+  return (
+    <>
+      {center && (
+        <>
+          <Circle center={center} radius={radius} pathOptions={RADIUS_STYLE} interactive={false} />
+          <CircleMarker
+            center={center}
+            radius={5}
+            pathOptions={{ color: RADIUS_STYLE.color, weight: 2, fillColor: "#fff", fillOpacity: 1 }}
+            interactive={false}
+          />
+        </>
+      )}
+      {assets.map((asset) => {
+        const count = assetCounts.get(asset.id) ?? 0;
+        return (
+          <Marker
+            key={asset.id}
+            position={[asset.lat, asset.lng]}
+            icon={iconFor(count)}
+            zIndexOffset={1000}
+            eventHandlers={{ click: () => onSelectAsset(asset) }}
+          >
+            <Tooltip direction="top" offset={[0, -14]}>
+              <strong>{asset.name}</strong> · {ASSET_KIND_LABEL[asset.kind]}
+              <br />
+              {describeCount(count, formatDistance(asset.radius))}
+            </Tooltip>
+          </Marker>
+        );
+      })}
+    </>
+  );
+}
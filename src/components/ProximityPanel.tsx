@@ -0,0 +1,210 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { Crosshair, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ASSET_KIND_LABEL, ASSET_KINDS, type AssetKind, type CriticalAsset } from "@/lib/assets/asset";
+import { PROXIMITY_RADII, formatDistance, type NearbyReport } from "@/lib/map/proximity";
+import { HAZARD_STATUS_COLOR, HAZARD_STATUS_LABEL, type ReportSummary } from "@/lib/reports/hazard-report";
+
+interface ProximityPanelProps {
+  label: string; // what the radius is around: a report, an asset or a picked point
+  radius: number; // metres
+  onRadiusChange: (radius: number) => void;
+  nearby: NearbyReport[];
+  onFocusReport: (report: ReportSummary) => void;
+  onClose: () => void;
+  asset?: CriticalAsset;
+  onDeleteAsset?: (asset: CriticalAsset) => Promise<void>; // reports.write
+  onRegisterAsset?: (name: string, kind: AssetKind) => Promise<unknown>; // reports.write, picked points only
+  language?: "en" | "hi";
+}
+
+// Longer lists are cut off; the count above them still covers every report
+const MAX_LISTED = 200;
+
+// Reports near the proximity tool's centre, nearest first, and the asset actions
+export default function ProximityPanel({
+  label,
+  radius,
+  onRadiusChange,
+  nearby,
+  onFocusReport,
+  onClose,
+  asset,
+  onDeleteAsset,
+  onRegisterAsset,
+  language = "en",
+}: ProximityPanelProps) {
+  const t = useMemo(() => {
+    const en = {
+      title: "Proximity",
+      within: (r: string) => `Within ${r} of`,
+      count: (n: number) => (n === 1 ? "1 report" : `${n} reports`),
+      none: "No reports in this radius.",
+      more: (n: number) => `and ${n} more`,
+      close: "Close proximity tool",
+      assetName: "Asset name",
+      register: "Register asset",
+      removeAsset: "Remove asset",
+    } as const;
+    const hi = {
+      title: "निकटता",
+      within: (r: string) => `${r} के भीतर:`,
+      count: (n: number) => `${n} रिपोर्ट`,
+      none: "इस दायरे में कोई रिपोर्ट नहीं।",
+      more: (n: number) => `और ${n}`,
+      close: "निकटता उपकरण बंद करें",
+      assetName: "संपत्ति का नाम",
+      register: "संपत्ति दर्ज करें",
+      removeAsset: "संपत्ति हटाएँ",
+    } as const;
+    return language === "hi" ? hi : en;
+  }, [language]);
+
+  const [assetName, setAssetName] = useState("");
+  const [assetKind, setAssetKind] = useState<AssetKind>("port");
+  const [saving, setSaving] = useState(false);
+
+  async function register() {
+    if (!onRegisterAsset) return;
+    setSaving(true);
+    try {
+      await onRegisterAsset(assetName.trim(), assetKind);
+      setAssetName("");
+    } catch (e) {
+      toast.error("Could not register asset", {
+        description: e instanceof Error ? e.message : undefined,
+      });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function removeAsset() {
+    if (!asset || !onDeleteAsset) return;
+    try {
+      await onDeleteAsset(asset);
+      toast.success(`Removed ${asset.name}`);
+    } catch (e) {
+      toast.error("Could not remove asset", {
+        description: e instanceof Error ? e.message : undefined,
+      });
+    }
+  }
+
+  return (
+    <Card className="pointer-events-auto bg-popover/95 backdrop-blur border-border shadow-sm">
+      <div className="p-3 space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 min-w-0">
+            <Crosshair className="w-4 h-4 text-primary shrink-0" />
+            <h3 className="text-sm font-semibold">{t.title}</h3>
+          </div>
+          <Button type="button" size="icon" variant="ghost" className="size-7" onClick={onClose} aria-label={t.close}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Select value={String(radius)} onValueChange={(v) => onRadiusChange(Number(v))}>
+            <SelectTrigger className="h-8 w-24 shrink-0 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from(new Set([...PROXIMITY_RADII, radius]))
+                .sort((a, b) => a - b)
+                .map((r) => (
+                  <SelectItem key={r} value={String(r)}>
+                    {formatDistance(r)}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          <p className="min-w-0 text-xs text-muted-foreground">
+            {t.within(formatDistance(radius))} <span className="font-medium text-foreground break-words">{label}</span>
+          </p>
+        </div>
+
+        <p className="text-xs font-medium">{t.count(nearby.length)}</p>
+        {nearby.length === 0 ? (
+          <p className="text-xs text-muted-foreground">{t.none}</p>
+        ) : (
+          <ul className="max-h-64 overflow-y-auto space-y-1 pr-1">
+            {nearby.slice(0, MAX_LISTED).map(({ report, distance }) => (
+              <li key={report.id}>
+                <button
+                  type="button"
+                  className="flex w-full items-center gap-2 rounded-md px-2 py-1 text-left hover:bg-accent"
+                  onClick={() => onFocusReport(report)}
+                >
+                  <span
+                    className="size-2.5 shrink-0 rounded-full"
+                    style={{ backgroundColor: HAZARD_STATUS_COLOR[report.status] }}
+                    title={HAZARD_STATUS_LABEL[report.status]}
+                    aria-hidden
+                  />
+                  <span className="min-w-0 flex-1 truncate text-xs">{report.title ?? report.type}</span>
+                  <span className="shrink-0 text-xs tabular-nums text-muted-foreground">{formatDistance(distance)}</span>
+                </button>
+              </li>
+            ))}
+            {nearby.length > MAX_LISTED && (
+              <li className="px-2 text-xs text-muted-foreground">{t.more(nearby.length - MAX_LISTED)}</li>
+            )}
+          </ul>
+        )}
+
+        {asset && onDeleteAsset && (
+          <Button type="button" size="sm" variant="ghost" className="text-destructive" onClick={removeAsset}>
+            <Trash2 className="w-4 h-4 mr-1" />
+            {t.removeAsset}
+          </Button>
+        )}
+        {onRegisterAsset && (
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              register();
+            }}
+          >
+            <Input
+              placeholder={t.assetName}
+              aria-label={t.assetName}
+              className="h-8 min-w-0"
+              maxLength={80}
+              value={assetName}
+              onChange={(e) => setAssetName(e.target.value)}
+            />
+            <Select value={assetKind} onValueChange={(v: AssetKind) => setAssetKind(v)}>
+              <SelectTrigger className="h-8 w-28 shrink-0 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ASSET_KINDS.map((k) => (
+                  <SelectItem key={k} value={k}>
+                    {ASSET_KIND_LABEL[k]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" size="sm" disabled={saving || !assetName.trim()}>
+              {t.register}
+            </Button>
+          </form>
+        )}
+      </div>
+    </Card>
+  );
+}
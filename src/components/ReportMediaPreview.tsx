@@ -0,0 +1,52 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { fetchReport } from "@/lib/reports/client";
+import type { ReportMedia } from "@/lib/reports/hazard-report";
+
+interface ReportMediaPreviewProps {
+  reportId: string;
+  limit?: number;
+}
+
+// A report's images for a map popup. The map's report list is summaries without
+// media, so they are fetched with the report once the popup first opens.
+export default function ReportMediaPreview({ reportId, limit = 6 }: ReportMediaPreviewProps) {
+  const [media, setMedia] = useState<ReportMedia[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchReport(reportId)
+      .then((report) => {
+        if (!cancelled) setMedia(report.media);
+      })
+      // The popup reads fine without its images
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [reportId]);
+
+  const images = media.filter((m) => m.kind === "image").slice(0, limit);
+  if (!images.length) return null;
+  return (
+    <div className="grid grid-cols-3 gap-1">
+      {images.map(({ id, url }) => (
+        <a
+          key={`${reportId}-m-${id}`}
+          href={url}
+          target="_blank"
+          rel="noreferrer"
+          className="relative block aspect-video overflow-hidden rounded-sm bg-muted"
+        >
+          <img
+            src={url}
+            alt="Report media"
+            className="w-full h-full object-cover transition-opacity duration-200"
+            loading="lazy"
+          />
+        </a>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { Bookmark, BookmarkPlus, Star, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import type { SavedView } from "@/lib/saved-views/saved-view";
+
+interface SavedViewsControlProps {
+  views: SavedView[];
+  activeId: string | null; // the view last applied
+  defaultViewId: string | null;
+  onApply: (view: SavedView) => void;
+  onSave?: (name: string, shared: boolean) => Promise<unknown>;
+  onDelete?: (view: SavedView) => Promise<void>; // own views; shared ones need canPublish
+  onSetDefault?: (id: string | null) => Promise<void>;
+  canPublish?: boolean; // system.configure: save and delete team presets
+  language?: "en" | "hi";
+}
+
+// Picks, saves and removes named map views, and marks the one the map opens with
+export default function SavedViewsControl({
+  views,
+  activeId,
+  defaultViewId,
+  onApply,
+  onSave,
+  onDelete,
+  onSetDefault,
+  canPublish = false,
+  language = "en",
+}: SavedViewsControlProps) {
+  const t = useMemo(() => {
+    const en = {
+      views: "Saved views",
+      teamPresets: "Team presets",
+      myViews: "My views",
+      saveView: "Save current view",
+      viewName: "View name",
+      share: "Share with team",
+      save: "Save",
+      makeDefault: "Open the map with this view",
+      clearDefault: "Stop opening the map with this view",
+      deleteView: "Delete view",
+      isDefault: "default",
+    } as const;
+    const hi = {
+      views: "सहेजे गए दृश्य",
+      teamPresets: "टीम प्रीसेट",
+      myViews: "मेरे दृश्य",
+      saveView: "वर्तमान दृश्य सहेजें",
+      viewName: "दृश्य का नाम",
+      share: "टीम के साथ साझा करें",
+      save: "सहेजें",
+      makeDefault: "मानचित्र इसी दृश्य से खोलें",
+      clearDefault: "मानचित्र इस दृश्य से न खोलें",
+      deleteView: "दृश्य हटाएँ",
+      isDefault: "डिफ़ॉल्ट",
+    } as const;
+    return language === "hi" ? hi : en;
+  }, [language]);
+
+  const [saving, setSaving] = useState(false);
+  const [showSave, setShowSave] = useState(false);
+  const [name, setName] = useState("");
+  const [shared, setShared] = useState(false);
+
+  const active = views.find((v) => v.id === activeId);
+  const presets = views.filter((v) => v.shared);
+  const own = views.filter((v) => !v.shared);
+  const isDefault = active != null && active.id === defaultViewId;
+
+  async function save() {
+    if (!onSave || !name.trim()) return;
+    setSaving(true);
+    try {
+      await onSave(name.trim(), shared && canPublish);
+      toast.success(`Saved view "${name.trim()}"`);
+      setName("");
+      setShared(false);
+      setShowSave(false);
+    } catch (e) {
+      toast.error("Could not save view", {
+        description: e instanceof Error ? e.message : undefined,
+      });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function toggleDefault() {
+    if (!active || !onSetDefault) return;
+    try {
+      await onSetDefault(isDefault ? null : active.id);
+    } catch (e) {
+      toast.error("Could not change the default view", {
+        description: e instanceof Error ? e.message : undefined,
+      });
+    }
+  }
+
+  async function remove() {
+    if (!active || !onDelete) return;
+    try {
+      await onDelete(active);
+      toast.success(`Deleted view "${active.name}"`);
+    } catch (e) {
+      toast.error("Could not delete view", {
+        description: e instanceof Error ? e.message : undefined,
+      });
+    }
+  }
+
+  const renderItem = (v: SavedView) => (
+    <SelectItem key={v.id} value={v.id}>
+      {v.name}
+      {v.id === defaultViewId && <span className="text-muted-foreground"> · {t.isDefault}</span>}
+    </SelectItem>
+  );
+
+  return (
+    <div>
+      <div className="flex items-center gap-1">
+        <Select
+          value={active?.id ?? ""}
+          onValueChange={(id) => {
+            const view = views.find((v) => v.id === id);
+            if (view) onApply(view);
+          }}
+          disabled={views.length === 0}
+        >
+          <SelectTrigger className="h-9 min-w-0 flex-1" aria-label={t.views}>
+            <Bookmark className="w-4 h-4 shrink-0 text-muted-foreground" />
+            <SelectValue placeholder={t.views} />
+          </SelectTrigger>
+          <SelectContent>
+            {presets.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>{t.teamPresets}</SelectLabel>
+                {presets.map(renderItem)}
+              </SelectGroup>
+            )}
+            {own.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>{t.myViews}</SelectLabel>
+                {own.map(renderItem)}
+              </SelectGroup>
+            )}
+          </SelectContent>
+        </Select>
+        {active && onSetDefault && (
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            className="size-9 shrink-0"
+            onClick={toggleDefault}
+            aria-label={isDefault ? t.clearDefault : t.makeDefault}
+            aria-pressed={isDefault}
+            title={isDefault ? t.clearDefault : t.makeDefault}
+          >
+            <Star className={cn("w-4 h-4", isDefault && "fill-amber-400 text-amber-500")} />
+          </Button>
+        )}
+        {active && onDelete && (!active.shared || canPublish) && (
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            className="size-9 shrink-0 text-destructive"
+            onClick={remove}
+            aria-label={t.deleteView}
+            title={t.deleteView}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+        {onSave && (
+          <Button
+            type="button"
+            size="icon"
+            variant={showSave ? "default" : "secondary"}
+            className="size-9 shrink-0"
+            onClick={() => setShowSave((v) => !v)}
+            aria-label={t.saveView}
+            aria-expanded={showSave}
+            title={t.saveView}
+          >
+            <BookmarkPlus className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+      {showSave && onSave && (
+        <form
+          className="mt-2 space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            save();
+          }}
+        >
+          <div className="flex items-center gap-2">
+            <Input
+              placeholder={t.viewName}
+              aria-label={t.viewName}
+              className="h-9"
+              maxLength={80}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <Button type="submit" size="sm" disabled={saving || !name.trim()}>
+              {t.save}
+            </Button>
+          </div>
+          {canPublish && (
+            <div className="flex items-center gap-2">
+              <Checkbox id="share-view" checked={shared} onCheckedChange={(c) => setShared(Boolean(c))} />
+              <Label htmlFor="share-view" className="text-xs">
+                {t.share}
+              </Label>
+            </div>
+          )}
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+"use client";
+
+import React, { useId, useMemo, useRef, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import {
+  HAZARD_SEVERITIES,
+  HAZARD_SOURCES,
+  HAZARD_VERIFICATIONS,
+  TRIAGE_STATUSES,
+  hazardTypeLabel,
+} from "@/lib/reports/hazard-report";
+import {
+  SEARCH_FIELDS,
+  SEARCH_FIELD_HINT,
+  formatSearchValue,
+  parseSearchQuery,
+  resolveSearchField,
+  type SearchField,
+} from "@/lib/reports/search-query";
+
+interface SearchQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  types: string[]; // hazard types offered after type:
+  placeholder?: string;
+  className?: string;
+  inputClassName?: string;
+  "aria-label"?: string;
+}
+
+interface Suggestion {
+  label: string;
+  hint?: string;
+  insert: string; // replaces the word under the caret
+}
+
+const MAX_SUGGESTIONS = 8;
+
+function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function fieldValues(field: SearchField, types: string[]): readonly string[] {
+  switch (field) {
+    case "type":
+      return types;
+    case "status":
+      return TRIAGE_STATUSES;
+    case "verification":
+      return HAZARD_VERIFICATIONS;
+    case "source":
+      return HAZARD_SOURCES;
+    case "severity":
+      return HAZARD_SEVERITIES;
+    case "after":
+    case "before":
+      return [today()];
+    default:
+      return [];
+  }
+}
+
+// The whitespace-delimited word around the caret, and the part of it before the caret
+function wordAt(text: string, caret: number) {
+  let start = caret;
+  while (start > 0 && !/\s/.test(text[start - 1])) start--;
+  let end = caret;
+  while (end < text.length && !/\s/.test(text[end])) end++;
+  return { start, end, prefix: text.slice(start, caret) };
+}
+
+function suggestionsFor(prefix: string, types: string[]): Suggestion[] {
+  const negation = prefix.startsWith("-") ? "-" : "";
+  const word = prefix.slice(negation.length);
+  const colon = word.indexOf(":");
+  if (colon === -1) {
+    const lower = word.toLowerCase();
+    return SEARCH_FIELDS.filter((f) => f.startsWith(lower)).map((f) => ({
+      label: `${f}:`,
+      hint: SEARCH_FIELD_HINT[f],
+      insert: `${negation}${f}:`,
+    }));
+  }
+  const name = word.slice(0, colon);
+  const field = resolveSearchField(name);
+  if (!field) return [];
+  const partial = word.slice(colon + 1).replace(/^"/, "").toLowerCase();
+  return fieldValues(field, types)
+    .filter((v) => v.toLowerCase().startsWith(partial) && v.toLowerCase() !== partial)
+    .map((v) => ({
+      label: v,
+      hint: field === "type" ? hazardTypeLabel(v) : undefined,
+      insert: `${negation}${name}:${formatSearchValue(field, v)} `,
+    }));
+}
+
+// A text input for the report search language: suggests field names and values for
+// the word being typed, and underlines terms that do not parse with the first
+// problem shown below
+export default function SearchQueryInput({
+  value,
+  onChange,
+  types,
+  placeholder,
+  className,
+  inputClassName,
+  "aria-label": ariaLabel,
+}: SearchQueryInputProps) {
+  const id = useId();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const [caret, setCaret] = useState<number | null>(null); // null while closed
+  const [active, setActive] = useState(0);
+
+  const { errors } = useMemo(() => parseSearchQuery(value), [value]);
+  const word = caret === null ? null : wordAt(value, caret);
+  const suggestions = useMemo(
+    () => (word && word.prefix ? suggestionsFor(word.prefix, types).slice(0, MAX_SUGGESTIONS) : []),
+    [word?.prefix, types]
+  );
+  const open = suggestions.length > 0;
+  const activeIndex = Math.min(active, suggestions.length - 1);
+
+  // The query text with each error range wrapped, drawn under the (transparent) text
+  const highlighted = useMemo(() => {
+    const parts: React.ReactNode[] = [];
+    let at = 0;
+    for (const [i, e] of errors.entries()) {
+      if (e.start < at) continue;
+      parts.push(value.slice(at, e.start));
+      parts.push(
+        <span key={i} className="underline decoration-wavy decoration-destructive underline-offset-4">
+          {value.slice(e.start, Math.max(e.end, e.start + 1)) || " "}
+        </span>
+      );
+      at = Math.max(e.end, e.start + 1);
+    }
+    parts.push(value.slice(at));
+    return parts;
+  }, [value, errors]);
+
+  function track(e: React.SyntheticEvent<HTMLInputElement>) {
+    const input = e.currentTarget;
+    setCaret(input.selectionStart === input.selectionEnd ? input.selectionStart : null);
+    if (backdropRef.current) backdropRef.current.scrollLeft = input.scrollLeft;
+  }
+
+  function accept(s: Suggestion) {
+    if (!word) return;
+    const next = value.slice(0, word.start) + s.insert + value.slice(word.end);
+    const position = word.start + s.insert.length;
+    onChange(next);
+    setCaret(position);
+    setActive(0);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(position, position);
+    });
+  }
+
+  function onKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (!open) return;
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActive((activeIndex + step + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      accept(suggestions[activeIndex]);
+    } else if (e.key === "Escape") {
+      setCaret(null);
+    }
+  }
+
+  return (
+    <div className={cn("relative", className)}>
+      <Input
+        ref={inputRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setActive(0);
+          track(e);
+        }}
+        onSelect={track}
+        onScroll={track}
+        onBlur={() => setCaret(null)}
+        onKeyDown={onKeyDown}
+        placeholder={placeholder}
+        aria-label={ariaLabel}
+        aria-invalid={errors.length > 0 || undefined}
+        aria-describedby={errors.length > 0 ? `${id}-error` : undefined}
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={open}
+        aria-controls={`${id}-suggestions`}
+        aria-activedescendant={open ? `${id}-suggestion-${activeIndex}` : undefined}
+        autoComplete="off"
+        spellCheck={false}
+        className={inputClassName}
+      />
+      <div
+        ref={backdropRef}
+        aria-hidden
+        className="pointer-events-none absolute inset-x-0 top-0 flex h-9 items-center overflow-hidden whitespace-pre rounded-md border border-transparent px-3 py-1 text-base text-transparent md:text-sm"
+      >
+        {highlighted}
+      </div>
+      {open && (
+        <ul
+          id={`${id}-suggestions`}
+          role="listbox"
+          className="absolute left-0 top-10 z-50 w-full min-w-56 overflow-hidden rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+        >
+          {suggestions.map((s, i) => (
+            <li
+              key={s.insert}
+              id={`${id}-suggestion-${i}`}
+              role="option"
+              aria-selected={i === activeIndex}
+              className={cn(
+                "flex cursor-pointer items-baseline justify-between gap-3 rounded-sm px-2 py-1.5 text-sm",
+                i === activeIndex && "bg-accent text-accent-foreground"
+              )}
+              // Before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                accept(s);
+              }}
+              onMouseEnter={() => setActive(i)}
+            >
+              <span className="font-mono">{s.label}</span>
+              {s.hint && <span className="truncate text-xs text-muted-foreground">{s.hint}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+      {errors.length > 0 && (
+        <p id={`${id}-error`} className="mt-1 text-xs text-destructive">
+          {errors[0].message}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { AlarmClock, Gauge, Timer } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { HAZARD_SEVERITIES, HAZARD_SEVERITY_LABEL, type ReportSummary } from "@/lib/reports/hazard-report";
+import { formatSlaDuration, slaMetrics } from "@/lib/sla/sla";
+
+interface SlaMetricsCardProps {
+  reports: ReportSummary[];
+  className?: string;
+  language?: "en" | "hi";
+}
+
+// Overdue counts move with the clock as well as with the reports
+const TICK_MS = 30_000;
+
+function percent(value: number | null) {
+  return value === null ? "—" : `${Math.round(value * 100)}%`;
+}
+
+// Review deadline compliance over the reports the dashboard has loaded
+export default function SlaMetricsCard({ reports, className, language = "en" }: SlaMetricsCardProps) {
+  const t = useMemo(() => {
+    const en = {
+      title: "Review SLAs",
+      description: "Reports reviewed within their deadline, by severity",
+      compliance: "Compliance",
+      reviewedOnTime: (onTime: number, reviewed: number) => `${onTime} of ${reviewed} reviewed on time`,
+      overdue: "Overdue now",
+      waiting: (waiting: number) => `${waiting} waiting for review`,
+      median: "Median time to review",
+      noReviews: "No reviews yet",
+      severity: "Severity",
+      onTime: "On time",
+      late: "Overdue",
+    } as const;
+    const hi = {
+      title: "समीक्षा SLA",
+      description: "समय-सीमा के भीतर समीक्षित रिपोर्टें, गंभीरता के अनुसार",
+      compliance: "अनुपालन",
+      reviewedOnTime: (onTime: number, reviewed: number) => `${reviewed} में से ${onTime} समय पर समीक्षित`,
+      overdue: "अभी अतिदेय",
+      waiting: (waiting: number) => `${waiting} समीक्षा की प्रतीक्षा में`,
+      median: "समीक्षा का औसत समय",
+      noReviews: "अभी कोई समीक्षा नहीं",
+      severity: "गंभीरता",
+      onTime: "समय पर",
+      late: "अतिदेय",
+    } as const;
+    return language === "hi" ? hi : en;
+  }, [language]);
+
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const id = window.setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => window.clearInterval(id);
+  }, []);
+
+  const metrics = useMemo(() => slaMetrics(reports, now), [reports, now]);
+
+  return (
+    <Card className={cn("w-full bg-card border border-border rounded-xl shadow-sm", className)}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base sm:text-lg">{t.title}</CardTitle>
+        <CardDescription className="text-xs sm:text-sm">{t.description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <Card className="bg-secondary">
+            <CardContent className="p-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-xs text-muted-foreground">{t.compliance}</p>
+                  <p className="text-xl font-semibold">{percent(metrics.compliance)}</p>
+                </div>
+                <Gauge className="h-5 w-5 text-[color:var(--chart-2)]" />
+              </div>
+              <p className="mt-2 text-xs text-muted-foreground">{t.reviewedOnTime(metrics.onTime, metrics.reviewed)}</p>
+            </CardContent>
+          </Card>
+          <Card className="bg-secondary">
+            <CardContent className="p-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-xs text-muted-foreground">{t.overdue}</p>
+                  <p className={cn("text-xl font-semibold", metrics.overdue > 0 && "text-destructive")}>
+                    {metrics.overdue}
+                  </p>
+                </div>
+                <AlarmClock className="h-5 w-5 text-destructive" />
+              </div>
+              <p className="mt-2 text-xs text-muted-foreground">{t.waiting(metrics.waiting)}</p>
+            </CardContent>
+          </Card>
+          <Card className="bg-secondary">
+            <CardContent className="p-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-xs text-muted-foreground">{t.median}</p>
+                  <p className="text-xl font-semibold">
+                    {metrics.medianReviewMinutes === null
+                      ? "—"
+                      : formatSlaDuration(metrics.medianReviewMinutes * 60_000)}
+                  </p>
+                </div>
+                <Timer className="h-5 w-5 text-[color:var(--chart-4)]" />
+              </div>
+              {metrics.medianReviewMinutes === null && (
+                <p className="mt-2 text-xs text-muted-foreground">{t.noReviews}</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-muted-foreground">
+              <th className="py-1 font-medium">{t.severity}</th>
+              <th className="py-1 font-medium">{t.onTime}</th>
+              <th className="py-1 font-medium">{t.late}</th>
+              <th className="py-1 font-medium w-1/3" aria-hidden="true" />
+            </tr>
+          </thead>
+          <tbody>
+            {HAZARD_SEVERITIES.map((severity) => {
+              const m = metrics.bySeverity[severity];
+              const compliance = m.reviewed ? m.onTime / m.reviewed : null;
+              return (
+                <tr key={severity} className="border-t">
+                  <td className="py-1.5">{HAZARD_SEVERITY_LABEL[severity]}</td>
+                  <td className="py-1.5">
+                    {percent(compliance)}
+                    <span className="text-xs text-muted-foreground"> ({m.onTime}/{m.reviewed})</span>
+                  </td>
+                  <td className={cn("py-1.5", m.overdue > 0 && "text-destructive font-medium")}>{m.overdue}</td>
+                  <td className="py-1.5">
+                    <div className="h-1.5 rounded-full bg-muted" aria-hidden="true">
+                      <div
+                        className="h-1.5 rounded-full"
+                        style={{ width: `${(compliance ?? 0) * 100}%`, background: "var(--chart-2)" }}
+                      />
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
-import React, { useMemo, useState } from "react";
-import { UserCog, MonitorCheck, Settings } from "lucide-react";
+import React, { useEffect, useMemo, useState } from "react";
+import { UserCog, MonitorCheck, Settings, Timer, Users } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
@@ -29,17 +29,26 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Progress } from "@/components/ui/progress";
-
-type Role = "admin" | "manager" | "viewer";
-
-type User = {
-  id: string;
-  name: string;
-  email: string;
-  role: Role;
-  permissions: string[];
-  status: "active" | "disabled";
-};
+import { PERMISSIONS, ROLE_PERMISSIONS, type Permission } from "@/lib/auth/permissions";
+import type { Role } from "@/lib/auth/roles";
+import { useBasemaps } from "@/hooks/use-basemaps";
+import { useSlaTargets } from "@/hooks/use-sla-targets";
+import { useTeams } from "@/hooks/use-teams";
+import { BASEMAP_KIND_LABEL, BASEMAP_KINDS, localTileUrl, type BasemapKind } from "@/lib/basemaps/basemap";
+import { fetchTileSources, type TileSource } from "@/lib/basemaps/client";
+import { exportReports } from "@/lib/reports/client";
+import {
+  HAZARD_SEVERITIES,
+  HAZARD_SEVERITY_LABEL,
+  HAZARD_TYPES,
+  hazardTypeLabel,
+  type HazardSeverity,
+} from "@/lib/reports/hazard-report";
+import { ANY_HAZARD_TYPE, formatSlaDuration, type SlaTarget } from "@/lib/sla/sla";
+import type { Team } from "@/lib/teams/team";
+import { fetchUsers, updateUser } from "@/lib/users/client";
+import type { ManagedUser } from "@/lib/users/user";
+import type { UpdateUserInput } from "@/lib/users/validation";
 
 type Keyword = {
   id: string;
@@ -53,37 +62,12 @@ export interface SystemSettingsProps {
   className?: string;
   style?: React.CSSProperties;
   currentRole?: Role;
-  initialUsers?: User[];
+  currentUserId?: string;
+  permissions?: Permission[]; // defaults to those of currentRole
+  initialUsers?: ManagedUser[];
   initialKeywords?: Keyword[];
 }
 
-const DEFAULT_USERS: User[] = [
-  {
-    id: "u_001",
-    name: "Alex Johnson",
-    email: "alex.johnson@example.com",
-    role: "admin",
-    permissions: ["users.read", "users.write", "system.configure", "data.export"],
-    status: "active",
-  },
-  {
-    id: "u_002",
-    name: "Priya Patel",
-    email: "priya.patel@example.com",
-    role: "manager",
-    permissions: ["users.read", "keywords.manage", "data.export"],
-    status: "active",
-  },
-  {
-    id: "u_003",
-    name: "Diego Fernandez",
-    email: "diego.fernandez@example.com",
-    role: "viewer",
-    permissions: ["users.read"],
-    status: "disabled",
-  },
-];
-
 const DEFAULT_KEYWORDS: Keyword[] = [
   { id: "k_001", term: "road closure", active: true, source: "twitter" },
   { id: "k_002", term: "power outage", active: true, source: "facebook" },
@@ -91,27 +75,41 @@ const DEFAULT_KEYWORDS: Keyword[] = [
   { id: "k_004", term: "evacuation", active: false, source: "instagram" },
 ];
 
-const ALL_PERMISSIONS = [
-  "users.read",
-  "users.write",
-  "keywords.manage",
-  "data.export",
-  "system.configure",
-  "system.monitor",
-];
-
 export default function SystemSettings({
   className,
   style,
   currentRole = "admin",
-  initialUsers = DEFAULT_USERS,
+  currentUserId,
+  permissions = ROLE_PERMISSIONS[currentRole] as Permission[],
+  initialUsers,
   initialKeywords = DEFAULT_KEYWORDS,
 }: SystemSettingsProps) {
-  const isAdmin = currentRole === "admin";
+  const can = (permission: Permission) => permissions.includes(permission);
+  const canReadUsers = can("users.read");
+  const canManageUsers = can("users.write");
+  const canManageKeywords = can("keywords.manage");
+  const canConfigure = can("system.configure");
 
   // Users state
-  const [users, setUsers] = useState<User[]>(initialUsers);
+  const [users, setUsers] = useState<ManagedUser[]>(initialUsers ?? []);
+  const { teams, create: createTeam, remove: removeTeam } = useTeams();
   const [searchUser, setSearchUser] = useState("");
+  useEffect(() => {
+    if (initialUsers || !canReadUsers) return;
+    let cancelled = false;
+    fetchUsers()
+      .then((records) => {
+        if (!cancelled) setUsers(records);
+      })
+      .catch((e) => {
+        toast.error("Failed to load users", {
+          description: e instanceof Error ? e.message : undefined,
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [initialUsers, canReadUsers]);
   const filteredUsers = useMemo(() => {
     const q = searchUser.toLowerCase().trim();
     if (!q) return users;
@@ -135,7 +133,7 @@ export default function SystemSettings({
 
   // Data export state
   const [exportScope, setExportScope] = useState<"all" | "last7" | "custom">("last7");
-  const [exportFormat, setExportFormat] = useState<"csv" | "json" | "parquet">("csv");
+  const [exportFormat, setExportFormat] = useState<"csv" | "json">("csv");
   const [exportFrom, setExportFrom] = useState("");
   const [exportTo, setExportTo] = useState("");
   const [exporting, setExporting] = useState(false);
@@ -156,42 +154,54 @@ export default function SystemSettings({
   } as const;
 
   // Handlers
-  const handleRoleChange = (userId: string, role: Role) => {
-    if (!isAdmin) return;
-    setUsers((prev) =>
-      prev.map((u) => (u.id === userId ? { ...u, role } : u)),
-    );
-    toast.success(`Updated role to ${role}`);
+  const saveUser = async (userId: string, patch: UpdateUserInput, message: string) => {
+    if (!canManageUsers) return;
+    try {
+      const saved = await updateUser(userId, patch);
+      setUsers((prev) => prev.map((u) => (u.id === userId ? saved : u)));
+      toast.success(message);
+    } catch (e) {
+      toast.error("Failed to update user", {
+        description: e instanceof Error ? e.message : undefined,
+      });
+    }
   };
 
-  const handlePermissionToggle = (userId: string, perm: string) => {
-    if (!isAdmin) return;
-    setUsers((prev) =>
-      prev.map((u) =>
-        u.id === userId
-          ? {
-              ...u,
-              permissions: u.permissions.includes(perm)
-                ? u.permissions.filter((p) => p !== perm)
-                : [...u.permissions, perm],
-            }
-          : u,
-      ),
-    );
+  // Changing role resets the user to that role's default permissions
+  const handleRoleChange = (userId: string, role: Role) =>
+    saveUser(userId, { role, permissions: null }, `Updated role to ${role}`);
+
+  const handlePermissionToggle = (userId: string, perm: Permission) => {
+    const u = users.find((x) => x.id === userId);
+    if (!u) return;
+    const next = u.permissions.includes(perm)
+      ? u.permissions.filter((p) => p !== perm)
+      : [...u.permissions, perm];
+    return saveUser(userId, { permissions: next }, `Updated permissions for ${u.name}`);
   };
 
   const handleUserStatusToggle = (userId: string) => {
-    if (!isAdmin) return;
-    setUsers((prev) =>
-      prev.map((u) =>
-        u.id === userId
-          ? { ...u, status: u.status === "active" ? "disabled" : "active" }
-          : u,
-      ),
-    );
+    const u = users.find((x) => x.id === userId);
+    if (!u) return;
+    const status = u.status === "active" ? "disabled" : "active";
+    return saveUser(userId, { status }, `${u.name} ${status === "active" ? "enabled" : "disabled"}`);
+  };
+
+  const handleTeamChange = (userId: string, teamId: string | null) => {
+    const u = users.find((x) => x.id === userId);
+    if (!u) return;
+    const team = teams.find((t) => t.id === teamId);
+    return saveUser(userId, { teamId }, team ? `Moved ${u.name} to ${team.name}` : `Removed ${u.name} from their team`);
+  };
+
+  // Members are left without a team
+  const handleRemoveTeam = async (id: string) => {
+    await removeTeam(id);
+    setUsers((prev) => prev.map((u) => (u.teamId === id ? { ...u, teamId: null } : u)));
   };
 
   const handleAddKeyword = () => {
+    if (!canManageKeywords) return;
     if (!newTerm.trim() || !newSource) {
       toast.error("Enter a keyword and select a source");
       return;
@@ -209,10 +219,12 @@ export default function SystemSettings({
   };
 
   const handleKeywordToggle = (id: string) => {
+    if (!canManageKeywords) return;
     setKeywords((prev) => prev.map((k) => (k.id === id ? { ...k, active: !k.active } : k)));
   };
 
   const handleRemoveKeyword = (id: string) => {
+    if (!canManageKeywords) return;
     setKeywords((prev) => prev.filter((k) => k.id !== id));
     toast.success("Keyword removed");
   };
@@ -222,17 +234,45 @@ export default function SystemSettings({
       toast.error("Select a valid date range for custom export");
       return;
     }
+    const day = 24 * 60 * 60 * 1000;
+    const range =
+      exportScope === "last7"
+        ? { from: new Date(Date.now() - 7 * day).toISOString() }
+        : exportScope === "custom"
+        ? {
+            from: new Date(exportFrom).toISOString(),
+            to: new Date(new Date(exportTo).getTime() + day - 1).toISOString(),
+          }
+        : {};
     setExporting(true);
-    await new Promise((r) => setTimeout(r, 1000));
-    setExporting(false);
-    toast.success(`Export started (${exportFormat.toUpperCase()})`);
+    try {
+      const contents = await exportReports({ ...range, format: exportFormat });
+      const blob = new Blob([contents], {
+        type: exportFormat === "csv" ? "text/csv;charset=utf-8;" : "application/json",
+      });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `hazard-reports-${new Date().toISOString().slice(0, 10)}.${exportFormat}`;
+      a.click();
+      URL.revokeObjectURL(url);
+      toast.success(`Export ready (${exportFormat.toUpperCase()})`);
+    } catch (e) {
+      toast.error("Export failed", {
+        description: e instanceof Error ? e.message : undefined,
+      });
+    } finally {
+      setExporting(false);
+    }
   };
 
   const handleSaveConfig = () => {
+    if (!canConfigure) return;
     toast.success("Configuration saved");
   };
 
   const handleSystemReset = () => {
+    if (!canConfigure) return;
     setConfirmResetOpen(false);
     toast.success("System reset initiated");
   };
@@ -256,6 +296,9 @@ export default function SystemSettings({
               <TabsTrigger value="keywords" className="min-w-0">Keywords</TabsTrigger>
               <TabsTrigger value="data" className="min-w-0">Data</TabsTrigger>
               <TabsTrigger value="config" className="min-w-0">Config</TabsTrigger>
+              {canConfigure && <TabsTrigger value="maps" className="min-w-0">Maps</TabsTrigger>}
+              {canManageUsers && <TabsTrigger value="teams" className="min-w-0">Teams</TabsTrigger>}
+              {canConfigure && <TabsTrigger value="deadlines" className="min-w-0">Deadlines</TabsTrigger>}
             </TabsList>
             <Badge variant="outline" className="bg-accent text-accent-foreground border-accent/60">
               Role: {currentRole}
@@ -269,7 +312,7 @@ export default function SystemSettings({
                   <UserCog className="h-5 w-5 text-[--primary]" aria-hidden />
                   <CardTitle>User Management</CardTitle>
                 </div>
-                <CardDescription>Manage roles and permissions. Only admins can modify access.</CardDescription>
+                <CardDescription>Manage roles and permissions. Changing access requires users.write.</CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
                 <div className="flex flex-col sm:flex-row gap-3">
@@ -286,88 +329,116 @@ export default function SystemSettings({
                 </div>
                 <Separator />
                 <div className="space-y-3">
-                  {filteredUsers.map((u) => (
-                    <div key={u.id} className="flex flex-col gap-3 rounded-lg border border-[--border] p-3 sm:p-4 bg-background">
-                      <div className="flex items-start justify-between gap-4">
-                        <div className="min-w-0">
-                          <div className="flex items-center gap-2 min-w-0">
-                            <p className="font-medium truncate">{u.name}</p>
-                            <Badge variant="secondary" className="shrink-0">{u.role}</Badge>
-                            <Badge variant="outline" className={cn("shrink-0", u.status === "active" ? "bg-green-50 text-green-700 border-green-200" : "bg-muted text-muted-foreground")}>
-                              {u.status}
-                            </Badge>
+                  {filteredUsers.map((u) => {
+                    const editable = canManageUsers && u.id !== currentUserId;
+                    return (
+                      <div key={u.id} className="flex flex-col gap-3 rounded-lg border border-[--border] p-3 sm:p-4 bg-background">
+                        <div className="flex items-start justify-between gap-4">
+                          <div className="min-w-0">
+                            <div className="flex items-center gap-2 min-w-0">
+                              <p className="font-medium truncate">{u.name}</p>
+                              <Badge variant="secondary" className="shrink-0">{u.role}</Badge>
+                              <Badge variant="outline" className={cn("shrink-0", u.status === "active" ? "bg-green-50 text-green-700 border-green-200" : "bg-muted text-muted-foreground")}>
+                                {u.status}
+                              </Badge>
+                            </div>
+                            <p className="text-sm text-muted-foreground truncate">{u.email}</p>
                           </div>
-                          <p className="text-sm text-muted-foreground truncate">{u.email}</p>
-                        </div>
-                        <div className="flex items-center gap-3">
-                          <div className="flex items-center gap-2">
-                            <Switch
-                              id={`status-${u.id}`}
-                              checked={u.status === "active"}
-                              onCheckedChange={() => handleUserStatusToggle(u.id)}
-                              disabled={!isAdmin}
-                              aria-label={u.status === "active" ? "Disable user" : "Enable user"}
-                            />
-                            <Label htmlFor={`status-${u.id}`} className="text-sm text-muted-foreground cursor-default">Active</Label>
+                          <div className="flex items-center gap-3">
+                            <div className="flex items-center gap-2">
+                              <Switch
+                                id={`status-${u.id}`}
+                                checked={u.status === "active"}
+                                onCheckedChange={() => handleUserStatusToggle(u.id)}
+                                disabled={!editable}
+                                aria-label={u.status === "active" ? "Disable user" : "Enable user"}
+                              />
+                              <Label htmlFor={`status-${u.id}`} className="text-sm text-muted-foreground cursor-default">Active</Label>
+                            </div>
                           </div>
                         </div>
-                      </div>
 
-                      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
-                        <div className="space-y-2">
-                          <Label htmlFor={`role-${u.id}`}>Role</Label>
-                          <Select
-                            value={u.role}
-                            onValueChange={(val: Role) => handleRoleChange(u.id, val)}
-                            disabled={!isAdmin}
-                          >
-                            <SelectTrigger id={`role-${u.id}`} className="bg-card">
-                              <SelectValue />
-                            </SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="admin">Admin</SelectItem>
-                              <SelectItem value="manager">Manager</SelectItem>
-                              <SelectItem value="viewer">Viewer</SelectItem>
-                            </SelectContent>
-                          </Select>
-                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                          <div className="space-y-2">
+                            <Label htmlFor={`role-${u.id}`}>Role</Label>
+                            <Select
+                              value={u.role}
+                              onValueChange={(val: Role) => handleRoleChange(u.id, val)}
+                              disabled={!editable}
+                            >
+                              <SelectTrigger id={`role-${u.id}`} className="bg-card">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="admin">Admin</SelectItem>
+                                <SelectItem value="manager">Manager</SelectItem>
+                                <SelectItem value="viewer">Viewer</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+
+                          <div className="space-y-2">
+                            <Label htmlFor={`team-${u.id}`}>Team</Label>
+                            <Select
+                              value={u.teamId ?? "none"}
+                              onValueChange={(val) => handleTeamChange(u.id, val === "none" ? null : val)}
+                              disabled={!canManageUsers}
+                            >
+                              <SelectTrigger id={`team-${u.id}`} className="bg-card">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">No team</SelectItem>
+                                {teams.map((t) => (
+                                  <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
 
-                        <div className="md:col-span-2 space-y-2 min-w-0">
-                          <Label>Permissions</Label>
-                          <div className="flex flex-wrap gap-2">
-                            {ALL_PERMISSIONS.map((perm) => {
-                              const active = u.permissions.includes(perm);
-                              return (
-                                <button
-                                  key={perm}
-                                  type="button"
-                                  onClick={() => handlePermissionToggle(u.id, perm)}
-                                  disabled={!isAdmin}
-                                  className={cn(
-                                    "px-2.5 py-1.5 rounded-full text-xs border transition-colors focus:outline-none focus:ring-2 focus:ring-[--ring]",
-                                    active
-                                      ? "bg-accent text-accent-foreground border-accent"
-                                      : "bg-secondary text-muted-foreground border-[--border] hover:text-foreground",
-                                    !isAdmin && "opacity-60 cursor-not-allowed",
-                                  )}
-                                  aria-pressed={active}
-                                  aria-label={`${active ? "Revoke" : "Grant"} ${perm}`}
-                                >
-                                  {perm}
-                                </button>
-                              );
-                            })}
+                          <div className="md:col-span-2 space-y-2 min-w-0">
+                            <Label>Permissions</Label>
+                            <div className="flex flex-wrap gap-2">
+                              {PERMISSIONS.map((perm) => {
+                                const active = u.permissions.includes(perm);
+                                return (
+                                  <button
+                                    key={perm}
+                                    type="button"
+                                    onClick={() => handlePermissionToggle(u.id, perm)}
+                                    disabled={!editable}
+                                    className={cn(
+                                      "px-2.5 py-1.5 rounded-full text-xs border transition-colors focus:outline-none focus:ring-2 focus:ring-[--ring]",
+                                      active
+                                        ? "bg-accent text-accent-foreground border-accent"
+                                        : "bg-secondary text-muted-foreground border-[--border] hover:text-foreground",
+                                      !editable && "opacity-60 cursor-not-allowed",
+                                    )}
+                                    aria-pressed={active}
+                                    aria-label={`${active ? "Revoke" : "Grant"} ${perm}`}
+                                  >
+                                    {perm}
+                                  </button>
+                                );
+                              })}
+                            </div>
+                            {!canManageUsers ? (
+                              <p className="text-xs text-muted-foreground">You do not have permission to change access.</p>
+                            ) : u.id === currentUserId ? (
+                              <p className="text-xs text-muted-foreground">You cannot change your own access.</p>
+                            ) : !u.customPermissions ? (
+                              <p className="text-xs text-muted-foreground">Using the defaults for this role.</p>
+                            ) : null}
                           </div>
-                          {!isAdmin && (
-                            <p className="text-xs text-muted-foreground">Only admins can change permissions.</p>
-                          )}
                         </div>
                       </div>
-                    </div>
-                  ))}
-                  {filteredUsers.length === 0 && (
+                    );
+                  })}
+                  {!canReadUsers ? (
+                    <p className="text-sm text-muted-foreground">You do not have permission to view users.</p>
+                  ) : filteredUsers.length === 0 ? (
                     <p className="text-sm text-muted-foreground">No users match your search.</p>
-                  )}
+                  ) : null}
                 </div>
               </CardContent>
             </Card>
@@ -382,36 +453,42 @@ export default function SystemSettings({
                 </div>
                 <CardDescription>Realtime snapshot of service status and performance (mocked)</CardDescription>
               </CardHeader>
-              <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <HealthTile
-                  title="API"
-                  status={health.api.status}
-                  meta={`${health.api.latencyMs} ms latency`}
-                  progressLabel="Uptime"
-                  progressValue={health.api.uptimePct}
-                />
-                <HealthTile
-                  title="Database"
-                  status={health.db.status}
-                  meta={`${health.db.connections} conns · ${health.db.cpu}% CPU`}
-                  progressLabel="CPU"
-                  progressValue={health.db.cpu}
-                />
-                <HealthTile
-                  title="Queue"
-                  status={health.queue.status}
-                  meta={`${health.queue.lag} msgs lag · ${health.queue.consumers} workers`}
-                  progressLabel="Backlog"
-                  progressValue={Math.min(100, (health.queue.lag / 500) * 100)}
-                />
-                <HealthTile
-                  title="Ingestion"
-                  status={health.ingestion.status}
-                  meta={`${health.ingestion.ratePerMin}/min · ${health.ingestion.failuresPct}% fail`}
-                  progressLabel="Throughput"
-                  progressValue={Math.min(100, (health.ingestion.ratePerMin / 1000) * 100)}
-                />
-              </CardContent>
+              {!can("system.monitor") ? (
+                <CardContent>
+                  <p className="text-sm text-muted-foreground">You do not have permission to view system health.</p>
+                </CardContent>
+              ) : (
+                <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <HealthTile
+                    title="API"
+                    status={health.api.status}
+                    meta={`${health.api.latencyMs} ms latency`}
+                    progressLabel="Uptime"
+                    progressValue={health.api.uptimePct}
+                  />
+                  <HealthTile
+                    title="Database"
+                    status={health.db.status}
+                    meta={`${health.db.connections} conns · ${health.db.cpu}% CPU`}
+                    progressLabel="CPU"
+                    progressValue={health.db.cpu}
+                  />
+                  <HealthTile
+                    title="Queue"
+                    status={health.queue.status}
+                    meta={`${health.queue.lag} msgs lag · ${health.queue.consumers} workers`}
+                    progressLabel="Backlog"
+                    progressValue={Math.min(100, (health.queue.lag / 500) * 100)}
+                  />
+                  <HealthTile
+                    title="Ingestion"
+                    status={health.ingestion.status}
+                    meta={`${health.ingestion.ratePerMin}/min · ${health.ingestion.failuresPct}% fail`}
+                    progressLabel="Throughput"
+                    progressValue={Math.min(100, (health.ingestion.ratePerMin / 1000) * 100)}
+                  />
+                </CardContent>
+              )}
               <CardFooter className="flex flex-wrap items-center gap-2">
                 <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">Operational</Badge>
                 <Badge variant="outline" className="bg-yellow-50 text-yellow-800 border-yellow-200">Degraded</Badge>
@@ -460,7 +537,7 @@ export default function SystemSettings({
                         </SelectContent>
                       </Select>
                     </div>
-                    <Button type="button" onClick={handleAddKeyword} className="shrink-0">
+                    <Button type="button" onClick={handleAddKeyword} className="shrink-0" disabled={!canManageKeywords}>
                       Add
                     </Button>
                   </div>
@@ -499,15 +576,16 @@ export default function SystemSettings({
                         </div>
                       </div>
                       <div className="flex items-center gap-2">
-                        <Switch checked={k.active} onCheckedChange={() => handleKeywordToggle(k.id)} aria-label={k.active ? "Pause keyword" : "Activate keyword"} />
+                        <Switch checked={k.active} onCheckedChange={() => handleKeywordToggle(k.id)} disabled={!canManageKeywords} aria-label={k.active ? "Pause keyword" : "Activate keyword"} />
                         <ConfirmAction
                           title="Remove keyword?"
                           description={`This will stop tracking "${k.term}". You can add it again later.`}
                           onConfirm={() => handleRemoveKeyword(k.id)}
                           actionLabel="Remove"
                           variant="destructive"
+                          disabled={!canManageKeywords}
                         >
-                          <Button variant="outline">Remove</Button>
+                          <Button variant="outline" disabled={!canManageKeywords}>Remove</Button>
                         </ConfirmAction>
                       </div>
                     </div>
@@ -546,14 +624,13 @@ export default function SystemSettings({
                   </div>
                   <div className="space-y-2">
                     <Label htmlFor="export-format">Format</Label>
-                    <Select value={exportFormat} onValueChange={(v: "csv" | "json" | "parquet") => setExportFormat(v)}>
+                    <Select value={exportFormat} onValueChange={(v: "csv" | "json") => setExportFormat(v)}>
                       <SelectTrigger id="export-format" className="bg-card">
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="csv">CSV</SelectItem>
                         <SelectItem value="json">JSON</SelectItem>
-                        <SelectItem value="parquet">Parquet</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
@@ -561,12 +638,12 @@ export default function SystemSettings({
                     <Label className="invisible block">Export</Label>
                     <ConfirmAction
                       title="Start export?"
-                      description="A background job will generate the export. You'll be notified when it's ready."
+                      description="The file downloads as soon as the server has generated it."
                       onConfirm={handleExport}
                       actionLabel={exporting ? "Starting..." : "Start export"}
-                      disabled={exporting}
+                      disabled={exporting || !can("data.export")}
                     >
-                      <Button className="w-full" disabled={exporting}>
+                      <Button className="w-full" disabled={exporting || !can("data.export")}>
                         {exporting ? "Starting..." : "Start export"}
                       </Button>
                     </ConfirmAction>
@@ -598,7 +675,9 @@ export default function SystemSettings({
                 )}
                 <Separator />
                 <div className="text-xs text-muted-foreground">
-                  Tip: Narrow your range and use Parquet for large exports to speed up downloads.
+                  {can("data.export")
+                    ? "Tip: Narrow your range to speed up large exports."
+                    : "You do not have permission to export data."}
                 </div>
               </CardContent>
             </Card>
@@ -619,13 +698,13 @@ export default function SystemSettings({
                     label="Auto-ingestion"
                     help="Automatically collect social media posts using active keywords."
                   >
-                    <Switch checked={autoIngest} onCheckedChange={setAutoIngest} disabled={!isAdmin} aria-label="Toggle auto-ingestion" />
+                    <Switch checked={autoIngest} onCheckedChange={setAutoIngest} disabled={!canConfigure} aria-label="Toggle auto-ingestion" />
                   </SettingRow>
                   <SettingRow
                     label="Notifications"
                     help="Send email notifications for critical system events."
                   >
-                    <Switch checked={sendNotifications} onCheckedChange={setSendNotifications} disabled={!isAdmin} aria-label="Toggle notifications" />
+                    <Switch checked={sendNotifications} onCheckedChange={setSendNotifications} disabled={!canConfigure} aria-label="Toggle notifications" />
                   </SettingRow>
                   <SettingRow
                     label="Data retention (days)"
@@ -637,7 +716,7 @@ export default function SystemSettings({
                       value={retentionDays}
                       onChange={(e) => setRetentionDays(e.target.value.replace(/[^0-9]/g, ""))}
                       className="w-28 bg-background"
-                      disabled={!isAdmin}
+                      disabled={!canConfigure}
                       aria-label="Retention days"
                     />
                   </SettingRow>
@@ -645,7 +724,7 @@ export default function SystemSettings({
                     label="Log level"
                     help="Controls verbosity of system logs."
                   >
-                    <Select value={logLevel} onValueChange={(v: "info" | "warn" | "error") => setLogLevel(v)} disabled={!isAdmin}>
+                    <Select value={logLevel} onValueChange={(v: "info" | "warn" | "error") => setLogLevel(v)} disabled={!canConfigure}>
                       <SelectTrigger className="w-40 bg-card">
                         <SelectValue />
                       </SelectTrigger>
@@ -657,8 +736,8 @@ export default function SystemSettings({
                     </Select>
                   </SettingRow>
                 </div>
-                {!isAdmin && (
-                  <p className="text-xs text-muted-foreground">Only admins can change system configuration.</p>
+                {!canConfigure && (
+                  <p className="text-xs text-muted-foreground">You do not have permission to change system configuration.</p>
                 )}
               </CardContent>
               <CardFooter className="flex items-center gap-3 justify-between">
@@ -670,22 +749,487 @@ export default function SystemSettings({
                   variant="destructive"
                   open={confirmResetOpen}
                   onOpenChange={setConfirmResetOpen}
-                  disabled={!isAdmin}
+                  disabled={!canConfigure}
                 >
-                  <Button variant="outline" className="border-destructive/40 text-destructive hover:bg-destructive/5" disabled={!isAdmin}>
+                  <Button variant="outline" className="border-destructive/40 text-destructive hover:bg-destructive/5" disabled={!canConfigure}>
                     Reset system
                   </Button>
                 </ConfirmAction>
-                <Button onClick={handleSaveConfig} disabled={!isAdmin}>Save changes</Button>
+                <Button onClick={handleSaveConfig} disabled={!canConfigure}>Save changes</Button>
               </CardFooter>
             </Card>
           </TabsContent>
+
+          {canConfigure && (
+            <TabsContent value="maps" className="mt-6">
+              <BasemapSettings />
+            </TabsContent>
+          )}
+
+          {canManageUsers && (
+            <TabsContent value="teams" className="mt-6">
+              <TeamSettings teams={teams} users={users} onCreate={createTeam} onRemove={handleRemoveTeam} />
+            </TabsContent>
+          )}
+
+          {canConfigure && (
+            <TabsContent value="deadlines" className="mt-6">
+              <SlaSettings />
+            </TabsContent>
+          )}
         </Tabs>
       </div>
     </section>
   );
 }
 
+function BasemapSettings() {
+  const { basemaps, loading, create, update, remove } = useBasemaps();
+  const [tileSources, setTileSources] = useState<TileSource[]>([]);
+  const [form, setForm] = useState({
+    name: "",
+    kind: "street" as BasemapKind,
+    url: "",
+    attribution: "",
+    maxZoom: "19",
+    overlay: false,
+  });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchTileSources()
+      .then(setTileSources)
+      .catch(() => setTileSources([]));
+  }, []);
+
+  const failed = (what: string) => (e: unknown) =>
+    toast.error(what, { description: e instanceof Error ? e.message : undefined });
+
+  async function handleAdd() {
+    setSaving(true);
+    try {
+      const basemap = await create({
+        name: form.name,
+        kind: form.kind,
+        url: form.url,
+        attribution: form.attribution.trim() || null,
+        maxZoom: Number(form.maxZoom) || 19,
+        overlay: form.overlay,
+      });
+      toast.success(`Added ${basemap.name}`);
+      setForm((f) => ({ ...f, name: "", url: "", attribution: "" }));
+    } catch (e) {
+      failed("Could not add basemap")(e);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const unused = tileSources.filter((s) => !basemaps.some((b) => b.url === localTileUrl(s.name)));
+
+  return (
+    <Card className="bg-card border-[--border]">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Settings className="h-5 w-5 text-[--primary]" aria-hidden />
+          <CardTitle>Map Basemaps</CardTitle>
+        </div>
+        <CardDescription>
+          Tile sources offered in the map&apos;s layer switcher. Local sources are served from the server&apos;s
+          TILES_DIR and keep working without internet access.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {basemaps.map((b) => (
+            <div key={b.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border border-[--border] bg-background">
+              <div className="min-w-0">
+                <p className="font-medium break-words">{b.name}</p>
+                <p className="text-xs text-muted-foreground break-all">{b.url}</p>
+                <div className="mt-1 flex items-center gap-2">
+                  <Badge variant="secondary">{BASEMAP_KIND_LABEL[b.kind]}</Badge>
+                  {b.overlay && <Badge variant="outline">overlay</Badge>}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={b.enabled}
+                  onCheckedChange={(enabled) => update(b.id, { enabled }).catch(failed("Could not update basemap"))}
+                  aria-label={b.enabled ? `Disable ${b.name}` : `Enable ${b.name}`}
+                />
+                <ConfirmAction
+                  title="Remove basemap?"
+                  description={`"${b.name}" will no longer be offered on the map.`}
+                  onConfirm={() => remove(b.id).catch(failed("Could not remove basemap"))}
+                  actionLabel="Remove"
+                  variant="destructive"
+                >
+                  <Button variant="outline">Remove</Button>
+                </ConfirmAction>
+              </div>
+            </div>
+          ))}
+          {!loading && basemaps.length === 0 && (
+            <p className="text-sm text-muted-foreground">No basemaps configured; the map uses its built-in set.</p>
+          )}
+        </div>
+
+        <Separator />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="basemap-name">Name</Label>
+            <Input
+              id="basemap-name"
+              value={form.name}
+              onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+              className="bg-background"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="basemap-kind">Kind</Label>
+            <Select value={form.kind} onValueChange={(kind: BasemapKind) => setForm((f) => ({ ...f, kind }))}>
+              <SelectTrigger id="basemap-kind" className="bg-card">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BASEMAP_KINDS.map((k) => (
+                  <SelectItem key={k} value={k}>{BASEMAP_KIND_LABEL[k]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1 md:col-span-2">
+            <Label htmlFor="basemap-url">Tile URL</Label>
+            <Input
+              id="basemap-url"
+              placeholder="https://tiles.example.org/{z}/{x}/{y}.png"
+              value={form.url}
+              onChange={(e) => setForm((f) => ({ ...f, url: e.target.value }))}
+              className="bg-background"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="basemap-attribution">Attribution</Label>
+            <Input
+              id="basemap-attribution"
+              value={form.attribution}
+              onChange={(e) => setForm((f) => ({ ...f, attribution: e.target.value }))}
+              className="bg-background"
+            />
+          </div>
+          <div className="flex items-end gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="basemap-max-zoom">Max zoom</Label>
+              <Input
+                id="basemap-max-zoom"
+                inputMode="numeric"
+                value={form.maxZoom}
+                onChange={(e) => setForm((f) => ({ ...f, maxZoom: e.target.value.replace(/[^0-9]/g, "") }))}
+                className="w-20 bg-background"
+              />
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Switch
+                id="basemap-overlay"
+                checked={form.overlay}
+                onCheckedChange={(overlay) => setForm((f) => ({ ...f, overlay }))}
+              />
+              <Label htmlFor="basemap-overlay">Overlay</Label>
+            </div>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          {unused.length > 0 ? (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Local tiles:</span>
+              {unused.map((s) => (
+                <Button
+                  key={s.name}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setForm((f) => ({ ...f, name: f.name || s.name, url: localTileUrl(s.name) }))}
+                >
+                  {s.name} ({s.format})
+                </Button>
+              ))}
+            </div>
+          ) : (
+            <span />
+          )}
+          <Button onClick={handleAdd} disabled={saving || !form.name.trim() || !form.url.trim()}>
+            Add basemap
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function TeamSettings({
+  teams,
+  users,
+  onCreate,
+  onRemove,
+}: {
+  teams: Team[];
+  users: ManagedUser[];
+  onCreate: (input: { name: string }) => Promise<Team>;
+  onRemove: (id: string) => Promise<void>;
+}) {
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const failed = (what: string) => (e: unknown) =>
+    toast.error(what, { description: e instanceof Error ? e.message : undefined });
+
+  async function handleAdd() {
+    setSaving(true);
+    try {
+      const team = await onCreate({ name });
+      toast.success(`Added ${team.name}`);
+      setName("");
+    } catch (e) {
+      failed("Could not add team")(e);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Card className="bg-card border-[--border]">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Users className="h-5 w-5 text-[--primary]" aria-hidden />
+          <CardTitle>Reviewer Teams</CardTitle>
+        </div>
+        <CardDescription>
+          Reports can be assigned to a team; its members see unassigned team reports in their queue. Set each
+          user&apos;s team from the Users tab.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {teams.map((t) => {
+            const members = users.filter((u) => u.teamId === t.id);
+            return (
+              <div key={t.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border border-[--border] bg-background">
+                <div className="min-w-0">
+                  <p className="font-medium break-words">{t.name}</p>
+                  <p className="text-xs text-muted-foreground break-words">
+                    {members.length ? members.map((u) => u.name).join(", ") : "No members"}
+                  </p>
+                </div>
+                <ConfirmAction
+                  title="Delete team?"
+                  description={`"${t.name}" will be removed. Its members and reports are left without a team.`}
+                  onConfirm={() => onRemove(t.id).then(() => toast.success(`Deleted ${t.name}`), failed("Could not delete team"))}
+                  actionLabel="Delete"
+                  variant="destructive"
+                >
+                  <Button variant="outline">Delete</Button>
+                </ConfirmAction>
+              </div>
+            );
+          })}
+          {teams.length === 0 && <p className="text-sm text-muted-foreground">No teams yet.</p>}
+        </div>
+
+        <Separator />
+
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="flex-1 space-y-1">
+            <Label htmlFor="team-name">Name</Label>
+            <Input
+              id="team-name"
+              placeholder="e.g. West Coast desk"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="bg-background"
+            />
+          </div>
+          <Button onClick={handleAdd} disabled={saving || !name.trim()}>
+            Add team
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+type SlaDraft = { hazardType: string; severity: HazardSeverity; minutes: string };
+
+const toDraft = (targets: SlaTarget[]): SlaDraft[] =>
+  targets.map((t) => ({ ...t, minutes: String(t.minutes) }));
+
+function SlaSettings() {
+  const { targets, loading, save } = useSlaTargets();
+  const [draft, setDraft] = useState<SlaDraft[]>([]);
+  const [form, setForm] = useState({ hazardType: "", severity: "high" as HazardSeverity, minutes: "" });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => setDraft(toDraft(targets)), [targets]);
+
+  const overrides = draft.filter((d) => d.hazardType !== ANY_HAZARD_TYPE);
+  const dirty = JSON.stringify(draft) !== JSON.stringify(toDraft(targets));
+  const invalid = draft.some((d) => !(Number(d.minutes) >= 1));
+  const taken = draft.some((d) => d.hazardType === form.hazardType && d.severity === form.severity);
+
+  const setMinutes = (hazardType: string, severity: HazardSeverity, minutes: string) =>
+    setDraft((prev) =>
+      prev.map((d) =>
+        d.hazardType === hazardType && d.severity === severity ? { ...d, minutes: minutes.replace(/[^0-9]/g, "") } : d,
+      ),
+    );
+
+  function handleAdd() {
+    setDraft((prev) => [...prev, form]);
+    setForm((f) => ({ ...f, minutes: "" }));
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      await save(draft.map((d) => ({ ...d, minutes: Number(d.minutes) })));
+      toast.success("Review deadlines saved");
+    } catch (e) {
+      toast.error("Could not save review deadlines", {
+        description: e instanceof Error ? e.message : undefined,
+      });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const minutesInput = (d: SlaDraft, label: string) => (
+    <div className="flex items-center gap-2">
+      <Input
+        inputMode="numeric"
+        value={d.minutes}
+        onChange={(e) => setMinutes(d.hazardType, d.severity, e.target.value)}
+        aria-label={label}
+        className="w-24 bg-background"
+      />
+      <span className="text-xs text-muted-foreground w-16">
+        {Number(d.minutes) >= 1 ? formatSlaDuration(Number(d.minutes) * 60_000) : "—"}
+      </span>
+    </div>
+  );
+
+  return (
+    <Card className="bg-card border-[--border]">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Timer className="h-5 w-5 text-[--primary]" aria-hidden />
+          <CardTitle>Review Deadlines</CardTitle>
+        </div>
+        <CardDescription>
+          Minutes a new report may wait for review, by severity. A hazard type&apos;s own target overrides the one for
+          any type. Saving moves reports still waiting for review to the new deadlines.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Any hazard type</Label>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {draft
+              .filter((d) => d.hazardType === ANY_HAZARD_TYPE)
+              .map((d) => (
+                <div key={d.severity} className="flex items-center justify-between gap-3 p-3 rounded-lg border border-[--border] bg-background">
+                  <span className="font-medium">{HAZARD_SEVERITY_LABEL[d.severity]}</span>
+                  {minutesInput(d, `${HAZARD_SEVERITY_LABEL[d.severity]} target in minutes`)}
+                </div>
+              ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Hazard type overrides</Label>
+          {overrides.map((d) => (
+            <div
+              key={`${d.hazardType}:${d.severity}`}
+              className="flex flex-wrap items-center justify-between gap-3 p-3 rounded-lg border border-[--border] bg-background"
+            >
+              <div className="flex items-center gap-2 min-w-0">
+                <span className="font-medium">{hazardTypeLabel(d.hazardType)}</span>
+                <Badge variant="secondary">{HAZARD_SEVERITY_LABEL[d.severity]}</Badge>
+              </div>
+              <div className="flex items-center gap-2">
+                {minutesInput(d, `${hazardTypeLabel(d.hazardType)} ${d.severity} target in minutes`)}
+                <Button
+                  variant="outline"
+                  onClick={() => setDraft((prev) => prev.filter((x) => x !== d))}
+                >
+                  Remove
+                </Button>
+              </div>
+            </div>
+          ))}
+          {!loading && overrides.length === 0 && (
+            <p className="text-sm text-muted-foreground">Every hazard type uses the targets above.</p>
+          )}
+        </div>
+
+        <Separator />
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="sla-type">Hazard type</Label>
+            <Select value={form.hazardType} onValueChange={(hazardType) => setForm((f) => ({ ...f, hazardType }))}>
+              <SelectTrigger id="sla-type" className="bg-card">
+                <SelectValue placeholder="Select type" />
+              </SelectTrigger>
+              <SelectContent>
+                {HAZARD_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>{hazardTypeLabel(type)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="sla-severity">Severity</Label>
+            <Select value={form.severity} onValueChange={(severity: HazardSeverity) => setForm((f) => ({ ...f, severity }))}>
+              <SelectTrigger id="sla-severity" className="bg-card">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HAZARD_SEVERITIES.map((severity) => (
+                  <SelectItem key={severity} value={severity}>{HAZARD_SEVERITY_LABEL[severity]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="sla-minutes">Minutes</Label>
+            <Input
+              id="sla-minutes"
+              inputMode="numeric"
+              value={form.minutes}
+              onChange={(e) => setForm((f) => ({ ...f, minutes: e.target.value.replace(/[^0-9]/g, "") }))}
+              className="bg-background"
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleAdd}
+            disabled={!form.hazardType || !(Number(form.minutes) >= 1) || taken}
+          >
+            Add override
+          </Button>
+        </div>
+      </CardContent>
+      <CardFooter className="justify-end gap-2">
+        <Button variant="outline" onClick={() => setDraft(toDraft(targets))} disabled={!dirty || saving}>
+          Discard changes
+        </Button>
+        <Button onClick={handleSave} disabled={!dirty || invalid || saving}>
+          Save deadlines
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
+
 function HealthTile({
   title,
   status,
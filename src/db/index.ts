@@ -0,0 +1,15 @@
+import { createClient } from "@libsql/client";
+import { drizzle } from "drizzle-orm/libsql";
+import * as schema from "./schema";
+
+// Local development uses a SQLite file in the project root; point DATABASE_URL at a
+// libSQL/Turso instance in other environments.
+const client = createClient({
+  url: process.env.DATABASE_URL ?? "file:local.db",
+  authToken: process.env.DATABASE_AUTH_TOKEN,
+});
+
+export const db = drizzle(client, { schema });
+
+export type Database = typeof db;
+export type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
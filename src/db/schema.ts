@@ -0,0 +1,323 @@
+import {
+  index,
+  integer,
+  primaryKey,
+  real,
+  sqliteTable,
+  text,
+  uniqueIndex,
+  type AnySQLiteColumn,
+} from "drizzle-orm/sqlite-core";
+import {
+  HAZARD_SEVERITIES,
+  HAZARD_SOURCES,
+  HAZARD_STATUSES,
+  HAZARD_VERIFICATIONS,
+  MEDIA_KINDS,
+} from "@/lib/reports/hazard-report";
+import { ALERT_DRAFT_STATUSES, ALERT_SEVERITIES, type HotspotSummary } from "@/lib/alerts/alert";
+import { AUDIT_ACTIONS, AUDIT_SUBJECTS } from "@/lib/audit/audit-entry";
+import { ROLES, USER_STATUSES } from "@/lib/auth/roles";
+import type { AreaShape } from "@/lib/map/area";
+import { BASEMAP_KINDS } from "@/lib/basemaps/basemap";
+import { ASSET_KINDS } from "@/lib/assets/asset";
+import type { SavedViewFilters } from "@/lib/saved-views/saved-view";
+
+export const reports = sqliteTable(
+  "reports",
+  {
+    id: text("id").primaryKey(),
+    type: text("type").notNull(),
+    title: text("title"),
+    description: text("description"),
+    status: text("status", { enum: HAZARD_STATUSES }).notNull().default("unverified"),
+    verification: text("verification", { enum: HAZARD_VERIFICATIONS }).notNull().default("unverified"),
+    source: text("source", { enum: HAZARD_SOURCES }).notNull(),
+    severity: text("severity", { enum: HAZARD_SEVERITIES }).notNull().default("moderate"),
+    lat: real("lat").notNull(),
+    lng: real("lng").notNull(),
+    locationName: text("location_name"),
+    personName: text("person_name"),
+    reportedAt: text("reported_at").notNull(), // ISO
+    assigneeId: text("assignee_id").references(() => user.id, { onDelete: "set null" }),
+    teamId: text("team_id").references(() => teams.id, { onDelete: "set null" }),
+    dueAt: text("due_at"), // ISO review deadline, see src/lib/sla
+    reviewedAt: text("reviewed_at"),
+    escalatedAt: text("escalated_at"),
+    // The report this duplicate was merged into
+    mergedIntoId: text("merged_into_id").references((): AnySQLiteColumn => reports.id, { onDelete: "set null" }),
+    mergedAt: text("merged_at"),
+    createdAt: text("created_at").notNull(),
+    updatedAt: text("updated_at").notNull(),
+  },
+  // The id is the report table's tie-breaker, so each index also serves its keyset pages
+  (t) => [
+    index("reports_reported_at_idx").on(t.reportedAt, t.id),
+    index("reports_status_idx").on(t.status, t.id),
+    index("reports_type_idx").on(t.type, t.id),
+    index("reports_source_idx").on(t.source, t.id),
+    index("reports_due_at_idx").on(t.dueAt, t.id),
+    index("reports_assignee_idx").on(t.assigneeId),
+    index("reports_team_idx").on(t.teamId),
+    index("reports_merged_into_idx").on(t.mergedIntoId),
+  ]
+);
+
+export const reportMedia = sqliteTable(
+  "report_media",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    reportId: text("report_id")
+      .notNull()
+      .references(() => reports.id, { onDelete: "cascade" }),
+    kind: text("kind", { enum: MEDIA_KINDS }).notNull(),
+    url: text("url").notNull(),
+    createdAt: text("created_at").notNull(),
+  },
+  (t) => [index("report_media_report_idx").on(t.reportId)]
+);
+
+export const reportNotes = sqliteTable(
+  "report_notes",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    reportId: text("report_id")
+      .notNull()
+      .references(() => reports.id, { onDelete: "cascade" }),
+    authorId: text("author_id").notNull(),
+    authorName: text("author_name").notNull(),
+    body: text("body").notNull(),
+    createdAt: text("created_at").notNull(),
+  },
+  (t) => [index("report_notes_report_idx").on(t.reportId)]
+);
+
+// Append-only and hash-chained (see src/lib/audit/repository.ts). Not tied to
+// reports by foreign key so history survives deletions.
+export const auditLog = sqliteTable(
+  "audit_log",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    subjectType: text("subject_type", { enum: AUDIT_SUBJECTS }).notNull(),
+    subjectId: text("subject_id"),
+    action: text("action", { enum: AUDIT_ACTIONS }).notNull(),
+    actorId: text("actor_id").notNull(),
+    actorName: text("actor_name").notNull(),
+    at: text("at").notNull(),
+    before: text("before"), // JSON
+    after: text("after"), // JSON
+    reason: text("reason"),
+    prevHash: text("prev_hash").notNull(),
+    hash: text("hash").notNull().unique(),
+  },
+  (t) => [index("audit_log_subject_idx").on(t.subjectType, t.subjectId)]
+);
+
+export const reportTags = sqliteTable(
+  "report_tags",
+  {
+    reportId: text("report_id")
+      .notNull()
+      .references(() => reports.id, { onDelete: "cascade" }),
+    tag: text("tag").notNull(),
+  },
+  (t) => [primaryKey({ columns: [t.reportId, t.tag] }), index("report_tags_tag_idx").on(t.tag)]
+);
+
+// Reviewer teams reports can be assigned to; each user is on at most one
+export const teams = sqliteTable("teams", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  createdAt: text("created_at").notNull(),
+});
+
+// Review deadlines by hazard type ("*" for any) and severity. While empty the
+// built-in DEFAULT_SLA_TARGETS apply.
+export const slaTargets = sqliteTable(
+  "sla_targets",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    hazardType: text("hazard_type").notNull(),
+    severity: text("severity", { enum: HAZARD_SEVERITIES }).notNull(),
+    minutes: integer("minutes").notNull(),
+  },
+  (t) => [uniqueIndex("sla_targets_type_severity_idx").on(t.hazardType, t.severity)]
+);
+
+// Tables below follow the better-auth core schema; `role` is an additional user field.
+
+export const user = sqliteTable("user", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  email: text("email").notNull().unique(),
+  emailVerified: integer("email_verified", { mode: "boolean" }).notNull().default(false),
+  image: text("image"),
+  role: text("role", { enum: ROLES }).notNull().default("viewer"),
+  permissions: text("permissions"), // JSON array overriding the role defaults
+  status: text("status", { enum: USER_STATUSES }).notNull().default("active"),
+  teamId: text("team_id").references(() => teams.id, { onDelete: "set null" }),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).notNull(),
+});
+
+export const session = sqliteTable(
+  "session",
+  {
+    id: text("id").primaryKey(),
+    expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+    token: text("token").notNull().unique(),
+    ipAddress: text("ip_address"),
+    userAgent: text("user_agent"),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+    updatedAt: integer("updated_at", { mode: "timestamp" }).notNull(),
+  },
+  (t) => [index("session_user_idx").on(t.userId)]
+);
+
+export const account = sqliteTable(
+  "account",
+  {
+    id: text("id").primaryKey(),
+    accountId: text("account_id").notNull(),
+    providerId: text("provider_id").notNull(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    accessToken: text("access_token"),
+    refreshToken: text("refresh_token"),
+    idToken: text("id_token"),
+    accessTokenExpiresAt: integer("access_token_expires_at", { mode: "timestamp" }),
+    refreshTokenExpiresAt: integer("refresh_token_expires_at", { mode: "timestamp" }),
+    scope: text("scope"),
+    password: text("password"),
+    createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+    updatedAt: integer("updated_at", { mode: "timestamp" }).notNull(),
+  },
+  (t) => [index("account_user_idx").on(t.userId)]
+);
+
+export const verification = sqliteTable("verification", {
+  id: text("id").primaryKey(),
+  identifier: text("identifier").notNull(),
+  value: text("value").notNull(),
+  expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }),
+  updatedAt: integer("updated_at", { mode: "timestamp" }),
+});
+
+export const alerts = sqliteTable(
+  "alerts",
+  {
+    id: text("id").primaryKey(),
+    region: text("region"),
+    recipients: text("recipients", { mode: "json" }).$type<string[]>().notNull(),
+    title: text("title").notNull(),
+    message: text("message").notNull(),
+    severity: text("severity", { enum: ALERT_SEVERITIES }).notNull(),
+    sentBy: text("sent_by")
+      .notNull()
+      .references(() => user.id),
+    createdAt: text("created_at").notNull(),
+  },
+  (t) => [index("alerts_created_at_idx").on(t.createdAt)]
+);
+
+export const alertDrafts = sqliteTable(
+  "alert_drafts",
+  {
+    id: text("id").primaryKey(),
+    region: text("region"),
+    recipients: text("recipients", { mode: "json" }).$type<string[]>().notNull(),
+    title: text("title").notNull(),
+    message: text("message").notNull(),
+    severity: text("severity", { enum: ALERT_SEVERITIES }).notNull(),
+    hotspot: text("hotspot", { mode: "json" }).$type<HotspotSummary>(),
+    status: text("status", { enum: ALERT_DRAFT_STATUSES }).notNull().default("pending"),
+    createdBy: text("created_by")
+      .notNull()
+      .references(() => user.id),
+    createdAt: text("created_at").notNull(),
+    alertId: text("alert_id").references(() => alerts.id),
+  },
+  (t) => [index("alert_drafts_status_idx").on(t.status)]
+);
+
+export const geofences = sqliteTable("geofences", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  shape: text("shape", { mode: "json" }).$type<AreaShape>().notNull(),
+  createdBy: text("created_by")
+    .notNull()
+    .references(() => user.id),
+  createdAt: text("created_at").notNull(),
+});
+
+export const basemaps = sqliteTable("basemaps", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  kind: text("kind", { enum: BASEMAP_KINDS }).notNull(),
+  url: text("url").notNull(),
+  attribution: text("attribution"),
+  maxZoom: integer("max_zoom").notNull().default(19),
+  overlay: integer("overlay", { mode: "boolean" }).notNull().default(false),
+  enabled: integer("enabled", { mode: "boolean" }).notNull().default(true),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at").notNull(),
+});
+
+export const criticalAssets = sqliteTable("critical_assets", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  kind: text("kind", { enum: ASSET_KINDS }).notNull(),
+  lat: real("lat").notNull(),
+  lng: real("lng").notNull(),
+  radius: real("radius").notNull(),
+  createdBy: text("created_by")
+    .notNull()
+    .references(() => user.id),
+  createdAt: text("created_at").notNull(),
+});
+
+export const savedViews = sqliteTable(
+  "saved_views",
+  {
+    id: text("id").primaryKey(),
+    name: text("name").notNull(),
+    shared: integer("shared", { mode: "boolean" }).notNull().default(false),
+    center: text("center", { mode: "json" }).$type<[number, number]>().notNull(),
+    zoom: real("zoom").notNull(),
+    filters: text("filters", { mode: "json" }).$type<SavedViewFilters>().notNull(),
+    ownerId: text("owner_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    createdAt: text("created_at").notNull(),
+  },
+  (t) => [index("saved_views_owner_idx").on(t.ownerId)]
+);
+
+// The view each user's map opens with; a deleted view falls back to the built-in one
+export const defaultViews = sqliteTable("default_views", {
+  userId: text("user_id")
+    .primaryKey()
+    .references(() => user.id, { onDelete: "cascade" }),
+  viewId: text("view_id")
+    .notNull()
+    .references(() => savedViews.id, { onDelete: "cascade" }),
+});
+
+export type ReportRow = typeof reports.$inferSelect;
+export type NewReportRow = typeof reports.$inferInsert;
+export type UserRow = typeof user.$inferSelect;
+export type AlertRow = typeof alerts.$inferSelect;
+export type AlertDraftRow = typeof alertDrafts.$inferSelect;
+export type AuditLogRow = typeof auditLog.$inferSelect;
+export type GeofenceRow = typeof geofences.$inferSelect;
+export type BasemapRow = typeof basemaps.$inferSelect;
+export type CriticalAssetRow = typeof criticalAssets.$inferSelect;
+export type SavedViewRow = typeof savedViews.$inferSelect;
+export type TeamRow = typeof teams.$inferSelect;
+export type SlaTargetRow = typeof slaTargets.$inferSelect;
@@ -0,0 +1,14 @@
+import { db } from "@/db";
+import { basemaps } from "@/db/schema";
+import { DEFAULT_BASEMAPS } from "@/lib/basemaps/basemap";
+
+export async function seedBasemaps() {
+  const existing = await db.select({ id: basemaps.id }).from(basemaps).limit(1);
+  if (existing.length) {
+    console.log("Basemaps already configured, skipping");
+    return;
+  }
+  const now = new Date().toISOString();
+  await db.insert(basemaps).values(DEFAULT_BASEMAPS.map((b) => ({ ...b, createdAt: now, updatedAt: now })));
+  console.log(`Seeded ${DEFAULT_BASEMAPS.length} basemaps`);
+}
@@ -0,0 +1,15 @@
+import { seedBasemaps } from "./basemaps";
+import { seedReports } from "./reports";
+import { seedUsers } from "./users";
+
+// `npm run db:push && npm run db:seed`
+async function main() {
+  await seedUsers();
+  await seedReports();
+  await seedBasemaps();
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,78 @@
+import { createReport } from "@/lib/reports/repository";
+import type { HazardSeverity, HazardSource, HazardStatus } from "@/lib/reports/hazard-report";
+import type { CreateReportInput } from "@/lib/reports/validation";
+
+// Sample coastal reports for local development
+function generateMockReports(count = 180): CreateReportInput[] {
+  const coastalSpots = [
+    { name: "Mumbai", state: "Maharashtra", lat: 19.076, lng: 72.8777 },
+    { name: "Daman", state: "Dadra & Nagar Haveli and Daman & Diu", lat: 20.3974, lng: 72.8328 },
+    { name: "Mangaluru", state: "Karnataka", lat: 12.9141, lng: 74.8560 },
+    { name: "Panaji", state: "Goa", lat: 15.4909, lng: 73.8278 },
+    { name: "Kochi", state: "Kerala", lat: 9.9312, lng: 76.2673 },
+    { name: "Kanyakumari", state: "Tamil Nadu", lat: 8.0883, lng: 77.5385 },
+    { name: "Chennai", state: "Tamil Nadu", lat: 13.0827, lng: 80.2707 },
+    { name: "Visakhapatnam", state: "Andhra Pradesh", lat: 17.6868, lng: 83.2185 },
+    { name: "Paradip", state: "Odisha", lat: 20.3167, lng: 86.6167 },
+    { name: "Kolkata", state: "West Bengal", lat: 22.5726, lng: 88.3639 },
+  ];
+  const people = ["Amit Kumar", "Priya Singh", "Rahul Sharma", "Neha Verma", "Arjun Iyer", "Sneha Nair"];
+  const types = ["cyclone", "flood", "landslide", "storm", "pollution", "oil_spill"];
+  const statuses: HazardStatus[] = ["unverified", "under_review", "verified", "false_alarm"];
+  const sources: HazardSource[] = ["citizen", "sensor", "social", "official", "other"];
+  const severities: HazardSeverity[] = ["moderate", "high", "low", "emergency", "moderate"];
+  const now = Date.now();
+  const day = 1000 * 60 * 60 * 24;
+
+  const items: CreateReportInput[] = [];
+  for (let i = 0; i < count; i++) {
+    const base = coastalSpots[i % coastalSpots.length]!;
+    const type = types[i % types.length]!;
+    const status = statuses[i % statuses.length]!;
+    const source = sources[i % sources.length]!;
+    const severity = severities[Math.floor(i / statuses.length) % severities.length]!;
+    const withMedia = i % 3 === 0;
+
+    items.push({
+      type,
+      status,
+      severity,
+      verification: status === "verified" ? "verified" : status === "under_review" ? "pending" : "unverified",
+      source,
+      lat: base.lat + (Math.random() - 0.5) * 0.25,
+      lng: base.lng + (Math.random() - 0.5) * 0.25,
+      timestamp: new Date(now - Math.floor(Math.random() * 14) * day - Math.floor(Math.random() * day)).toISOString(),
+      description:
+        i % 3 === 0
+          ? "Automated detection; field confirmation pending along Indian coast."
+          : i % 3 === 1
+          ? "Citizen report awaiting triage by local authorities."
+          : "Verified by officials; response teams notified.",
+      media: withMedia
+        ? [
+            {
+              kind: "image",
+              url: "https://images.unsplash.com/photo-1502303756782-9a5a2d43a3d0?q=80&w=600&auto=format&fit=crop",
+            },
+            {
+              kind: "image",
+              url: "https://images.unsplash.com/photo-1502452213786-0f4d3f5b4ca3?q=80&w=600&auto=format&fit=crop",
+            },
+          ]
+        : undefined,
+      personName: people[i % people.length]!,
+      title: `${type.charAt(0).toUpperCase() + type.slice(1)} near ${base.name}`,
+      locationName: `${base.name}, ${base.state}`,
+      tags: [type, base.state.toLowerCase(), "coast", source],
+    });
+  }
+  return items;
+}
+
+const SEED_ACTOR = { id: "system", name: "Seed script" };
+
+export async function seedReports() {
+  const items = generateMockReports();
+  for (const item of items) await createReport(item, SEED_ACTOR);
+  console.log(`Seeded ${items.length} reports`);
+}
@@ -0,0 +1,28 @@
+import { auth } from "@/lib/auth";
+import type { Role } from "@/lib/auth/roles";
+
+const DEV_PASSWORD = process.env.SEED_USER_PASSWORD ?? "ocean-hazard-dev";
+
+const USERS: { name: string; email: string; role: Role }[] = [
+  { name: "Alex Johnson", email: "alex.johnson@example.com", role: "admin" },
+  { name: "Priya Patel", email: "priya.patel@example.com", role: "manager" },
+  { name: "Diego Fernandez", email: "diego.fernandez@example.com", role: "viewer" },
+];
+
+// Sign-up is disabled, so accounts are created through the auth internals
+export async function seedUsers() {
+  const ctx = await auth.$context;
+  let created = 0;
+  for (const u of USERS) {
+    if (await ctx.internalAdapter.findUserByEmail(u.email)) continue;
+    const user = await ctx.internalAdapter.createUser({ ...u, emailVerified: true }, { method: "admin" });
+    await ctx.internalAdapter.linkAccount({
+      userId: user.id,
+      providerId: "credential",
+      accountId: user.id,
+      password: await ctx.password.hash(DEV_PASSWORD),
+    });
+    created++;
+  }
+  console.log(`Seeded ${created} users (password: ${DEV_PASSWORD})`);
+}
@@ -0,0 +1,60 @@
+import * as React from "react"
+import { toast } from "sonner"
+import { createAlertDraft, discardAlertDraft, fetchAlertDrafts, sendAlert } from "@/lib/alerts/client"
+import type { AlertDraft } from "@/lib/alerts/alert"
+import type { CreateAlertDraftInput, SendAlertInput } from "@/lib/alerts/validation"
+import { ApiError } from "@/lib/http"
+
+// Pending alert drafts, e.g. from map hotspots, for review in the NotificationCenter
+export function useAlertDrafts() {
+  const [drafts, setDrafts] = React.useState<AlertDraft[]>([])
+
+  React.useEffect(() => {
+    fetchAlertDrafts()
+      .then(setDrafts)
+      .catch((e) =>
+        toast.error("Failed to load alert drafts", {
+          description: e instanceof Error ? e.message : undefined,
+        })
+      )
+  }, [])
+
+  const create = React.useCallback(async (input: CreateAlertDraftInput) => {
+    const draft = await createAlertDraft(input)
+    setDrafts((prev) => [draft, ...prev])
+    return draft
+  }, [])
+
+  const drop = React.useCallback((id: string) => {
+    setDrafts((prev) => prev.filter((d) => d.id !== id))
+  }, [])
+
+  // A 409 means someone else already sent or discarded the draft
+  const send = React.useCallback(
+    async (input: SendAlertInput) => {
+      try {
+        const alert = await sendAlert(input)
+        if (input.draftId) drop(input.draftId)
+        return { ok: true, id: alert.id }
+      } catch (e) {
+        if (input.draftId && e instanceof ApiError && e.status === 409) drop(input.draftId)
+        throw e
+      }
+    },
+    [drop]
+  )
+
+  const discard = React.useCallback(
+    async (id: string) => {
+      try {
+        await discardAlertDraft(id)
+      } catch (e) {
+        if (!(e instanceof ApiError && e.status === 409)) throw e
+      }
+      drop(id)
+    },
+    [drop]
+  )
+
+  return { drafts, create, send, discard }
+}
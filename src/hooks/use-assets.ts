@@ -0,0 +1,32 @@
+import * as React from "react"
+import { toast } from "sonner"
+import { createAsset, deleteAsset, fetchAssets } from "@/lib/assets/client"
+import type { CriticalAsset } from "@/lib/assets/asset"
+import type { CreateAssetInput } from "@/lib/assets/validation"
+
+export function useAssets() {
+  const [assets, setAssets] = React.useState<CriticalAsset[]>([])
+
+  React.useEffect(() => {
+    fetchAssets()
+      .then(setAssets)
+      .catch((e) =>
+        toast.error("Failed to load critical assets", {
+          description: e instanceof Error ? e.message : undefined,
+        })
+      )
+  }, [])
+
+  const create = React.useCallback(async (input: CreateAssetInput) => {
+    const asset = await createAsset(input)
+    setAssets((prev) => [...prev, asset].sort((a, b) => a.name.localeCompare(b.name)))
+    return asset
+  }, [])
+
+  const remove = React.useCallback(async (id: string) => {
+    await deleteAsset(id)
+    setAssets((prev) => prev.filter((a) => a.id !== id))
+  }, [])
+
+  return { assets, create, remove }
+}
@@ -0,0 +1,42 @@
+import * as React from "react"
+import { toast } from "sonner"
+import { createBasemap, deleteBasemap, fetchBasemaps, updateBasemap } from "@/lib/basemaps/client"
+import type { Basemap } from "@/lib/basemaps/basemap"
+import type { CreateBasemapInput, UpdateBasemapInput } from "@/lib/basemaps/validation"
+
+const bySortOrder = (a: Basemap, b: Basemap) => a.sortOrder - b.sortOrder
+
+export function useBasemaps() {
+  const [basemaps, setBasemaps] = React.useState<Basemap[]>([])
+  const [loading, setLoading] = React.useState(true)
+
+  React.useEffect(() => {
+    fetchBasemaps()
+      .then(setBasemaps)
+      .catch((e) =>
+        toast.error("Failed to load basemaps", {
+          description: e instanceof Error ? e.message : undefined,
+        })
+      )
+      .finally(() => setLoading(false))
+  }, [])
+
+  const create = React.useCallback(async (input: CreateBasemapInput) => {
+    const basemap = await createBasemap(input)
+    setBasemaps((prev) => [...prev, basemap].sort(bySortOrder))
+    return basemap
+  }, [])
+
+  const update = React.useCallback(async (id: string, patch: UpdateBasemapInput) => {
+    const basemap = await updateBasemap(id, patch)
+    setBasemaps((prev) => prev.map((b) => (b.id === id ? basemap : b)).sort(bySortOrder))
+    return basemap
+  }, [])
+
+  const remove = React.useCallback(async (id: string) => {
+    await deleteBasemap(id)
+    setBasemaps((prev) => prev.filter((b) => b.id !== id))
+  }, [])
+
+  return { basemaps, loading, create, update, remove }
+}
@@ -0,0 +1,32 @@
+import * as React from "react"
+import { toast } from "sonner"
+import { createGeofence, deleteGeofence, fetchGeofences } from "@/lib/geofences/client"
+import type { Geofence } from "@/lib/geofences/geofence"
+import type { AreaShape } from "@/lib/map/area"
+
+export function useGeofences() {
+  const [geofences, setGeofences] = React.useState<Geofence[]>([])
+
+  React.useEffect(() => {
+    fetchGeofences()
+      .then(setGeofences)
+      .catch((e) =>
+        toast.error("Failed to load geofences", {
+          description: e instanceof Error ? e.message : undefined,
+        })
+      )
+  }, [])
+
+  const create = React.useCallback(async (name: string, shape: AreaShape) => {
+    const geofence = await createGeofence({ name, shape })
+    setGeofences((prev) => [...prev, geofence].sort((a, b) => a.name.localeCompare(b.name)))
+    return geofence
+  }, [])
+
+  const remove = React.useCallback(async (id: string) => {
+    await deleteGeofence(id)
+    setGeofences((prev) => prev.filter((g) => g.id !== id))
+  }, [])
+
+  return { geofences, create, remove }
+}
@@ -0,0 +1,68 @@
+import * as React from "react"
+import { toast } from "sonner"
+import { listActions, subscribeActionQueue, type QueuedAction } from "@/lib/offline/action-queue"
+import { discardAction, replayActions, retryAction } from "@/lib/offline/sync"
+
+// A server that was unreachable while the browser stayed "online" fires no event
+const RETRY_INTERVAL_MS = 30_000
+
+function plural(n: number, word: string) {
+  return `${n} ${word}${n === 1 ? "" : "s"}`
+}
+
+export function useOfflineQueue() {
+  const [actions, setActions] = React.useState<QueuedAction[]>([])
+  const [syncing, setSyncing] = React.useState(false)
+
+  const refresh = React.useCallback(() => {
+    listActions()
+      .then(setActions)
+      .catch(() => setActions([]))
+  }, [])
+
+  const sync = React.useCallback(async () => {
+    if (!navigator.onLine) return
+    setSyncing(true)
+    try {
+      const { replayed, conflicts } = await replayActions()
+      if (replayed) toast.success(`Synced ${plural(replayed, "offline change")}`)
+      if (conflicts) {
+        toast.error(`${plural(conflicts, "offline change")} could not be applied`, {
+          description: "Review them from the pending actions in the header.",
+        })
+      }
+    } catch {
+      // IndexedDB unavailable (e.g. private mode); nothing was queued either
+    } finally {
+      setSyncing(false)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    refresh()
+    const unsubscribe = subscribeActionQueue(refresh)
+    window.addEventListener("online", sync)
+    sync()
+    return () => {
+      unsubscribe()
+      window.removeEventListener("online", sync)
+    }
+  }, [refresh, sync])
+
+  const waiting = actions.filter((a) => !a.conflict).length
+  React.useEffect(() => {
+    if (!waiting) return
+    const id = window.setInterval(sync, RETRY_INTERVAL_MS)
+    return () => window.clearInterval(id)
+  }, [waiting, sync])
+
+  const retry = React.useCallback(
+    async (action: QueuedAction) => {
+      await retryAction(action)
+      await sync()
+    },
+    [sync]
+  )
+
+  return { actions, syncing, sync, retry, discard: discardAction }
+}
@@ -0,0 +1,104 @@
+import * as React from "react"
+import type { ClusterBBox, ClusterItem, ClusterPoint, ClusterRequest, ClusterResponse } from "@/lib/map/clusters"
+import type { ReportSummary } from "@/lib/reports/hazard-report"
+
+export type ClusterViewport = { bbox: ClusterBBox; zoom: number }
+
+// Clusters for the viewport, computed in a worker. While an index is being built,
+// newer report sets wait and only the latest one is loaded next, so a running
+// timeline replay never queues up rebuilds. Index loads are counted here as in the
+// worker, and the clusters on screen remember which load they came from.
+export function useReportClusters(reports: ReportSummary[], viewport: ClusterViewport | null) {
+  const [shown, setShown] = React.useState({ items: [] as ClusterItem[], load: 0 })
+  const workerRef = React.useRef<Worker | null>(null)
+  const state = React.useRef({
+    loading: false,
+    pending: null as ClusterPoint[] | null,
+    seq: 0,
+    loads: 0,
+    queriedLoad: 0, // the index the latest query is answered from
+    viewport,
+  })
+  state.current.viewport = viewport
+
+  // Pending leaves() calls by request number, counted apart from viewport queries
+  const leafRequests = React.useRef(new Map<number, (ids: string[]) => void>())
+  const leafSeq = React.useRef(0)
+
+  const send = React.useCallback((request: ClusterRequest) => workerRef.current?.postMessage(request), [])
+
+  const query = React.useCallback(() => {
+    const { viewport } = state.current
+    if (!viewport || state.current.loading) return
+    state.current.queriedLoad = state.current.loads
+    send({ type: "query", seq: ++state.current.seq, ...viewport })
+  }, [send])
+
+  const load = React.useCallback(
+    (points: ClusterPoint[]) => {
+      if (state.current.loading) {
+        state.current.pending = points
+        return
+      }
+      state.current.loading = true
+      state.current.loads++
+      send({ type: "load", points })
+    },
+    [send]
+  )
+
+  React.useEffect(() => {
+    const worker = new Worker(new URL("../lib/map/cluster.worker.ts", import.meta.url))
+    workerRef.current = worker
+    worker.onmessage = (event: MessageEvent<ClusterResponse>) => {
+      const message = event.data
+      if (message.type === "clusters") {
+        if (message.seq === state.current.seq) setShown({ items: message.items, load: state.current.queriedLoad })
+        return
+      }
+      if (message.type === "leaves") {
+        leafRequests.current.get(message.seq)?.(message.ids)
+        leafRequests.current.delete(message.seq)
+        return
+      }
+      state.current.loading = false
+      const next = state.current.pending
+      state.current.pending = null
+      if (next) load(next)
+      else query()
+    }
+    const pending = leafRequests.current
+    return () => {
+      worker.terminate()
+      workerRef.current = null
+      state.current.loading = false
+      // A new worker starts counting again, so nothing shown may ask it for leaves
+      state.current.loads = 0
+      setShown({ items: [], load: 0 })
+      for (const resolve of pending.values()) resolve([])
+      pending.clear()
+    }
+  }, [load, query])
+
+  React.useEffect(() => {
+    load(reports.map(({ id, lat, lng, status }) => ({ id, lat, lng, status })))
+  }, [reports, load])
+
+  React.useEffect(() => {
+    query()
+  }, [viewport, query])
+
+  // Every report id under a cluster on screen; none once the index it came from was
+  // replaced, since the same id may name another cluster in the new one
+  const leaves = React.useCallback(
+    ({ clusterId, count }: Pick<Extract<ClusterItem, { kind: "cluster" }>, "clusterId" | "count">) =>
+      new Promise<string[]>((resolve) => {
+        const seq = ++leafSeq.current
+        leafRequests.current.set(seq, (ids) => resolve(ids.length === count ? ids : []))
+        send({ type: "leaves", seq, load: shown.load, clusterId })
+      }),
+    [send, shown.load]
+  )
+
+  return { items: shown.items, leaves }
+}
@@ -0,0 +1,15 @@
+import * as React from "react"
+import {
+  getReportSelection,
+  setReportSelection,
+  subscribeReportSelection,
+  type ReportSelection,
+} from "@/lib/reports/selection"
+
+const serverSnapshot = () => null
+
+// The map-to-table report selection (see lib/reports/selection.ts)
+export function useReportSelection(): [ReportSelection | null, (selection: ReportSelection | null) => void] {
+  const selection = React.useSyncExternalStore(subscribeReportSelection, getReportSelection, serverSnapshot)
+  return [selection, setReportSelection]
+}
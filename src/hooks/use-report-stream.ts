@@ -0,0 +1,22 @@
+import * as React from "react"
+import { openReportStream } from "@/lib/reports/client"
+import type { ReportEvent } from "@/lib/reports/report-event"
+
+type Options = {
+  enabled?: boolean
+  onReconnect?: () => void
+}
+
+// Subscribes for the component's lifetime; handlers may change between renders
+export function useReportStream(onEvent: (event: ReportEvent) => void, { enabled = true, onReconnect }: Options = {}) {
+  const handlers = React.useRef({ onEvent, onReconnect })
+  handlers.current = { onEvent, onReconnect }
+
+  React.useEffect(() => {
+    if (!enabled) return
+    return openReportStream({
+      onEvent: (event) => handlers.current.onEvent(event),
+      onReconnect: () => handlers.current.onReconnect?.(),
+    })
+  }, [enabled])
+}
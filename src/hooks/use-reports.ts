@@ -0,0 +1,45 @@
+import * as React from "react"
+import { toast } from "sonner"
+import { fetchReports, updateReport } from "@/lib/reports/client"
+import { toReportSummary, type ReportSummary } from "@/lib/reports/hazard-report"
+import { applyReportEvent } from "@/lib/reports/report-event"
+import type { UpdateReportInput } from "@/lib/reports/validation"
+import { useReportStream } from "./use-report-stream"
+
+// Every report as a summary, kept live from the report stream
+export function useReports() {
+  const [reports, setReports] = React.useState<ReportSummary[]>([])
+  const [loading, setLoading] = React.useState(true)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const reload = React.useCallback(async () => {
+    setLoading(true)
+    try {
+      setReports(await fetchReports())
+      setError(null)
+    } catch (e) {
+      const message = e instanceof Error ? e.message : "Failed to load reports"
+      setError(message)
+      toast.error("Failed to load reports", { description: message })
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    reload()
+  }, [reload])
+
+  // Keep the list live; a reconnect may have missed events, so resync then
+  useReportStream((event) => setReports((prev) => applyReportEvent(prev, event, toReportSummary)), {
+    onReconnect: reload,
+  })
+
+  const update = React.useCallback(async (id: string, patch: UpdateReportInput) => {
+    const next = await updateReport(id, patch)
+    setReports((prev) => prev.map((r) => (r.id === id ? toReportSummary(next) : r)))
+    return next
+  }, [])
+
+  return { reports, loading, error, reload, update }
+}
@@ -0,0 +1,58 @@
+import * as React from "react"
+import { toast } from "sonner"
+import {
+  createSavedView,
+  deleteSavedView,
+  fetchSavedViews,
+  setDefaultView as saveDefaultView,
+} from "@/lib/saved-views/client"
+import type { SavedView } from "@/lib/saved-views/saved-view"
+import type { CreateSavedViewInput } from "@/lib/saved-views/validation"
+
+// Shared presets first, then by name, matching the server's order
+const byScopeAndName = (a: SavedView, b: SavedView) =>
+  Number(b.shared) - Number(a.shared) || a.name.localeCompare(b.name)
+
+export function useSavedViews() {
+  const [views, setViews] = React.useState<SavedView[]>([])
+  const [defaultViewId, setDefaultViewId] = React.useState<string | null>(null)
+  const [loading, setLoading] = React.useState(true)
+
+  React.useEffect(() => {
+    fetchSavedViews()
+      .then((loaded) => {
+        setViews(loaded.views)
+        setDefaultViewId(loaded.defaultViewId)
+      })
+      .catch((e) =>
+        toast.error("Failed to load saved views", {
+          description: e instanceof Error ? e.message : undefined,
+        })
+      )
+      .finally(() => setLoading(false))
+  }, [])
+
+  const create = React.useCallback(async (input: CreateSavedViewInput) => {
+    const view = await createSavedView(input)
+    setViews((prev) => [...prev, view].sort(byScopeAndName))
+    return view
+  }, [])
+
+  const remove = React.useCallback(async (id: string) => {
+    await deleteSavedView(id)
+    setViews((prev) => prev.filter((v) => v.id !== id))
+    setDefaultViewId((current) => (current === id ? null : current))
+  }, [])
+
+  const setDefault = React.useCallback(async (id: string | null) => {
+    await saveDefaultView(id)
+    setDefaultViewId(id)
+  }, [])
+
+  const defaultView = React.useMemo(
+    () => views.find((v) => v.id === defaultViewId) ?? null,
+    [views, defaultViewId]
+  )
+
+  return { views, defaultView, loading, create, remove, setDefault }
+}
@@ -0,0 +1,28 @@
+import * as React from "react"
+import { toast } from "sonner"
+import { fetchSlaTargets, replaceSlaTargets } from "@/lib/sla/client"
+import type { SlaTarget } from "@/lib/sla/sla"
+
+export function useSlaTargets() {
+  const [targets, setTargets] = React.useState<SlaTarget[]>([])
+  const [loading, setLoading] = React.useState(true)
+
+  React.useEffect(() => {
+    fetchSlaTargets()
+      .then(setTargets)
+      .catch((e) =>
+        toast.error("Failed to load review deadlines", {
+          description: e instanceof Error ? e.message : undefined,
+        })
+      )
+      .finally(() => setLoading(false))
+  }, [])
+
+  const save = React.useCallback(async (next: SlaTarget[]) => {
+    const saved = await replaceSlaTargets({ targets: next })
+    setTargets(saved)
+    return saved
+  }, [])
+
+  return { targets, loading, save }
+}
@@ -0,0 +1,43 @@
+import * as React from "react"
+import { toast } from "sonner"
+import { createTeam, deleteTeam, fetchTeams } from "@/lib/teams/client"
+import type { Reviewer, Team } from "@/lib/teams/team"
+import type { CreateTeamInput } from "@/lib/teams/validation"
+
+const byName = (a: Team, b: Team) => a.name.localeCompare(b.name)
+
+// Teams and the reviewers reports can be assigned to
+export function useTeams() {
+  const [teams, setTeams] = React.useState<Team[]>([])
+  const [reviewers, setReviewers] = React.useState<Reviewer[]>([])
+  const [loading, setLoading] = React.useState(true)
+
+  React.useEffect(() => {
+    fetchTeams()
+      .then((roster) => {
+        setTeams(roster.teams)
+        setReviewers(roster.reviewers)
+      })
+      .catch((e) =>
+        toast.error("Failed to load teams", {
+          description: e instanceof Error ? e.message : undefined,
+        })
+      )
+      .finally(() => setLoading(false))
+  }, [])
+
+  const create = React.useCallback(async (input: CreateTeamInput) => {
+    const team = await createTeam(input)
+    setTeams((prev) => [...prev, team].sort(byName))
+    return team
+  }, [])
+
+  // Members are left without a team, as on the server
+  const remove = React.useCallback(async (id: string) => {
+    await deleteTeam(id)
+    setTeams((prev) => prev.filter((t) => t.id !== id))
+    setReviewers((prev) => prev.map((r) => (r.teamId === id ? { ...r, teamId: null } : r)))
+  }, [])
+
+  return { teams, reviewers, loading, create, remove }
+}
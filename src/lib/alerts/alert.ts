@@ -0,0 +1,61 @@
+import { z } from "zod";
+
+// Alert dispatches composed in the NotificationCenter.
+
+export const ALERT_SEVERITIES = ["emergency", "warning", "info"] as const;
+export const RECIPIENT_GROUPS = [
+  "citizens",
+  "officials",
+  "first_responders",
+  "public_works",
+  "all",
+] as const;
+
+export const alertSeveritySchema = z.enum(ALERT_SEVERITIES);
+export const recipientGroupSchema = z.enum(RECIPIENT_GROUPS);
+
+export type AlertSeverity = z.infer<typeof alertSeveritySchema>;
+export type RecipientGroup = z.infer<typeof recipientGroupSchema>;
+
+export const alertSchema = z.object({
+  id: z.string().min(1),
+  region: z.string().nullable(),
+  recipients: z.array(recipientGroupSchema),
+  title: z.string().min(1),
+  message: z.string().min(1),
+  severity: alertSeveritySchema,
+  sentBy: z.string(),
+  createdAt: z.iso.datetime({ offset: true }),
+});
+
+export type Alert = z.infer<typeof alertSchema>;
+
+// Drafts wait in the NotificationCenter until someone with alerts.send sends or
+// discards them. Hotspot drafts carry what was detected, for the reviewer.
+
+export const ALERT_DRAFT_STATUSES = ["pending", "sent", "discarded"] as const;
+
+export const alertDraftStatusSchema = z.enum(ALERT_DRAFT_STATUSES);
+export type AlertDraftStatus = z.infer<typeof alertDraftStatusSchema>;
+
+export const hotspotSummarySchema = z.object({
+  hazardType: z.string().min(1),
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  radius: z.number().nonnegative(), // metres
+  count: z.number().int().nonnegative(),
+  expected: z.number().nonnegative(),
+  windowHours: z.number().positive(),
+  reportIds: z.array(z.string()).max(500),
+});
+
+export type HotspotSummary = z.infer<typeof hotspotSummarySchema>;
+
+export const alertDraftSchema = alertSchema.omit({ sentBy: true }).extend({
+  hotspot: hotspotSummarySchema.nullable(),
+  status: alertDraftStatusSchema,
+  createdBy: z.string(),
+  alertId: z.string().nullable(), // once sent
+});
+
+export type AlertDraft = z.infer<typeof alertDraftSchema>;
@@ -0,0 +1,28 @@
+import { request } from "@/lib/http";
+import { alertDraftSchema, type Alert, type AlertDraft } from "./alert";
+import type { CreateAlertDraftInput, SendAlertInput } from "./validation";
+
+export async function sendAlert(input: SendAlertInput): Promise<Alert> {
+  const { alert } = await request<{ alert: Alert }>("/api/alerts", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+  return alert;
+}
+
+export async function fetchAlertDrafts(): Promise<AlertDraft[]> {
+  const { drafts } = await request<{ drafts: unknown }>("/api/alerts/drafts");
+  return alertDraftSchema.array().parse(drafts);
+}
+
+export async function createAlertDraft(input: CreateAlertDraftInput): Promise<AlertDraft> {
+  const { draft } = await request<{ draft: AlertDraft }>("/api/alerts/drafts", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+  return draft;
+}
+
+export async function discardAlertDraft(id: string): Promise<void> {
+  await request<void>(`/api/alerts/drafts/${encodeURIComponent(id)}`, { method: "DELETE" });
+}
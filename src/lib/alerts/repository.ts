@@ -0,0 +1,129 @@
+import { randomUUID } from "node:crypto";
+import { and, desc, eq } from "drizzle-orm";
+import type { z } from "zod";
+import { db } from "@/db";
+import { alertDrafts, alerts, type AlertDraftRow, type AlertRow } from "@/db/schema";
+import type { AuditActor } from "@/lib/audit/audit-entry";
+import { appendAudit } from "@/lib/audit/repository";
+import type { Alert, AlertDraft, RecipientGroup } from "./alert";
+import type { SendAlertInput, createAlertDraftInput } from "./validation";
+
+// The draft was sent or discarded already, or never existed
+export class AlertDraftResolvedError extends Error {
+  constructor(readonly draftId: string) {
+    super(`Alert draft ${draftId} is no longer pending`);
+    this.name = "AlertDraftResolvedError";
+  }
+}
+
+function toAlert(row: AlertRow): Alert {
+  return { ...row, recipients: row.recipients as RecipientGroup[] };
+}
+
+function toAlertDraft(row: AlertDraftRow): AlertDraft {
+  return { ...row, recipients: row.recipients as RecipientGroup[], hotspot: row.hotspot ?? null };
+}
+
+export async function createAlert(input: SendAlertInput, actor: AuditActor): Promise<Alert> {
+  return db.transaction(async (tx) => {
+    const [row] = await tx
+      .insert(alerts)
+      .values({
+        id: `AL-${randomUUID().slice(0, 8).toUpperCase()}`,
+        region: input.region,
+        recipients: input.recipients,
+        title: input.title,
+        message: input.message,
+        severity: input.severity,
+        sentBy: actor.id,
+        createdAt: new Date().toISOString(),
+      })
+      .returning();
+    if (input.draftId) {
+      const [draft] = await tx
+        .update(alertDrafts)
+        .set({ status: "sent", alertId: row!.id })
+        .where(and(eq(alertDrafts.id, input.draftId), eq(alertDrafts.status, "pending")))
+        .returning({ id: alertDrafts.id });
+      if (!draft) throw new AlertDraftResolvedError(input.draftId);
+    }
+    await appendAudit(tx, {
+      subjectType: "alert",
+      subjectId: row!.id,
+      action: "alert.send",
+      actor,
+      after: {
+        region: row!.region,
+        recipients: row!.recipients,
+        severity: row!.severity,
+        title: row!.title,
+        ...(input.draftId ? { draftId: input.draftId } : {}),
+      },
+    });
+    return toAlert(row!);
+  });
+}
+
+export async function listPendingAlertDrafts(): Promise<AlertDraft[]> {
+  const rows = await db
+    .select()
+    .from(alertDrafts)
+    .where(eq(alertDrafts.status, "pending"))
+    .orderBy(desc(alertDrafts.createdAt));
+  return rows.map(toAlertDraft);
+}
+
+export async function createAlertDraft(
+  input: z.output<typeof createAlertDraftInput>,
+  actor: AuditActor
+): Promise<AlertDraft> {
+  return db.transaction(async (tx) => {
+    const [row] = await tx
+      .insert(alertDrafts)
+      .values({
+        id: `AD-${randomUUID().slice(0, 8).toUpperCase()}`,
+        region: input.region,
+        recipients: input.recipients,
+        title: input.title,
+        message: input.message,
+        severity: input.severity,
+        hotspot: input.hotspot,
+        createdBy: actor.id,
+        createdAt: new Date().toISOString(),
+      })
+      .returning();
+    await appendAudit(tx, {
+      subjectType: "alert",
+      subjectId: row!.id,
+      action: "alert.draft",
+      actor,
+      after: {
+        severity: row!.severity,
+        title: row!.title,
+        hotspot: row!.hotspot
+          ? { hazardType: row!.hotspot.hazardType, count: row!.hotspot.count, lat: row!.hotspot.lat, lng: row!.hotspot.lng }
+          : null,
+      },
+    });
+    return toAlertDraft(row!);
+  });
+}
+
+export async function discardAlertDraft(id: string, actor: AuditActor): Promise<void> {
+  await db.transaction(async (tx) => {
+    const [row] = await tx
+      .update(alertDrafts)
+      .set({ status: "discarded" })
+      .where(and(eq(alertDrafts.id, id), eq(alertDrafts.status, "pending")))
+      .returning();
+    if (!row) throw new AlertDraftResolvedError(id);
+    await appendAudit(tx, {
+      subjectType: "alert",
+      subjectId: id,
+      action: "alert.discard",
+      actor,
+      before: { status: "pending", title: row.title },
+      after: { status: "discarded" },
+    });
+  });
+}
@@ -0,0 +1,17 @@
+import { z } from "zod";
+import { alertSchema, hotspotSummarySchema, recipientGroupSchema } from "./alert";
+
+export const sendAlertInput = alertSchema.pick({ region: true, severity: true }).extend({
+  recipients: z.array(recipientGroupSchema).min(1),
+  title: z.string().trim().min(1).max(200),
+  message: z.string().trim().min(1).max(480),
+  draftId: z.string().min(1).optional(), // the draft this dispatch was reviewed from
+});
+
+export type SendAlertInput = z.infer<typeof sendAlertInput>;
+
+export const createAlertDraftInput = sendAlertInput.omit({ draftId: true }).extend({
+  hotspot: hotspotSummarySchema.nullable().default(null),
+});
+
+export type CreateAlertDraftInput = z.input<typeof createAlertDraftInput>;
@@ -0,0 +1,32 @@
+import { z } from "zod";
+
+// Critical infrastructure registered on the map (ports, power plants, shelters, ...).
+// Each shows how many hazard reports lie within its watch radius.
+
+export const ASSET_KINDS = ["port", "power_plant", "shelter", "hospital", "other"] as const;
+
+export const assetKindSchema = z.enum(ASSET_KINDS);
+export type AssetKind = z.infer<typeof assetKindSchema>;
+
+export const ASSET_KIND_LABEL: Record<AssetKind, string> = {
+  port: "Port / harbour",
+  power_plant: "Power plant",
+  shelter: "Shelter",
+  hospital: "Hospital",
+  other: "Other",
+};
+
+export const DEFAULT_ASSET_RADIUS = 5000; // metres
+
+export const assetSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  kind: assetKindSchema,
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  radius: z.number().positive(), // metres
+  createdBy: z.string(),
+  createdAt: z.iso.datetime({ offset: true }),
+});
+
+export type CriticalAsset = z.infer<typeof assetSchema>;
@@ -0,0 +1,20 @@
+import { request } from "@/lib/http";
+import { assetSchema, type CriticalAsset } from "./asset";
+import type { CreateAssetInput } from "./validation";
+
+export async function fetchAssets(): Promise<CriticalAsset[]> {
+  const { assets } = await request<{ assets: unknown }>("/api/assets");
+  return assetSchema.array().parse(assets);
+}
+
+export async function createAsset(input: CreateAssetInput): Promise<CriticalAsset> {
+  const { asset } = await request<{ asset: CriticalAsset }>("/api/assets", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+  return asset;
+}
+
+export async function deleteAsset(id: string): Promise<void> {
+  await request<void>(`/api/assets/${encodeURIComponent(id)}`, { method: "DELETE" });
+}
@@ -0,0 +1,58 @@
+import { randomUUID } from "node:crypto";
+import { asc, eq } from "drizzle-orm";
+import type { z } from "zod";
+import { db } from "@/db";
+import { criticalAssets, type CriticalAssetRow } from "@/db/schema";
+import type { AuditActor } from "@/lib/audit/audit-entry";
+import { appendAudit } from "@/lib/audit/repository";
+import type { CriticalAsset } from "./asset";
+import type { createAssetInput } from "./validation";
+
+function toAsset(row: CriticalAssetRow): CriticalAsset {
+  return { ...row };
+}
+
+export async function listAssets(): Promise<CriticalAsset[]> {
+  const rows = await db.select().from(criticalAssets).orderBy(asc(criticalAssets.name));
+  return rows.map(toAsset);
+}
+
+export async function createAsset(
+  values: z.output<typeof createAssetInput>,
+  actor: AuditActor
+): Promise<CriticalAsset> {
+  return db.transaction(async (tx) => {
+    const [row] = await tx
+      .insert(criticalAssets)
+      .values({
+        id: `AS-${randomUUID().slice(0, 8).toUpperCase()}`,
+        ...values,
+        createdBy: actor.id,
+        createdAt: new Date().toISOString(),
+      })
+      .returning();
+    await appendAudit(tx, {
+      subjectType: "asset",
+      subjectId: row!.id,
+      action: "asset.create",
+      actor,
+      after: { name: row!.name, kind: row!.kind, lat: row!.lat, lng: row!.lng, radius: row!.radius },
+    });
+    return toAsset(row!);
+  });
+}
+
+export async function deleteAsset(id: string, actor: AuditActor): Promise<boolean> {
+  return db.transaction(async (tx) => {
+    const [row] = await tx.delete(criticalAssets).where(eq(criticalAssets.id, id)).returning();
+    if (!row) return false;
+    await appendAudit(tx, {
+      subjectType: "asset",
+      subjectId: id,
+      action: "asset.delete",
+      actor,
+      before: { name: row.name, kind: row.kind, lat: row.lat, lng: row.lng, radius: row.radius },
+    });
+    return true;
+  });
+}
@@ -0,0 +1,9 @@
+import { z } from "zod";
+import { DEFAULT_ASSET_RADIUS, assetSchema } from "./asset";
+
+export const createAssetInput = assetSchema.pick({ kind: true, lat: true, lng: true }).extend({
+  name: z.string().trim().min(1).max(80),
+  radius: z.number().min(100).max(200_000).default(DEFAULT_ASSET_RADIUS),
+});
+
+export type CreateAssetInput = z.input<typeof createAssetInput>;
@@ -0,0 +1,109 @@
+import { z } from "zod";
+
+// Append-only, hash-chained record of every state-changing action in the portal.
+
+export const AUDIT_SUBJECTS = [
+  "report",
+  "alert",
+  "export",
+  "geofence",
+  "basemap",
+  "asset",
+  "saved_view",
+  "team",
+  "sla",
+] as const;
+export const AUDIT_ACTIONS = [
+  "report.create",
+  "report.edit",
+  "report.delete",
+  "status.change",
+  "verification.change",
+  "note.add",
+  "report.assign",
+  "report.escalate",
+  "report.merge",
+  "data.export",
+  "alert.send",
+  "alert.draft",
+  "alert.discard",
+  "geofence.create",
+  "geofence.delete",
+  "basemap.create",
+  "basemap.update",
+  "basemap.delete",
+  "asset.create",
+  "asset.delete",
+  "saved_view.create",
+  "saved_view.delete",
+  "team.create",
+  "team.delete",
+  "sla.update",
+] as const;
+
+export const auditSubjectSchema = z.enum(AUDIT_SUBJECTS);
+export const auditActionSchema = z.enum(AUDIT_ACTIONS);
+
+export type AuditSubject = z.infer<typeof auditSubjectSchema>;
+export type AuditAction = z.infer<typeof auditActionSchema>;
+
+const auditValuesSchema = z.record(z.string(), z.unknown()).nullable();
+
+export const auditEntrySchema = z.object({
+  id: z.number().int(),
+  subjectType: auditSubjectSchema,
+  subjectId: z.string().nullable(),
+  action: auditActionSchema,
+  actorId: z.string(),
+  actor: z.string(), // display name at the time of the action
+  at: z.iso.datetime({ offset: true }),
+  before: auditValuesSchema,
+  after: auditValuesSchema,
+  reason: z.string().nullable(),
+  prevHash: z.string(),
+  hash: z.string(),
+});
+
+export type AuditEntry = z.infer<typeof auditEntrySchema>;
+export type AuditValues = z.infer<typeof auditValuesSchema>;
+
+export const auditVerificationSchema = z.object({
+  ok: z.boolean(),
+  checked: z.number().int(),
+  brokenAt: z.number().int().nullable(), // first entry whose hash or link does not match
+});
+
+export type AuditVerification = z.infer<typeof auditVerificationSchema>;
+
+export interface AuditActor {
+  id: string;
+  name: string;
+}
+
+export const AUDIT_ACTION_LABEL: Record<AuditAction, string> = {
+  "report.create": "created the report",
+  "report.edit": "edited the report",
+  "report.delete": "deleted the report",
+  "status.change": "changed the status",
+  "verification.change": "changed the verification",
+  "note.add": "added a note",
+  "report.assign": "changed the assignment",
+  "report.escalate": "escalated the overdue report",
+  "report.merge": "merged duplicate reports",
+  "data.export": "exported data",
+  "alert.send": "sent an alert",
+  "alert.draft": "drafted an alert",
+  "alert.discard": "discarded an alert draft",
+  "geofence.create": "saved a geofence",
+  "geofence.delete": "deleted a geofence",
+  "basemap.create": "added a basemap",
+  "basemap.update": "changed a basemap",
+  "basemap.delete": "removed a basemap",
+  "asset.create": "registered a critical asset",
+  "asset.delete": "removed a critical asset",
+  "saved_view.create": "saved a map view",
+  "saved_view.delete": "deleted a map view",
+  "team.create": "created a team",
+  "team.delete": "deleted a team",
+  "sla.update": "changed the review deadlines",
+};
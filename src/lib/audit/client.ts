@@ -0,0 +1,6 @@
+import { request } from "@/lib/http";
+import { auditVerificationSchema, type AuditVerification } from "./audit-entry";
+
+export async function verifyAuditChain(): Promise<AuditVerification> {
+  return auditVerificationSchema.parse(await request<unknown>("/api/audit/verify"));
+}
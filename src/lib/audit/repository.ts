@@ -0,0 +1,106 @@
+import { createHash } from "node:crypto";
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import { db, type Transaction } from "@/db";
+import { auditLog, type AuditLogRow } from "@/db/schema";
+import type { AuditAction, AuditActor, AuditEntry, AuditSubject, AuditValues, AuditVerification } from "./audit-entry";
+
+const GENESIS_HASH = "0".repeat(64);
+
+export interface AppendAuditInput {
+  subjectType: AuditSubject;
+  subjectId?: string | null;
+  action: AuditAction;
+  actor: AuditActor;
+  before?: AuditValues;
+  after?: AuditValues;
+  reason?: string | null;
+}
+
+type Hashable = Pick<
+  AuditLogRow,
+  "subjectType" | "subjectId" | "action" | "actorId" | "actorName" | "at" | "before" | "after" | "reason"
+>;
+
+// Each hash covers the previous one, so editing or removing any row breaks every later link
+function entryHash(prevHash: string, e: Hashable) {
+  const payload = JSON.stringify([
+    prevHash,
+    e.subjectType,
+    e.subjectId,
+    e.action,
+    e.actorId,
+    e.actorName,
+    e.at,
+    e.before,
+    e.after,
+    e.reason,
+  ]);
+  return createHash("sha256").update(payload).digest("hex");
+}
+
+function toEntry(row: AuditLogRow): AuditEntry {
+  return {
+    id: row.id,
+    subjectType: row.subjectType,
+    subjectId: row.subjectId,
+    action: row.action,
+    actorId: row.actorId,
+    actor: row.actorName,
+    at: row.at,
+    before: row.before === null ? null : JSON.parse(row.before),
+    after: row.after === null ? null : JSON.parse(row.after),
+    reason: row.reason,
+    prevHash: row.prevHash,
+    hash: row.hash,
+  };
+}
+
+// Must run inside the transaction that performs the audited change: reading the last
+// hash and inserting are two statements, and outside one a concurrent append could
+// chain onto the same hash
+export async function appendAudit(tx: Transaction, input: AppendAuditInput) {
+  const [last] = await tx
+    .select({ hash: auditLog.hash })
+    .from(auditLog)
+    .orderBy(desc(auditLog.id))
+    .limit(1);
+  const prevHash = last?.hash ?? GENESIS_HASH;
+  const fields: Hashable = {
+    subjectType: input.subjectType,
+    subjectId: input.subjectId ?? null,
+    action: input.action,
+    actorId: input.actor.id,
+    actorName: input.actor.name,
+    at: new Date().toISOString(),
+    before: input.before ? JSON.stringify(input.before) : null,
+    after: input.after ? JSON.stringify(input.after) : null,
+    reason: input.reason?.trim() || null,
+  };
+  await tx.insert(auditLog).values({ ...fields, prevHash, hash: entryHash(prevHash, fields) });
+}
+
+export async function listAudit(subjectType: AuditSubject, subjectIds?: string[]): Promise<AuditEntry[]> {
+  const rows = await db
+    .select()
+    .from(auditLog)
+    .where(
+      and(
+        eq(auditLog.subjectType, subjectType),
+        subjectIds ? inArray(auditLog.subjectId, subjectIds) : undefined
+      )
+    )
+    .orderBy(asc(auditLog.id));
+  return rows.map(toEntry);
+}
+
+export async function verifyAuditChain(): Promise<AuditVerification> {
+  const rows = await db.select().from(auditLog).orderBy(asc(auditLog.id));
+  let prevHash = GENESIS_HASH;
+  for (const row of rows) {
+    if (row.prevHash !== prevHash || row.hash !== entryHash(prevHash, row)) {
+      return { ok: false, checked: rows.length, brokenAt: row.id };
+    }
+    prevHash = row.hash;
+  }
+  return { ok: true, checked: rows.length, brokenAt: null };
+}
@@ -0,0 +1,67 @@
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import type { AuditActor } from "@/lib/audit/audit-entry";
+import { auth, type Session } from "./index";
+import { permissionDeniedMessage, resolvePermissions, type Permission } from "./permissions";
+import { isRole } from "./roles";
+
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    readonly status: 401 | 403
+  ) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+export async function getSession(): Promise<Session | null> {
+  return auth.api.getSession({ headers: await headers() });
+}
+
+export async function requireSession(): Promise<Session> {
+  const session = await getSession();
+  if (!session) throw new AuthError("Authentication required", 401);
+  if (session.user.status === "disabled") throw new AuthError("This account has been disabled", 403);
+  return session;
+}
+
+export function sessionPermissions(session: Session): Permission[] {
+  const { role, permissions } = session.user;
+  return resolvePermissions({ role: isRole(role) ? role : "viewer", permissions });
+}
+
+export function requirePermission(session: Session, permission: Permission) {
+  if (!sessionPermissions(session).includes(permission)) {
+    throw new AuthError(permissionDeniedMessage(permission), 403);
+  }
+}
+
+export function sessionActor(session: Session): AuditActor {
+  return { id: session.user.id, name: session.user.name };
+}
+
+type Handler<C> = (request: Request, context: C, session: Session) => Promise<Response>;
+
+// Wraps a route handler so it only runs for a valid session
+export function withAuth<C>(handler: Handler<C>) {
+  return async (request: Request, context: C): Promise<Response> => {
+    try {
+      const session = await requireSession();
+      return await handler(request, context, session);
+    } catch (e) {
+      if (e instanceof AuthError) {
+        return NextResponse.json({ error: e.message }, { status: e.status });
+      }
+      throw e;
+    }
+  };
+}
+
+// Like withAuth, but also rejects sessions lacking `permission` with a 403
+export function withPermission<C>(permission: Permission, handler: Handler<C>) {
+  return withAuth<C>(async (request, context, session) => {
+    requirePermission(session, permission);
+    return handler(request, context, session);
+  });
+}
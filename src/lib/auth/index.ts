@@ -0,0 +1,56 @@
+import bcrypt from "bcrypt";
+import { betterAuth } from "better-auth";
+import { drizzleAdapter } from "better-auth/adapters/drizzle";
+import { APIError } from "better-auth/api";
+import { nextCookies } from "better-auth/next-js";
+import { eq } from "drizzle-orm";
+import { db } from "@/db";
+import { account, session, user, verification } from "@/db/schema";
+
+const BCRYPT_ROUNDS = 12;
+
+export const auth = betterAuth({
+  database: drizzleAdapter(db, {
+    provider: "sqlite",
+    schema: { user, session, account, verification },
+  }),
+  emailAndPassword: {
+    enabled: true,
+    // Accounts are provisioned by administrators, never self-registered
+    disableSignUp: true,
+    password: {
+      hash: (password) => bcrypt.hash(password, BCRYPT_ROUNDS),
+      verify: ({ hash, password }) => bcrypt.compare(password, hash),
+    },
+  },
+  session: {
+    expiresIn: 60 * 60 * 12, // one duty shift
+    updateAge: 60 * 60,
+  },
+  user: {
+    additionalFields: {
+      role: { type: "string", required: false, defaultValue: "viewer", input: false },
+      permissions: { type: "string", required: false, input: false },
+      status: { type: "string", required: false, defaultValue: "active", input: false },
+    },
+  },
+  databaseHooks: {
+    session: {
+      create: {
+        before: async (newSession) => {
+          const [owner] = await db
+            .select({ status: user.status })
+            .from(user)
+            .where(eq(user.id, newSession.userId))
+            .limit(1);
+          if (owner?.status === "disabled") {
+            throw new APIError("FORBIDDEN", { message: "This account has been disabled" });
+          }
+        },
+      },
+    },
+  },
+  plugins: [nextCookies()],
+});
+
+export type Session = typeof auth.$Infer.Session;
@@ -0,0 +1,70 @@
+import type { Role } from "./roles";
+
+// The SystemSettings catalogue plus the report and alert actions it guards
+export const PERMISSIONS = [
+  "users.read",
+  "users.write",
+  "keywords.manage",
+  "data.export",
+  "system.configure",
+  "system.monitor",
+  "reports.read",
+  "reports.write",
+  "reports.delete",
+  "alerts.send",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const PERMISSION_LABEL: Record<Permission, string> = {
+  "users.read": "view users",
+  "users.write": "manage users and roles",
+  "keywords.manage": "manage monitoring keywords",
+  "data.export": "export data",
+  "system.configure": "change system configuration",
+  "system.monitor": "view system health",
+  "reports.read": "view hazard reports",
+  "reports.write": "create and update hazard reports",
+  "reports.delete": "delete hazard reports",
+  "alerts.send": "send alerts",
+};
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  manager: [
+    "users.read",
+    "keywords.manage",
+    "data.export",
+    "system.monitor",
+    "reports.read",
+    "reports.write",
+    "alerts.send",
+  ],
+  viewer: ["users.read", "reports.read"],
+};
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === "string" && (PERMISSIONS as readonly string[]).includes(value);
+}
+
+// Stored per-user grants are a JSON array; null means "use the role defaults"
+export function parsePermissions(stored: string | null | undefined): Permission[] | null {
+  if (!stored) return null;
+  try {
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isPermission) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function resolvePermissions(user: {
+  role: Role;
+  permissions?: string | null;
+}): Permission[] {
+  return parsePermissions(user.permissions) ?? [...ROLE_PERMISSIONS[user.role]];
+}
+
+export function permissionDeniedMessage(permission: Permission) {
+  return `You do not have permission to ${PERMISSION_LABEL[permission]} (requires ${permission})`;
+}
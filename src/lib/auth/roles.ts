@@ -0,0 +1,17 @@
+export const ROLES = ["admin", "manager", "viewer"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const ROLE_LABEL: Record<Role, string> = {
+  admin: "Administrator",
+  manager: "Manager",
+  viewer: "Viewer",
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+}
+
+export const USER_STATUSES = ["active", "disabled"] as const;
+
+export type UserStatus = (typeof USER_STATUSES)[number];
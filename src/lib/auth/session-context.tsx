@@ -0,0 +1,37 @@
+"use client";
+
+import React, { createContext, useContext } from "react";
+import type { Permission } from "./permissions";
+import type { Role } from "./roles";
+
+export interface SessionUser {
+  id: string;
+  name: string;
+  email: string;
+  image?: string;
+  role: Role;
+  permissions: Permission[];
+}
+
+const SessionUserContext = createContext<SessionUser | null>(null);
+
+export function SessionUserProvider({
+  user,
+  children,
+}: {
+  user: SessionUser;
+  children: React.ReactNode;
+}) {
+  return <SessionUserContext.Provider value={user}>{children}</SessionUserContext.Provider>;
+}
+
+export function useSessionUser(): SessionUser {
+  const user = useContext(SessionUserContext);
+  if (!user) throw new Error("useSessionUser must be used inside SessionUserProvider");
+  return user;
+}
+
+// UI gating only; the API routes enforce the same permissions
+export function useHasPermission(permission: Permission): boolean {
+  return useSessionUser().permissions.includes(permission);
+}
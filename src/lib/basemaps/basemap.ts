@@ -0,0 +1,71 @@
+import { z } from "zod";
+
+// Tile sources offered by the map's layer switcher, managed from System Settings.
+// Overlays (e.g. OpenSeaMap seamarks) are drawn on top of the chosen base layer.
+
+export const BASEMAP_KINDS = ["street", "satellite", "nautical"] as const;
+
+export const basemapKindSchema = z.enum(BASEMAP_KINDS);
+export type BasemapKind = z.infer<typeof basemapKindSchema>;
+
+export const BASEMAP_KIND_LABEL: Record<BasemapKind, string> = {
+  street: "Street",
+  satellite: "Satellite",
+  nautical: "Nautical / bathymetry",
+};
+
+export const basemapSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  kind: basemapKindSchema,
+  url: z.string().min(1), // XYZ template with {z}, {x} and {y}
+  attribution: z.string().nullable(),
+  maxZoom: z.number().int().min(0).max(24),
+  overlay: z.boolean(),
+  enabled: z.boolean(),
+  sortOrder: z.number().int(),
+});
+
+export type Basemap = z.infer<typeof basemapSchema>;
+
+// Served by /api/tiles from TILES_DIR, so they keep working without internet access
+export function localTileUrl(source: string) {
+  return `/api/tiles/${encodeURIComponent(source)}/{z}/{x}/{y}`;
+}
+
+// Seeded on first run, and used by the map if none are enabled
+export const DEFAULT_BASEMAPS: Basemap[] = [
+  {
+    id: "osm-street",
+    name: "OpenStreetMap",
+    kind: "street",
+    url: "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png",
+    attribution: "&copy; OpenStreetMap contributors",
+    maxZoom: 19,
+    overlay: false,
+    enabled: true,
+    sortOrder: 0,
+  },
+  {
+    id: "esri-imagery",
+    name: "Esri World Imagery",
+    kind: "satellite",
+    url: "https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}",
+    attribution: "Tiles &copy; Esri",
+    maxZoom: 19,
+    overlay: false,
+    enabled: true,
+    sortOrder: 1,
+  },
+  {
+    id: "openseamap",
+    name: "OpenSeaMap seamarks",
+    kind: "nautical",
+    url: "https://tiles.openseamap.org/seamark/{z}/{x}/{y}.png",
+    attribution: "&copy; OpenSeaMap contributors",
+    maxZoom: 18,
+    overlay: true,
+    enabled: true,
+    sortOrder: 2,
+  },
+];
@@ -0,0 +1,36 @@
+import { request } from "@/lib/http";
+import { basemapSchema, type Basemap } from "./basemap";
+import type { CreateBasemapInput, UpdateBasemapInput } from "./validation";
+
+export type TileSource = { name: string; format: "mbtiles" | "xyz" };
+
+export async function fetchBasemaps(): Promise<Basemap[]> {
+  const { basemaps } = await request<{ basemaps: unknown }>("/api/basemaps");
+  return basemapSchema.array().parse(basemaps);
+}
+
+export async function createBasemap(input: CreateBasemapInput): Promise<Basemap> {
+  const { basemap } = await request<{ basemap: Basemap }>("/api/basemaps", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+  return basemap;
+}
+
+export async function updateBasemap(id: string, patch: UpdateBasemapInput): Promise<Basemap> {
+  const { basemap } = await request<{ basemap: Basemap }>(`/api/basemaps/${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    body: JSON.stringify(patch),
+  });
+  return basemap;
+}
+
+export async function deleteBasemap(id: string): Promise<void> {
+  await request<void>(`/api/basemaps/${encodeURIComponent(id)}`, { method: "DELETE" });
+}
+
+// Local MBTiles files and XYZ directories found in the server's TILES_DIR
+export async function fetchTileSources(): Promise<TileSource[]> {
+  const { sources } = await request<{ sources: TileSource[] }>("/api/tiles");
+  return sources;
+}
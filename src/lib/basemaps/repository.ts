@@ -0,0 +1,90 @@
+import { randomUUID } from "node:crypto";
+import { asc, eq, max } from "drizzle-orm";
+import type { z } from "zod";
+import { db } from "@/db";
+import { basemaps, type BasemapRow } from "@/db/schema";
+import type { AuditActor } from "@/lib/audit/audit-entry";
+import { appendAudit } from "@/lib/audit/repository";
+import type { Basemap } from "./basemap";
+import type { createBasemapInput, UpdateBasemapInput } from "./validation";
+
+function toBasemap({ createdAt: _createdAt, updatedAt: _updatedAt, ...row }: BasemapRow): Basemap {
+  return row;
+}
+
+export async function listBasemaps(): Promise<Basemap[]> {
+  const rows = await db.select().from(basemaps).orderBy(asc(basemaps.sortOrder), asc(basemaps.name));
+  return rows.map(toBasemap);
+}
+
+// Takes the parsed input, with defaults applied
+export async function createBasemap(
+  values: z.output<typeof createBasemapInput>,
+  actor: AuditActor
+): Promise<Basemap> {
+  return db.transaction(async (tx) => {
+    const [{ last }] = await tx.select({ last: max(basemaps.sortOrder) }).from(basemaps);
+    const now = new Date().toISOString();
+    const [row] = await tx
+      .insert(basemaps)
+      .values({
+        ...values,
+        id: `BM-${randomUUID().slice(0, 8).toUpperCase()}`,
+        sortOrder: (last ?? -1) + 1,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+    await appendAudit(tx, {
+      subjectType: "basemap",
+      subjectId: row!.id,
+      action: "basemap.create",
+      actor,
+      after: { name: row!.name, kind: row!.kind, url: row!.url },
+    });
+    return toBasemap(row!);
+  });
+}
+
+export async function updateBasemap(
+  id: string,
+  patch: UpdateBasemapInput,
+  actor: AuditActor
+): Promise<Basemap | null> {
+  return db.transaction(async (tx) => {
+    const [before] = await tx.select().from(basemaps).where(eq(basemaps.id, id));
+    if (!before) return null;
+    const [row] = await tx
+      .update(basemaps)
+      .set({ ...patch, updatedAt: new Date().toISOString() })
+      .where(eq(basemaps.id, id))
+      .returning();
+    const changed = (Object.keys(patch) as (keyof UpdateBasemapInput)[]).filter((k) => before[k] !== row![k]);
+    if (changed.length) {
+      await appendAudit(tx, {
+        subjectType: "basemap",
+        subjectId: id,
+        action: "basemap.update",
+        actor,
+        before: Object.fromEntries(changed.map((k) => [k, before[k]])),
+        after: Object.fromEntries(changed.map((k) => [k, row![k]])),
+      });
+    }
+    return toBasemap(row!);
+  });
+}
+
+export async function deleteBasemap(id: string, actor: AuditActor): Promise<boolean> {
+  return db.transaction(async (tx) => {
+    const [row] = await tx.delete(basemaps).where(eq(basemaps.id, id)).returning();
+    if (!row) return false;
+    await appendAudit(tx, {
+      subjectType: "basemap",
+      subjectId: id,
+      action: "basemap.delete",
+      actor,
+      before: { name: row.name, kind: row.kind, url: row.url },
+    });
+    return true;
+  });
+}
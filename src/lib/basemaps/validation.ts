@@ -0,0 +1,30 @@
+import { z } from "zod";
+import { basemapSchema } from "./basemap";
+
+// Remote http(s) templates, or the app's own /api/tiles for local sources
+const tileUrl = z
+  .string()
+  .trim()
+  .max(500)
+  .refine((url) => /^(https?:\/\/|\/api\/tiles\/)/.test(url), "Must be an http(s) URL or /api/tiles/...")
+  .refine((url) => ["{z}", "{x}", "{y}"].every((p) => url.includes(p)), "Must contain {z}, {x} and {y}");
+
+const basemapFields = basemapSchema.pick({ kind: true, overlay: true, maxZoom: true, enabled: true }).extend({
+  name: z.string().trim().min(1).max(80),
+  url: tileUrl,
+  attribution: z.string().trim().max(300).nullable(),
+});
+
+export const createBasemapInput = basemapFields.extend({
+  attribution: basemapFields.shape.attribution.default(null),
+  maxZoom: basemapFields.shape.maxZoom.default(19),
+  enabled: basemapFields.shape.enabled.default(true),
+});
+
+// No defaults here: a missing field is left unchanged
+export const updateBasemapInput = basemapFields.partial().extend({
+  sortOrder: basemapSchema.shape.sortOrder.optional(),
+});
+
+export type CreateBasemapInput = z.input<typeof createBasemapInput>;
+export type UpdateBasemapInput = z.infer<typeof updateBasemapInput>;
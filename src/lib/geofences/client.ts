@@ -0,0 +1,20 @@
+import { request } from "@/lib/http";
+import { geofenceSchema, type Geofence } from "./geofence";
+import type { CreateGeofenceInput } from "./validation";
+
+export async function fetchGeofences(): Promise<Geofence[]> {
+  const { geofences } = await request<{ geofences: unknown }>("/api/geofences");
+  return geofenceSchema.array().parse(geofences);
+}
+
+export async function createGeofence(input: CreateGeofenceInput): Promise<Geofence> {
+  const { geofence } = await request<{ geofence: Geofence }>("/api/geofences", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+  return geofence;
+}
+
+export async function deleteGeofence(id: string): Promise<void> {
+  await request<void>(`/api/geofences/${encodeURIComponent(id)}`, { method: "DELETE" });
+}
@@ -0,0 +1,14 @@
+import { z } from "zod";
+import { areaShapeSchema } from "@/lib/map/area";
+
+// Named map areas saved from the map's filter panel, e.g. "Kochi port zone".
+
+export const geofenceSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  shape: areaShapeSchema,
+  createdBy: z.string(),
+  createdAt: z.iso.datetime({ offset: true }),
+});
+
+export type Geofence = z.infer<typeof geofenceSchema>;
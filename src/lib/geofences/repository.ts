@@ -0,0 +1,64 @@
+import { randomUUID } from "node:crypto";
+import { asc, eq } from "drizzle-orm";
+import { db } from "@/db";
+import { geofences, type GeofenceRow } from "@/db/schema";
+import type { AuditActor } from "@/lib/audit/audit-entry";
+import { appendAudit } from "@/lib/audit/repository";
+import type { Geofence } from "./geofence";
+import type { CreateGeofenceInput } from "./validation";
+
+export class GeofenceNameTakenError extends Error {
+  constructor(readonly geofenceName: string) {
+    super(`A geofence named "${geofenceName}" already exists`);
+    this.name = "GeofenceNameTakenError";
+  }
+}
+
+function toGeofence(row: GeofenceRow): Geofence {
+  return { ...row };
+}
+
+export async function listGeofences(): Promise<Geofence[]> {
+  const rows = await db.select().from(geofences).orderBy(asc(geofences.name));
+  return rows.map(toGeofence);
+}
+
+export async function createGeofence(input: CreateGeofenceInput, actor: AuditActor): Promise<Geofence> {
+  return db.transaction(async (tx) => {
+    const [existing] = await tx.select({ id: geofences.id }).from(geofences).where(eq(geofences.name, input.name));
+    if (existing) throw new GeofenceNameTakenError(input.name);
+    const [row] = await tx
+      .insert(geofences)
+      .values({
+        id: `GF-${randomUUID().slice(0, 8).toUpperCase()}`,
+        name: input.name,
+        shape: input.shape,
+        createdBy: actor.id,
+        createdAt: new Date().toISOString(),
+      })
+      .returning();
+    await appendAudit(tx, {
+      subjectType: "geofence",
+      subjectId: row!.id,
+      action: "geofence.create",
+      actor,
+      after: { name: row!.name, kind: row!.shape.kind },
+    });
+    return toGeofence(row!);
+  });
+}
+
+export async function deleteGeofence(id: string, actor: AuditActor): Promise<boolean> {
+  return db.transaction(async (tx) => {
+    const [row] = await tx.delete(geofences).where(eq(geofences.id, id)).returning();
+    if (!row) return false;
+    await appendAudit(tx, {
+      subjectType: "geofence",
+      subjectId: id,
+      action: "geofence.delete",
+      actor,
+      before: { name: row.name, shape: row.shape },
+    });
+    return true;
+  });
+}
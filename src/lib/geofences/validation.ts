@@ -0,0 +1,8 @@
+import { z } from "zod";
+import { geofenceSchema } from "./geofence";
+
+export const createGeofenceInput = geofenceSchema.pick({ shape: true }).extend({
+  name: z.string().trim().min(1).max(80),
+});
+
+export type CreateGeofenceInput = z.infer<typeof createGeofenceInput>;
@@ -0,0 +1,39 @@
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly body?: unknown // the parsed error payload, e.g. the current record on 409
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+async function send(input: string, init?: RequestInit): Promise<Response> {
+  const res = await fetch(input, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new ApiError(body?.error ?? `Request failed (${res.status})`, res.status, body);
+  }
+  return res;
+}
+
+// JSON request against the app's own API routes; errors surface the route's `error` message
+export async function request<T>(input: string, init?: RequestInit): Promise<T> {
+  const res = await send(input, init);
+  if (res.status === 204) return undefined as T;
+  return (await res.json().catch(() => ({}))) as T;
+}
+
+export async function requestText(input: string, init?: RequestInit): Promise<string> {
+  const res = await send(input, init);
+  return res.text();
+}
+
+export async function requestBlob(input: string, init?: RequestInit): Promise<Blob> {
+  const res = await send(input, init);
+  return res.blob();
+}
@@ -0,0 +1,76 @@
+import { z } from "zod";
+
+// Map areas drawn to filter reports, either ad hoc or saved as a named geofence.
+// Coordinates are [lat, lng] like Leaflet's; circle radii are in metres.
+
+const latLngSchema = z.tuple([z.number().min(-90).max(90), z.number().min(-180).max(180)]);
+
+export const AREA_KINDS = ["polygon", "rectangle", "circle"] as const;
+
+export const areaShapeSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("polygon"), points: z.array(latLngSchema).min(3).max(500) }),
+  z.object({ kind: z.literal("rectangle"), bounds: z.tuple([latLngSchema, latLngSchema]) }), // SW, NE
+  z.object({ kind: z.literal("circle"), center: latLngSchema, radius: z.number().positive().max(5_000_000) }),
+]);
+
+export type AreaShape = z.infer<typeof areaShapeSchema>;
+export type AreaKind = AreaShape["kind"];
+export type LatLngTuple = z.infer<typeof latLngSchema>;
+
+const EARTH_RADIUS_M = 6_371_008.8;
+
+export function distanceMeters([lat1, lng1]: LatLngTuple, [lat2, lng2]: LatLngTuple) {
+  const rad = Math.PI / 180;
+  const dLat = (lat2 - lat1) * rad;
+  const dLng = (lng2 - lng1) * rad;
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * rad) * Math.cos(lat2 * rad) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// Even-odd ray casting in degrees, which is accurate enough at district scale
+function inPolygon(points: LatLngTuple[], lat: number, lng: number) {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [yi, xi] = points[i]!;
+    const [yj, xj] = points[j]!;
+    if (yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+export function areaContains(area: AreaShape, lat: number, lng: number): boolean {
+  switch (area.kind) {
+    case "polygon":
+      return inPolygon(area.points, lat, lng);
+    case "rectangle": {
+      const [[south, west], [north, east]] = area.bounds;
+      return lat >= south && lat <= north && lng >= west && lng <= east;
+    }
+    case "circle":
+      return distanceMeters(area.center, [lat, lng]) <= area.radius;
+  }
+}
+
+// Corners are given in drawing order; the stored rectangle is always SW, NE
+export function rectangleFromCorners(a: LatLngTuple, b: LatLngTuple): AreaShape {
+  return {
+    kind: "rectangle",
+    bounds: [
+      [Math.min(a[0], b[0]), Math.min(a[1], b[1])],
+      [Math.max(a[0], b[0]), Math.max(a[1], b[1])],
+    ],
+  };
+}
+
+export function describeArea(area: AreaShape): string {
+  switch (area.kind) {
+    case "polygon":
+      return `Polygon (${area.points.length} points)`;
+    case "rectangle":
+      return "Rectangle";
+    case "circle":
+      return area.radius >= 1000
+        ? `Radius ${(area.radius / 1000).toFixed(1)} km`
+        : `Radius ${Math.round(area.radius)} m`;
+  }
+}
@@ -0,0 +1,28 @@
+import { createClusterIndex, type ClusterRequest, type ClusterResponse } from "@/lib/map/clusters";
+
+// Builds and queries the cluster index off the main thread (see ./clusters.ts).
+// Messages are handled in order, so a query sent after a load sees the new index.
+
+let index: ReturnType<typeof createClusterIndex> | null = null;
+// Indexes loaded so far, counted as the hook counts them
+let loads = 0;
+
+function reply(message: ClusterResponse) {
+  self.postMessage(message);
+}
+
+self.addEventListener("message", (event: MessageEvent<ClusterRequest>) => {
+  const request = event.data;
+  if (request.type === "load") {
+    index = createClusterIndex(request.points);
+    loads++;
+    reply({ type: "loaded" });
+    return;
+  }
+  if (request.type === "leaves") {
+    const ids = index && request.load === loads ? index.leaves(request.clusterId) : [];
+    reply({ type: "leaves", seq: request.seq, ids });
+    return;
+  }
+  reply({ type: "clusters", seq: request.seq, items: index ? index.query(request.bbox, request.zoom) : [] });
+});
@@ -0,0 +1,98 @@
+import Supercluster from "supercluster";
+import { HAZARD_STATUSES, type HazardReport, type HazardStatus } from "@/lib/reports/hazard-report";
+
+// Hierarchical clustering of report locations. The index is built once per report set
+// (a KD-tree per zoom level) and queried for the viewport only, so the number of
+// markers on screen stays bounded however many reports are loaded. Runs in
+// ./cluster.worker.ts; everything here is plain data so it crosses postMessage.
+
+export type ClusterPoint = Pick<HazardReport, "id" | "lat" | "lng" | "status">;
+
+export type StatusCounts = Record<HazardStatus, number>;
+
+export type ClusterItem =
+  | {
+      kind: "cluster";
+      key: string;
+      clusterId: number;
+      lat: number;
+      lng: number;
+      count: number;
+      statusCounts: StatusCounts;
+      expansionZoom: number; // zoom at which the cluster first splits
+    }
+  | { kind: "report"; id: string; lat: number; lng: number };
+
+// [west, south, east, north] in degrees; longitudes may run past ±180 when the world wraps
+export type ClusterBBox = [number, number, number, number];
+
+// `load` in a leaves request counts the index loads the clicked cluster came from:
+// cluster ids are only unique within one index, so a rebuilt one answers nothing
+export type ClusterRequest =
+  | { type: "load"; points: ClusterPoint[] }
+  | { type: "query"; seq: number; bbox: ClusterBBox; zoom: number }
+  | { type: "leaves"; seq: number; load: number; clusterId: number };
+
+export type ClusterResponse =
+  | { type: "loaded" }
+  | { type: "clusters"; seq: number; items: ClusterItem[] }
+  | { type: "leaves"; seq: number; ids: string[] };
+
+// Beyond this zoom every report is drawn on its own
+export const CLUSTER_MAX_ZOOM = 16;
+
+function emptyCounts(): StatusCounts {
+  return Object.fromEntries(HAZARD_STATUSES.map((s) => [s, 0])) as StatusCounts;
+}
+
+export function createClusterIndex(points: ClusterPoint[]) {
+  const index = new Supercluster<{ id: string; status: HazardStatus }, { statusCounts: StatusCounts }>({
+    radius: 60,
+    maxZoom: CLUSTER_MAX_ZOOM,
+    map: ({ status }) => ({ statusCounts: { ...emptyCounts(), [status]: 1 } }),
+    reduce: (acc, props) => {
+      for (const s of HAZARD_STATUSES) acc.statusCounts[s] += props.statusCounts[s];
+    },
+  });
+  index.load(
+    points.map((p) => ({
+      type: "Feature" as const,
+      geometry: { type: "Point" as const, coordinates: [p.lng, p.lat] },
+      properties: { id: p.id, status: p.status },
+    }))
+  );
+
+  return {
+    query(bbox: ClusterBBox, zoom: number): ClusterItem[] {
+      const z = Math.max(0, Math.min(Math.round(zoom), CLUSTER_MAX_ZOOM + 1));
+      return index.getClusters(bbox, z).map((f): ClusterItem => {
+        const [lng, lat] = f.geometry.coordinates as [number, number];
+        if ("cluster" in f.properties && f.properties.cluster) {
+          return {
+            kind: "cluster",
+            key: `c${f.properties.cluster_id}`,
+            clusterId: f.properties.cluster_id,
+            lat,
+            lng,
+            count: f.properties.point_count,
+            statusCounts: f.properties.statusCounts,
+            expansionZoom: index.getClusterExpansionZoom(f.properties.cluster_id),
+          };
+        }
+        return { kind: "report", id: (f.properties as { id: string }).id, lat, lng };
+      });
+    },
+    // Report ids under a cluster of this index; empty for an id it does not have
+    leaves(clusterId: number): string[] {
+      try {
+        return index.getLeaves(clusterId, Infinity).map((f) => (f.properties as { id: string }).id);
+      } catch {
+        return [];
+      }
+    },
+  };
+}
+
+export function dominantStatus(counts: StatusCounts): HazardStatus {
+  return HAZARD_STATUSES.reduce((a, b) => (counts[a] >= counts[b] ? a : b));
+}
@@ -0,0 +1,185 @@
+import type { HazardStatus, ReportSummary } from "@/lib/reports/hazard-report";
+
+// Kernel density estimate of report locations, rasterised in screen space so the
+// kernel keeps the same on-screen size at every zoom level.
+
+export const HEAT_WEIGHTINGS = ["none", "status", "recency"] as const;
+export type HeatWeighting = (typeof HEAT_WEIGHTINGS)[number];
+
+export interface HeatmapOptions {
+  radius: number; // kernel bandwidth in screen pixels
+  blur: number; // extra smoothing in screen pixels, 0 for none
+  weighting: HeatWeighting;
+}
+
+export const DEFAULT_HEATMAP_OPTIONS: HeatmapOptions = { radius: 25, blur: 15, weighting: "none" };
+
+// Dismissed reports stay on the map but add nothing to the density
+const STATUS_WEIGHT: Record<HazardStatus, number> = {
+  verified: 1,
+  under_review: 0.6,
+  unverified: 0.3,
+  false_alarm: 0,
+};
+
+const RECENCY_HALF_LIFE_MS = 3 * 24 * 60 * 60 * 1000;
+
+export interface HeatPoint {
+  lat: number;
+  lng: number;
+  weight: number;
+}
+
+// `now` anchors recency; pass the replay position so weights follow the timeline
+export function toHeatPoints(reports: ReportSummary[], weighting: HeatWeighting, now: number): HeatPoint[] {
+  const points: HeatPoint[] = [];
+  for (const r of reports) {
+    let weight = 1;
+    if (weighting === "status") weight = STATUS_WEIGHT[r.status];
+    if (weighting === "recency") {
+      const age = Math.max(0, now - new Date(r.timestamp).getTime());
+      weight = Math.pow(0.5, age / RECENCY_HALF_LIFE_MS);
+    }
+    if (weight > 0) points.push({ lat: r.lat, lng: r.lng, weight });
+  }
+  return points;
+}
+
+export interface DensityGrid {
+  cols: number;
+  rows: number;
+  cell: number; // pixels per grid cell
+  values: Float32Array; // weighted points per square pixel
+  max: number;
+}
+
+function gaussianKernel(sigma: number) {
+  const half = Math.ceil(sigma * 3);
+  const kernel = new Float32Array(half * 2 + 1);
+  let sum = 0;
+  for (let i = -half; i <= half; i++) {
+    kernel[i + half] = Math.exp(-(i * i) / (2 * sigma * sigma));
+    sum += kernel[i + half]!;
+  }
+  for (let i = 0; i < kernel.length; i++) kernel[i]! /= sum;
+  return kernel;
+}
+
+// Separable convolution; the kernel is normalised so the total weight is preserved
+function convolve(values: Float32Array, cols: number, rows: number, kernel: Float32Array) {
+  const half = (kernel.length - 1) / 2;
+  const tmp = new Float32Array(values.length);
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      let acc = 0;
+      for (let k = -half; k <= half; k++) {
+        const xx = x + k;
+        if (xx >= 0 && xx < cols) acc += values[y * cols + xx]! * kernel[k + half]!;
+      }
+      tmp[y * cols + x] = acc;
+    }
+  }
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      let acc = 0;
+      for (let k = -half; k <= half; k++) {
+        const yy = y + k;
+        if (yy >= 0 && yy < rows) acc += tmp[yy * cols + x]! * kernel[k + half]!;
+      }
+      values[y * cols + x] = acc;
+    }
+  }
+}
+
+// Points are in container pixels. Bin on a coarse grid, then smooth with one
+// Gaussian whose variance is the kernel's plus the blur's (they compose).
+export function densityGrid(
+  points: { x: number; y: number; weight: number }[],
+  width: number,
+  height: number,
+  { radius, blur }: Pick<HeatmapOptions, "radius" | "blur">
+): DensityGrid {
+  const cell = Math.max(2, Math.round(radius / 6));
+  const cols = Math.ceil(width / cell);
+  const rows = Math.ceil(height / cell);
+  const values = new Float32Array(cols * rows);
+  for (const p of points) {
+    const cx = Math.floor(p.x / cell);
+    const cy = Math.floor(p.y / cell);
+    if (cx < 0 || cy < 0 || cx >= cols || cy >= rows) continue;
+    values[cy * cols + cx]! += p.weight;
+  }
+  const sigma = Math.sqrt(radius * radius + blur * blur) / 2 / cell;
+  if (sigma > 0) convolve(values, cols, rows, gaussianKernel(sigma));
+
+  let max = 0;
+  const area = cell * cell;
+  for (let i = 0; i < values.length; i++) {
+    values[i]! /= area;
+    if (values[i]! > max) max = values[i]!;
+  }
+  return { cols, rows, cell, values, max };
+}
+
+// Color ramp from low to high density; also drawn as the legend gradient
+export const HEAT_RAMP: { stop: number; color: [number, number, number] }[] = [
+  { stop: 0, color: [59, 130, 246] },
+  { stop: 0.35, color: [16, 185, 129] },
+  { stop: 0.6, color: [234, 179, 8] },
+  { stop: 0.8, color: [249, 115, 22] },
+  { stop: 1, color: [239, 68, 68] },
+];
+
+export function heatRampColor(t: number): [number, number, number] {
+  const v = Math.max(0, Math.min(1, t));
+  for (let i = 1; i < HEAT_RAMP.length; i++) {
+    const a = HEAT_RAMP[i - 1]!;
+    const b = HEAT_RAMP[i]!;
+    if (v <= b.stop) {
+      const f = (v - a.stop) / (b.stop - a.stop);
+      return [0, 1, 2].map((c) => Math.round(a.color[c]! + (b.color[c]! - a.color[c]!) * f)) as [
+        number,
+        number,
+        number,
+      ];
+    }
+  }
+  return HEAT_RAMP[HEAT_RAMP.length - 1]!.color;
+}
+
+export function heatRampGradient() {
+  return `linear-gradient(to right, ${HEAT_RAMP.map(
+    ({ stop, color }) => `rgb(${color.join(",")}) ${stop * 100}%`
+  ).join(", ")})`;
+}
+
+// Values below this share of the maximum are left transparent
+const CUTOFF = 0.02;
+
+export function paintDensity(ctx: CanvasRenderingContext2D, grid: DensityGrid) {
+  const { cols, rows, cell, values, max } = grid;
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  if (max <= 0) return;
+  const image = ctx.createImageData(cols, rows);
+  for (let i = 0; i < values.length; i++) {
+    const t = values[i]! / max;
+    if (t < CUTOFF) continue;
+    const [r, g, b] = heatRampColor(t);
+    image.data[i * 4] = r;
+    image.data[i * 4 + 1] = g;
+    image.data[i * 4 + 2] = b;
+    image.data[i * 4 + 3] = Math.round(255 * Math.min(0.85, 0.25 + t * 0.6));
+  }
+  // Draw at grid resolution, then let the browser scale it up smoothly
+  const buffer = document.createElement("canvas");
+  buffer.width = cols;
+  buffer.height = rows;
+  buffer.getContext("2d")!.putImageData(image, 0, 0);
+  ctx.imageSmoothingEnabled = true;
+  ctx.drawImage(buffer, 0, 0, cols * cell, rows * cell);
+}
+
+// Web Mercator ground resolution, used to express density per square kilometre
+export function metersPerPixel(lat: number, zoom: number) {
+  return (40075016.686 * Math.cos((lat * Math.PI) / 180)) / Math.pow(2, zoom + 8);
+}
@@ -0,0 +1,213 @@
+import type { ReportSummary } from "@/lib/reports/hazard-report";
+import { distanceMeters, type LatLngTuple } from "./area";
+
+// Emerging hotspots: places where one hazard type is reported far more often in the
+// recent window than in the baseline period before it. Per hazard type, reports are
+// binned into a grid of roughly square cells;
+//  1. Getis-Ord Gi* over the recent counts finds cells whose neighbourhood (the cell
+//     and its 8 neighbours) holds significantly more reports than the grid average,
+//  2. touching hot cells are merged into one hotspot, and
+//  3. a hotspot is kept only if its recent count is improbably high (Poisson) given
+//     the rate the same cells saw during the baseline. The threshold is divided by the
+//     number of occupied cells (Bonferroni), so busy maps don't flag chance clumps.
+
+export interface HotspotOptions {
+  windowHours: number; // the recent window, ending at `now`
+  baselineDays: number; // the period before the window that sets the expected rate
+  cellKm: number;
+}
+
+export const DEFAULT_HOTSPOT_OPTIONS: HotspotOptions = { windowHours: 24, baselineDays: 7, cellKm: 5 };
+
+export const HOTSPOT_WINDOWS = [6, 24, 72] as const;
+export const HOTSPOT_CELL_SIZES = [2, 5, 10, 25] as const;
+
+// Gi* z-score for p < 0.05 (one-sided hot spots only)
+const Z_CRITICAL = 1.96;
+// Poisson tail probability below which the growth counts as significant
+const P_CRITICAL = 0.01;
+const MIN_REPORTS = 3;
+// Stands in for an empty baseline, so a single new report is not "infinitely" up
+const MIN_EXPECTED = 0.5;
+const KM_PER_DEGREE = 111.32;
+
+export interface Hotspot {
+  id: string;
+  hazardType: string;
+  center: LatLngTuple; // mean position of the recent reports
+  radius: number; // metres, from the centre to the furthest recent report
+  count: number; // recent reports
+  expected: number; // from the baseline rate, scaled to the window
+  growth: number | null; // count / expected; null when the baseline was empty
+  zScore: number; // highest Gi* among the hotspot's cells
+  pValue: number;
+  reportIds: string[];
+}
+
+interface Cell {
+  i: number;
+  j: number;
+  recent: ReportSummary[];
+  baseline: number;
+}
+
+// P(X >= k) for X ~ Poisson(lambda)
+export function poissonTail(k: number, lambda: number) {
+  if (k <= 0) return 1;
+  let term = Math.exp(-lambda);
+  let below = term;
+  for (let i = 1; i < k; i++) {
+    term *= lambda / i;
+    below += term;
+  }
+  return Math.max(0, 1 - below);
+}
+
+function detectForType(
+  hazardType: string,
+  recent: ReportSummary[],
+  baseline: ReportSummary[],
+  options: HotspotOptions
+): Hotspot[] {
+  const all = [...recent, ...baseline];
+  let minLat = Infinity;
+  let maxLat = -Infinity;
+  let minLng = Infinity;
+  let maxLng = -Infinity;
+  for (const r of all) {
+    minLat = Math.min(minLat, r.lat);
+    maxLat = Math.max(maxLat, r.lat);
+    minLng = Math.min(minLng, r.lng);
+    maxLng = Math.max(maxLng, r.lng);
+  }
+  const dLat = options.cellKm / KM_PER_DEGREE;
+  const dLng = dLat / Math.max(0.1, Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180));
+  // The grid spans the reports plus one empty ring, which the Gi* mean includes
+  const rows = Math.floor((maxLat - minLat) / dLat) + 3;
+  const cols = Math.floor((maxLng - minLng) / dLng) + 3;
+  const n = rows * cols;
+  if (n < 2) return [];
+
+  const cells = new Map<string, Cell>();
+  const cellAt = (r: ReportSummary) => {
+    const i = Math.floor((r.lat - minLat) / dLat) + 1;
+    const j = Math.floor((r.lng - minLng) / dLng) + 1;
+    const key = `${i}:${j}`;
+    let cell = cells.get(key);
+    if (!cell) {
+      cell = { i, j, recent: [], baseline: 0 };
+      cells.set(key, cell);
+    }
+    return cell;
+  };
+  for (const r of recent) cellAt(r).recent.push(r);
+  for (const r of baseline) cellAt(r).baseline++;
+
+  // Gi* with binary weights over the 3x3 neighbourhood (interior cells: 9 neighbours)
+  const mean = recent.length / n;
+  let sumSquares = 0;
+  for (const c of cells.values()) sumSquares += c.recent.length ** 2;
+  const s = Math.sqrt(sumSquares / n - mean ** 2);
+  if (!(s > 0)) return [];
+  const w = 9;
+  const denominator = s * Math.sqrt((n * w - w ** 2) / (n - 1));
+
+  const hot = new Map<string, { cell: Cell; z: number }>();
+  for (const [key, cell] of cells) {
+    if (!cell.recent.length) continue;
+    let local = 0;
+    for (let di = -1; di <= 1; di++) {
+      for (let dj = -1; dj <= 1; dj++) local += cells.get(`${cell.i + di}:${cell.j + dj}`)?.recent.length ?? 0;
+    }
+    const z = (local - mean * w) / denominator;
+    if (z >= Z_CRITICAL && local >= MIN_REPORTS) hot.set(key, { cell, z });
+  }
+
+  // Touching hot cells (8-neighbourhood) form one candidate
+  const candidates: { cell: Cell; z: number }[][] = [];
+  const seen = new Set<string>();
+  for (const start of hot.keys()) {
+    if (seen.has(start)) continue;
+    seen.add(start);
+    const members: { cell: Cell; z: number }[] = [];
+    const queue = [start];
+    while (queue.length) {
+      const member = hot.get(queue.pop()!)!;
+      members.push(member);
+      for (let di = -1; di <= 1; di++) {
+        for (let dj = -1; dj <= 1; dj++) {
+          const key = `${member.cell.i + di}:${member.cell.j + dj}`;
+          if (hot.has(key) && !seen.has(key)) {
+            seen.add(key);
+            queue.push(key);
+          }
+        }
+      }
+    }
+    candidates.push(members);
+  }
+
+  const scale = options.windowHours / (options.baselineDays * 24);
+  const threshold = P_CRITICAL / cells.size;
+  const hotspots: Hotspot[] = [];
+  for (const members of candidates) {
+    const reports = members.flatMap((m) => m.cell.recent);
+    const count = reports.length;
+    if (count < MIN_REPORTS) continue;
+    const baselineCount = members.reduce((sum, m) => sum + m.cell.baseline, 0);
+    const expected = baselineCount * scale;
+    const pValue = poissonTail(count, Math.max(expected, MIN_EXPECTED));
+    if (pValue >= threshold) continue;
+
+    const center: LatLngTuple = [
+      reports.reduce((sum, r) => sum + r.lat, 0) / count,
+      reports.reduce((sum, r) => sum + r.lng, 0) / count,
+    ];
+    const radius = reports.reduce(
+      (max, r) => Math.max(max, distanceMeters(center, [r.lat, r.lng])),
+      (options.cellKm * 1000) / 2
+    );
+    const ids = reports.map((r) => r.id).sort();
+    hotspots.push({
+      id: `${hazardType}:${ids[0]}`,
+      hazardType,
+      center,
+      radius,
+      count,
+      expected,
+      growth: expected > 0 ? count / expected : null,
+      zScore: members.reduce((max, m) => Math.max(max, m.z), -Infinity),
+      pValue,
+      reportIds: ids,
+    });
+  }
+  return hotspots;
+}
+
+// Strongest first. False alarms are left out; `now` is usually the replay position.
+export function detectHotspots(reports: ReportSummary[], now: number, options: HotspotOptions = DEFAULT_HOTSPOT_OPTIONS) {
+  const windowStart = now - options.windowHours * 60 * 60 * 1000;
+  const baselineStart = windowStart - options.baselineDays * 24 * 60 * 60 * 1000;
+  const byType = new Map<string, { recent: ReportSummary[]; baseline: ReportSummary[] }>();
+  for (const r of reports) {
+    if (r.status === "false_alarm") continue;
+    const t = new Date(r.timestamp).getTime();
+    if (!(t >= baselineStart && t <= now)) continue;
+    let group = byType.get(r.type);
+    if (!group) {
+      group = { recent: [], baseline: [] };
+      byType.set(r.type, group);
+    }
+    (t >= windowStart ? group.recent : group.baseline).push(r);
+  }
+
+  const hotspots: Hotspot[] = [];
+  for (const [type, { recent, baseline }] of byType) {
+    if (recent.length >= MIN_REPORTS) hotspots.push(...detectForType(type, recent, baseline, options));
+  }
+  return hotspots.sort((a, b) => a.pValue - b.pValue || b.count - a.count);
+}
+
+export function formatGrowth(growth: number) {
+  return `${growth >= 10 ? Math.round(growth) : growth.toFixed(1)}×`;
+}
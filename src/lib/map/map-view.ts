@@ -0,0 +1,165 @@
+import {
+  HAZARD_SOURCES,
+  HAZARD_STATUSES,
+  type HazardSource,
+  type HazardStatus,
+  type ReportSummary,
+} from "@/lib/reports/hazard-report";
+import { parseSearchQuery, searchFieldValue, setSearchField } from "@/lib/reports/search-query";
+import { areaShapeSchema, type AreaShape } from "./area";
+
+// Map camera and filter state, and how it is written to the /map query string.
+
+export interface MapFilters {
+  hazardType: string | "all";
+  status: HazardStatus | "all";
+  source: HazardSource | "all";
+  timeStart?: number; // Unix ms
+  timeEnd?: number; // Unix ms
+  heatmap: boolean;
+  clustering: boolean;
+  tagsQuery?: string;
+  query?: string; // report search language, see search-query.ts
+  area?: AreaShape; // drawn on the map or picked from the saved geofences
+}
+
+export interface MapView {
+  center: [number, number];
+  zoom: number;
+}
+
+// Where the map opens without a link or a default saved view (Mumbai)
+export const DEFAULT_MAP_VIEW: MapView = { center: [19.076, 72.8777], zoom: 6 };
+
+export interface MapUrlState {
+  view?: MapView;
+  filters: Partial<MapFilters>;
+}
+
+// Earliest and latest report time (Unix ms), or null when there is nothing to span
+export function reportTimeDomain(reports: ReportSummary[]): { min: number; max: number } | null {
+  if (!reports.length) return null;
+  let min = Infinity;
+  let max = -Infinity;
+  for (const r of reports) {
+    const t = new Date(r.timestamp).getTime();
+    if (!Number.isFinite(t)) continue;
+    if (t < min) min = t;
+    if (t > max) max = t;
+  }
+  if (!Number.isFinite(min) || !Number.isFinite(max)) return null;
+  return { min, max };
+}
+
+function parseFlag(value: string | null) {
+  return value === "1" ? true : value === "0" ? false : undefined;
+}
+
+function parseArea(value: string | null) {
+  if (!value) return undefined;
+  try {
+    const parsed = areaShapeSchema.safeParse(JSON.parse(value));
+    return parsed.success ? parsed.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function parseTime(value: string | null) {
+  if (!value) return undefined;
+  const t = Date.parse(value);
+  return Number.isFinite(t) ? t : undefined;
+}
+
+export function parseMapSearchParams(params: URLSearchParams): MapUrlState {
+  const lat = Number(params.get("lat"));
+  const lng = Number(params.get("lng"));
+  const zoom = Number(params.get("z"));
+  const hasView =
+    params.has("lat") &&
+    params.has("lng") &&
+    params.has("z") &&
+    Math.abs(lat) <= 90 &&
+    Math.abs(lng) <= 180 &&
+    zoom >= 0 &&
+    zoom <= 22;
+
+  const status = params.get("status");
+  const source = params.get("source");
+  const filters: Partial<MapFilters> = {
+    hazardType: params.get("type") || undefined,
+    status: (HAZARD_STATUSES as readonly string[]).includes(status ?? "") ? (status as HazardStatus) : undefined,
+    source: (HAZARD_SOURCES as readonly string[]).includes(source ?? "") ? (source as HazardSource) : undefined,
+    timeStart: parseTime(params.get("from")),
+    timeEnd: parseTime(params.get("to")),
+    heatmap: parseFlag(params.get("heat")),
+    clustering: parseFlag(params.get("cluster")),
+    tagsQuery: params.get("tags") || undefined,
+    query: params.get("q") || undefined,
+    area: parseArea(params.get("area")),
+  };
+  for (const key of Object.keys(filters) as (keyof MapFilters)[]) {
+    if (filters[key] === undefined) delete filters[key];
+  }
+  return { view: hasView ? { center: [lat, lng], zoom } : undefined, filters };
+}
+
+// `domain` is the span of the loaded reports: a time range that still reaches its
+// edges is left out so the link keeps following new reports.
+export function mapSearchParams(
+  view: MapView | undefined,
+  filters: MapFilters,
+  domain?: { min: number; max: number } | null
+): URLSearchParams {
+  const params = new URLSearchParams();
+  if (view) {
+    params.set("lat", view.center[0].toFixed(4));
+    params.set("lng", view.center[1].toFixed(4));
+    params.set("z", String(view.zoom));
+  }
+  if (filters.hazardType !== "all") params.set("type", filters.hazardType);
+  if (filters.status !== "all") params.set("status", filters.status);
+  if (filters.source !== "all") params.set("source", filters.source);
+  if (filters.timeStart != null && (!domain || filters.timeStart > domain.min)) {
+    params.set("from", new Date(filters.timeStart).toISOString());
+  }
+  if (filters.timeEnd != null && (!domain || filters.timeEnd < domain.max)) {
+    params.set("to", new Date(filters.timeEnd).toISOString());
+  }
+  params.set("heat", filters.heatmap ? "1" : "0");
+  params.set("cluster", filters.clustering ? "1" : "0");
+  if (filters.tagsQuery?.trim()) params.set("tags", filters.tagsQuery.trim());
+  if (filters.query?.trim()) params.set("q", filters.query.trim());
+  if (filters.area) params.set("area", JSON.stringify(filters.area));
+  return params;
+}
+
+// The type, status and source dropdowns each mirror a field of the search query
+const DROPDOWN_FIELDS = [
+  ["hazardType", "type"],
+  ["status", "status"],
+  ["source", "source"],
+] as const;
+
+type DropdownFilters = Pick<MapFilters, "hazardType" | "status" | "source">;
+
+// Brings the two into line for filters from a link or a saved view, which may set a
+// dropdown without its term or the other way round; a set dropdown wins
+export function withDropdownTerms(filters: MapFilters): MapFilters {
+  let query = filters.query ?? "";
+  for (const [key, field] of DROPDOWN_FIELDS) {
+    if (filters[key] !== "all") query = setSearchField(query, field, filters[key]);
+  }
+  return { ...filters, ...dropdownsFromQuery(query), query };
+}
+
+// The dropdowns as an edited query sets them, or null while it does not parse
+export function dropdownsFromQuery(query: string): DropdownFilters | null {
+  const parsed = parseSearchQuery(query);
+  if (parsed.errors.length) return null;
+  return {
+    hazardType: searchFieldValue(parsed, "type") ?? "all",
+    status: (searchFieldValue(parsed, "status") as HazardStatus | undefined) ?? "all",
+    source: (searchFieldValue(parsed, "source") as HazardSource | undefined) ?? "all",
+  };
+}
@@ -0,0 +1,24 @@
+// Web Mercator tile maths shared by the renderers that draw maps without Leaflet
+// (the replay GIF and the PDF situation report).
+
+export const TILE_SIZE = 256;
+
+// World pixel coordinates at `zoom`, as in Leaflet's project()
+export function worldPixel(lat: number, lng: number, zoom: number) {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sin = Math.max(-0.9999, Math.min(0.9999, Math.sin((lat * Math.PI) / 180)));
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+}
+
+// An XYZ template filled in for one tile; subdomain and retina placeholders get fixed values
+export function tileUrl(template: string, z: number, x: number, y: number) {
+  return template
+    .replace("{s}", "a")
+    .replace("{r}", "")
+    .replace("{z}", String(z))
+    .replace("{x}", String(x))
+    .replace("{y}", String(y));
+}
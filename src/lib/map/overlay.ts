@@ -0,0 +1,210 @@
+import type { Feature, FeatureCollection, Geometry, Position } from "geojson";
+
+// Reference layers (evacuation zones, coastal boundaries, ...) imported from GeoJSON
+// or KML files and drawn under the report markers. Parsing runs in the browser; KML
+// needs DOMParser. Geometries that cannot be drawn are dropped and counted rather
+// than failing the whole file.
+
+export const OVERLAY_FILE_ACCEPT = ".geojson,.json,.kml";
+export const MAX_OVERLAY_BYTES = 20 * 1024 * 1024;
+
+export interface MapOverlay {
+  id: string;
+  name: string;
+  color: string;
+  visible: boolean;
+  data: FeatureCollection;
+}
+
+export class OverlayParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OverlayParseError";
+  }
+}
+
+function isPosition(p: unknown): p is Position {
+  if (!Array.isArray(p) || p.length < 2) return false;
+  const [lng, lat] = p;
+  return (
+    typeof lng === "number" &&
+    typeof lat === "number" &&
+    Number.isFinite(lng) &&
+    Number.isFinite(lat) &&
+    Math.abs(lng) <= 180 &&
+    Math.abs(lat) <= 90
+  );
+}
+
+function line(coords: unknown): Position[] | null {
+  if (!Array.isArray(coords) || coords.length < 2 || !coords.every(isPosition)) return null;
+  return coords;
+}
+
+// Rings are closed if the file left them open; fewer than three distinct corners is not an area
+function ring(coords: unknown): Position[] | null {
+  const points = line(coords);
+  if (!points) return null;
+  const [first, last] = [points[0]!, points[points.length - 1]!];
+  const closed = first[0] === last[0] && first[1] === last[1] ? points : [...points, first];
+  return closed.length >= 4 ? closed : null;
+}
+
+// Holes that fail are dropped; a polygon without a valid outer ring is not
+function polygon(coords: unknown): Position[][] | null {
+  if (!Array.isArray(coords)) return null;
+  const outer = ring(coords[0]);
+  if (!outer) return null;
+  const holes = coords.slice(1).map(ring).filter((r): r is Position[] => r !== null);
+  return [outer, ...holes];
+}
+
+function parts<T>(coords: unknown, part: (c: unknown) => T | null): T[] | null {
+  if (!Array.isArray(coords)) return null;
+  const valid = coords.map(part).filter((p): p is T => p !== null);
+  return valid.length ? valid : null;
+}
+
+export function sanitizeGeometry(geometry: unknown): Geometry | null {
+  if (!geometry || typeof geometry !== "object") return null;
+  const g = geometry as { type?: unknown; coordinates?: unknown; geometries?: unknown };
+  switch (g.type) {
+    case "Point":
+      return isPosition(g.coordinates) ? { type: "Point", coordinates: g.coordinates } : null;
+    case "MultiPoint": {
+      const coordinates = parts(g.coordinates, (p) => (isPosition(p) ? p : null));
+      return coordinates && { type: "MultiPoint", coordinates };
+    }
+    case "LineString": {
+      const coordinates = line(g.coordinates);
+      return coordinates && { type: "LineString", coordinates };
+    }
+    case "MultiLineString": {
+      const coordinates = parts(g.coordinates, line);
+      return coordinates && { type: "MultiLineString", coordinates };
+    }
+    case "Polygon": {
+      const coordinates = polygon(g.coordinates);
+      return coordinates && { type: "Polygon", coordinates };
+    }
+    case "MultiPolygon": {
+      const coordinates = parts(g.coordinates, polygon);
+      return coordinates && { type: "MultiPolygon", coordinates };
+    }
+    case "GeometryCollection": {
+      const geometries = parts(g.geometries, sanitizeGeometry);
+      return geometries && { type: "GeometryCollection", geometries };
+    }
+    default:
+      return null;
+  }
+}
+
+// `skipped` counts features with missing or invalid geometry
+function collect(raw: { geometry: unknown; properties?: unknown }[]): { data: FeatureCollection; skipped: number } {
+  const features: Feature[] = [];
+  for (const f of raw) {
+    const geometry = sanitizeGeometry(f.geometry);
+    if (!geometry) continue;
+    const properties =
+      f.properties && typeof f.properties === "object" ? (f.properties as Record<string, unknown>) : {};
+    features.push({ type: "Feature", geometry, properties });
+  }
+  if (!features.length) throw new OverlayParseError("The file contains no drawable geometry");
+  return { data: { type: "FeatureCollection", features }, skipped: raw.length - features.length };
+}
+
+export function parseGeoJSON(text: string) {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new OverlayParseError("The file is not valid JSON");
+  }
+  const root = json as { type?: unknown; features?: unknown; geometry?: unknown; properties?: unknown };
+  switch (root?.type) {
+    case "FeatureCollection":
+      if (!Array.isArray(root.features)) throw new OverlayParseError("FeatureCollection has no features array");
+      return collect(root.features.map((f) => ({ geometry: f?.geometry, properties: f?.properties })));
+    case "Feature":
+      return collect([{ geometry: root.geometry, properties: root.properties }]);
+    default:
+      // A bare geometry
+      return collect([{ geometry: json }]);
+  }
+}
+
+function kmlCoordinates(el: Element | undefined): Position[] {
+  const text = el?.textContent?.trim();
+  if (!text) return [];
+  return text.split(/\s+/).map((tuple) => tuple.split(",").map(Number));
+}
+
+function childrenNamed(el: Element, name: string) {
+  return Array.from(el.children).filter((c) => c.localName === name);
+}
+
+function firstNamed(el: Element, name: string) {
+  return el.getElementsByTagNameNS("*", name)[0];
+}
+
+// Unsanitised; collect() validates the result like any GeoJSON geometry
+function kmlGeometry(el: Element): unknown {
+  switch (el.localName) {
+    case "Point":
+      return { type: "Point", coordinates: kmlCoordinates(firstNamed(el, "coordinates"))[0] };
+    case "LineString":
+    case "LinearRing":
+      return { type: "LineString", coordinates: kmlCoordinates(firstNamed(el, "coordinates")) };
+    case "Polygon": {
+      const rings = [
+        ...childrenNamed(el, "outerBoundaryIs"),
+        ...childrenNamed(el, "innerBoundaryIs"),
+      ].map((b) => kmlCoordinates(firstNamed(b, "coordinates")));
+      return { type: "Polygon", coordinates: rings };
+    }
+    case "MultiGeometry":
+      return {
+        type: "GeometryCollection",
+        geometries: Array.from(el.children).map(kmlGeometry).filter(Boolean),
+      };
+    default:
+      return null;
+  }
+}
+
+const KML_GEOMETRIES = ["Point", "LineString", "LinearRing", "Polygon", "MultiGeometry"];
+
+export function parseKML(text: string) {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length) {
+    throw new OverlayParseError("The file is not valid KML");
+  }
+  const placemarks = Array.from(doc.getElementsByTagNameNS("*", "Placemark"));
+  if (!placemarks.length) throw new OverlayParseError("The KML file has no placemarks");
+  return collect(
+    placemarks.map((pm) => {
+      const geometryEl = Array.from(pm.children).find((c) => KML_GEOMETRIES.includes(c.localName));
+      const properties: Record<string, unknown> = {};
+      const name = childrenNamed(pm, "name")[0]?.textContent?.trim();
+      const description = childrenNamed(pm, "description")[0]?.textContent?.trim();
+      if (name) properties.name = name;
+      if (description) properties.description = description;
+      for (const data of Array.from(pm.getElementsByTagNameNS("*", "Data"))) {
+        const key = data.getAttribute("name");
+        if (key) properties[key] = firstNamed(data, "value")?.textContent ?? "";
+      }
+      return { geometry: geometryEl ? kmlGeometry(geometryEl) : null, properties };
+    })
+  );
+}
+
+export function parseOverlayFile(fileName: string, text: string) {
+  return /\.kml$/i.test(fileName) ? parseKML(text) : parseGeoJSON(text);
+}
+
+const OVERLAY_COLORS = ["#6366f1", "#d946ef", "#14b8a6", "#f97316", "#64748b"];
+
+export function overlayColor(index: number) {
+  return OVERLAY_COLORS[index % OVERLAY_COLORS.length]!;
+}
@@ -0,0 +1,43 @@
+import type { ReportSummary } from "@/lib/reports/hazard-report";
+import { distanceMeters, type LatLngTuple } from "./area";
+
+// "What has been reported within 5 km of this harbour?" Great-circle distances from
+// a point to the reports, for the map's proximity tool and critical asset counts.
+
+export const PROXIMITY_RADII = [1000, 2000, 5000, 10_000, 25_000, 50_000] as const;
+
+const METERS_PER_DEGREE_LAT = 111_320;
+
+export interface NearbyReport {
+  report: ReportSummary;
+  distance: number; // metres
+}
+
+// A latitude band is checked first so the haversine only runs near the centre
+function withinBand(center: LatLngTuple, radius: number, lat: number) {
+  return Math.abs(lat - center[0]) * METERS_PER_DEGREE_LAT <= radius;
+}
+
+// Nearest first
+export function nearbyReports(reports: ReportSummary[], center: LatLngTuple, radius: number): NearbyReport[] {
+  const nearby: NearbyReport[] = [];
+  for (const report of reports) {
+    if (!withinBand(center, radius, report.lat)) continue;
+    const distance = distanceMeters(center, [report.lat, report.lng]);
+    if (distance <= radius) nearby.push({ report, distance });
+  }
+  return nearby.sort((a, b) => a.distance - b.distance);
+}
+
+export function countNearby(reports: ReportSummary[], center: LatLngTuple, radius: number) {
+  let count = 0;
+  for (const r of reports) {
+    if (withinBand(center, radius, r.lat) && distanceMeters(center, [r.lat, r.lng]) <= radius) count++;
+  }
+  return count;
+}
+
+export function formatDistance(meters: number) {
+  if (meters < 1000) return `${Math.round(meters)} m`;
+  return `${(meters / 1000).toFixed(meters < 10_000 ? 1 : 0)} km`;
+}
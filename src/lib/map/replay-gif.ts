@@ -0,0 +1,136 @@
+import { GIFEncoder, applyPalette, quantize } from "gifenc";
+import { TILE_SIZE, tileUrl, worldPixel } from "./mercator";
+
+// Animated GIF of a timeline replay, for briefings. Frames are drawn on a canvas
+// rather than captured from the page: the basemap tiles of the current view are
+// fetched once (tiles served without CORS headers are left blank), then each frame
+// adds its report markers and a caption. Browser only.
+
+const MAX_WIDTH = 960;
+const CAPTION_HEIGHT = 28;
+// The loop rests on the last frame before starting over
+const LAST_FRAME_DELAY = 1500;
+
+// The map's view in Web Mercator world pixels; Leaflet's getPixelBounds() at `zoom`
+export interface ReplayGifView {
+  zoom: number;
+  origin: { x: number; y: number };
+  width: number;
+  height: number;
+}
+
+export interface ReplayGifMarker {
+  lat: number;
+  lng: number;
+  color: string;
+  opacity: number;
+}
+
+export interface ReplayGifFrame {
+  caption: string;
+  markers: ReplayGifMarker[];
+}
+
+function loadImage(src: string) {
+  return new Promise<HTMLImageElement | null>((resolve) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => resolve(null);
+    img.src = src;
+  });
+}
+
+async function drawBasemap(ctx: CanvasRenderingContext2D, view: ReplayGifView, template: string | null) {
+  ctx.fillStyle = "#e5e7eb";
+  ctx.fillRect(0, 0, view.width, view.height);
+  if (!template) return;
+  const n = 2 ** view.zoom;
+  const tiles: Promise<void>[] = [];
+  for (let ty = Math.floor(view.origin.y / TILE_SIZE); ty * TILE_SIZE < view.origin.y + view.height; ty++) {
+    if (ty < 0 || ty >= n) continue;
+    for (let tx = Math.floor(view.origin.x / TILE_SIZE); tx * TILE_SIZE < view.origin.x + view.width; tx++) {
+      const x = ((tx % n) + n) % n; // wrapped across the antimeridian
+      tiles.push(
+        loadImage(tileUrl(template, view.zoom, x, ty)).then((img) => {
+          if (img) ctx.drawImage(img, tx * TILE_SIZE - view.origin.x, ty * TILE_SIZE - view.origin.y);
+        })
+      );
+    }
+  }
+  await Promise.all(tiles);
+}
+
+function drawFrame(
+  ctx: CanvasRenderingContext2D,
+  background: HTMLCanvasElement,
+  view: ReplayGifView,
+  scale: number,
+  frame: ReplayGifFrame
+) {
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalAlpha = 1;
+  ctx.drawImage(background, 0, 0);
+
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+  ctx.lineWidth = 2;
+  ctx.strokeStyle = "#ffffff";
+  for (const m of frame.markers) {
+    const p = worldPixel(m.lat, m.lng, view.zoom);
+    ctx.globalAlpha = m.opacity;
+    ctx.fillStyle = m.color;
+    ctx.beginPath();
+    ctx.arc(p.x - view.origin.x, p.y - view.origin.y, 6, 0, 2 * Math.PI);
+    ctx.fill();
+    ctx.stroke();
+  }
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalAlpha = 1;
+  ctx.fillStyle = "rgba(15, 23, 42, 0.75)";
+  ctx.fillRect(0, 0, ctx.canvas.width, CAPTION_HEIGHT);
+  ctx.fillStyle = "#ffffff";
+  ctx.font = "14px sans-serif";
+  ctx.textBaseline = "middle";
+  ctx.fillText(frame.caption, 10, CAPTION_HEIGHT / 2);
+}
+
+export async function renderReplayGif(
+  view: ReplayGifView,
+  basemapUrl: string | null,
+  frames: ReplayGifFrame[],
+  { delay, onProgress }: { delay: number; onProgress?: (done: number) => void }
+): Promise<Blob> {
+  const scale = Math.min(1, MAX_WIDTH / view.width);
+  const width = Math.round(view.width * scale);
+  const height = Math.round(view.height * scale);
+
+  const background = document.createElement("canvas");
+  background.width = width;
+  background.height = height;
+  const bg = background.getContext("2d")!;
+  bg.setTransform(scale, 0, 0, scale, 0, 0);
+  await drawBasemap(bg, view, basemapUrl);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true })!;
+
+  const gif = GIFEncoder();
+  for (let i = 0; i < frames.length; i++) {
+    drawFrame(ctx, background, view, scale, frames[i]!);
+    const { data } = ctx.getImageData(0, 0, width, height);
+    const palette = quantize(data, 256);
+    gif.writeFrame(applyPalette(data, palette), width, height, {
+      palette,
+      delay: i === frames.length - 1 ? Math.max(delay, LAST_FRAME_DELAY) : delay,
+      repeat: 0,
+    });
+    onProgress?.(i + 1);
+    // Let the page repaint between frames
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  gif.finish();
+  return new Blob([gif.bytes()], { type: "image/gif" });
+}
@@ -0,0 +1,73 @@
+// Timeline replay on the map. The replay position advances one frame step per tick
+// and the map shows the reports up to it: all of them, or only those inside a
+// sliding window before it. Older markers can fade as the position moves on.
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// null steps are "auto": the time domain split into AUTO_FRAMES frames
+export const REPLAY_STEPS = [null, 15 * MINUTE, HOUR, 3 * HOUR, 6 * HOUR, DAY] as const;
+// null windows are cumulative: everything up to the replay position
+export const REPLAY_WINDOWS = [null, HOUR, 6 * HOUR, 12 * HOUR, DAY, 3 * DAY] as const;
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4] as const;
+
+export type ReplayStep = (typeof REPLAY_STEPS)[number];
+export type ReplayWindow = (typeof REPLAY_WINDOWS)[number];
+export type ReplaySpeed = (typeof REPLAY_SPEEDS)[number];
+
+export interface ReplayOptions {
+  step: ReplayStep;
+  window: ReplayWindow;
+  speed: ReplaySpeed;
+  fade: boolean;
+}
+
+export const DEFAULT_REPLAY_OPTIONS: ReplayOptions = { step: null, window: null, speed: 1, fade: false };
+
+const AUTO_FRAMES = 120;
+// Frame interval at 1x
+const BASE_FRAME_MS = 250;
+// Opacity of a marker at the far end of the window
+const MIN_FADE_OPACITY = 0.2;
+// GIF exports past this many frames take too long to encode in the browser
+export const MAX_EXPORT_FRAMES = 240;
+
+export function frameInterval(speed: ReplaySpeed) {
+  return BASE_FRAME_MS / speed;
+}
+
+export function resolveStep(step: ReplayStep, domain: { min: number; max: number }) {
+  return step ?? Math.max(1, Math.floor((domain.max - domain.min) / AUTO_FRAMES));
+}
+
+// The position one frame forward or back, clamped to the domain
+export function stepFrame(pointer: number, direction: 1 | -1, step: number, domain: { min: number; max: number }) {
+  return Math.min(domain.max, Math.max(domain.min, pointer + direction * step));
+}
+
+export function inReplayWindow(time: number, pointer: number, window: ReplayWindow) {
+  if (time > pointer) return false;
+  return window == null || time >= pointer - window;
+}
+
+// 1 at the replay position, down to MIN_FADE_OPACITY `span` ms before it
+export function replayOpacity(time: number, pointer: number, span: number) {
+  if (span <= 0) return 1;
+  const age = Math.min(1, Math.max(0, (pointer - time) / span));
+  return 1 - (1 - MIN_FADE_OPACITY) * age;
+}
+
+// Frame times from `start` to `end`, always ending on `end`
+export function replayFrameTimes(start: number, end: number, step: number) {
+  const times: number[] = [];
+  for (let t = start; t < end; t += step) times.push(t);
+  times.push(end);
+  return times;
+}
+
+export function formatReplayDuration(ms: number) {
+  if (ms % DAY === 0) return `${ms / DAY} d`;
+  if (ms % HOUR === 0) return `${ms / HOUR} h`;
+  return `${Math.round(ms / MINUTE)} min`;
+}
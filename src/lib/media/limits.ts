@@ -0,0 +1,34 @@
+import type { MediaKind } from "@/lib/reports/hazard-report";
+
+// Upload rules shared by the public submission form and the intake route.
+
+export const ACCEPTED_MEDIA: Record<string, { kind: MediaKind; ext: string }> = {
+  "image/jpeg": { kind: "image", ext: "jpg" },
+  "image/png": { kind: "image", ext: "png" },
+  "image/webp": { kind: "image", ext: "webp" },
+  "video/mp4": { kind: "video", ext: "mp4" },
+  "video/webm": { kind: "video", ext: "webm" },
+  "video/quicktime": { kind: "video", ext: "mov" },
+};
+
+export const MAX_MEDIA_FILES = 6;
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+export const MAX_VIDEO_BYTES = 50 * 1024 * 1024;
+
+export function maxBytesFor(kind: MediaKind) {
+  return kind === "image" ? MAX_IMAGE_BYTES : MAX_VIDEO_BYTES;
+}
+
+export function formatBytes(bytes: number) {
+  return bytes >= 1024 * 1024 ? `${Math.round(bytes / (1024 * 1024))} MB` : `${Math.round(bytes / 1024)} KB`;
+}
+
+// Returns a user-facing problem with the file, or null when it is acceptable
+export function mediaProblem(file: { name: string; type: string; size: number }): string | null {
+  const accepted = ACCEPTED_MEDIA[file.type];
+  if (!accepted) return `${file.name}: only JPEG, PNG, WebP, MP4, WebM and MOV files are accepted`;
+  const limit = maxBytesFor(accepted.kind);
+  if (file.size > limit) return `${file.name}: ${accepted.kind}s must be ${formatBytes(limit)} or smaller`;
+  if (file.size === 0) return `${file.name}: file is empty`;
+  return null;
+}
@@ -0,0 +1,70 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { MediaKind } from "@/lib/reports/hazard-report";
+import { ACCEPTED_MEDIA, mediaProblem } from "./limits";
+
+// Uploaded evidence lives on local disk; MEDIA_DIR moves it elsewhere (e.g. a mounted volume).
+const MEDIA_DIR = path.resolve(process.env.MEDIA_DIR ?? "uploads");
+
+const STORED_NAME = /^[0-9a-f-]{36}\.(jpg|png|webp|mp4|webm|mov)$/;
+
+export class MediaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MediaError";
+  }
+}
+
+// Checks the leading bytes so a renamed executable cannot pose as a photo
+function matchesSignature(bytes: Uint8Array, mime: string) {
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+  switch (mime) {
+    case "image/jpeg":
+      return bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff;
+    case "image/png":
+      return ascii(1, 4) === "PNG";
+    case "image/webp":
+      return ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP";
+    case "video/mp4":
+    case "video/quicktime":
+      return ascii(4, 8) === "ftyp";
+    case "video/webm":
+      return bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3;
+    default:
+      return false;
+  }
+}
+
+// Validates every file before writing any, so a rejected upload leaves nothing behind
+export async function saveMedia(files: File[]): Promise<{ kind: MediaKind; url: string }[]> {
+  const checked = [];
+  for (const file of files) {
+    const problem = mediaProblem(file);
+    if (problem) throw new MediaError(problem);
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    if (!matchesSignature(bytes, file.type)) {
+      throw new MediaError(`${file.name}: file contents do not match its type`);
+    }
+    checked.push({ ...ACCEPTED_MEDIA[file.type]!, bytes });
+  }
+  await mkdir(MEDIA_DIR, { recursive: true });
+  return Promise.all(
+    checked.map(async ({ kind, ext, bytes }) => {
+      const name = `${randomUUID()}.${ext}`;
+      await writeFile(path.join(MEDIA_DIR, name), bytes);
+      return { kind, url: `/api/media/${name}` };
+    })
+  );
+}
+
+export async function readMedia(name: string): Promise<{ bytes: Buffer; type: string } | null> {
+  if (!STORED_NAME.test(name)) return null;
+  const ext = name.slice(name.lastIndexOf(".") + 1);
+  const type = Object.entries(ACCEPTED_MEDIA).find(([, m]) => m.ext === ext)?.[0];
+  try {
+    return { bytes: await readFile(path.join(MEDIA_DIR, name)), type: type ?? "application/octet-stream" };
+  } catch {
+    return null;
+  }
+}
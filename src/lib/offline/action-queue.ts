@@ -0,0 +1,100 @@
+import type { HazardReport } from "@/lib/reports/hazard-report";
+import type { UpdateReportInput } from "@/lib/reports/validation";
+
+// Report changes made without a connection, kept in IndexedDB until they can be
+// replayed (see ./sync.ts). Browser-only.
+
+export type QueuedActionInput = {
+  reportId: string;
+  label: string; // shown in the pending-actions list
+} & (
+  | {
+      kind: "report.update";
+      patch: UpdateReportInput;
+      baseUpdatedAt: string; // the report version the change was made against
+    }
+  | { kind: "report.note"; body: string }
+);
+
+export type QueuedAction = QueuedActionInput & {
+  id: number;
+  createdAt: string;
+  // Set when replay was refused; the action stays queued until retried or discarded
+  conflict?: {
+    message: string;
+    server?: Pick<HazardReport, "status" | "verification" | "updatedAt">;
+    discardOnly?: boolean; // the change itself was refused, so sending it again cannot succeed
+  };
+};
+
+const DB_NAME = "ocean-hazard-offline";
+const STORE = "actions";
+const CHANNEL = "ocean-hazard-offline-queue";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(STORE, { keyPath: "id", autoIncrement: true });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const req = run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+const listeners = new Set<() => void>();
+let channel: BroadcastChannel | null = null;
+
+// Other tabs share the database, so changes are announced to them as well
+function notify() {
+  for (const listener of listeners) listener();
+  channel?.postMessage("changed");
+}
+
+export function subscribeActionQueue(listener: () => void) {
+  if (!channel && typeof BroadcastChannel !== "undefined") {
+    channel = new BroadcastChannel(CHANNEL);
+    channel.onmessage = () => listeners.forEach((l) => l());
+  }
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function enqueueAction(input: QueuedActionInput): Promise<void> {
+  // `id` is assigned by the store's key generator, which also fixes replay order
+  await withStore("readwrite", (store) => store.add({ ...input, createdAt: new Date().toISOString() }));
+  notify();
+}
+
+export async function listActions(): Promise<QueuedAction[]> {
+  return withStore("readonly", (store) => store.getAll() as IDBRequest<QueuedAction[]>);
+}
+
+export async function putAction(action: QueuedAction): Promise<void> {
+  await withStore("readwrite", (store) => store.put(action));
+  notify();
+}
+
+export async function removeAction(id: number): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id));
+  notify();
+}
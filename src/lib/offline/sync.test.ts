@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { describe, mock, test } from "node:test";
+import { ApiError } from "@/lib/http";
+import type { QueuedAction } from "./action-queue";
+import { canRetry, conflictFor, retryAction, submitReportNote } from "./sync";
+
+const server = { status: "under_review", verification: "pending", updatedAt: "2025-07-01T10:00:00.000Z" } as const;
+
+function queued(conflict: QueuedAction["conflict"]): QueuedAction {
+  return {
+    id: 1,
+    kind: "report.update",
+    reportId: "HR-1",
+    label: "HR-1: Dismissed",
+    patch: { status: "false_alarm" },
+    baseUpdatedAt: "2025-07-01T09:00:00.000Z",
+    createdAt: "2025-07-01T09:05:00.000Z",
+    conflict,
+  };
+}
+
+describe("conflictFor", () => {
+  test("offers to reapply an edit the server has moved past", () => {
+    const conflict = conflictFor(new ApiError("Report HR-1 was changed by someone else", 409, { report: server }));
+    assert.deepEqual(conflict?.server, server);
+    assert.ok(canRetry(queued(conflict)));
+  });
+
+  test("only lets a lifecycle refusal be discarded", () => {
+    const conflict = conflictFor(new ApiError("Give a reason for dismissing the report", 409, {}));
+    assert.equal(conflict?.message, "Give a reason for dismissing the report");
+    assert.equal(conflict?.server, undefined);
+    assert.equal(canRetry(queued(conflict)), false);
+  });
+
+  test("only lets an invalid change or a deleted report be discarded", () => {
+    assert.equal(canRetry(queued(conflictFor(new ApiError("Invalid report payload", 400)))), false);
+    assert.equal(canRetry(queued(conflictFor(new ApiError("Report HR-1 not found", 404)))), false);
+  });
+
+  test("keeps other failures retryable", () => {
+    assert.ok(canRetry(queued(conflictFor(new ApiError("Internal Server Error", 500)))));
+  });
+});
+
+describe("retryAction", () => {
+  test("refuses to re-queue a discard-only action", async () => {
+    const conflict = conflictFor(new ApiError("Give a reason for dismissing the report", 409, {}));
+    await assert.rejects(retryAction(queued(conflict)), /discard it instead/);
+  });
+});
+
+describe("submitReportNote", () => {
+  test("sends straight to the server when IndexedDB is unavailable", async () => {
+    // Node has no IndexedDB, so reading the queue fails as it does in private mode
+    const report = { id: "HR-1" };
+    const fetch = mock.method(globalThis, "fetch", async () => Response.json({ report }, { status: 201 }));
+    try {
+      assert.deepEqual(await submitReportNote("HR-1", "Road reopened"), { queued: false, result: report });
+      assert.equal(fetch.mock.callCount(), 1);
+      assert.equal(fetch.mock.calls[0]?.arguments[0], "/api/reports/HR-1/notes");
+    } finally {
+      fetch.mock.restore();
+    }
+  });
+});
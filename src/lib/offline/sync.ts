@@ -0,0 +1,184 @@
+import {
+  ApiError,
+  addReportNote,
+  updateReport,
+  updateReports,
+} from "@/lib/reports/client";
+import { hazardReportSchema, type HazardReport } from "@/lib/reports/hazard-report";
+import type { RejectedUpdate } from "@/lib/reports/lifecycle";
+import type { UpdateReportInput } from "@/lib/reports/validation";
+import {
+  enqueueAction,
+  listActions,
+  putAction,
+  removeAction,
+  type QueuedAction,
+} from "./action-queue";
+
+// Sends report changes now when possible and queues them otherwise. A change is
+// also queued while earlier changes to the same report are waiting, so the
+// server always sees them in the order they were made.
+
+export type SubmitResult<T> = { queued: true } | { queued: false; result: T };
+
+// fetch rejects with a TypeError when no response arrives at all
+function isNetworkError(e: unknown) {
+  return !(e instanceof ApiError);
+}
+
+async function hasQueued(reportIds: string[]) {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  const ids = new Set(reportIds);
+  try {
+    return (await listActions()).some((a) => ids.has(a.reportId));
+  } catch {
+    // IndexedDB unavailable (e.g. private mode): nothing can have been queued
+    return false;
+  }
+}
+
+export async function submitReportUpdate(
+  report: HazardReport,
+  patch: UpdateReportInput,
+  label: string
+): Promise<SubmitResult<HazardReport>> {
+  const queue = async () => {
+    await enqueueAction({ kind: "report.update", reportId: report.id, patch, baseUpdatedAt: report.updatedAt, label });
+    return { queued: true } as const;
+  };
+  if (await hasQueued([report.id])) return queue();
+  try {
+    return { queued: false, result: await updateReport(report.id, patch) };
+  } catch (e) {
+    if (isNetworkError(e)) return queue();
+    throw e;
+  }
+}
+
+// Bulk edits go out in one request online and as one queued action per report
+// offline. Online, reports the lifecycle rejects come back in `rejected`; queued,
+// they surface as conflicts when replayed.
+export async function submitReportsUpdate(
+  reports: HazardReport[],
+  patch: Pick<UpdateReportInput, "status" | "verification" | "assigneeId" | "teamId">,
+  label: (report: HazardReport) => string,
+  reason?: string
+): Promise<SubmitResult<{ reports: HazardReport[]; rejected: RejectedUpdate[] }>> {
+  const queue = async () => {
+    for (const r of reports) {
+      await enqueueAction({
+        kind: "report.update",
+        reportId: r.id,
+        patch: { ...patch, reason },
+        baseUpdatedAt: r.updatedAt,
+        label: label(r),
+      });
+    }
+    return { queued: true } as const;
+  };
+  if (await hasQueued(reports.map((r) => r.id))) return queue();
+  try {
+    return { queued: false, result: await updateReports(reports.map((r) => r.id), patch, reason) };
+  } catch (e) {
+    if (isNetworkError(e)) return queue();
+    throw e;
+  }
+}
+
+export async function submitReportNote(
+  reportId: string,
+  body: string
+): Promise<SubmitResult<HazardReport>> {
+  const queue = async () => {
+    await enqueueAction({ kind: "report.note", reportId, body, label: `${reportId}: note` });
+    return { queued: true } as const;
+  };
+  if (await hasQueued([reportId])) return queue();
+  try {
+    return { queued: false, result: await addReportNote(reportId, body) };
+  } catch (e) {
+    if (isNetworkError(e)) return queue();
+    throw e;
+  }
+}
+
+export type ReplaySummary = { replayed: number; conflicts: number; offline: boolean };
+
+// A 409 carrying the current version is a stale edit that can be reapplied on top of
+// it. Without one it is a lifecycle refusal, which like an invalid change or a deleted
+// report fails the same way however often it is sent.
+export function conflictFor(e: ApiError): QueuedAction["conflict"] {
+  const current = hazardReportSchema
+    .pick({ status: true, verification: true, updatedAt: true })
+    .safeParse((e.body as { report?: unknown } | undefined)?.report);
+  if (e.status === 409 && current.success) {
+    return { message: "Changed on the server after you edited it", server: current.data };
+  }
+  if (e.status === 404) return { message: "The report no longer exists", discardOnly: true };
+  if (e.status === 400 || e.status === 409) return { message: e.message, discardOnly: true };
+  return { message: e.message };
+}
+
+async function replay(): Promise<ReplaySummary> {
+  const summary: ReplaySummary = { replayed: 0, conflicts: 0, offline: false };
+  // Versions produced by this replay: later actions queued against the same base
+  // build on their predecessors instead of conflicting with them
+  const rebased = new Map<string, { from: string; to: string }>();
+  // A report with an unresolved conflict holds back its later actions
+  const blocked = new Set<string>();
+
+  for (const action of await listActions()) {
+    if (action.conflict || blocked.has(action.reportId)) {
+      blocked.add(action.reportId);
+      continue;
+    }
+    try {
+      if (action.kind === "report.note") {
+        await addReportNote(action.reportId, action.body);
+      } else {
+        const step = rebased.get(action.reportId);
+        const base = step && step.from === action.baseUpdatedAt ? step.to : action.baseUpdatedAt;
+        const saved = await updateReport(action.reportId, { ...action.patch, expectedUpdatedAt: base });
+        rebased.set(action.reportId, { from: action.baseUpdatedAt, to: saved.updatedAt });
+      }
+      await removeAction(action.id);
+      summary.replayed++;
+    } catch (e) {
+      if (isNetworkError(e)) {
+        summary.offline = true;
+        break;
+      }
+      await putAction({ ...action, conflict: conflictFor(e as ApiError) });
+      blocked.add(action.reportId);
+      summary.conflicts++;
+    }
+  }
+  return summary;
+}
+
+// Tabs share the queue; the lock keeps two of them from replaying the same action
+export async function replayActions(): Promise<ReplaySummary> {
+  if (typeof navigator !== "undefined" && navigator.locks) {
+    return navigator.locks.request("ocean-hazard-offline-replay", replay);
+  }
+  return replay();
+}
+
+export function canRetry(action: QueuedAction) {
+  return !action.conflict?.discardOnly;
+}
+
+// Re-queue a conflicted action against the server's current version, i.e. overwrite it
+export async function retryAction(action: QueuedAction): Promise<void> {
+  if (!canRetry(action)) throw new Error("The server refused this change; discard it instead");
+  const { conflict, ...rest } = action;
+  if (rest.kind === "report.update" && conflict?.server) {
+    await putAction({ ...rest, baseUpdatedAt: conflict.server.updatedAt });
+  } else {
+    await putAction(rest);
+  }
+}
+
+export async function discardAction(action: QueuedAction): Promise<void> {
+  await removeAction(action.id);
+}
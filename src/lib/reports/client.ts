@@ -0,0 +1,144 @@
+import { request, requestBlob, requestText } from "@/lib/http";
+import { duplicateCandidateSchema, type DuplicateCandidate } from "./duplicates";
+import {
+  hazardReportSchema,
+  reportPageSchema,
+  reportSummarySchema,
+  type HazardReport,
+  type ReportPage,
+  type ReportSummary,
+} from "./hazard-report";
+import type { RejectedUpdate } from "./lifecycle";
+import { reportEventSchema, type ReportEvent } from "./report-event";
+import type {
+  AddReportNoteInput,
+  BulkUpdateReportsInput,
+  CreateReportInput,
+  ExportReportsInput,
+  MergeReportsInput,
+  ReportQueryInput,
+  SitrepInput,
+  UpdateReportInput,
+} from "./validation";
+
+export { ApiError } from "@/lib/http";
+
+// Every report as a summary; fetchReport has a report's history, notes and media
+export async function fetchReports(): Promise<ReportSummary[]> {
+  const { reports } = await request<{ reports: unknown }>("/api/reports");
+  return reportSummarySchema.array().parse(reports);
+}
+
+// One page of the report table, filtered, sorted and paged on the server
+export async function queryReports(input: ReportQueryInput): Promise<ReportPage> {
+  const page = await request<unknown>("/api/reports/query", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+  return reportPageSchema.parse(page);
+}
+
+export async function fetchReport(id: string): Promise<HazardReport> {
+  const { report } = await request<{ report: unknown }>(`/api/reports/${encodeURIComponent(id)}`);
+  return hazardReportSchema.parse(report);
+}
+
+export async function createReport(input: CreateReportInput): Promise<HazardReport> {
+  const { report } = await request<{ report: HazardReport }>("/api/reports", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+  return report;
+}
+
+export async function updateReport(id: string, patch: UpdateReportInput): Promise<HazardReport> {
+  const { report } = await request<{ report: HazardReport }>(`/api/reports/${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    body: JSON.stringify(patch),
+  });
+  return report;
+}
+
+export async function updateReports(
+  ids: BulkUpdateReportsInput["ids"],
+  patch: BulkUpdateReportsInput["patch"],
+  reason?: string
+): Promise<{ reports: HazardReport[]; rejected: RejectedUpdate[] }> {
+  return request<{ reports: HazardReport[]; rejected: RejectedUpdate[] }>("/api/reports", {
+    method: "PATCH",
+    body: JSON.stringify({ ids, patch, reason }),
+  });
+}
+
+export async function addReportNote(id: string, body: AddReportNoteInput["body"]): Promise<HazardReport> {
+  const { report } = await request<{ report: HazardReport }>(
+    `/api/reports/${encodeURIComponent(id)}/notes`,
+    { method: "POST", body: JSON.stringify({ body }) }
+  );
+  return report;
+}
+
+// Possible duplicates of the report, most likely first
+export async function fetchDuplicateCandidates(id: string): Promise<DuplicateCandidate[]> {
+  const { candidates } = await request<{ candidates: unknown }>(
+    `/api/reports/${encodeURIComponent(id)}/duplicates`
+  );
+  return duplicateCandidateSchema.array().parse(candidates);
+}
+
+// Resolves to the primary report with the duplicates folded in
+export async function mergeReports(
+  id: string,
+  duplicateIds: MergeReportsInput["duplicateIds"],
+  reason?: string
+): Promise<HazardReport> {
+  const { report } = await request<{ report: HazardReport }>(`/api/reports/${encodeURIComponent(id)}/merge`, {
+    method: "POST",
+    body: JSON.stringify({ duplicateIds, reason }),
+  });
+  return report;
+}
+
+export async function deleteReport(id: string): Promise<void> {
+  await request<void>(`/api/reports/${encodeURIComponent(id)}`, { method: "DELETE" });
+}
+
+// Server-rendered file contents; the route rejects callers without data.export
+export async function exportReports(input: ExportReportsInput): Promise<string> {
+  return requestText("/api/reports/export", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+}
+
+// Server-rendered PDF situation report of the given reports
+export async function exportSitrep(input: SitrepInput): Promise<Blob> {
+  return requestBlob("/api/reports/sitrep", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+}
+
+type ReportStreamHandlers = {
+  onEvent: (event: ReportEvent) => void;
+  // Called when the connection comes back after a drop; events sent meanwhile are lost
+  onReconnect?: () => void;
+};
+
+// Live report changes over SSE; the browser retries on its own. Returns a close function.
+export function openReportStream({ onEvent, onReconnect }: ReportStreamHandlers): () => void {
+  const source = new EventSource("/api/reports/stream");
+  let dropped = false;
+  source.onopen = () => {
+    if (dropped) onReconnect?.();
+    dropped = false;
+  };
+  source.onerror = () => {
+    dropped = true;
+  };
+  source.addEventListener("report", (e) => {
+    const parsed = reportEventSchema.safeParse(JSON.parse((e as MessageEvent<string>).data));
+    if (parsed.success) onEvent(parsed.data);
+  });
+  return () => source.close();
+}
@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { reportsToCSV } from "./csv";
+import type { HazardReport } from "./hazard-report";
+
+const report: HazardReport = {
+  id: "HR-TEST0001",
+  type: "flood",
+  status: "unverified",
+  verification: "unverified",
+  source: "citizen",
+  severity: "moderate",
+  lat: -8.5,
+  lng: 115.2,
+  timestamp: "2025-09-01T10:00:00.000Z",
+  assigneeId: null,
+  assignee: null,
+  teamId: null,
+  team: null,
+  dueAt: null,
+  reviewedAt: null,
+  escalatedAt: null,
+  mergedIntoId: null,
+  mergedAt: null,
+  mergedReports: [],
+  tags: [],
+  media: [],
+  notes: [],
+  audit: [],
+  createdAt: "2025-09-01T10:00:00.000Z",
+  updatedAt: "2025-09-01T10:00:00.000Z",
+};
+
+function dataRow(r: HazardReport) {
+  return reportsToCSV([r]).split("\n")[1]!;
+}
+
+test("prefixes text that a spreadsheet would run as a formula", () => {
+  const row = dataRow({
+    ...report,
+    personName: "=HYPERLINK(\"http://evil.example\",\"x\")",
+    locationName: "@SUM(A1)",
+    description: "+1",
+  });
+  assert.ok(row.includes(`"'=HYPERLINK(""http://evil.example"",""x"")"`));
+  assert.ok(row.includes("'@SUM(A1)"));
+  assert.ok(row.endsWith(",'+1"));
+});
+
+test("prefixes formulas behind a leading minus, tab or carriage return", () => {
+  for (const text of ["-2+3", "\t=1", "\r=1"]) {
+    assert.ok(dataRow({ ...report, description: text }).includes(`'${text}`), JSON.stringify(text));
+  }
+});
+
+test("leaves negative coordinates numeric", () => {
+  assert.ok(dataRow(report).includes(",-8.5,115.2,"));
+});
@@ -0,0 +1,59 @@
+import { locationLabel, type HazardReport } from "./hazard-report";
+
+const COLUMNS = [
+  "id",
+  "title",
+  "type",
+  "status",
+  "verification",
+  "source",
+  "severity",
+  "timestamp",
+  "lat",
+  "lng",
+  "location",
+  "personName",
+  "assignee",
+  "team",
+  "dueAt",
+  "reviewedAt",
+  "tags",
+  "description",
+] as const;
+
+// Text that a spreadsheet would run as a formula. Citizen submissions reach exports
+// unreviewed, so such values are prefixed with ' to be shown as text. Numbers are
+// left alone so negative coordinates stay numeric.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvEscape(v: unknown) {
+  const s = typeof v === "string" && FORMULA_START.test(v) ? `'${v}` : String(v ?? "");
+  if (s.includes(",") || s.includes("\n") || s.includes("\r") || s.includes('"')) {
+    return '"' + s.replace(/"/g, '""') + '"';
+  }
+  return s;
+}
+
+export function reportsToCSV(rows: HazardReport[]) {
+  const body = rows.map((r) => [
+    r.id,
+    r.title,
+    r.type,
+    r.status,
+    r.verification,
+    r.source,
+    r.severity,
+    r.timestamp,
+    r.lat,
+    r.lng,
+    locationLabel(r),
+    r.personName,
+    r.assignee,
+    r.team,
+    r.dueAt,
+    r.reviewedAt,
+    r.tags.join("|"),
+    r.description,
+  ]);
+  return [COLUMNS.join(","), ...body.map((row) => row.map(csvEscape).join(","))].join("\n");
+}
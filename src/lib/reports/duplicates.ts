@@ -0,0 +1,71 @@
+import { z } from "zod";
+import { distanceMeters } from "@/lib/map/area";
+import { hazardReportSchema } from "./hazard-report";
+
+// Duplicate detection. During a single event many people report the same hazard, so
+// two reports of the same type close together in place and time are offered as
+// possible duplicates, ranked by how close they are and how alike their text is.
+// Nothing is merged automatically; a reviewer compares and merges them.
+
+export const DUPLICATE_RADIUS_M = 2_000;
+export const DUPLICATE_WINDOW_MS = 6 * 60 * 60 * 1000;
+// Candidates scoring lower are not offered
+export const MIN_DUPLICATE_SCORE = 0.5;
+export const MAX_DUPLICATE_CANDIDATES = 10;
+
+export const duplicateCandidateSchema = z.object({
+  report: hazardReportSchema,
+  score: z.number().min(0).max(1),
+  distanceM: z.number().min(0),
+  minutesApart: z.number().int().min(0),
+  textSimilarity: z.number().min(0).max(1),
+});
+
+export type DuplicateCandidate = z.infer<typeof duplicateCandidateSchema>;
+export type DuplicateMatch = Omit<DuplicateCandidate, "report">;
+
+// What detection looks at; report rows and records both have it
+export interface DuplicateFields {
+  id: string;
+  type: string;
+  lat: number;
+  lng: number;
+  reportedAt: string;
+  title?: string | null;
+  description?: string | null;
+}
+
+function words(r: DuplicateFields) {
+  return new Set(`${r.title ?? ""} ${r.description ?? ""}`.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) ?? []);
+}
+
+// Share of distinct words (three letters or more) the two texts have in common
+export function textSimilarity(a: DuplicateFields, b: DuplicateFields) {
+  const wa = words(a);
+  const wb = words(b);
+  if (wa.size === 0 || wb.size === 0) return 0;
+  let shared = 0;
+  for (const w of wa) if (wb.has(w)) shared++;
+  return shared / (wa.size + wb.size - shared);
+}
+
+// How likely `b` is a duplicate of `a`, or null when it is not a candidate: a
+// different type, too far away or apart, or too low a score
+export function duplicateMatch(a: DuplicateFields, b: DuplicateFields): DuplicateMatch | null {
+  if (a.id === b.id || a.type !== b.type) return null;
+  const distanceM = distanceMeters([a.lat, a.lng], [b.lat, b.lng]);
+  const apart = Math.abs(Date.parse(a.reportedAt) - Date.parse(b.reportedAt));
+  if (distanceM > DUPLICATE_RADIUS_M || apart > DUPLICATE_WINDOW_MS) return null;
+  const text = textSimilarity(a, b);
+  const score = 0.4 * (1 - distanceM / DUPLICATE_RADIUS_M) + 0.3 * (1 - apart / DUPLICATE_WINDOW_MS) + 0.3 * text;
+  if (score < MIN_DUPLICATE_SCORE) return null;
+  return { score, distanceM, minutesApart: Math.round(apart / 60_000), textSimilarity: text };
+}
+
+// Latitude and longitude spans that hold every point within DUPLICATE_RADIUS_M of
+// `lat`, for narrowing the search before measuring
+export function duplicateBounds(lat: number, lng: number) {
+  const dLat = DUPLICATE_RADIUS_M / 111_320;
+  const dLng = dLat / Math.max(Math.cos((lat * Math.PI) / 180), 0.01);
+  return { minLat: lat - dLat, maxLat: lat + dLat, minLng: lng - dLng, maxLng: lng + dLng };
+}
@@ -0,0 +1,25 @@
+import { EventEmitter } from "node:events";
+import type { HazardReport } from "./hazard-report";
+import type { ReportEvent } from "./report-event";
+
+// In-process fan-out from the repository to open SSE connections. Kept on
+// globalThis so dev-server module reloads share one emitter; a multi-instance
+// deployment would need a shared broker instead.
+const globalForEvents = globalThis as unknown as { reportEvents?: EventEmitter };
+const emitter = (globalForEvents.reportEvents ??= new EventEmitter().setMaxListeners(0));
+
+export function publishReportEvent(event: ReportEvent) {
+  emitter.emit("report", event);
+}
+
+// Status edits get their own kind so clients can tell triage from other edits
+export function publishReportChange(report: HazardReport, changed: Record<string, unknown>) {
+  publishReportEvent({ kind: "status" in changed ? "status" : "updated", report });
+}
+
+export function subscribeReportEvents(listener: (event: ReportEvent) => void) {
+  emitter.on("report", listener);
+  return () => {
+    emitter.off("report", listener);
+  };
+}
@@ -0,0 +1,31 @@
+import type { Feature, FeatureCollection, Point } from "geojson";
+import { HAZARD_STATUS_COLOR, locationLabel, type HazardReport } from "./hazard-report";
+
+// RFC 7946 export. `marker-color` follows the simplestyle convention, which most
+// GIS viewers use to colour points.
+export function reportsToGeoJSON(rows: HazardReport[]): FeatureCollection<Point> {
+  return {
+    type: "FeatureCollection",
+    features: rows.map(
+      (r): Feature<Point> => ({
+        type: "Feature",
+        id: r.id,
+        geometry: { type: "Point", coordinates: [r.lng, r.lat] },
+        properties: {
+          id: r.id,
+          title: r.title,
+          type: r.type,
+          status: r.status,
+          verification: r.verification,
+          source: r.source,
+          timestamp: r.timestamp,
+          location: locationLabel(r),
+          personName: r.personName,
+          tags: r.tags,
+          description: r.description,
+          "marker-color": HAZARD_STATUS_COLOR[r.status],
+        },
+      })
+    ),
+  };
+}
@@ -0,0 +1,195 @@
+import { z } from "zod";
+import { auditEntrySchema } from "@/lib/audit/audit-entry";
+
+// Canonical hazard report model shared by the map, the report table and the API.
+
+export const HAZARD_STATUSES = ["unverified", "under_review", "verified", "false_alarm"] as const;
+export const HAZARD_VERIFICATIONS = ["unverified", "pending", "verified"] as const;
+export const HAZARD_SOURCES = ["citizen", "sensor", "social", "official", "other"] as const;
+export const MEDIA_KINDS = ["image", "video"] as const;
+// How urgently a report needs a reviewer; sets its review deadline (src/lib/sla)
+export const HAZARD_SEVERITIES = ["emergency", "high", "moderate", "low"] as const;
+// Offered on the public submission form; staff-entered reports may use any type
+export const HAZARD_TYPES = [
+  "flood",
+  "cyclone",
+  "storm",
+  "high_waves",
+  "tsunami",
+  "landslide",
+  "oil_spill",
+  "pollution",
+  "other",
+] as const;
+
+export const hazardStatusSchema = z.enum(HAZARD_STATUSES);
+export const hazardVerificationSchema = z.enum(HAZARD_VERIFICATIONS);
+export const hazardSourceSchema = z.enum(HAZARD_SOURCES);
+export const mediaKindSchema = z.enum(MEDIA_KINDS);
+export const hazardSeveritySchema = z.enum(HAZARD_SEVERITIES);
+
+export type HazardStatus = z.infer<typeof hazardStatusSchema>;
+export type HazardVerification = z.infer<typeof hazardVerificationSchema>;
+export type HazardSource = z.infer<typeof hazardSourceSchema>;
+export type MediaKind = z.infer<typeof mediaKindSchema>;
+export type HazardSeverity = z.infer<typeof hazardSeveritySchema>;
+
+export const reportMediaSchema = z.object({
+  id: z.number().int(),
+  kind: mediaKindSchema,
+  url: z.string().min(1),
+});
+
+export const reportNoteSchema = z.object({
+  id: z.number().int(),
+  authorId: z.string(),
+  author: z.string(),
+  body: z.string(),
+  createdAt: z.iso.datetime({ offset: true }),
+});
+
+// A duplicate merged into another report, as listed on that report
+export const mergedReportSchema = z.object({
+  id: z.string().min(1),
+  personName: z.string().optional(),
+  source: hazardSourceSchema,
+  timestamp: z.iso.datetime({ offset: true }),
+  mergedAt: z.iso.datetime({ offset: true }),
+});
+
+export const hazardReportSchema = z.object({
+  id: z.string().min(1),
+  type: z.string().min(1),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  status: hazardStatusSchema,
+  verification: hazardVerificationSchema,
+  source: hazardSourceSchema,
+  severity: hazardSeveritySchema,
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  locationName: z.string().optional(),
+  personName: z.string().optional(),
+  timestamp: z.iso.datetime({ offset: true }), // when the hazard was reported
+  // Who is working the report: a reviewer, a team, or both (a reviewer on that team)
+  assigneeId: z.string().nullable(),
+  assignee: z.string().nullable(), // the reviewer's name
+  teamId: z.string().nullable(),
+  team: z.string().nullable(),
+  // Review deadline from the SLA targets; null when none applies. reviewedAt is when
+  // the report first left New, escalatedAt when it was flagged for missing dueAt.
+  dueAt: z.iso.datetime({ offset: true }).nullable(),
+  reviewedAt: z.iso.datetime({ offset: true }).nullable(),
+  escalatedAt: z.iso.datetime({ offset: true }).nullable(),
+  // Set once the report is merged into another as a duplicate; merged reports are
+  // left out of default views. mergedReports lists those merged into this one.
+  mergedIntoId: z.string().nullable(),
+  mergedAt: z.iso.datetime({ offset: true }).nullable(),
+  mergedReports: z.array(mergedReportSchema),
+  tags: z.array(z.string()),
+  media: z.array(reportMediaSchema),
+  notes: z.array(reportNoteSchema),
+  audit: z.array(auditEntrySchema),
+  createdAt: z.iso.datetime({ offset: true }),
+  updatedAt: z.iso.datetime({ offset: true }),
+});
+
+// What the map and dashboard load for every report at once: the record without its
+// history, notes, media and merged duplicates, which only a single report carries
+export const reportSummarySchema = hazardReportSchema.omit({
+  mergedReports: true,
+  media: true,
+  notes: true,
+  audit: true,
+});
+
+// One page of the report table (POST /api/reports/query). Cursors are opaque and
+// null at either end; `types` lists every hazard type for the filter menu, and
+// `duplicates` counts the possible duplicates of each listed report that has any.
+export const reportPageSchema = z.object({
+  reports: z.array(hazardReportSchema),
+  total: z.number().int(), // all reports matching the filters
+  nextCursor: z.string().nullable(),
+  prevCursor: z.string().nullable(),
+  types: z.array(z.string()),
+  duplicates: z.record(z.string(), z.number().int()),
+});
+
+export type ReportMedia = z.infer<typeof reportMediaSchema>;
+export type ReportNote = z.infer<typeof reportNoteSchema>;
+export type MergedReport = z.infer<typeof mergedReportSchema>;
+export type HazardReport = z.infer<typeof hazardReportSchema>;
+export type ReportSummary = z.infer<typeof reportSummarySchema>;
+export type ReportPage = z.infer<typeof reportPageSchema>;
+
+export const HAZARD_STATUS_LABEL: Record<HazardStatus, string> = {
+  unverified: "Unverified",
+  under_review: "Under Review",
+  verified: "Verified",
+  false_alarm: "False Alarm",
+};
+
+export const HAZARD_SEVERITY_LABEL: Record<HazardSeverity, string> = {
+  emergency: "Emergency",
+  high: "High",
+  moderate: "Moderate",
+  low: "Low",
+};
+
+// Marker colours on the map, reused by the GeoJSON and KML exports
+export const HAZARD_STATUS_COLOR: Record<HazardStatus, string> = {
+  unverified: "#f59e0b",
+  under_review: "#0ea5e9",
+  verified: "#10b981",
+  false_alarm: "#ef4444",
+};
+
+// Triage vocabulary used by the report table. It names the same four lifecycle
+// states from a reviewer's point of view; it is never stored.
+export const TRIAGE_STATUSES = ["new", "in_review", "verified", "dismissed"] as const;
+export type TriageStatus = (typeof TRIAGE_STATUSES)[number];
+
+export const STATUS_TO_TRIAGE: Record<HazardStatus, TriageStatus> = {
+  unverified: "new",
+  under_review: "in_review",
+  verified: "verified",
+  false_alarm: "dismissed",
+};
+
+export const TRIAGE_TO_STATUS: Record<TriageStatus, HazardStatus> = {
+  new: "unverified",
+  in_review: "under_review",
+  verified: "verified",
+  dismissed: "false_alarm",
+};
+
+export const TRIAGE_STATUS_LABEL: Record<TriageStatus, string> = {
+  new: "New",
+  in_review: "In Review",
+  verified: "Verified",
+  dismissed: "Dismissed",
+};
+
+export function isTriageStatus(value: string): value is TriageStatus {
+  return (TRIAGE_STATUSES as readonly string[]).includes(value);
+}
+
+// Accepts either vocabulary and returns the canonical status
+export function parseHazardStatus(value: string): HazardStatus | null {
+  if (isTriageStatus(value)) return TRIAGE_TO_STATUS[value];
+  const parsed = hazardStatusSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+// The pushed or saved record as the map's list holds it
+export function toReportSummary(report: HazardReport): ReportSummary {
+  return reportSummarySchema.parse(report);
+}
+
+export function locationLabel(r: Pick<HazardReport, "lat" | "lng" | "locationName">) {
+  return r.locationName ?? `${r.lat.toFixed(4)}, ${r.lng.toFixed(4)}`;
+}
+
+export function hazardTypeLabel(type: string) {
+  return type.charAt(0).toUpperCase() + type.slice(1).replace(/_/g, " ");
+}
@@ -0,0 +1,69 @@
+import {
+  HAZARD_STATUSES,
+  HAZARD_STATUS_COLOR,
+  HAZARD_STATUS_LABEL,
+  locationLabel,
+  type HazardReport,
+  type HazardStatus,
+} from "./hazard-report";
+
+function xmlEscape(v: unknown) {
+  return String(v ?? "").replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+// KML colours are aabbggrr
+function kmlColor(hex: string) {
+  const [r, g, b] = [hex.slice(1, 3), hex.slice(3, 5), hex.slice(5, 7)];
+  return `ff${b}${g}${r}`;
+}
+
+function styleId(status: HazardStatus) {
+  return `status-${status}`;
+}
+
+const ICON = "https://maps.google.com/mapfiles/kml/shapes/placemark_circle.png";
+
+// One shared style per status, referenced by each placemark
+export function reportsToKML(rows: HazardReport[]) {
+  const styles = HAZARD_STATUSES.map(
+    (s) => `    <Style id="${styleId(s)}">
+      <IconStyle>
+        <color>${kmlColor(HAZARD_STATUS_COLOR[s])}</color>
+        <Icon><href>${ICON}</href></Icon>
+      </IconStyle>
+      <LabelStyle><scale>0</scale></LabelStyle>
+    </Style>`
+  );
+  const placemarks = rows.map((r) => {
+    const data = {
+      id: r.id,
+      type: r.type,
+      status: HAZARD_STATUS_LABEL[r.status],
+      verification: r.verification,
+      source: r.source,
+      location: locationLabel(r),
+      personName: r.personName,
+      tags: r.tags.join(", "),
+    };
+    return `    <Placemark id="${xmlEscape(r.id)}">
+      <name>${xmlEscape(r.title ?? r.type)}</name>
+      <description>${xmlEscape(r.description)}</description>
+      <TimeStamp><when>${xmlEscape(r.timestamp)}</when></TimeStamp>
+      <styleUrl>#${styleId(r.status)}</styleUrl>
+      <ExtendedData>
+${Object.entries(data)
+  .map(([name, value]) => `        <Data name="${name}"><value>${xmlEscape(value)}</value></Data>`)
+  .join("\n")}
+      </ExtendedData>
+      <Point><coordinates>${r.lng},${r.lat}</coordinates></Point>
+    </Placemark>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>Hazard reports</name>
+${[...styles, ...placemarks].join("\n")}
+  </Document>
+</kml>
+`;
+}
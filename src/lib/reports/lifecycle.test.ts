@@ -0,0 +1,17 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { creationProblem } from "./lifecycle";
+
+describe("creationProblem", () => {
+  test("allows a report entered already triaged", () => {
+    assert.equal(creationProblem({ status: "unverified", verification: "unverified" }), null);
+    assert.equal(creationProblem({ status: "under_review", verification: "pending" }), null);
+    assert.equal(creationProblem({ status: "verified", verification: "verified" }), null);
+  });
+
+  test("rejects a Verified report whose verification is not", () => {
+    for (const verification of ["unverified", "pending"] as const) {
+      assert.match(creationProblem({ status: "verified", verification }) ?? "", /Set verification to Verified/);
+    }
+  });
+});
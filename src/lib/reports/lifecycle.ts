@@ -0,0 +1,72 @@
+import {
+  STATUS_TO_TRIAGE,
+  TRIAGE_STATUS_LABEL,
+  type HazardReport,
+  type HazardStatus,
+  type HazardVerification,
+} from "./hazard-report";
+
+// The report lifecycle, enforced on every status change. A report comes in as New,
+// is taken into review and is closed as Verified or Dismissed; a closed report can
+// only be reopened into review. Dismissing and reopening need a reason for the audit
+// trail, and a report is only Verified once its verification is.
+
+export const STATUS_TRANSITIONS: Record<HazardStatus, readonly HazardStatus[]> = {
+  unverified: ["under_review", "false_alarm"],
+  under_review: ["unverified", "verified", "false_alarm"],
+  verified: ["under_review", "false_alarm"],
+  false_alarm: ["under_review"],
+};
+
+// A report a bulk update left unchanged, and why
+export interface RejectedUpdate {
+  id: string;
+  error: string;
+}
+
+const CLOSED_STATUSES: readonly HazardStatus[] = ["verified", "false_alarm"];
+
+function label(status: HazardStatus) {
+  return TRIAGE_STATUS_LABEL[STATUS_TO_TRIAGE[status]];
+}
+
+export function canTransition(from: HazardStatus, to: HazardStatus) {
+  return from === to || STATUS_TRANSITIONS[from].includes(to);
+}
+
+export function transitionNeedsReason(from: HazardStatus, to: HazardStatus) {
+  return from !== to && (to === "false_alarm" || CLOSED_STATUSES.includes(from));
+}
+
+// Why a report may not be entered with these fields, or null when it may. Staff can
+// enter a report already triaged, but not Verified ahead of its verification.
+export function creationProblem(fields: Pick<HazardReport, "status" | "verification">): string | null {
+  if (fields.status === "verified" && fields.verification !== "verified") {
+    return "Set verification to Verified before verifying the report";
+  }
+  return null;
+}
+
+// Why the change may not be made, or null when it may. `patch` holds only the fields
+// being changed.
+export function transitionProblem(
+  current: Pick<HazardReport, "status" | "verification">,
+  patch: { status?: HazardStatus; verification?: HazardVerification },
+  reason?: string
+): string | null {
+  const from = current.status;
+  const to = patch.status ?? from;
+  const verification = patch.verification ?? current.verification;
+  if (!canTransition(from, to)) {
+    return `A ${label(from)} report cannot be set to ${label(to)}`;
+  }
+  if (transitionNeedsReason(from, to) && !reason?.trim()) {
+    return to === "false_alarm" ? "Give a reason for dismissing the report" : "Give a reason for reopening the report";
+  }
+  if (to === "verified" && verification !== "verified") {
+    return from === "verified"
+      ? "Reopen the report before changing its verification"
+      : "Set verification to Verified before verifying the report";
+  }
+  return null;
+}
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { toReportSummary, type HazardReport } from "./hazard-report";
+import { applyReportEvent } from "./report-event";
+
+const report: HazardReport = {
+  id: "HR-TEST0001",
+  type: "flood",
+  status: "under_review",
+  verification: "pending",
+  source: "citizen",
+  severity: "moderate",
+  lat: -8.5,
+  lng: 115.2,
+  timestamp: "2025-09-01T10:00:00.000Z",
+  assigneeId: null,
+  assignee: null,
+  teamId: null,
+  team: null,
+  dueAt: null,
+  reviewedAt: "2025-09-01T10:30:00.000Z",
+  escalatedAt: null,
+  mergedIntoId: null,
+  mergedAt: null,
+  mergedReports: [],
+  tags: ["flood"],
+  media: [{ id: 1, kind: "image", url: "/uploads/flood.jpg" }],
+  notes: [
+    { id: 1, authorId: "u1", author: "Reviewer", body: "Called the harbour", createdAt: "2025-09-01T10:40:00.000Z" },
+  ],
+  audit: [],
+  createdAt: "2025-09-01T10:00:00.000Z",
+  updatedAt: "2025-09-01T10:40:00.000Z",
+};
+
+test("keeps pushed reports as summaries in a summary list", () => {
+  const list = [toReportSummary({ ...report, status: "unverified" })];
+  const next = applyReportEvent(list, { kind: "updated", report }, toReportSummary);
+  assert.equal(next.length, 1);
+  assert.equal(next[0]!.status, "under_review");
+  assert.deepEqual(next[0]!.tags, ["flood"]);
+  for (const key of ["media", "notes", "audit", "mergedReports"]) assert.ok(!(key in next[0]!), key);
+});
+
+test("adds unknown reports first and drops merged ones", () => {
+  const other = toReportSummary({ ...report, id: "HR-TEST0002" });
+  const added = applyReportEvent([other], { kind: "created", report }, toReportSummary);
+  assert.deepEqual(added.map((r) => r.id), ["HR-TEST0001", "HR-TEST0002"]);
+  const merged = applyReportEvent(added, { kind: "merged", id: "HR-TEST0002", into: "HR-TEST0001" }, toReportSummary);
+  assert.deepEqual(merged.map((r) => r.id), ["HR-TEST0001"]);
+});
@@ -0,0 +1,36 @@
+import { z } from "zod";
+import { hazardReportSchema, type HazardReport, type ReportSummary } from "./hazard-report";
+
+// Report changes pushed to connected clients over /api/reports/stream. `escalated`
+// carries a report that has just missed its review deadline; `merged` names a report
+// just merged into another as a duplicate, which drops out of lists like a deleted one.
+
+export const REPORT_EVENT_KINDS = ["created", "updated", "status", "escalated", "merged", "deleted"] as const;
+
+export const reportEventSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("created"), report: hazardReportSchema }),
+  z.object({ kind: z.literal("updated"), report: hazardReportSchema }),
+  z.object({ kind: z.literal("status"), report: hazardReportSchema }),
+  z.object({ kind: z.literal("escalated"), report: hazardReportSchema }),
+  z.object({ kind: z.literal("merged"), id: z.string(), into: z.string() }),
+  z.object({ kind: z.literal("deleted"), id: z.string() }),
+]);
+
+export type ReportEvent = z.infer<typeof reportEventSchema>;
+export type ReportEventKind = ReportEvent["kind"];
+
+// Newest-first list with the event applied; unknown ids are added, not ignored.
+// `toItem` turns the pushed report into what the list holds, e.g. a summary.
+export function applyReportEvent<T extends ReportSummary>(
+  list: T[],
+  event: ReportEvent,
+  toItem: (report: HazardReport) => T
+): T[] {
+  if (event.kind === "deleted" || event.kind === "merged") return list.filter((r) => r.id !== event.id);
+  const report = toItem(event.report);
+  const index = list.findIndex((r) => r.id === report.id);
+  if (index === -1) return [report, ...list];
+  const next = list.slice();
+  next[index] = report;
+  return next;
+}
@@ -0,0 +1,900 @@
+import { randomUUID } from "node:crypto";
+import type { z } from "zod";
+import { and, asc, count, desc, eq, gt, gte, inArray, isNull, lt, lte, or, sql, type SQL } from "drizzle-orm";
+import { db, type Transaction } from "@/db";
+import { reportMedia, reportNotes, reportTags, reports, teams, user, type ReportRow } from "@/db/schema";
+import type { AuditAction, AuditActor } from "@/lib/audit/audit-entry";
+import { appendAudit, listAudit } from "@/lib/audit/repository";
+import { listSlaTargets } from "@/lib/sla/repository";
+import { slaDueAt } from "@/lib/sla/sla";
+import { listReviewers } from "@/lib/teams/repository";
+import {
+  DUPLICATE_WINDOW_MS,
+  MAX_DUPLICATE_CANDIDATES,
+  duplicateBounds,
+  duplicateMatch,
+  type DuplicateCandidate,
+} from "./duplicates";
+import { publishReportChange, publishReportEvent } from "./events";
+import type { HazardReport, ReportPage, ReportSummary } from "./hazard-report";
+import { creationProblem, transitionProblem, type RejectedUpdate } from "./lifecycle";
+import { groupSearchTerms, parseSearchQuery, type SearchTerm } from "./search-query";
+import type { ReportSortKey } from "./table-state";
+import type { CreateReportInput, ReportFilterInput, UpdateReportInput, reportQueryInput } from "./validation";
+
+// Report columns whose changes are written to the audit trail
+const AUDITED_FIELDS = [
+  "type",
+  "title",
+  "description",
+  "status",
+  "verification",
+  "source",
+  "severity",
+  "lat",
+  "lng",
+  "locationName",
+  "personName",
+  "reportedAt",
+  "assigneeId",
+  "teamId",
+] as const;
+
+type AuditedField = (typeof AUDITED_FIELDS)[number];
+
+// The report changed since the version the caller based its update on
+export class ReportConflictError extends Error {
+  constructor(readonly reportId: string) {
+    super(`Report ${reportId} was changed by someone else`);
+    this.name = "ReportConflictError";
+  }
+}
+
+// The status change breaks the report lifecycle (lifecycle.ts)
+export class InvalidTransitionError extends Error {
+  constructor(
+    readonly reportId: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "InvalidTransitionError";
+  }
+}
+
+// The assignee is not someone who can review reports, or the team does not exist
+export class InvalidAssignmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidAssignmentError";
+  }
+}
+
+// The reports cannot be merged as asked: one is already merged, or is the primary itself
+export class InvalidMergeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidMergeError";
+  }
+}
+
+function newReportId() {
+  return `HR-${randomUUID().slice(0, 8).toUpperCase()}`;
+}
+
+function normalizeTags(tags: string[]) {
+  return Array.from(new Set(tags.map((t) => t.trim().toLowerCase()).filter(Boolean)));
+}
+
+// Before/after values of the fields `next` actually changes, or null when nothing does
+function diffFields(current: ReportRow, next: Partial<Pick<ReportRow, AuditedField>>) {
+  const before: Record<string, unknown> = {};
+  const after: Record<string, unknown> = {};
+  for (const key of AUDITED_FIELDS) {
+    if (!(key in next) || next[key] === undefined || next[key] === current[key]) continue;
+    before[key] = current[key];
+    after[key] = next[key];
+  }
+  return Object.keys(after).length ? { before, after } : null;
+}
+
+function auditActionFor(changed: Record<string, unknown>): AuditAction {
+  const keys = Object.keys(changed);
+  if (keys.length === 1 && keys[0] === "status") return "status.change";
+  if (keys.length === 1 && keys[0] === "verification") return "verification.change";
+  if (keys.every((k) => k === "assigneeId" || k === "teamId")) return "report.assign";
+  return "report.edit";
+}
+
+type Assignment = { assigneeId?: string | null; teamId?: string | null };
+
+// Checks the assignment and fills in the team: a reviewer on a team brings the report
+// to that team unless the patch names one
+async function resolveAssignment(patch: Assignment): Promise<Assignment> {
+  const resolved = { ...patch };
+  if (patch.assigneeId) {
+    const reviewer = (await listReviewers()).find((r) => r.id === patch.assigneeId);
+    if (!reviewer) throw new InvalidAssignmentError(`User ${patch.assigneeId} is not an active reviewer`);
+    if (patch.teamId === undefined && reviewer.teamId) resolved.teamId = reviewer.teamId;
+  }
+  if (resolved.teamId) {
+    const [team] = await db.select({ id: teams.id }).from(teams).where(eq(teams.id, resolved.teamId));
+    if (!team) throw new InvalidAssignmentError(`Team ${resolved.teamId} not found`);
+  }
+  return resolved;
+}
+
+// Deadline bookkeeping for an update: the clock stops the first time the report
+// leaves New, and while it runs a new type or severity moves the deadline
+async function slaChanges(
+  tx: Transaction,
+  current: ReportRow,
+  next: Partial<Pick<ReportRow, "status" | "type" | "severity">>,
+  now: string
+): Promise<Partial<Pick<ReportRow, "dueAt" | "reviewedAt">>> {
+  if (current.reviewedAt) return {};
+  if (next.status && next.status !== "unverified") return { reviewedAt: now };
+  const type = next.type ?? current.type;
+  const severity = next.severity ?? current.severity;
+  if (type === current.type && severity === current.severity) return {};
+  return { dueAt: slaDueAt(await listSlaTargets(tx), type, severity, current.createdAt) };
+}
+
+// Listing everything is the common case; past this many rows child tables are read
+// whole rather than through an IN (...) list, which would pass SQLite's variable limit
+const SCOPED_ROWS = 500;
+
+// Assemble summary records: the report columns with tag, assignee and team names
+async function summarize(rows: ReportRow[]): Promise<ReportSummary[]> {
+  if (rows.length === 0) return [];
+  const ids = rows.map((r) => r.id);
+  const scoped = ids.length <= SCOPED_ROWS;
+  const assigneeIds = Array.from(new Set(rows.flatMap((r) => (r.assigneeId ? [r.assigneeId] : []))));
+  const [tags, assignees, teamRows] = await Promise.all([
+    db.select().from(reportTags).where(scoped ? inArray(reportTags.reportId, ids) : undefined),
+    assigneeIds.length
+      ? db.select({ id: user.id, name: user.name }).from(user).where(inArray(user.id, assigneeIds))
+      : [],
+    db.select({ id: teams.id, name: teams.name }).from(teams),
+  ]);
+  const assigneeName = new Map(assignees.map((u) => [u.id, u.name]));
+  const teamName = new Map(teamRows.map((t) => [t.id, t.name]));
+
+  const byReport = new Map<string, ReportSummary>();
+  const records = rows.map((r) => {
+    const record: ReportSummary = {
+      id: r.id,
+      type: r.type,
+      title: r.title ?? undefined,
+      description: r.description ?? undefined,
+      status: r.status,
+      verification: r.verification,
+      source: r.source,
+      severity: r.severity,
+      lat: r.lat,
+      lng: r.lng,
+      locationName: r.locationName ?? undefined,
+      personName: r.personName ?? undefined,
+      timestamp: r.reportedAt,
+      assigneeId: r.assigneeId,
+      assignee: r.assigneeId ? (assigneeName.get(r.assigneeId) ?? null) : null,
+      teamId: r.teamId,
+      team: r.teamId ? (teamName.get(r.teamId) ?? null) : null,
+      dueAt: r.dueAt,
+      reviewedAt: r.reviewedAt,
+      escalatedAt: r.escalatedAt,
+      mergedIntoId: r.mergedIntoId,
+      mergedAt: r.mergedAt,
+      tags: [],
+      createdAt: r.createdAt,
+      updatedAt: r.updatedAt,
+    };
+    byReport.set(r.id, record);
+    return record;
+  });
+  for (const t of tags) byReport.get(t.reportId)?.tags.push(t.tag);
+  return records;
+}
+
+// Load child rows for the given reports and assemble API records. A report's audit
+// history includes that of the duplicates merged into it.
+async function hydrate(rows: ReportRow[]): Promise<HazardReport[]> {
+  if (rows.length === 0) return [];
+  const ids = rows.map((r) => r.id);
+  const scoped = ids.length <= SCOPED_ROWS;
+  const merged = await db
+    .select({
+      id: reports.id,
+      personName: reports.personName,
+      source: reports.source,
+      reportedAt: reports.reportedAt,
+      mergedIntoId: reports.mergedIntoId,
+      mergedAt: reports.mergedAt,
+    })
+    .from(reports)
+    .where(scoped ? inArray(reports.mergedIntoId, ids) : sql`${reports.mergedIntoId} is not null`)
+    .orderBy(asc(reports.mergedAt), asc(reports.id));
+  const primaryOf = new Map(merged.map((m) => [m.id, m.mergedIntoId!]));
+  const [summaries, media, notes, audit] = await Promise.all([
+    summarize(rows),
+    db
+      .select()
+      .from(reportMedia)
+      .where(scoped ? inArray(reportMedia.reportId, ids) : undefined)
+      .orderBy(asc(reportMedia.id)),
+    db
+      .select()
+      .from(reportNotes)
+      .where(scoped ? inArray(reportNotes.reportId, ids) : undefined)
+      .orderBy(asc(reportNotes.id)),
+    listAudit("report", scoped ? [...ids, ...primaryOf.keys()] : undefined),
+  ]);
+
+  const byReport = new Map<string, HazardReport>();
+  const records = summaries.map((summary) => {
+    const record: HazardReport = { ...summary, mergedReports: [], media: [], notes: [], audit: [] };
+    byReport.set(record.id, record);
+    return record;
+  });
+  for (const m of media) byReport.get(m.reportId)?.media.push({ id: m.id, kind: m.kind, url: m.url });
+  for (const n of notes) {
+    byReport.get(n.reportId)?.notes.push({
+      id: n.id,
+      authorId: n.authorId,
+      author: n.authorName,
+      body: n.body,
+      createdAt: n.createdAt,
+    });
+  }
+  for (const m of merged) {
+    byReport.get(m.mergedIntoId!)?.mergedReports.push({
+      id: m.id,
+      personName: m.personName ?? undefined,
+      source: m.source,
+      timestamp: m.reportedAt,
+      mergedAt: m.mergedAt!,
+    });
+  }
+  for (const a of audit) {
+    if (!a.subjectId) continue;
+    byReport.get(a.subjectId)?.audit.push(a);
+    const primary = primaryOf.get(a.subjectId);
+    if (primary) byReport.get(primary)?.audit.push(a);
+  }
+  return records;
+}
+
+// Every report for the map and dashboard, as summaries: audit history, notes and
+// media grow without bound and are loaded per report (getReport). Merged duplicates
+// are left out.
+export async function listReports(): Promise<ReportSummary[]> {
+  const rows = await db.select().from(reports).where(isNull(reports.mergedIntoId)).orderBy(desc(reports.reportedAt));
+  return summarize(rows);
+}
+
+// LIKE treats % and _ as wildcards; search text matches them literally
+function likePattern(text: string) {
+  return `%${text.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+}
+
+function nextDay(date: string) {
+  return new Date(Date.parse(`${date}T00:00:00.000Z`) + 24 * 60 * 60 * 1000).toISOString();
+}
+
+// One term of the search language (search-query.ts) as SQL
+function searchTermCondition(term: SearchTerm): SQL | undefined {
+  switch (term.field) {
+    case null: {
+      const pattern = likePattern(term.value);
+      return or(
+        sql`${reports.id} like ${pattern} escape '\\'`,
+        sql`${reports.type} like ${pattern} escape '\\'`,
+        sql`${reports.locationName} like ${pattern} escape '\\'`,
+        sql`${reports.description} like ${pattern} escape '\\'`
+      );
+    }
+    case "type":
+    case "status":
+    case "verification":
+    case "source":
+    case "severity":
+      return eq(reports[term.field], term.value);
+    case "after":
+      return gte(reports.reportedAt, `${term.value}T00:00:00.000Z`);
+    case "before":
+      return lt(reports.reportedAt, nextDay(term.value));
+    case "near":
+      return sql`${reports.locationName} like ${likePattern(term.value)} escape '\\'`;
+    case "tag":
+      return sql`exists (select 1 from ${reportTags} where ${reportTags.reportId} = ${reports.id} and ${reportTags.tag} = ${term.value})`;
+    case "id":
+      return sql`${reports.id} = ${term.value} collate nocase`;
+  }
+}
+
+// WHERE clause for the report table's filters. reportedAt is stored as a UTC ISO
+// string, so the date range compares as text and can use its index. `q` has been
+// checked by reportFilterInput, so no malformed term is dropped silently. `mine`
+// needs the signed-in user and matches nothing without one. Merged duplicates only
+// match when the query asks for them by id.
+function reportFilterWhere(filter: ReportFilterInput, viewerId?: string): SQL | undefined {
+  const conditions: (SQL | undefined)[] = [];
+  const terms = filter.q ? parseSearchQuery(filter.q).terms : [];
+  if (!terms.some((term) => term.field === "id" && !term.negated)) conditions.push(isNull(reports.mergedIntoId));
+  if (filter.mine) {
+    conditions.push(
+      viewerId
+        ? and(
+            inArray(reports.status, ["unverified", "under_review"]),
+            or(
+              eq(reports.assigneeId, viewerId),
+              and(
+                isNull(reports.assigneeId),
+                sql`${reports.teamId} = (select ${user.teamId} from ${user} where ${user.id} = ${viewerId})`
+              )
+            )
+          )
+        : sql`0`
+    );
+  }
+  if (terms.length) {
+    for (const group of groupSearchTerms(terms)) {
+      conditions.push(
+        // A NULL column counts as not matching, so an exclusion keeps the row
+        group[0].negated ? sql`not coalesce(${searchTermCondition(group[0])}, 0)` : or(...group.map(searchTermCondition))
+      );
+    }
+  }
+  if (filter.type) conditions.push(eq(reports.type, filter.type));
+  if (filter.status) conditions.push(eq(reports.status, filter.status));
+  if (filter.verification) conditions.push(eq(reports.verification, filter.verification));
+  if (filter.source) conditions.push(eq(reports.source, filter.source));
+  if (filter.from) conditions.push(gte(reports.reportedAt, `${filter.from}T00:00:00.000Z`));
+  if (filter.to) conditions.push(lt(reports.reportedAt, nextDay(filter.to)));
+  // One JSON parameter rather than an IN (...) list, which a large map selection would
+  // push past SQLite's variable limit
+  if (filter.ids) conditions.push(sql`${reports.id} in (select value from json_each(${JSON.stringify(filter.ids)}))`);
+  return and(...conditions);
+}
+
+// The reports an export covers: the given ids, if any, within the time range and
+// matching the table filters
+export async function listReportsForExport({
+  ids,
+  from,
+  to,
+  where,
+  viewerId,
+}: {
+  ids?: string[];
+  from?: string;
+  to?: string;
+  where?: ReportFilterInput;
+  viewerId?: string;
+}) {
+  // A report named by both the selection and the filters has to be in each
+  const filtered = where?.ids ? new Set(where.ids) : null;
+  const selected = ids && filtered ? ids.filter((id) => filtered.has(id)) : (ids ?? where?.ids);
+  const rows = await db
+    .select()
+    .from(reports)
+    .where(
+      and(
+        reportFilterWhere({ ...where, ids: selected }, viewerId),
+        from ? gte(reports.reportedAt, new Date(from).toISOString()) : undefined,
+        to ? lte(reports.reportedAt, new Date(to).toISOString()) : undefined
+      )
+    )
+    .orderBy(desc(reports.reportedAt));
+  return hydrate(rows);
+}
+
+// Table columns as SQL; reports without a place name sort as an empty one, and
+// those without a deadline after every dated one. Each sort has a (column, id) index
+// except location and due, which order by an expression.
+const NO_DEADLINE = "9999";
+
+const SORT_COLUMNS: Record<ReportSortKey, SQL> = {
+  timestamp: sql`${reports.reportedAt}`,
+  type: sql`${reports.type}`,
+  location: sql`coalesce(${reports.locationName}, '')`,
+  status: sql`${reports.status}`,
+  source: sql`${reports.source}`,
+  due: sql`coalesce(${reports.dueAt}, ${NO_DEADLINE})`,
+};
+
+// A cursor is the sort value and id of the row a page starts after (or, going
+// back, ends before)
+type Cursor = { v: string; id: string; back?: true };
+
+function encodeCursor(cursor: Cursor) {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(value: string): Cursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, "base64url").toString());
+    return typeof parsed?.v === "string" && typeof parsed?.id === "string" ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function sortValue(row: ReportRow, key: ReportSortKey) {
+  switch (key) {
+    case "timestamp":
+      return row.reportedAt;
+    case "location":
+      return row.locationName ?? "";
+    case "due":
+      return row.dueAt ?? NO_DEADLINE;
+    default:
+      return row[key];
+  }
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid page cursor");
+    this.name = "InvalidCursorError";
+  }
+}
+
+// Keyset pagination ordered by the sort column, then id. Going back runs the same
+// query in reverse from the cursor and flips the rows.
+export async function queryReports(
+  input: z.output<typeof reportQueryInput>,
+  viewerId?: string
+): Promise<ReportPage> {
+  const { sort, dir, limit, cursor: cursorParam, page, ...filter } = input;
+  const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+  if (cursorParam && !cursor) throw new InvalidCursorError();
+
+  const column = SORT_COLUMNS[sort];
+  const back = Boolean(cursor?.back);
+  const descending = (dir === "desc") !== back;
+  const where = reportFilterWhere(filter, viewerId);
+  const after = cursor
+    ? descending
+      ? or(lt(column, cursor.v), and(eq(column, cursor.v), lt(reports.id, cursor.id)))
+      : or(gt(column, cursor.v), and(eq(column, cursor.v), gt(reports.id, cursor.id)))
+    : undefined;
+  const order = descending ? [desc(column), desc(reports.id)] : [asc(column), asc(reports.id)];
+  const offset = !cursor && page ? (page - 1) * limit : 0;
+
+  const [rows, totals, types] = await Promise.all([
+    db
+      .select()
+      .from(reports)
+      .where(and(where, after))
+      .orderBy(...order)
+      .limit(limit + 1)
+      .offset(offset),
+    db.select({ total: count() }).from(reports).where(where),
+    db.selectDistinct({ type: reports.type }).from(reports).orderBy(asc(reports.type)),
+  ]);
+  const more = rows.length > limit;
+  const pageRows = rows.slice(0, limit);
+  if (back) pageRows.reverse();
+
+  const first = pageRows[0];
+  const last = pageRows[pageRows.length - 1];
+  const hasPrev = back ? more : Boolean(cursor) || offset > 0;
+  const hasNext = back ? true : more;
+  const [records, duplicates] = await Promise.all([hydrate(pageRows), countDuplicates(pageRows)]);
+  return {
+    reports: records,
+    total: totals[0]?.total ?? 0,
+    prevCursor: hasPrev && first ? encodeCursor({ v: sortValue(first, sort), id: first.id, back: true }) : null,
+    nextCursor: hasNext && last ? encodeCursor({ v: sortValue(last, sort), id: last.id }) : null,
+    types: types.map((t) => t.type),
+    duplicates,
+  };
+}
+
+// Unmerged reports of the same type as `row` near it in place and time, the ones
+// duplicate detection then measures
+function nearbyReports(row: ReportRow) {
+  const t = Date.parse(row.reportedAt);
+  const { minLat, maxLat, minLng, maxLng } = duplicateBounds(row.lat, row.lng);
+  return and(
+    eq(reports.type, row.type),
+    isNull(reports.mergedIntoId),
+    gte(reports.reportedAt, new Date(t - DUPLICATE_WINDOW_MS).toISOString()),
+    lte(reports.reportedAt, new Date(t + DUPLICATE_WINDOW_MS).toISOString()),
+    gte(reports.lat, minLat),
+    lte(reports.lat, maxLat),
+    gte(reports.lng, minLng),
+    lte(reports.lng, maxLng)
+  );
+}
+
+// Possible duplicates per report, for the rows that have any. The page's reports are
+// few, so their neighbourhoods are fetched in one query and measured in memory.
+async function countDuplicates(rows: ReportRow[]): Promise<Record<string, number>> {
+  const open = rows.filter((r) => !r.mergedIntoId);
+  if (open.length === 0) return {};
+  const nearby = await db
+    .select()
+    .from(reports)
+    .where(or(...open.map(nearbyReports)));
+  const counts: Record<string, number> = {};
+  for (const row of open) {
+    const n = nearby.filter((other) => duplicateMatch(row, other)).length;
+    if (n) counts[row.id] = n;
+  }
+  return counts;
+}
+
+// The report's possible duplicates, most likely first, or null when it does not exist.
+// A merged report has none.
+export async function findDuplicateCandidates(id: string): Promise<DuplicateCandidate[] | null> {
+  const [row] = await db.select().from(reports).where(eq(reports.id, id)).limit(1);
+  if (!row) return null;
+  if (row.mergedIntoId) return [];
+  const nearby = await db.select().from(reports).where(nearbyReports(row));
+  const matches = nearby
+    .flatMap((other) => {
+      const match = duplicateMatch(row, other);
+      return match ? [{ row: other, match }] : [];
+    })
+    .sort((a, b) => b.match.score - a.match.score)
+    .slice(0, MAX_DUPLICATE_CANDIDATES);
+  const records = new Map((await hydrate(matches.map((m) => m.row))).map((r) => [r.id, r]));
+  return matches.map(({ row: other, match }) => ({ report: records.get(other.id)!, ...match }));
+}
+
+export async function getReport(id: string): Promise<HazardReport | null> {
+  const rows = await db.select().from(reports).where(eq(reports.id, id)).limit(1);
+  const [record] = await hydrate(rows);
+  return record ?? null;
+}
+
+export async function createReport(input: CreateReportInput, actor: AuditActor): Promise<HazardReport> {
+  const id = newReportId();
+  const now = new Date().toISOString();
+  const status = input.status ?? "unverified";
+  const verification = input.verification ?? "unverified";
+  const severity = input.severity ?? "moderate";
+  const problem = creationProblem({ status, verification });
+  if (problem) throw new InvalidTransitionError(id, problem);
+  await db.transaction(async (tx) => {
+    const [row] = await tx
+      .insert(reports)
+      .values({
+        id,
+        type: input.type,
+        title: input.title,
+        description: input.description,
+        status,
+        verification,
+        source: input.source,
+        severity,
+        lat: input.lat,
+        lng: input.lng,
+        locationName: input.locationName,
+        personName: input.personName,
+        reportedAt: input.timestamp ? new Date(input.timestamp).toISOString() : now,
+        dueAt: slaDueAt(await listSlaTargets(tx), input.type, severity, now),
+        // Entered already triaged, so there is nothing left to review
+        reviewedAt: status === "unverified" ? null : now,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+    const tags = normalizeTags(input.tags ?? []);
+    if (tags.length) {
+      await tx.insert(reportTags).values(tags.map((tag) => ({ reportId: id, tag })));
+    }
+    if (input.media?.length) {
+      await tx
+        .insert(reportMedia)
+        .values(input.media.map((m) => ({ reportId: id, kind: m.kind, url: m.url, createdAt: now })));
+    }
+    await appendAudit(tx, {
+      subjectType: "report",
+      subjectId: id,
+      action: "report.create",
+      actor,
+      after: {
+        status: row!.status,
+        verification: row!.verification,
+        source: row!.source,
+        severity: row!.severity,
+      },
+    });
+  });
+  const report = (await getReport(id))!;
+  publishReportEvent({ kind: "created", report });
+  return report;
+}
+
+export async function updateReport(
+  id: string,
+  patch: UpdateReportInput,
+  actor: AuditActor
+): Promise<HazardReport | null> {
+  const { tags, timestamp, reason, expectedUpdatedAt, assigneeId, teamId, ...fields } = patch;
+  const next = {
+    ...fields,
+    ...(await resolveAssignment({ assigneeId, teamId })),
+    ...(timestamp ? { reportedAt: new Date(timestamp).toISOString() } : {}),
+  };
+  // The changed fields (empty when nothing changed), or null when the report does not exist
+  const changed = await db.transaction(async (tx) => {
+    const [current] = await tx.select().from(reports).where(eq(reports.id, id)).limit(1);
+    if (!current) return null;
+    if (expectedUpdatedAt && current.updatedAt !== new Date(expectedUpdatedAt).toISOString()) {
+      throw new ReportConflictError(id);
+    }
+    const problem = transitionProblem(current, { status: fields.status, verification: fields.verification }, reason);
+    if (problem) throw new InvalidTransitionError(id, problem);
+    const changes = diffFields(current, next);
+    if (changes) {
+      const now = new Date().toISOString();
+      await tx
+        .update(reports)
+        .set({ ...next, ...(await slaChanges(tx, current, next, now)), updatedAt: now })
+        .where(eq(reports.id, id));
+    }
+    let tagChange: { before: string[]; after: string[] } | null = null;
+    if (tags) {
+      const previous = (
+        await tx.select({ tag: reportTags.tag }).from(reportTags).where(eq(reportTags.reportId, id))
+      ).map((t) => t.tag);
+      const normalized = normalizeTags(tags);
+      if (previous.slice().sort().join() !== normalized.slice().sort().join()) {
+        await tx.delete(reportTags).where(eq(reportTags.reportId, id));
+        if (normalized.length) {
+          await tx.insert(reportTags).values(normalized.map((tag) => ({ reportId: id, tag })));
+        }
+        tagChange = { before: previous, after: normalized };
+      }
+    }
+    if (!changes && !tagChange) return {};
+    const before = { ...changes?.before, ...(tagChange ? { tags: tagChange.before } : {}) };
+    const after = { ...changes?.after, ...(tagChange ? { tags: tagChange.after } : {}) };
+    await appendAudit(tx, {
+      subjectType: "report",
+      subjectId: id,
+      action: auditActionFor(after),
+      actor,
+      before,
+      after,
+      reason,
+    });
+    return after;
+  });
+  if (!changed) return null;
+  const report = await getReport(id);
+  if (report && Object.keys(changed).length) publishReportChange(report, changed);
+  return report;
+}
+
+// Each report is checked against the lifecycle on its own: the ones that fail, or do
+// not exist, are left as they are and reported back rather than failing the batch
+export async function updateReports(
+  ids: string[],
+  patch: Pick<UpdateReportInput, "status" | "verification" | "assigneeId" | "teamId">,
+  actor: AuditActor,
+  reason?: string
+): Promise<{ reports: HazardReport[]; rejected: RejectedUpdate[] }> {
+  const { status, verification, ...assignment } = patch;
+  const next = { status, verification, ...(await resolveAssignment(assignment)) };
+  const changed = new Map<string, Record<string, unknown>>();
+  const rejected: RejectedUpdate[] = [];
+  await db.transaction(async (tx) => {
+    const current = await tx.select().from(reports).where(inArray(reports.id, ids));
+    const found = new Set(current.map((row) => row.id));
+    for (const id of ids) {
+      if (!found.has(id)) rejected.push({ id, error: `Report ${id} not found` });
+    }
+    const now = new Date().toISOString();
+    for (const row of current) {
+      const problem = transitionProblem(row, { status, verification }, reason);
+      if (problem) {
+        rejected.push({ id: row.id, error: problem });
+        continue;
+      }
+      const changes = diffFields(row, next);
+      if (!changes) continue;
+      changed.set(row.id, changes.after);
+      await tx
+        .update(reports)
+        .set({ ...next, ...(await slaChanges(tx, row, next, now)), updatedAt: now })
+        .where(eq(reports.id, row.id));
+      await appendAudit(tx, {
+        subjectType: "report",
+        subjectId: row.id,
+        action: auditActionFor(changes.after),
+        actor,
+        ...changes,
+        reason,
+      });
+    }
+  });
+  const rows = await db.select().from(reports).where(inArray(reports.id, ids));
+  const records = await hydrate(rows);
+  for (const report of records) {
+    const after = changed.get(report.id);
+    if (after) publishReportChange(report, after);
+  }
+  return { reports: records, rejected };
+}
+
+export async function addReportNote(
+  id: string,
+  body: string,
+  actor: AuditActor
+): Promise<HazardReport | null> {
+  const found = await db.transaction(async (tx) => {
+    const [current] = await tx.select({ id: reports.id }).from(reports).where(eq(reports.id, id)).limit(1);
+    if (!current) return false;
+    const now = new Date().toISOString();
+    await tx
+      .insert(reportNotes)
+      .values({ reportId: id, authorId: actor.id, authorName: actor.name, body, createdAt: now });
+    await appendAudit(tx, {
+      subjectType: "report",
+      subjectId: id,
+      action: "note.add",
+      actor,
+      after: { note: body },
+    });
+    return true;
+  });
+  if (!found) return null;
+  const report = await getReport(id);
+  if (report) publishReportEvent({ kind: "updated", report });
+  return report;
+}
+
+// Folds duplicates into the primary report. The primary gains their media and tags,
+// and lists them with their reporters; its audit history takes in theirs. Each
+// duplicate is kept, marked merged and out of default views, and its review clock is
+// stopped. Duplicates that were themselves primaries hand their merged reports on.
+// Returns null when the primary does not exist.
+export async function mergeReports(
+  primaryId: string,
+  duplicateIds: string[],
+  actor: AuditActor,
+  reason?: string
+): Promise<HazardReport | null> {
+  const ids = Array.from(new Set(duplicateIds));
+  const found = await db.transaction(async (tx) => {
+    const [primary] = await tx.select().from(reports).where(eq(reports.id, primaryId)).limit(1);
+    if (!primary) return false;
+    if (primary.mergedIntoId) {
+      throw new InvalidMergeError(`${primaryId} was merged into ${primary.mergedIntoId}; merge into that one instead`);
+    }
+    if (ids.includes(primaryId)) throw new InvalidMergeError("A report cannot be merged into itself");
+    const duplicates = await tx.select().from(reports).where(inArray(reports.id, ids));
+    for (const id of ids) {
+      const row = duplicates.find((d) => d.id === id);
+      if (!row) throw new InvalidMergeError(`Report ${id} not found`);
+      if (row.mergedIntoId) throw new InvalidMergeError(`${id} was already merged into ${row.mergedIntoId}`);
+    }
+
+    const now = new Date().toISOString();
+    const involved = [primaryId, ...ids];
+    const [media, tags] = await Promise.all([
+      tx.select().from(reportMedia).where(inArray(reportMedia.reportId, involved)).orderBy(asc(reportMedia.id)),
+      tx.select().from(reportTags).where(inArray(reportTags.reportId, involved)),
+    ]);
+    // The same file attached to several reports is copied once
+    const urls = new Set(media.filter((m) => m.reportId === primaryId).map((m) => m.url));
+    const newMedia: typeof media = [];
+    for (const m of media) {
+      if (urls.has(m.url)) continue;
+      urls.add(m.url);
+      newMedia.push(m);
+    }
+    if (newMedia.length) {
+      await tx
+        .insert(reportMedia)
+        .values(newMedia.map((m) => ({ reportId: primaryId, kind: m.kind, url: m.url, createdAt: m.createdAt })));
+    }
+    const primaryTags = new Set(tags.filter((t) => t.reportId === primaryId).map((t) => t.tag));
+    const newTags = normalizeTags(tags.map((t) => t.tag)).filter((tag) => !primaryTags.has(tag));
+    if (newTags.length) {
+      await tx.insert(reportTags).values(newTags.map((tag) => ({ reportId: primaryId, tag })));
+    }
+
+    await tx.update(reports).set({ mergedIntoId: primaryId }).where(inArray(reports.mergedIntoId, ids));
+    for (const row of duplicates) {
+      await tx
+        .update(reports)
+        .set({ mergedIntoId: primaryId, mergedAt: now, reviewedAt: row.reviewedAt ?? now, updatedAt: now })
+        .where(eq(reports.id, row.id));
+      await appendAudit(tx, {
+        subjectType: "report",
+        subjectId: row.id,
+        action: "report.merge",
+        actor,
+        before: { mergedIntoId: null },
+        after: { mergedIntoId: primaryId },
+        reason,
+      });
+    }
+    await tx.update(reports).set({ updatedAt: now }).where(eq(reports.id, primaryId));
+    await appendAudit(tx, {
+      subjectType: "report",
+      subjectId: primaryId,
+      action: "report.merge",
+      actor,
+      after: {
+        merged: ids,
+        ...(newMedia.length ? { media: newMedia.length } : {}),
+        ...(newTags.length ? { tags: newTags } : {}),
+      },
+      reason,
+    });
+    return true;
+  });
+  if (!found) return null;
+  const report = (await getReport(primaryId))!;
+  publishReportEvent({ kind: "updated", report });
+  for (const id of ids) publishReportEvent({ kind: "merged", id, into: primaryId });
+  return report;
+}
+
+// The audit history is kept; the deletion itself is recorded in it
+export async function deleteReport(id: string, actor: AuditActor): Promise<boolean> {
+  const deleted = await db.transaction(async (tx) => {
+    await tx.delete(reportTags).where(eq(reportTags.reportId, id));
+    await tx.delete(reportMedia).where(eq(reportMedia.reportId, id));
+    await tx.delete(reportNotes).where(eq(reportNotes.reportId, id));
+    const [row] = await tx.delete(reports).where(eq(reports.id, id)).returning();
+    if (!row) return false;
+    await appendAudit(tx, {
+      subjectType: "report",
+      subjectId: id,
+      action: "report.delete",
+      actor,
+      before: { type: row.type, status: row.status, verification: row.verification },
+    });
+    return true;
+  });
+  if (deleted) publishReportEvent({ kind: "deleted", id });
+  return deleted;
+}
+
+const ESCALATION_INTERVAL_MS = 60_000;
+const SLA_MONITOR: AuditActor = { id: "system", name: "SLA monitor" };
+
+// Kept on globalThis like the report events, so dev-server reloads share the clock
+const globalForEscalation = globalThis as unknown as { lastEscalationSweep?: number };
+
+// Flags each report still New past its review deadline, once, in the audit trail and
+// to connected clients. There is no scheduler: report reads and the live stream call
+// this, and it does the work at most once a minute per process. Escalation is system
+// bookkeeping, so updatedAt is left alone and open edits do not conflict with it.
+export async function escalateOverdueReports(now = Date.now()) {
+  if (now - (globalForEscalation.lastEscalationSweep ?? 0) < ESCALATION_INTERVAL_MS) return;
+  globalForEscalation.lastEscalationSweep = now;
+  const at = new Date(now).toISOString();
+  const rows = await db.transaction(async (tx) => {
+    const overdue = await tx
+      .update(reports)
+      .set({ escalatedAt: at })
+      .where(
+        and(
+          eq(reports.status, "unverified"),
+          isNull(reports.reviewedAt),
+          isNull(reports.escalatedAt),
+          lte(reports.dueAt, at)
+        )
+      )
+      .returning();
+    for (const row of overdue) {
+      await appendAudit(tx, {
+        subjectType: "report",
+        subjectId: row.id,
+        action: "report.escalate",
+        actor: SLA_MONITOR,
+        after: { dueAt: row.dueAt, assigneeId: row.assigneeId, teamId: row.teamId },
+      });
+    }
+    return overdue;
+  });
+  for (const report of await hydrate(rows)) publishReportEvent({ kind: "escalated", report });
+}
@@ -0,0 +1,282 @@
+import {
+  HAZARD_SEVERITIES,
+  HAZARD_SOURCES,
+  HAZARD_VERIFICATIONS,
+  STATUS_TO_TRIAGE,
+  isTriageStatus,
+  parseHazardStatus,
+  type HazardStatus,
+  type ReportSummary,
+} from "./hazard-report";
+
+// The report search language shared by the report table, the map's filter panel and
+// POST /api/reports/query, e.g.
+//
+//   type:flood status:new source:citizen after:2025-09-01 near:"Kochi" -dismissed "oil sheen"
+//
+// Terms are separated by spaces and all must match. Repeating a field matches any of
+// its values (type:flood type:cyclone), a leading `-` excludes, and anything without
+// a field name is free text over the id, type, location and description. Bare triage
+// status names (new, in_review, verified, dismissed) are short for status:.
+
+export const SEARCH_FIELDS = [
+  "type",
+  "status",
+  "verification",
+  "source",
+  "severity",
+  "after",
+  "before",
+  "near",
+  "tag",
+  "id",
+] as const;
+
+export type SearchField = (typeof SEARCH_FIELDS)[number];
+
+const FIELD_ALIASES: Record<string, SearchField> = {
+  from: "after",
+  to: "before",
+  loc: "near",
+  location: "near",
+};
+
+export const SEARCH_FIELD_HINT: Record<SearchField, string> = {
+  type: "Hazard type, e.g. flood",
+  status: "new, in_review, verified or dismissed",
+  verification: "unverified, pending or verified",
+  source: "citizen, sensor, social, official or other",
+  severity: "emergency, high, moderate or low",
+  after: "Reported on or after a day (yyyy-mm-dd)",
+  before: "Reported on or before a day (yyyy-mm-dd)",
+  near: "Location name contains",
+  tag: "Has the tag",
+  id: "Report id",
+};
+
+export interface SearchTerm {
+  field: SearchField | null; // null for free text
+  value: string; // normalised: canonical status, lower-case type and tag
+  negated: boolean;
+  start: number; // offsets of the whole term in the query text
+  end: number;
+}
+
+export interface SearchQueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedSearchQuery {
+  terms: SearchTerm[];
+  errors: SearchQueryError[];
+}
+
+const DATE_VALUE = /^\d{4}-\d{2}-\d{2}$/;
+const FIELD_NAME = /^[a-z_]+$/i;
+
+function isDay(value: string) {
+  if (!DATE_VALUE.test(value)) return false;
+  const time = Date.parse(`${value}T00:00:00.000Z`);
+  return !Number.isNaN(time) && new Date(time).toISOString().startsWith(value);
+}
+
+export function resolveSearchField(name: string): SearchField | null {
+  const lower = name.toLowerCase();
+  return (SEARCH_FIELDS as readonly string[]).includes(lower) ? (lower as SearchField) : FIELD_ALIASES[lower] ?? null;
+}
+
+// Checks and normalises a field's value; a string result is the error message
+function normaliseValue(field: SearchField, raw: string): { value: string } | string {
+  const value = raw.trim();
+  if (!value) return `${field}: needs a value`;
+  switch (field) {
+    case "type":
+      return { value: value.toLowerCase().replace(/\s+/g, "_") };
+    case "status": {
+      const status = parseHazardStatus(value.toLowerCase());
+      return status ? { value: status } : `Unknown status "${value}". Use ${SEARCH_FIELD_HINT.status}`;
+    }
+    case "verification":
+      return (HAZARD_VERIFICATIONS as readonly string[]).includes(value.toLowerCase())
+        ? { value: value.toLowerCase() }
+        : `Unknown verification "${value}". Use ${SEARCH_FIELD_HINT.verification}`;
+    case "source":
+      return (HAZARD_SOURCES as readonly string[]).includes(value.toLowerCase())
+        ? { value: value.toLowerCase() }
+        : `Unknown source "${value}". Use ${SEARCH_FIELD_HINT.source}`;
+    case "severity":
+      return (HAZARD_SEVERITIES as readonly string[]).includes(value.toLowerCase())
+        ? { value: value.toLowerCase() }
+        : `Unknown severity "${value}". Use ${SEARCH_FIELD_HINT.severity}`;
+    case "after":
+    case "before":
+      return isDay(value) ? { value } : `${field}: takes a date written yyyy-mm-dd`;
+    case "tag":
+      return { value: value.toLowerCase() };
+    default:
+      return { value };
+  }
+}
+
+// Never throws: malformed terms are reported in `errors` with their position, and
+// the terms around them still parse
+export function parseSearchQuery(text: string): ParsedSearchQuery {
+  const terms: SearchTerm[] = [];
+  const errors: SearchQueryError[] = [];
+  let i = 0;
+
+  // A quoted phrase starting at `from`; returns the offset after the closing quote
+  const readQuoted = (from: number) => {
+    const close = text.indexOf('"', from + 1);
+    if (close === -1) {
+      errors.push({ message: "Missing closing quote", start: from, end: text.length });
+      return { value: text.slice(from + 1), end: text.length };
+    }
+    return { value: text.slice(from + 1, close), end: close + 1 };
+  };
+  const readWord = (from: number) => {
+    let end = from;
+    while (end < text.length && !/\s/.test(text[end])) end++;
+    return { value: text.slice(from, end), end };
+  };
+
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    const negated = text[i] === "-";
+    if (negated) i++;
+    if (i >= text.length || /\s/.test(text[i])) {
+      errors.push({ message: "Nothing to exclude after -", start, end: i });
+      continue;
+    }
+
+    if (text[i] === '"') {
+      const phrase = readQuoted(i);
+      i = phrase.end;
+      if (phrase.value.trim()) terms.push({ field: null, value: phrase.value.trim(), negated, start, end: i });
+      continue;
+    }
+
+    const word = readWord(i);
+    const colon = word.value.indexOf(":");
+    const name = colon > 0 ? word.value.slice(0, colon) : "";
+    if (!FIELD_NAME.test(name)) {
+      // Plain word, or one whose colon is part of the text (a time, a URL)
+      i = word.end;
+      const status = isTriageStatus(word.value.toLowerCase()) ? parseHazardStatus(word.value.toLowerCase()) : null;
+      terms.push(
+        status
+          ? { field: "status", value: status, negated, start, end: i }
+          : { field: null, value: word.value, negated, start, end: i }
+      );
+      continue;
+    }
+
+    const field = resolveSearchField(name);
+    const valueStart = i + colon + 1;
+    const raw = text[valueStart] === '"' ? readQuoted(valueStart) : readWord(valueStart);
+    i = raw.end;
+    if (!field) {
+      errors.push({ message: `Unknown field "${name}:"`, start, end: i });
+      continue;
+    }
+    const normalised = normaliseValue(field, raw.value);
+    if (typeof normalised === "string") {
+      errors.push({ message: normalised, start, end: i });
+      continue;
+    }
+    terms.push({ field, value: normalised.value, negated, start, end: i });
+  }
+  return { terms, errors };
+}
+
+// How a value is written back into the query: triage words for status, and quotes
+// around anything with a space
+export function formatSearchValue(field: SearchField, value: string) {
+  const written = field === "status" ? STATUS_TO_TRIAGE[value as HazardStatus] ?? value : value.replace(/"/g, "");
+  return /\s/.test(written) || written === "" ? `"${written}"` : written;
+}
+
+// The value of the field's only positive term, which is what the dropdown filters
+// show; undefined when the field is absent or repeated
+export function searchFieldValue(parsed: ParsedSearchQuery, field: SearchField): string | undefined {
+  const values = parsed.terms.filter((t) => t.field === field && !t.negated);
+  return values.length === 1 ? values[0].value : undefined;
+}
+
+// Replaces the field's positive terms with one for `value`, or drops them when
+// `value` is empty. Exclusions and the rest of the text are kept as typed.
+export function setSearchField(text: string, field: SearchField, value: string | undefined) {
+  const parsed = parseSearchQuery(text);
+  let next = text;
+  const replaced = parsed.terms.filter((t) => t.field === field && !t.negated).sort((a, b) => b.start - a.start);
+  for (const term of replaced) next = next.slice(0, term.start) + next.slice(term.end);
+  next = next.replace(/\s+/g, " ").trim();
+  if (value) next = `${next} ${field}:${formatSearchValue(field, value)}`.trim();
+  return next;
+}
+
+function dayStart(day: string) {
+  return Date.parse(`${day}T00:00:00.000Z`);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function termMatches(report: ReportSummary, term: SearchTerm) {
+  const value = term.value.toLowerCase();
+  switch (term.field) {
+    case null:
+      return [report.id, report.type, report.locationName, report.description].some((s) =>
+        s?.toLowerCase().includes(value)
+      );
+    case "type":
+    case "status":
+    case "verification":
+    case "source":
+    case "severity":
+      return report[term.field] === term.value;
+    case "after":
+      return Date.parse(report.timestamp) >= dayStart(term.value);
+    case "before":
+      return Date.parse(report.timestamp) < dayStart(term.value) + DAY_MS;
+    case "near":
+      return report.locationName?.toLowerCase().includes(value) ?? false;
+    case "tag":
+      return report.tags.includes(term.value);
+    case "id":
+      return report.id.toLowerCase() === value;
+  }
+}
+
+// Terms of one field, free text being its own group: the positives of a group match
+// if any does, and every group and exclusion must hold
+export function groupSearchTerms(terms: SearchTerm[]) {
+  const groups = new Map<string, SearchTerm[]>();
+  const all: SearchTerm[][] = [];
+  for (const term of terms) {
+    if (term.negated || term.field === null) {
+      all.push([term]);
+      continue;
+    }
+    let group = groups.get(term.field);
+    if (!group) {
+      group = [];
+      groups.set(term.field, group);
+      all.push(group);
+    }
+    group.push(term);
+  }
+  return all;
+}
+
+// The in-memory counterpart of the API's filter, for reports already on the map
+export function matchesSearchQuery(report: ReportSummary, parsed: ParsedSearchQuery) {
+  return groupSearchTerms(parsed.terms).every((group) =>
+    group[0].negated ? !termMatches(report, group[0]) : group.some((t) => termMatches(report, t))
+  );
+}
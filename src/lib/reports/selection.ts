@@ -0,0 +1,46 @@
+// Reports selected on the map (a cluster or a drawn area) for the report table to
+// show and act on. Kept in sessionStorage so it survives navigating between the
+// two and reloading, but stays with the tab it was made in.
+
+export interface ReportSelection {
+  ids: string[];
+  label: string; // what was selected, e.g. "Map cluster of 42 reports"
+}
+
+const STORAGE_KEY = "ocean-hazard-report-selection";
+
+const listeners = new Set<() => void>();
+let current: ReportSelection | null | undefined;
+
+function read(): ReportSelection | null {
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(STORAGE_KEY) ?? "null");
+    return stored && Array.isArray(stored.ids) && typeof stored.label === "string" ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+export function getReportSelection(): ReportSelection | null {
+  if (typeof window === "undefined") return null;
+  if (current === undefined) current = read();
+  return current;
+}
+
+export function setReportSelection(selection: ReportSelection | null) {
+  current = selection;
+  try {
+    if (selection) sessionStorage.setItem(STORAGE_KEY, JSON.stringify(selection));
+    else sessionStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Storage full or unavailable; the selection lasts until the page reloads
+  }
+  for (const listener of listeners) listener();
+}
+
+export function subscribeReportSelection(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,381 @@
+import {
+  PDFDocument,
+  StandardFonts,
+  clip,
+  endPath,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+  rgb,
+  type PDFFont,
+  type PDFImage,
+  type PDFPage,
+} from "pdf-lib";
+import type { Basemap } from "@/lib/basemaps/basemap";
+import { TILE_SIZE, tileUrl, worldPixel } from "@/lib/map/mercator";
+import { readTile, type Tile } from "@/lib/tiles/store";
+import {
+  HAZARD_STATUSES,
+  HAZARD_STATUS_COLOR,
+  HAZARD_STATUS_LABEL,
+  hazardTypeLabel,
+  locationLabel,
+  type HazardReport,
+} from "./hazard-report";
+
+// Situation report PDF: a header with the time range and filters, a static map of
+// the reports over the chosen basemap, counts by type, status and source, and the
+// report table. Rendered on the server with the PDF standard fonts, so characters
+// outside Windows-1252 print as "?".
+
+export interface SitrepMeta {
+  title: string;
+  generatedAt: Date;
+  generatedBy: string;
+  from: string | null; // ISO; the reports' own range when null
+  to: string | null;
+  filters: string | null; // the filters applied in the UI, as the user saw them
+  basemap: Basemap | null;
+}
+
+// A4 portrait, in points
+const PAGE = { width: 595.28, height: 841.89 };
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE.width - 2 * MARGIN;
+const MAP_HEIGHT = 300;
+// World pixels per point on the map; 2 keeps 256px tiles sharp at 128pt
+const MAP_DENSITY = 2;
+const MAX_MAP_ZOOM = 14;
+const MAX_MAP_MARKERS = 5000;
+// Longer tables take minutes to lay out and nobody prints them; CSV has every row
+export const MAX_SITREP_ROWS = 2000;
+const TILE_TIMEOUT_MS = 4000;
+const SUMMARY_ROWS = 10;
+
+const ROW_HEIGHT = 14;
+const COLUMNS = [
+  { label: "ID", width: 72 },
+  { label: "Title", width: 150 },
+  { label: "Status", width: 68 },
+  { label: "Source", width: 52 },
+  { label: "Reported (UTC)", width: 80 },
+  { label: "Location", width: CONTENT_WIDTH - 422 },
+] as const;
+
+const INK = rgb(0.07, 0.09, 0.15);
+const MUTED = rgb(0.42, 0.45, 0.5);
+const RULE = rgb(0.85, 0.86, 0.88);
+
+function hexColor(hex: string) {
+  return rgb(
+    parseInt(hex.slice(1, 3), 16) / 255,
+    parseInt(hex.slice(3, 5), 16) / 255,
+    parseInt(hex.slice(5, 7), 16) / 255
+  );
+}
+
+function formatUTC(value: string | number | Date) {
+  return new Date(value).toISOString().slice(0, 16).replace("T", " ");
+}
+
+// Basemap attributions are HTML snippets
+function plainText(html: string) {
+  return html
+    .replace(/<[^>]*>/g, "")
+    .replace(/&copy;/g, "©")
+    .replace(/&amp;/g, "&")
+    .replace(/&nbsp;/g, " ");
+}
+
+class Writer {
+  private readonly charset: Set<number>;
+  page!: PDFPage;
+  y = 0;
+
+  constructor(
+    readonly doc: PDFDocument,
+    readonly font: PDFFont,
+    readonly bold: PDFFont
+  ) {
+    this.charset = new Set(font.getCharacterSet());
+    this.addPage();
+  }
+
+  addPage() {
+    this.page = this.doc.addPage([PAGE.width, PAGE.height]);
+    this.y = PAGE.height - MARGIN;
+  }
+
+  // Starts a new page unless `height` more points fit above the footer
+  ensure(height: number) {
+    if (this.y - height < MARGIN + 16) this.addPage();
+  }
+
+  safe(text: string) {
+    return Array.from(text.replace(/\s+/g, " "), (c) => (this.charset.has(c.codePointAt(0)!) ? c : "?")).join("");
+  }
+
+  fit(text: string, width: number, size: number, font = this.font) {
+    let s = this.safe(text);
+    if (font.widthOfTextAtSize(s, size) <= width) return s;
+    while (s.length > 1 && font.widthOfTextAtSize(`${s}...`, size) > width) s = s.slice(0, -1);
+    return `${s.trimEnd()}...`;
+  }
+
+  text(text: string, x: number, { size = 9, font = this.font, color = INK, width = CONTENT_WIDTH } = {}) {
+    this.page.drawText(this.fit(text, width, size, font), { x, y: this.y, size, font, color });
+  }
+
+  line(text: string, options: { size?: number; font?: PDFFont; color?: ReturnType<typeof rgb> } = {}) {
+    const size = options.size ?? 9;
+    this.ensure(size + 4);
+    this.y -= size;
+    this.text(text, MARGIN, options);
+    this.y -= 4;
+  }
+}
+
+async function loadTile(template: string, z: number, x: number, y: number): Promise<Tile | null> {
+  const local = template.match(/^\/api\/tiles\/([^/]+)\//);
+  if (local) return readTile(decodeURIComponent(local[1]!), z, x, y);
+  if (!/^https?:\/\//.test(template)) return null;
+  try {
+    const res = await fetch(tileUrl(template, z, x, y), {
+      signal: AbortSignal.timeout(TILE_TIMEOUT_MS),
+      headers: { "User-Agent": "ocean-hazard-admin-portal situation report" },
+    });
+    if (!res.ok) return null;
+    return { bytes: new Uint8Array(await res.arrayBuffer()), type: res.headers.get("content-type") ?? "" };
+  } catch {
+    return null;
+  }
+}
+
+async function embedTile(doc: PDFDocument, tile: Tile | null): Promise<PDFImage | null> {
+  if (!tile) return null;
+  try {
+    if (tile.type.includes("png")) return await doc.embedPng(tile.bytes);
+    if (tile.type.includes("jpeg") || tile.type.includes("jpg")) return await doc.embedJpg(tile.bytes);
+  } catch {
+    // Corrupt or mislabelled tiles are left blank
+  }
+  return null;
+}
+
+// The deepest zoom at which every report fits the map box
+function fitZoom(rows: HazardReport[], width: number, height: number) {
+  let [south, north, west, east] = [Infinity, -Infinity, Infinity, -Infinity];
+  for (const r of rows) {
+    south = Math.min(south, r.lat);
+    north = Math.max(north, r.lat);
+    west = Math.min(west, r.lng);
+    east = Math.max(east, r.lng);
+  }
+  let zoom = MAX_MAP_ZOOM;
+  while (zoom > 0) {
+    const nw = worldPixel(north, west, zoom);
+    const se = worldPixel(south, east, zoom);
+    if ((se.x - nw.x) * 1.15 <= width && (se.y - nw.y) * 1.15 <= height) break;
+    zoom--;
+  }
+  const nw = worldPixel(north, west, zoom);
+  const se = worldPixel(south, east, zoom);
+  return { zoom, center: { x: (nw.x + se.x) / 2, y: (nw.y + se.y) / 2 } };
+}
+
+async function drawMap(w: Writer, rows: HazardReport[], basemap: Basemap | null) {
+  const box = { x: MARGIN, y: w.y - MAP_HEIGHT, width: CONTENT_WIDTH, height: MAP_HEIGHT };
+  const px = { width: box.width * MAP_DENSITY, height: box.height * MAP_DENSITY };
+  const page = w.page;
+  page.drawRectangle({ ...box, color: rgb(0.9, 0.91, 0.92) });
+
+  const located = rows.filter((r) => Number.isFinite(r.lat) && Number.isFinite(r.lng));
+  if (located.length) {
+    const { zoom, center } = fitZoom(located, px.width, px.height);
+    const origin = { x: center.x - px.width / 2, y: center.y - px.height / 2 };
+    const toPage = (wx: number, wy: number) => ({
+      x: box.x + (wx - origin.x) / MAP_DENSITY,
+      y: box.y + box.height - (wy - origin.y) / MAP_DENSITY,
+    });
+
+    page.pushOperators(pushGraphicsState(), rectangle(box.x, box.y, box.width, box.height), clip(), endPath());
+
+    if (basemap) {
+      const n = 2 ** zoom;
+      const tiles: Promise<void>[] = [];
+      for (let ty = Math.floor(origin.y / TILE_SIZE); ty * TILE_SIZE < origin.y + px.height; ty++) {
+        if (ty < 0 || ty >= n) continue;
+        for (let tx = Math.floor(origin.x / TILE_SIZE); tx * TILE_SIZE < origin.x + px.width; tx++) {
+          const x = ((tx % n) + n) % n; // wrapped across the antimeridian
+          tiles.push(
+            loadTile(basemap.url, zoom, x, ty)
+              .then((tile) => embedTile(w.doc, tile))
+              .then((image) => {
+                if (!image) return;
+                const corner = toPage(tx * TILE_SIZE, (ty + 1) * TILE_SIZE);
+                page.drawImage(image, { ...corner, width: TILE_SIZE / MAP_DENSITY, height: TILE_SIZE / MAP_DENSITY });
+              })
+          );
+        }
+      }
+      await Promise.all(tiles);
+    }
+
+    // Newest on top; the list is newest first
+    for (const r of located.slice(0, MAX_MAP_MARKERS).reverse()) {
+      const p = worldPixel(r.lat, r.lng, zoom);
+      page.drawCircle({
+        ...toPage(p.x, p.y),
+        size: 3,
+        color: hexColor(HAZARD_STATUS_COLOR[r.status]),
+        borderColor: rgb(1, 1, 1),
+        borderWidth: 0.6,
+      });
+    }
+    page.pushOperators(popGraphicsState());
+  }
+  page.drawRectangle({ ...box, borderColor: RULE, borderWidth: 0.8 });
+  w.y = box.y - 4;
+
+  // Legend and attribution
+  w.y -= 8;
+  let x = MARGIN;
+  for (const s of HAZARD_STATUSES) {
+    page.drawCircle({ x: x + 3, y: w.y + 3, size: 3, color: hexColor(HAZARD_STATUS_COLOR[s]) });
+    const label = HAZARD_STATUS_LABEL[s];
+    page.drawText(label, { x: x + 9, y: w.y, size: 8, font: w.font, color: INK });
+    x += 9 + w.font.widthOfTextAtSize(label, 8) + 12;
+  }
+  const notes = [
+    located.length > MAX_MAP_MARKERS ? `Newest ${MAX_MAP_MARKERS.toLocaleString("en")} reports shown` : null,
+    basemap?.attribution ? plainText(basemap.attribution) : null,
+  ].filter(Boolean);
+  if (notes.length) w.text(notes.join(" · "), x + 4, { size: 7, color: MUTED, width: PAGE.width - MARGIN - x - 4 });
+  w.y -= 10;
+}
+
+function tally(rows: HazardReport[], key: (r: HazardReport) => string) {
+  const counts = new Map<string, number>();
+  for (const r of rows) counts.set(key(r), (counts.get(key(r)) ?? 0) + 1);
+  return [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
+
+function drawSummary(w: Writer, rows: HazardReport[]) {
+  const groups = [
+    { title: "By type", counts: tally(rows, (r) => hazardTypeLabel(r.type)) },
+    { title: "By status", counts: tally(rows, (r) => HAZARD_STATUS_LABEL[r.status]) },
+    { title: "By source", counts: tally(rows, (r) => hazardTypeLabel(r.source)) },
+  ];
+  const columnWidth = CONTENT_WIDTH / groups.length;
+  const lines = Math.min(SUMMARY_ROWS, Math.max(...groups.map((g) => g.counts.length))) + 1;
+  w.ensure(12 + lines * 12 + 12);
+  w.line("Summary", { size: 11, font: w.bold });
+  const top = w.y;
+  groups.forEach((g, i) => {
+    const x = MARGIN + i * columnWidth;
+    w.y = top - 9;
+    w.text(g.title, x, { size: 9, font: w.bold, width: columnWidth - 12 });
+    const shown = g.counts.slice(0, SUMMARY_ROWS);
+    const rest = g.counts.slice(SUMMARY_ROWS).reduce((sum, [, n]) => sum + n, 0);
+    for (const [label, n] of rest ? [...shown, ["Other", rest] as const] : shown) {
+      w.y -= 12;
+      w.text(label, x, { width: columnWidth - 60 });
+      const count = n.toLocaleString("en");
+      w.page.drawText(count, {
+        x: x + columnWidth - 16 - w.font.widthOfTextAtSize(count, 9),
+        y: w.y,
+        size: 9,
+        font: w.font,
+        color: INK,
+      });
+    }
+  });
+  w.y = top - 9 - lines * 12 - 14;
+}
+
+function drawTableHeader(w: Writer) {
+  w.y -= 10;
+  let x = MARGIN;
+  for (const c of COLUMNS) {
+    w.text(c.label, x, { size: 8, font: w.bold, width: c.width - 4 });
+    x += c.width;
+  }
+  w.y -= 4;
+  w.page.drawLine({
+    start: { x: MARGIN, y: w.y },
+    end: { x: MARGIN + CONTENT_WIDTH, y: w.y },
+    thickness: 0.8,
+    color: RULE,
+  });
+}
+
+function drawTable(w: Writer, rows: HazardReport[]) {
+  w.ensure(60);
+  w.line("Reports", { size: 11, font: w.bold });
+  if (rows.length > MAX_SITREP_ROWS) {
+    w.line(
+      `The newest ${MAX_SITREP_ROWS.toLocaleString("en")} of ${rows.length.toLocaleString("en")} reports are listed. Export CSV for all of them.`,
+      { size: 8, color: MUTED }
+    );
+  }
+  drawTableHeader(w);
+  for (const r of rows.slice(0, MAX_SITREP_ROWS)) {
+    if (w.y - ROW_HEIGHT < MARGIN + 16) {
+      w.addPage();
+      drawTableHeader(w);
+    }
+    w.y -= ROW_HEIGHT - 2;
+    const cells = [
+      r.id,
+      r.title ?? hazardTypeLabel(r.type),
+      HAZARD_STATUS_LABEL[r.status],
+      hazardTypeLabel(r.source),
+      formatUTC(r.timestamp),
+      locationLabel(r),
+    ];
+    let x = MARGIN;
+    cells.forEach((cell, i) => {
+      w.text(cell, x, { size: 8, width: COLUMNS[i]!.width - 4 });
+      x += COLUMNS[i]!.width;
+    });
+    w.y -= 2;
+  }
+}
+
+export async function renderSitrep(rows: HazardReport[], meta: SitrepMeta): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(meta.title);
+  doc.setAuthor(meta.generatedBy);
+  doc.setCreationDate(meta.generatedAt);
+  const w = new Writer(doc, await doc.embedFont(StandardFonts.Helvetica), await doc.embedFont(StandardFonts.HelveticaBold));
+
+  const sorted = [...rows].sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp));
+  const from = meta.from ?? sorted.at(-1)?.timestamp;
+  const to = meta.to ?? sorted[0]?.timestamp;
+
+  w.line(meta.title, { size: 18, font: w.bold });
+  w.line(`Generated ${formatUTC(meta.generatedAt)} UTC by ${meta.generatedBy}`, { color: MUTED });
+  w.line(`Time range: ${from && to ? `${formatUTC(from)} to ${formatUTC(to)} UTC` : "no reports"}`);
+  if (meta.filters) w.line(`Filters: ${meta.filters}`);
+  w.line(`Reports: ${rows.length.toLocaleString("en")}`, { font: w.bold });
+  w.y -= 6;
+
+  await drawMap(w, sorted, meta.basemap);
+  drawSummary(w, rows);
+  drawTable(w, sorted);
+
+  const pages = doc.getPages();
+  pages.forEach((page, i) => {
+    const footer = w.fit(`${meta.title} · ${formatUTC(meta.generatedAt)} UTC`, CONTENT_WIDTH - 80, 7);
+    page.drawText(footer, { x: MARGIN, y: MARGIN - 14, size: 7, font: w.font, color: MUTED });
+    const number = `Page ${i + 1} of ${pages.length}`;
+    page.drawText(number, {
+      x: PAGE.width - MARGIN - w.font.widthOfTextAtSize(number, 7),
+      y: MARGIN - 14,
+      size: 7,
+      font: w.font,
+      color: MUTED,
+    });
+  });
+  return doc.save();
+}
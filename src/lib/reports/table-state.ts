@@ -0,0 +1,82 @@
+import { HAZARD_SOURCES, HAZARD_STATUSES, HAZARD_VERIFICATIONS } from "./hazard-report";
+import { setSearchField, type SearchField } from "./search-query";
+
+// Report table filters, sort and page as they appear in the /reports query string.
+// Every filter lives in the search query (search-query.ts); the dropdowns edit it.
+
+export const REPORT_SORT_KEYS = ["type", "location", "timestamp", "status", "source", "due"] as const;
+
+export type ReportSortKey = (typeof REPORT_SORT_KEYS)[number];
+
+export const REPORT_PAGE_SIZES = [10, 25, 50, 100] as const;
+
+export type ReportPageSize = (typeof REPORT_PAGE_SIZES)[number];
+
+export interface ReportTableState {
+  query: string;
+  mine: boolean; // only the signed-in reviewer's work queue
+
+  sort: ReportSortKey;
+  dir: "asc" | "desc";
+  page: number;
+  pageSize: ReportPageSize;
+}
+
+export const DEFAULT_REPORT_TABLE_STATE: ReportTableState = {
+  query: "",
+  mine: false,
+  sort: "timestamp",
+  dir: "desc",
+  page: 1,
+  pageSize: 10,
+};
+
+function oneOf<T extends string>(values: readonly T[], value: string | null): T | undefined {
+  return value !== null && (values as readonly string[]).includes(value) ? (value as T) : undefined;
+}
+
+const DATE_PARAM = /^\d{4}-\d{2}-\d{2}$/;
+
+// The separate filter parameters links used before the search language, and the
+// field each becomes
+const LEGACY_FILTER_PARAMS: [string, SearchField, (value: string) => boolean][] = [
+  ["type", "type", Boolean],
+  ["status", "status", (v) => (HAZARD_STATUSES as readonly string[]).includes(v)],
+  ["verification", "verification", (v) => (HAZARD_VERIFICATIONS as readonly string[]).includes(v)],
+  ["source", "source", (v) => (HAZARD_SOURCES as readonly string[]).includes(v)],
+  ["from", "after", (v) => DATE_PARAM.test(v)],
+  ["to", "before", (v) => DATE_PARAM.test(v)],
+];
+
+// Unknown or malformed values fall back to the defaults rather than failing the page
+export function parseReportTableState(params: URLSearchParams): ReportTableState {
+  const page = Number(params.get("page"));
+  const size = Number(params.get("size"));
+  let query = params.get("q") ?? "";
+  for (const [param, field, valid] of LEGACY_FILTER_PARAMS) {
+    const value = params.get(param);
+    if (value && valid(value)) query = setSearchField(query, field, value);
+  }
+  return {
+    query,
+    mine: params.get("queue") === "mine",
+    sort: oneOf(REPORT_SORT_KEYS, params.get("sort")) ?? DEFAULT_REPORT_TABLE_STATE.sort,
+    dir: oneOf(["asc", "desc"] as const, params.get("dir")) ?? DEFAULT_REPORT_TABLE_STATE.dir,
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+    pageSize: REPORT_PAGE_SIZES.find((s) => s === size) ?? DEFAULT_REPORT_TABLE_STATE.pageSize,
+  };
+}
+
+// Only non-default values are written so shared links stay short
+export function reportTableSearchParams(state: ReportTableState): URLSearchParams {
+  const params = new URLSearchParams();
+  if (state.query) params.set("q", state.query);
+  if (state.mine) params.set("queue", "mine");
+  if (state.sort !== DEFAULT_REPORT_TABLE_STATE.sort || state.dir !== DEFAULT_REPORT_TABLE_STATE.dir) {
+    params.set("sort", state.sort);
+    params.set("dir", state.dir);
+  }
+  if (state.page > 1) params.set("page", String(state.page));
+  if (state.pageSize !== DEFAULT_REPORT_TABLE_STATE.pageSize) params.set("size", String(state.pageSize));
+  return params;
+}
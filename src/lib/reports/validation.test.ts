@@ -0,0 +1,34 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { citizenReportInput } from "./validation";
+
+const submission = {
+  type: "flood",
+  lat: "9.93",
+  lng: "76.26",
+  description: "Water over the coast road near the fish market",
+};
+
+describe("citizenReportInput", () => {
+  test("reads coordinates typed as text", () => {
+    const parsed = citizenReportInput.parse(submission);
+    assert.equal(parsed.lat, 9.93);
+    assert.equal(parsed.lng, 76.26);
+  });
+
+  test("rejects blank coordinates rather than reading them as 0", () => {
+    for (const blank of ["", "   "]) {
+      const result = citizenReportInput.safeParse({ ...submission, lat: blank, lng: blank });
+      assert.equal(result.success, false);
+      const paths = result.error!.issues.map((issue) => issue.path.join("."));
+      assert.deepEqual(paths.sort(), ["lat", "lng"]);
+    }
+  });
+
+  test("rejects missing and out-of-range coordinates", () => {
+    const { lat: _lat, ...withoutLat } = submission;
+    assert.equal(citizenReportInput.safeParse(withoutLat).success, false);
+    assert.equal(citizenReportInput.safeParse({ ...submission, lat: "91" }).success, false);
+    assert.equal(citizenReportInput.safeParse({ ...submission, lng: "abc" }).success, false);
+  });
+});
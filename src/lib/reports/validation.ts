@@ -0,0 +1,150 @@
+import { z } from "zod";
+import {
+  HAZARD_TYPES,
+  hazardReportSchema,
+  hazardSourceSchema,
+  hazardStatusSchema,
+  hazardVerificationSchema,
+  mediaKindSchema,
+} from "./hazard-report";
+import { parseSearchQuery } from "./search-query";
+import { REPORT_PAGE_SIZES, REPORT_SORT_KEYS } from "./table-state";
+
+const optionalText = z.string().trim().max(2000).optional();
+
+export const reportMediaInput = z.object({
+  kind: mediaKindSchema,
+  url: z.string().min(1),
+});
+
+export const createReportInput = hazardReportSchema
+  .pick({ status: true, verification: true, source: true, severity: true, lat: true, lng: true })
+  .partial({ status: true, verification: true, severity: true })
+  .extend({
+    type: z.string().trim().min(1).max(64),
+    title: optionalText,
+    description: optionalText,
+    locationName: optionalText,
+    personName: optionalText,
+    timestamp: hazardReportSchema.shape.timestamp.optional(),
+    tags: z.array(z.string().trim().min(1).max(64)).max(32).optional(),
+    media: z.array(reportMediaInput).max(16).optional(),
+  });
+
+const auditReason = z.string().trim().max(500).optional();
+
+// `reason` is not stored on the report; it goes to the audit trail.
+// `expectedUpdatedAt` makes the update conditional on the version the client last saw.
+// null clears the assignee or team.
+export const updateReportInput = createReportInput
+  .omit({ media: true })
+  .partial()
+  .extend({
+    assigneeId: z.string().min(1).nullable().optional(),
+    teamId: z.string().min(1).nullable().optional(),
+    reason: auditReason,
+    expectedUpdatedAt: hazardReportSchema.shape.updatedAt.optional(),
+  });
+
+export const bulkUpdateReportsInput = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(500),
+  patch: updateReportInput.pick({ status: true, verification: true, assigneeId: true, teamId: true }),
+  reason: auditReason,
+});
+
+// Duplicates to fold into the report named in the path
+export const mergeReportsInput = z.object({
+  duplicateIds: z.array(z.string().min(1)).min(1).max(50),
+  reason: auditReason,
+});
+
+export const addReportNoteInput = z.object({
+  body: z.string().trim().min(1, "Write a note first").max(2000),
+});
+
+const dateOnly = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use yyyy-mm-dd");
+
+// Written in the search language (search-query.ts); a query that does not parse is
+// rejected with each problem as an issue
+const searchQuery = z
+  .string()
+  .trim()
+  .max(200)
+  .superRefine((q, ctx) => {
+    for (const error of parseSearchQuery(q).errors) ctx.addIssue({ code: "custom", message: error.message });
+  });
+
+// The report table's filters. Dates are whole UTC days, `to` included; `ids` limits
+// the table to a map selection, and `mine` to the caller's work queue: reports still
+// open that are assigned to them, or to their team and no one in it yet.
+export const reportFilterInput = z.object({
+  q: searchQuery.optional(),
+  mine: z.boolean().optional(),
+  type: z.string().min(1).max(64).optional(),
+  status: hazardStatusSchema.optional(),
+  verification: hazardVerificationSchema.optional(),
+  source: hazardSourceSchema.optional(),
+  from: dateOnly.optional(),
+  to: dateOnly.optional(),
+  ids: z.array(z.string().min(1)).max(100_000).optional(),
+});
+
+// Pages follow the cursors of the previous response; `page` jumps by offset instead,
+// for a linked page number, and is ignored when a cursor is given
+export const reportQueryInput = reportFilterInput.extend({
+  sort: z.enum(REPORT_SORT_KEYS).default("timestamp"),
+  dir: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.literal(REPORT_PAGE_SIZES).default(REPORT_PAGE_SIZES[0]),
+  cursor: z.string().min(1).max(1000).optional(),
+  page: z.number().int().min(1).max(100_000).optional(),
+});
+
+// Omitting ids exports every report in the (optional) reported-at range;
+// `where` applies the report table's filters on top
+export const EXPORT_FORMATS = ["csv", "json", "geojson", "kml"] as const;
+
+export const exportReportsInput = z.object({
+  ids: z.array(z.string().min(1)).max(100_000).optional(),
+  from: z.iso.datetime({ offset: true }).optional(),
+  to: z.iso.datetime({ offset: true }).optional(),
+  where: reportFilterInput.optional(),
+  format: z.enum(EXPORT_FORMATS).default("csv"),
+});
+
+export const sitrepInput = exportReportsInput.omit({ format: true }).extend({
+  title: z.string().trim().min(1).max(120).optional(),
+  filters: z.string().trim().max(500).optional(), // the UI's filters, described for the header
+  basemapId: z.string().min(1).optional(), // the map's base layer; the first enabled one otherwise
+});
+
+// A coordinate typed into a form field. Coercion alone would read a blank field as 0,
+// so the text must be non-empty first.
+function coordinate(name: string, limit: number) {
+  const range = `${name} must be between -${limit} and ${limit}`;
+  return z
+    .string(`Enter a ${name.toLowerCase()}`)
+    .trim()
+    .min(1, `Enter a ${name.toLowerCase()}`)
+    .pipe(z.coerce.number<string>(`${name} must be a number`).min(-limit, range).max(limit, range));
+}
+
+// Public submissions arrive as multipart form fields, hence the coercion
+export const citizenReportInput = z.object({
+  type: z.enum(HAZARD_TYPES, "Choose a hazard type"),
+  lat: coordinate("Latitude", 90),
+  lng: coordinate("Longitude", 180),
+  description: z.string().trim().min(10, "Describe what you saw in at least 10 characters").max(2000),
+  locationName: optionalText,
+  personName: optionalText,
+});
+
+export type CreateReportInput = z.infer<typeof createReportInput>;
+export type UpdateReportInput = z.infer<typeof updateReportInput>;
+export type AddReportNoteInput = z.infer<typeof addReportNoteInput>;
+export type MergeReportsInput = z.infer<typeof mergeReportsInput>;
+export type BulkUpdateReportsInput = z.infer<typeof bulkUpdateReportsInput>;
+export type ExportReportsInput = z.input<typeof exportReportsInput>;
+export type SitrepInput = z.input<typeof sitrepInput>;
+export type ReportFilterInput = z.infer<typeof reportFilterInput>;
+export type ReportQueryInput = z.input<typeof reportQueryInput>;
+export type CitizenReportInput = z.infer<typeof citizenReportInput>;
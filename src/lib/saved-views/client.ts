@@ -0,0 +1,29 @@
+import { request } from "@/lib/http";
+import { savedViewSchema, type SavedView } from "./saved-view";
+import type { CreateSavedViewInput } from "./validation";
+
+export async function fetchSavedViews(): Promise<{ views: SavedView[]; defaultViewId: string | null }> {
+  const { views, defaultViewId } = await request<{ views: unknown; defaultViewId: string | null }>(
+    "/api/saved-views"
+  );
+  return { views: savedViewSchema.array().parse(views), defaultViewId };
+}
+
+export async function createSavedView(input: CreateSavedViewInput): Promise<SavedView> {
+  const { view } = await request<{ view: SavedView }>("/api/saved-views", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+  return view;
+}
+
+export async function deleteSavedView(id: string): Promise<void> {
+  await request<void>(`/api/saved-views/${encodeURIComponent(id)}`, { method: "DELETE" });
+}
+
+export async function setDefaultView(viewId: string | null): Promise<void> {
+  await request<{ defaultViewId: string | null }>("/api/saved-views/default", {
+    method: "PUT",
+    body: JSON.stringify({ viewId }),
+  });
+}
@@ -0,0 +1,110 @@
+import { randomUUID } from "node:crypto";
+import { and, asc, desc, eq, or } from "drizzle-orm";
+import type { z } from "zod";
+import { db } from "@/db";
+import { defaultViews, savedViews, type SavedViewRow } from "@/db/schema";
+import type { AuditActor } from "@/lib/audit/audit-entry";
+import { appendAudit } from "@/lib/audit/repository";
+import type { SavedView } from "./saved-view";
+import type { createSavedViewInput } from "./validation";
+
+export class SavedViewNameTakenError extends Error {
+  constructor(readonly viewName: string) {
+    super(`A view named "${viewName}" already exists`);
+    this.name = "SavedViewNameTakenError";
+  }
+}
+
+function toSavedView(row: SavedViewRow): SavedView {
+  return { ...row };
+}
+
+// A user's own views plus the shared presets
+function visibleTo(userId: string) {
+  return or(eq(savedViews.shared, true), eq(savedViews.ownerId, userId));
+}
+
+export async function listSavedViews(userId: string): Promise<SavedView[]> {
+  const rows = await db
+    .select()
+    .from(savedViews)
+    .where(visibleTo(userId))
+    .orderBy(desc(savedViews.shared), asc(savedViews.name));
+  return rows.map(toSavedView);
+}
+
+export async function getSavedView(id: string, userId: string): Promise<SavedView | null> {
+  const [row] = await db
+    .select()
+    .from(savedViews)
+    .where(and(eq(savedViews.id, id), visibleTo(userId)));
+  return row ? toSavedView(row) : null;
+}
+
+export async function getDefaultViewId(userId: string): Promise<string | null> {
+  const [row] = await db.select({ viewId: defaultViews.viewId }).from(defaultViews).where(eq(defaultViews.userId, userId));
+  return row?.viewId ?? null;
+}
+
+// Names are unique among the shared presets and among each user's own views
+export async function createSavedView(
+  values: z.output<typeof createSavedViewInput>,
+  actor: AuditActor
+): Promise<SavedView> {
+  return db.transaction(async (tx) => {
+    const scope = values.shared ? eq(savedViews.shared, true) : and(eq(savedViews.shared, false), eq(savedViews.ownerId, actor.id));
+    const [existing] = await tx
+      .select({ id: savedViews.id })
+      .from(savedViews)
+      .where(and(eq(savedViews.name, values.name), scope));
+    if (existing) throw new SavedViewNameTakenError(values.name);
+    const [row] = await tx
+      .insert(savedViews)
+      .values({
+        id: `SV-${randomUUID().slice(0, 8).toUpperCase()}`,
+        ...values,
+        ownerId: actor.id,
+        createdAt: new Date().toISOString(),
+      })
+      .returning();
+    await appendAudit(tx, {
+      subjectType: "saved_view",
+      subjectId: row!.id,
+      action: "saved_view.create",
+      actor,
+      after: { name: row!.name, shared: row!.shared },
+    });
+    return toSavedView(row!);
+  });
+}
+
+export async function deleteSavedView(id: string, actor: AuditActor): Promise<boolean> {
+  return db.transaction(async (tx) => {
+    await tx.delete(defaultViews).where(eq(defaultViews.viewId, id));
+    const [row] = await tx.delete(savedViews).where(eq(savedViews.id, id)).returning();
+    if (!row) return false;
+    await appendAudit(tx, {
+      subjectType: "saved_view",
+      subjectId: id,
+      action: "saved_view.delete",
+      actor,
+      before: { name: row.name, shared: row.shared, center: row.center, zoom: row.zoom, filters: row.filters },
+    });
+    return true;
+  });
+}
+
+// A personal preference, so it is not audited. Returns false for a view the user
+// cannot see.
+export async function setDefaultView(userId: string, viewId: string | null): Promise<boolean> {
+  if (!viewId) {
+    await db.delete(defaultViews).where(eq(defaultViews.userId, userId));
+    return true;
+  }
+  if (!(await getSavedView(viewId, userId))) return false;
+  await db
+    .insert(defaultViews)
+    .values({ userId, viewId })
+    .onConflictDoUpdate({ target: defaultViews.userId, set: { viewId } });
+  return true;
+}
@@ -0,0 +1,34 @@
+import { z } from "zod";
+import { areaShapeSchema } from "@/lib/map/area";
+import { HAZARD_SOURCES, HAZARD_STATUSES } from "@/lib/reports/hazard-report";
+
+// Named map camera and filter presets, e.g. "West coast monsoon watch". Each user
+// keeps their own; admins can publish shared ones that every user sees. The time
+// range is left out on purpose: absolute dates would go stale, so a view always
+// opens over the reports loaded at the time.
+
+export const savedViewFiltersSchema = z.object({
+  hazardType: z.string().min(1).max(80),
+  status: z.enum([...HAZARD_STATUSES, "all"]),
+  source: z.enum([...HAZARD_SOURCES, "all"]),
+  heatmap: z.boolean(),
+  clustering: z.boolean(),
+  tagsQuery: z.string().max(200).optional(),
+  query: z.string().max(200).optional(),
+  area: areaShapeSchema.optional(),
+});
+
+export type SavedViewFilters = z.infer<typeof savedViewFiltersSchema>;
+
+export const savedViewSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  shared: z.boolean(), // a team preset rather than one user's view
+  center: z.tuple([z.number().min(-90).max(90), z.number().min(-180).max(180)]),
+  zoom: z.number().min(0).max(22),
+  filters: savedViewFiltersSchema,
+  ownerId: z.string(),
+  createdAt: z.iso.datetime({ offset: true }),
+});
+
+export type SavedView = z.infer<typeof savedViewSchema>;
@@ -0,0 +1,16 @@
+import { z } from "zod";
+import { savedViewSchema } from "./saved-view";
+
+export const createSavedViewInput = savedViewSchema.pick({ center: true, zoom: true, filters: true }).extend({
+  name: z.string().trim().min(1).max(80),
+  shared: z.boolean().default(false),
+});
+
+export type CreateSavedViewInput = z.input<typeof createSavedViewInput>;
+
+// null goes back to the map's built-in starting view
+export const setDefaultViewInput = z.object({
+  viewId: z.string().min(1).nullable(),
+});
+
+export type SetDefaultViewInput = z.infer<typeof setDefaultViewInput>;
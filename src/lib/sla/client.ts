@@ -0,0 +1,16 @@
+import { request } from "@/lib/http";
+import { slaTargetSchema, type SlaTarget } from "./sla";
+import type { ReplaceSlaTargetsInput } from "./validation";
+
+export async function fetchSlaTargets(): Promise<SlaTarget[]> {
+  const { targets } = await request<{ targets: unknown }>("/api/sla");
+  return slaTargetSchema.array().parse(targets);
+}
+
+export async function replaceSlaTargets(input: ReplaceSlaTargetsInput): Promise<SlaTarget[]> {
+  const { targets } = await request<{ targets: SlaTarget[] }>("/api/sla", {
+    method: "PUT",
+    body: JSON.stringify(input),
+  });
+  return targets;
+}
@@ -0,0 +1,49 @@
+import { asc, eq, isNull } from "drizzle-orm";
+import { db, type Database, type Transaction } from "@/db";
+import { reports, slaTargets, type SlaTargetRow } from "@/db/schema";
+import type { AuditActor } from "@/lib/audit/audit-entry";
+import { appendAudit } from "@/lib/audit/repository";
+import { DEFAULT_SLA_TARGETS, slaDueAt, type SlaTarget } from "./sla";
+
+function toSlaTarget({ id: _id, ...row }: SlaTargetRow): SlaTarget {
+  return row;
+}
+
+// The saved targets, or the defaults while none have been saved
+export async function listSlaTargets(tx: Database | Transaction = db): Promise<SlaTarget[]> {
+  const rows = await tx.select().from(slaTargets).orderBy(asc(slaTargets.hazardType), asc(slaTargets.severity));
+  return rows.length ? rows.map(toSlaTarget) : DEFAULT_SLA_TARGETS;
+}
+
+// Reports still waiting for review move to the new deadlines; reviewed ones keep
+// the deadline they were measured against. Open report lists pick the changes up
+// when they next load.
+export async function replaceSlaTargets(targets: SlaTarget[], actor: AuditActor): Promise<SlaTarget[]> {
+  return db.transaction(async (tx) => {
+    const before = await listSlaTargets(tx);
+    await tx.delete(slaTargets);
+    await tx.insert(slaTargets).values(targets);
+    const waiting = await tx
+      .select({
+        id: reports.id,
+        type: reports.type,
+        severity: reports.severity,
+        createdAt: reports.createdAt,
+        dueAt: reports.dueAt,
+      })
+      .from(reports)
+      .where(isNull(reports.reviewedAt));
+    for (const r of waiting) {
+      const dueAt = slaDueAt(targets, r.type, r.severity, r.createdAt);
+      if (dueAt !== r.dueAt) await tx.update(reports).set({ dueAt }).where(eq(reports.id, r.id));
+    }
+    await appendAudit(tx, {
+      subjectType: "sla",
+      action: "sla.update",
+      actor,
+      before: { targets: before },
+      after: { targets },
+    });
+    return listSlaTargets(tx);
+  });
+}
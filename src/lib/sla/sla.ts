@@ -0,0 +1,124 @@
+import { z } from "zod";
+import {
+  HAZARD_SEVERITIES,
+  hazardSeveritySchema,
+  type HazardReport,
+  type HazardSeverity,
+  type ReportSummary,
+} from "@/lib/reports/hazard-report";
+
+// Review deadlines (SLAs) for report triage. A report is due for review a set number
+// of minutes after it arrives, by hazard type and severity; the clock stops when it
+// first leaves New. Reports still New after their deadline are escalated.
+
+// Matches every hazard type without a target of its own
+export const ANY_HAZARD_TYPE = "*";
+
+export const slaTargetSchema = z.object({
+  hazardType: z.string().min(1),
+  severity: hazardSeveritySchema,
+  minutes: z.number().int().min(1),
+});
+
+export type SlaTarget = z.infer<typeof slaTargetSchema>;
+
+// Used until targets are saved from System Settings
+export const DEFAULT_SLA_TARGETS: SlaTarget[] = [
+  { hazardType: ANY_HAZARD_TYPE, severity: "emergency", minutes: 15 },
+  { hazardType: ANY_HAZARD_TYPE, severity: "high", minutes: 60 },
+  { hazardType: ANY_HAZARD_TYPE, severity: "moderate", minutes: 4 * 60 },
+  { hazardType: ANY_HAZARD_TYPE, severity: "low", minutes: 24 * 60 },
+];
+
+// The type's own target wins over the one for any type; null when neither exists
+export function slaMinutes(targets: SlaTarget[], type: string, severity: HazardSeverity): number | null {
+  const own = targets.find((t) => t.hazardType === type && t.severity === severity);
+  const any = targets.find((t) => t.hazardType === ANY_HAZARD_TYPE && t.severity === severity);
+  return (own ?? any)?.minutes ?? null;
+}
+
+export function slaDueAt(targets: SlaTarget[], type: string, severity: HazardSeverity, createdAt: string) {
+  const minutes = slaMinutes(targets, type, severity);
+  return minutes === null ? null : new Date(Date.parse(createdAt) + minutes * 60_000).toISOString();
+}
+
+type SlaFields = Pick<HazardReport, "status" | "dueAt" | "reviewedAt">;
+
+// Milliseconds left until review is due (negative once overdue), or null when the
+// report has been reviewed or has no deadline
+export function slaRemaining(report: SlaFields, now = Date.now()) {
+  if (report.reviewedAt !== null || report.status !== "unverified" || report.dueAt === null) return null;
+  return Date.parse(report.dueAt) - now;
+}
+
+// A report waiting for review and past its deadline
+export function isOverdue(report: SlaFields, now = Date.now()) {
+  const remaining = slaRemaining(report, now);
+  return remaining !== null && remaining <= 0;
+}
+
+// "45s", "12m", "3h 5m", "2d 4h"
+export function formatSlaDuration(ms: number) {
+  const minutes = Math.floor(Math.abs(ms) / 60_000);
+  if (minutes < 1) return `${Math.floor(Math.abs(ms) / 1000)}s`;
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+  return hours % 24 ? `${Math.floor(hours / 24)}d ${hours % 24}h` : `${Math.floor(hours / 24)}d`;
+}
+
+export interface SlaSeverityMetrics {
+  reviewed: number; // reports with a deadline that have been reviewed
+  onTime: number; // of those, reviewed by their deadline
+  waiting: number; // still New with a deadline
+  overdue: number; // of those, past it
+}
+
+export interface SlaMetrics extends SlaSeverityMetrics {
+  compliance: number | null; // onTime / reviewed, null before any review
+  medianReviewMinutes: number | null;
+  bySeverity: Record<HazardSeverity, SlaSeverityMetrics>;
+}
+
+// Compliance over the reports that carry a deadline; reports without one are left out
+export function slaMetrics(reports: ReportSummary[], now = Date.now()): SlaMetrics {
+  const empty = (): SlaSeverityMetrics => ({ reviewed: 0, onTime: 0, waiting: 0, overdue: 0 });
+  const bySeverity = Object.fromEntries(HAZARD_SEVERITIES.map((s) => [s, empty()])) as Record<
+    HazardSeverity,
+    SlaSeverityMetrics
+  >;
+  const totals = empty();
+  const reviewMinutes: number[] = [];
+  for (const r of reports) {
+    if (r.dueAt === null) continue;
+    const counts = [totals, bySeverity[r.severity]];
+    if (r.reviewedAt !== null) {
+      const onTime = Date.parse(r.reviewedAt) <= Date.parse(r.dueAt);
+      for (const c of counts) {
+        c.reviewed++;
+        if (onTime) c.onTime++;
+      }
+      reviewMinutes.push((Date.parse(r.reviewedAt) - Date.parse(r.createdAt)) / 60_000);
+    } else if (r.status === "unverified") {
+      const overdue = isOverdue(r, now);
+      for (const c of counts) {
+        c.waiting++;
+        if (overdue) c.overdue++;
+      }
+    }
+  }
+  reviewMinutes.sort((a, b) => a - b);
+  const middle = reviewMinutes.length / 2;
+  const median =
+    reviewMinutes.length === 0
+      ? null
+      : reviewMinutes.length % 2
+        ? reviewMinutes[Math.floor(middle)]
+        : (reviewMinutes[middle - 1] + reviewMinutes[middle]) / 2;
+  return {
+    ...totals,
+    compliance: totals.reviewed ? totals.onTime / totals.reviewed : null,
+    medianReviewMinutes: median,
+    bySeverity,
+  };
+}
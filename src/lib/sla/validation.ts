@@ -0,0 +1,46 @@
+import { z } from "zod";
+import { HAZARD_SEVERITIES } from "@/lib/reports/hazard-report";
+import { ANY_HAZARD_TYPE, slaTargetSchema } from "./sla";
+
+// Up to a week; longer is not a review deadline
+const MAX_SLA_MINUTES = 7 * 24 * 60;
+
+const slaTargetInput = slaTargetSchema.extend({
+  hazardType: z
+    .string()
+    .trim()
+    .min(1)
+    .max(64)
+    .transform((type) => (type === ANY_HAZARD_TYPE ? type : type.toLowerCase().replace(/\s+/g, "_"))),
+  minutes: slaTargetSchema.shape.minutes.max(MAX_SLA_MINUTES, "Targets can be at most 7 days"),
+});
+
+// The whole set replaces the current one; every severity needs a target for any type
+// so each report gets a deadline
+export const replaceSlaTargetsInput = z
+  .object({ targets: z.array(slaTargetInput).max(200) })
+  .superRefine(({ targets }, ctx) => {
+    const seen = new Set<string>();
+    for (const [i, t] of targets.entries()) {
+      const key = `${t.hazardType}:${t.severity}`;
+      if (seen.has(key)) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["targets", i],
+          message: "Each type and severity may only have one target",
+        });
+      }
+      seen.add(key);
+    }
+    for (const severity of HAZARD_SEVERITIES) {
+      if (!seen.has(`${ANY_HAZARD_TYPE}:${severity}`)) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["targets"],
+          message: `Set a target for ${severity} reports of any hazard type`,
+        });
+      }
+    }
+  });
+
+export type ReplaceSlaTargetsInput = z.input<typeof replaceSlaTargetsInput>;
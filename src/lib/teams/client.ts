@@ -0,0 +1,20 @@
+import { request } from "@/lib/http";
+import { reviewerSchema, teamSchema, type Reviewer, type Team } from "./team";
+import type { CreateTeamInput } from "./validation";
+
+export async function fetchTeams(): Promise<{ teams: Team[]; reviewers: Reviewer[] }> {
+  const { teams, reviewers } = await request<{ teams: unknown; reviewers: unknown }>("/api/teams");
+  return { teams: teamSchema.array().parse(teams), reviewers: reviewerSchema.array().parse(reviewers) };
+}
+
+export async function createTeam(input: CreateTeamInput): Promise<Team> {
+  const { team } = await request<{ team: Team }>("/api/teams", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+  return team;
+}
+
+export async function deleteTeam(id: string): Promise<void> {
+  await request<void>(`/api/teams/${encodeURIComponent(id)}`, { method: "DELETE" });
+}
@@ -0,0 +1,71 @@
+import { randomUUID } from "node:crypto";
+import { asc, eq } from "drizzle-orm";
+import { db } from "@/db";
+import { teams, user, type TeamRow } from "@/db/schema";
+import type { AuditActor } from "@/lib/audit/audit-entry";
+import { appendAudit } from "@/lib/audit/repository";
+import { resolvePermissions } from "@/lib/auth/permissions";
+import type { Reviewer, Team } from "./team";
+import type { CreateTeamInput } from "./validation";
+
+export class TeamNameTakenError extends Error {
+  constructor(readonly teamName: string) {
+    super(`A team named "${teamName}" already exists`);
+    this.name = "TeamNameTakenError";
+  }
+}
+
+function toTeam({ createdAt: _createdAt, ...row }: TeamRow): Team {
+  return row;
+}
+
+export async function listTeams(): Promise<Team[]> {
+  const rows = await db.select().from(teams).orderBy(asc(teams.name));
+  return rows.map(toTeam);
+}
+
+export async function listReviewers(): Promise<Reviewer[]> {
+  const rows = await db.select().from(user).where(eq(user.status, "active")).orderBy(asc(user.name));
+  return rows
+    .filter((row) => resolvePermissions(row).includes("reports.write"))
+    .map((row) => ({ id: row.id, name: row.name, teamId: row.teamId }));
+}
+
+export async function createTeam(input: CreateTeamInput, actor: AuditActor): Promise<Team> {
+  return db.transaction(async (tx) => {
+    const [existing] = await tx.select({ id: teams.id }).from(teams).where(eq(teams.name, input.name));
+    if (existing) throw new TeamNameTakenError(input.name);
+    const [row] = await tx
+      .insert(teams)
+      .values({
+        id: `TM-${randomUUID().slice(0, 8).toUpperCase()}`,
+        name: input.name,
+        createdAt: new Date().toISOString(),
+      })
+      .returning();
+    await appendAudit(tx, {
+      subjectType: "team",
+      subjectId: row!.id,
+      action: "team.create",
+      actor,
+      after: { name: row!.name },
+    });
+    return toTeam(row!);
+  });
+}
+
+// Members and reports assigned to the team are left without one
+export async function deleteTeam(id: string, actor: AuditActor): Promise<boolean> {
+  return db.transaction(async (tx) => {
+    const [row] = await tx.delete(teams).where(eq(teams.id, id)).returning();
+    if (!row) return false;
+    await appendAudit(tx, {
+      subjectType: "team",
+      subjectId: id,
+      action: "team.delete",
+      actor,
+      before: { name: row.name },
+    });
+    return true;
+  });
+}
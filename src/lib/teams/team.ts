@@ -0,0 +1,19 @@
+import { z } from "zod";
+
+// Reviewer teams and the people reports can be assigned to. Team membership is set
+// per user from System Settings.
+
+export const teamSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+});
+
+// An active user who may update reports
+export const reviewerSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  teamId: z.string().nullable(),
+});
+
+export type Team = z.infer<typeof teamSchema>;
+export type Reviewer = z.infer<typeof reviewerSchema>;
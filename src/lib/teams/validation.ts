@@ -0,0 +1,7 @@
+import { z } from "zod";
+
+export const createTeamInput = z.object({
+  name: z.string().trim().min(1, "Name the team").max(80),
+});
+
+export type CreateTeamInput = z.infer<typeof createTeamInput>;
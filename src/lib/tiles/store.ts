@@ -0,0 +1,87 @@
+import { readdir, readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { createClient, type Client } from "@libsql/client";
+
+// Map tiles served from local disk for control rooms without internet access.
+// TILES_DIR (default ./tiles) holds MBTiles files (`<name>.mbtiles`) and XYZ
+// directories (`<name>/<z>/<x>/<y>.png`); each becomes a source named after it.
+
+const TILES_DIR = path.resolve(process.env.TILES_DIR ?? "tiles");
+
+const SOURCE_NAME = /^[A-Za-z0-9_-]+$/;
+
+const XYZ_EXTENSIONS = { png: "image/png", jpg: "image/jpeg", jpeg: "image/jpeg", webp: "image/webp" } as const;
+
+export type TileSourceFormat = "mbtiles" | "xyz";
+
+export interface Tile {
+  bytes: Uint8Array;
+  type: string;
+}
+
+export async function listTileSources(): Promise<{ name: string; format: TileSourceFormat }[]> {
+  const entries = await readdir(TILES_DIR, { withFileTypes: true }).catch(() => []);
+  const sources: { name: string; format: TileSourceFormat }[] = [];
+  for (const entry of entries) {
+    if (entry.isFile() && entry.name.endsWith(".mbtiles")) {
+      const name = entry.name.slice(0, -".mbtiles".length);
+      if (SOURCE_NAME.test(name)) sources.push({ name, format: "mbtiles" });
+    } else if (entry.isDirectory() && SOURCE_NAME.test(entry.name)) {
+      sources.push({ name: entry.name, format: "xyz" });
+    }
+  }
+  return sources.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// MBTiles stores raster tiles as PNG, JPEG or WebP; the bytes say which
+function imageType(bytes: Uint8Array) {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50) return "image/png";
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return "image/jpeg";
+  if (bytes[0] === 0x52 && bytes[8] === 0x57) return "image/webp";
+  return "application/octet-stream";
+}
+
+const mbtiles = new Map<string, Client>();
+
+function openMBTiles(file: string) {
+  let client = mbtiles.get(file);
+  if (!client) {
+    client = createClient({ url: `file:${file}` });
+    mbtiles.set(file, client);
+  }
+  return client;
+}
+
+async function exists(file: string) {
+  return stat(file).then(
+    (s) => s.isFile(),
+    () => false
+  );
+}
+
+// Null when the source or the tile does not exist
+export async function readTile(source: string, z: number, x: number, y: number): Promise<Tile | null> {
+  if (!SOURCE_NAME.test(source)) return null;
+  if (![z, x, y].every(Number.isInteger) || z < 0 || z > 24 || x < 0 || y < 0 || x >= 2 ** z || y >= 2 ** z) {
+    return null;
+  }
+
+  const file = path.join(TILES_DIR, `${source}.mbtiles`);
+  if (await exists(file)) {
+    // MBTiles rows are in TMS order, counting y from the bottom
+    const { rows } = await openMBTiles(file).execute({
+      sql: "SELECT tile_data FROM tiles WHERE zoom_level = ? AND tile_column = ? AND tile_row = ?",
+      args: [z, x, 2 ** z - 1 - y],
+    });
+    const data = rows[0]?.tile_data;
+    if (!(data instanceof ArrayBuffer)) return null;
+    const bytes = new Uint8Array(data);
+    return { bytes, type: imageType(bytes) };
+  }
+
+  for (const [ext, type] of Object.entries(XYZ_EXTENSIONS)) {
+    const bytes = await readFile(path.join(TILES_DIR, source, String(z), String(x), `${y}.${ext}`)).catch(() => null);
+    if (bytes) return { bytes: new Uint8Array(bytes), type };
+  }
+  return null;
+}
@@ -0,0 +1,16 @@
+import { request } from "@/lib/http";
+import { managedUserSchema, type ManagedUser } from "./user";
+import type { UpdateUserInput } from "./validation";
+
+export async function fetchUsers(): Promise<ManagedUser[]> {
+  const { users } = await request<{ users: unknown }>("/api/users");
+  return managedUserSchema.array().parse(users);
+}
+
+export async function updateUser(id: string, patch: UpdateUserInput): Promise<ManagedUser> {
+  const { user } = await request<{ user: ManagedUser }>(`/api/users/${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    body: JSON.stringify(patch),
+  });
+  return user;
+}
@@ -0,0 +1,54 @@
+import { asc, eq } from "drizzle-orm";
+import { db } from "@/db";
+import { session, teams, user, type UserRow } from "@/db/schema";
+import { parsePermissions, resolvePermissions } from "@/lib/auth/permissions";
+import type { ManagedUser } from "./user";
+import type { UpdateUserInput } from "./validation";
+
+function toManagedUser(row: UserRow): ManagedUser {
+  return {
+    id: row.id,
+    name: row.name,
+    email: row.email,
+    role: row.role,
+    permissions: resolvePermissions(row),
+    customPermissions: parsePermissions(row.permissions) !== null,
+    status: row.status,
+    teamId: row.teamId,
+  };
+}
+
+export class UnknownTeamError extends Error {
+  constructor(readonly teamId: string) {
+    super(`Team ${teamId} not found`);
+    this.name = "UnknownTeamError";
+  }
+}
+
+export async function listUsers(): Promise<ManagedUser[]> {
+  const rows = await db.select().from(user).orderBy(asc(user.name));
+  return rows.map(toManagedUser);
+}
+
+export async function updateUser(id: string, patch: UpdateUserInput): Promise<ManagedUser | null> {
+  const { permissions, ...fields } = patch;
+  if (fields.teamId) {
+    const [team] = await db.select({ id: teams.id }).from(teams).where(eq(teams.id, fields.teamId));
+    if (!team) throw new UnknownTeamError(fields.teamId);
+  }
+  const [row] = await db
+    .update(user)
+    .set({
+      ...fields,
+      ...(permissions !== undefined
+        ? { permissions: permissions === null ? null : JSON.stringify(permissions) }
+        : {}),
+      updatedAt: new Date(),
+    })
+    .where(eq(user.id, id))
+    .returning();
+  if (!row) return null;
+  // Disabling an account ends its sessions immediately
+  if (row.status === "disabled") await db.delete(session).where(eq(session.userId, id));
+  return toManagedUser(row);
+}
@@ -0,0 +1,18 @@
+import { z } from "zod";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import { ROLES, USER_STATUSES } from "@/lib/auth/roles";
+
+// Portal accounts as managed from SystemSettings; permissions are already resolved.
+
+export const managedUserSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  email: z.email(),
+  role: z.enum(ROLES),
+  permissions: z.array(z.enum(PERMISSIONS)),
+  customPermissions: z.boolean(), // false when following the role defaults
+  status: z.enum(USER_STATUSES),
+  teamId: z.string().nullable(), // the reviewer team they work in
+});
+
+export type ManagedUser = z.infer<typeof managedUserSchema>;
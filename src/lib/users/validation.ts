@@ -0,0 +1,15 @@
+import { z } from "zod";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import { ROLES, USER_STATUSES } from "@/lib/auth/roles";
+
+export const updateUserInput = z
+  .object({
+    role: z.enum(ROLES),
+    // null resets the user to the defaults of their role
+    permissions: z.array(z.enum(PERMISSIONS)).nullable(),
+    status: z.enum(USER_STATUSES),
+    teamId: z.string().min(1).nullable(), // null takes the user off their team
+  })
+  .partial();
+
+export type UpdateUserInput = z.infer<typeof updateUserInput>;
@@ -0,0 +1,20 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getSessionCookie } from "better-auth/cookies";
+
+// Optimistic gate on the session cookie. Routes and pages still validate the
+// session itself; this only keeps signed-out visitors away from the portal.
+export function middleware(request: NextRequest) {
+  if (getSessionCookie(request)) return NextResponse.next();
+
+  const { pathname, search } = request.nextUrl;
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+  const loginUrl = new URL("/login", request.url);
+  if (pathname !== "/") loginUrl.searchParams.set("next", `${pathname}${search}`);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: ["/((?!login|submit|api/auth|api/intake|_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)"],
+};
@@ -0,0 +1,20 @@
+// gifenc ships without type declarations; only the parts used by lib/map/replay-gif.ts
+declare module "gifenc" {
+  export type Palette = number[][];
+
+  export interface GIFFrameOptions {
+    palette?: Palette;
+    delay?: number; // ms
+    repeat?: number; // -1 once, 0 forever
+  }
+
+  export interface GIFEncoderStream {
+    writeFrame(index: Uint8Array, width: number, height: number, options?: GIFFrameOptions): void;
+    finish(): void;
+    bytes(): Uint8Array<ArrayBuffer>;
+  }
+
+  export function GIFEncoder(): GIFEncoderStream;
+  export function quantize(rgba: Uint8Array | Uint8ClampedArray, maxColors: number): Palette;
+  export function applyPalette(rgba: Uint8Array | Uint8ClampedArray, palette: Palette): Uint8Array;
+}